@@ -1,18 +1,24 @@
 import Phaser from 'phaser';
 import { Player } from './Player';
+import { WalkabilityGrid } from '../systems/WalkabilityGrid';
+import { Pathfinder, PathNode } from '../systems/Pathfinder';
+import { loadNPCRegistry, resolveSchedule, NPCActivity, NPCScheduleEntry } from '../systems/NPCRegistry';
+import { RandomStream, getRandomStream } from '../systems/RandomSystem';
+import { GameEventBus, getGameEvents } from '../systems/GameEvents';
+import { getInputBindings } from '../systems/InputBindings';
+
+// Exit from the current location, as shared by MarketScene
+interface TransitionZone {
+  x: number;
+  y: number;
+  targetLocation: string;
+  label: string;
+}
 
 /**
  * NPC - Non-player characters in 16th century Goa
  * Includes merchants, officials, and other denizens of the marketplace
  */
-// NPC Schedule entry
-interface ScheduleEntry {
-  hour: number;
-  location: string;
-  activity: 'trading' | 'walking' | 'resting' | 'praying' | 'drinking';
-  position?: { x: number; y: number };
-}
-
 export class NPC extends Phaser.GameObjects.Sprite {
   private npcId: string = '';
   private npcName: string;
@@ -28,15 +34,38 @@ export class NPC extends Phaser.GameObjects.Sprite {
   private hasAvailableQuest = false;
   private animationsCreated = false;
   private idleTimer = 0;
+  // Idle wandering draws from the shared 'npc' stream
+  private random: RandomStream;
+  private gameEvents: GameEventBus;
 
   // Schedule system
-  private schedule: ScheduleEntry[] = [];
+  private schedule: NPCScheduleEntry[] = [];
   private currentActivity: string = 'trading';
   private homeLocation: string = 'ribeira_grande';
+  private faction: string | null = null;
   private isMovingToTarget = false;
   private targetPosition: { x: number; y: number } | null = null;
   private moveSpeed = 30;
 
+  // Route following - tiles still to walk, from the shared pathfinder
+  private path: PathNode[] = [];
+  private pathGoal: PathNode | null = null;
+  private blockedTime = 0;
+  private detourAttempted = false;
+  private stallTile: PathNode | null = null;
+  // Set when the NPC is walking to an exit to leave the location
+  private leavingVia: TransitionZone | null = null;
+  // The exit the NPC left by while it is away in another location
+  private awayVia: TransitionZone | null = null;
+  // Schedule moves wait a moment so everyone doesn't set off at once
+  private pendingDestination: PathNode | null = null;
+  private departureDelay = 0;
+  // How long to wait for someone blocking the way before routing round them
+  private static readonly REPATH_DELAY = 600;
+  private static readonly GIVE_UP_DELAY = 4000;
+  // The sprite is placed 16px above the centre of the tile it stands on
+  private static readonly FOOT_OFFSET = 16;
+
   // NPC type to character texture mapping
   private static readonly textureMap: { [key: string]: string } = {
     'npc_portuguese': 'char_portuguese_merchant_medium_0',
@@ -44,6 +73,7 @@ export class NPC extends Phaser.GameObjects.Sprite {
     'npc_arab': 'char_arab_middleman_medium_0',
     'npc_official': 'char_crown_official_medium_0',
     'npc_sailor': 'char_sailor_medium_0',
+    'npc_captain': 'char_sailor_medium_0',
     'npc_monk': 'char_franciscan_monk_medium_0',
     'npc_soldier': 'char_portuguese_soldier_medium_0',
     'npc_porter': 'char_dock_porter_medium_0',
@@ -83,6 +113,8 @@ export class NPC extends Phaser.GameObjects.Sprite {
     this.npcName = name;
     this.npcType = type;
     this.goods = goods;
+    this.random = getRandomStream(scene, 'npc');
+    this.gameEvents = getGameEvents(scene);
 
     scene.add.existing(this);
 
@@ -104,180 +136,132 @@ export class NPC extends Phaser.GameObjects.Sprite {
     this.initializeSchedule();
 
     // Listen for time changes
-    this.scene.events.on('hourChange', this.onHourChange, this);
+    this.gameEvents.on('hourChange', this.onHourChange, this);
   }
 
   /**
-   * Initialize NPC schedule based on their type and role
+   * Start with the schedule shared by this NPC's type (npc-schedules.json);
+   * named NPCs get their own through setSchedule
    */
   private initializeSchedule(): void {
-    // Default schedule for merchants - at market during trading hours
-    switch (this.npcType) {
-      case 'npc_portuguese':
-      case 'npc_hindu':
-      case 'npc_arab':
-        // Merchants: trade in morning and evening, rest in afternoon
-        this.schedule = [
-          { hour: 7, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 8, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 9, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 10, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 11, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 12, location: 'ribeira_grande', activity: 'resting' },
-          { hour: 13, location: 'ribeira_grande', activity: 'resting' },
-          { hour: 14, location: 'ribeira_grande', activity: 'resting' },
-          { hour: 15, location: 'ribeira_grande', activity: 'resting' },
-          { hour: 16, location: 'ribeira_grande', activity: 'walking' },
-          { hour: 17, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 18, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 19, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 20, location: 'tavern', activity: 'drinking' },
-          { hour: 21, location: 'tavern', activity: 'drinking' },
-        ];
-        break;
+    this.schedule = loadNPCRegistry().getTypeSchedule(this.npcType);
+  }
 
-      case 'npc_official':
-        // Officials: work at customs/alfandega
-        this.schedule = [
-          { hour: 7, location: 'ribeira_grande', activity: 'walking' },
-          { hour: 8, location: 'alfandega', activity: 'trading' },
-          { hour: 9, location: 'alfandega', activity: 'trading' },
-          { hour: 10, location: 'alfandega', activity: 'trading' },
-          { hour: 11, location: 'alfandega', activity: 'trading' },
-          { hour: 12, location: 'alfandega', activity: 'resting' },
-          { hour: 13, location: 'ribeira_grande', activity: 'walking' },
-          { hour: 14, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 15, location: 'alfandega', activity: 'trading' },
-          { hour: 16, location: 'alfandega', activity: 'trading' },
-          { hour: 17, location: 'alfandega', activity: 'trading' },
-          { hour: 18, location: 'ribeira_grande', activity: 'walking' },
-        ];
-        break;
+  /**
+   * Handle hour change - update NPC activity based on schedule
+   * NPCs due elsewhere walk to the exit for that location and leave; NPCs
+   * due back return through the exit they left by and walk to their spot.
+   */
+  private onHourChange(timeData: { hour: number }): void {
+    const entry = resolveSchedule(this.schedule, timeData.hour, this.homeLocation);
+    this.currentActivity = entry.activity;
+
+    const currentLocation = this.scene.registry.get('currentLocation') || 'ribeira_grande';
+    if (entry.location !== currentLocation) {
+      // Off to another location, or indoors for the night
+      if (!this.awayVia && !this.leavingVia) {
+        this.headForExit(entry.location);
+      }
+      return;
+    }
 
-      case 'npc_sailor':
-        // Sailors: at docks during day, tavern at night
-        this.schedule = [
-          { hour: 6, location: 'docks', activity: 'trading' },
-          { hour: 7, location: 'docks', activity: 'trading' },
-          { hour: 8, location: 'docks', activity: 'trading' },
-          { hour: 9, location: 'docks', activity: 'trading' },
-          { hour: 10, location: 'ribeira_grande', activity: 'walking' },
-          { hour: 11, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 12, location: 'tavern', activity: 'drinking' },
-          { hour: 13, location: 'tavern', activity: 'drinking' },
-          { hour: 14, location: 'docks', activity: 'trading' },
-          { hour: 15, location: 'docks', activity: 'trading' },
-          { hour: 16, location: 'docks', activity: 'trading' },
-          { hour: 17, location: 'tavern', activity: 'drinking' },
-          { hour: 18, location: 'tavern', activity: 'drinking' },
-          { hour: 19, location: 'tavern', activity: 'drinking' },
-          { hour: 20, location: 'tavern', activity: 'drinking' },
-        ];
-        break;
+    if (this.awayVia) {
+      this.returnFromAway();
+    }
+    this.leavingVia = null;
 
-      case 'npc_monk':
-        // Monks: prayer and cathedral
-        this.schedule = [
-          { hour: 5, location: 'se_cathedral', activity: 'praying' },
-          { hour: 6, location: 'se_cathedral', activity: 'praying' },
-          { hour: 7, location: 'se_cathedral', activity: 'praying' },
-          { hour: 8, location: 'ribeira_grande', activity: 'walking' },
-          { hour: 9, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 10, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 11, location: 'se_cathedral', activity: 'praying' },
-          { hour: 12, location: 'se_cathedral', activity: 'praying' },
-          { hour: 13, location: 'se_cathedral', activity: 'resting' },
-          { hour: 14, location: 'old_quarter', activity: 'walking' },
-          { hour: 15, location: 'old_quarter', activity: 'trading' },
-          { hour: 16, location: 'ribeira_grande', activity: 'walking' },
-          { hour: 17, location: 'se_cathedral', activity: 'praying' },
-          { hour: 18, location: 'se_cathedral', activity: 'praying' },
-        ];
-        break;
+    // Wanderers pick their own spots; everyone else goes to their post
+    if (entry.activity !== 'walking') {
+      const destination = entry.position ?? this.stallTile;
+      if (destination && (destination.x !== this.tileX || destination.y !== this.tileY)) {
+        this.scheduleDeparture(destination);
+      }
+    }
+  }
 
-      case 'npc_porter':
-        // Porters: at docks and warehouse
-        this.schedule = [
-          { hour: 6, location: 'docks', activity: 'trading' },
-          { hour: 7, location: 'docks', activity: 'trading' },
-          { hour: 8, location: 'warehouse_district', activity: 'trading' },
-          { hour: 9, location: 'warehouse_district', activity: 'trading' },
-          { hour: 10, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 11, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 12, location: 'ribeira_grande', activity: 'resting' },
-          { hour: 13, location: 'docks', activity: 'trading' },
-          { hour: 14, location: 'docks', activity: 'trading' },
-          { hour: 15, location: 'warehouse_district', activity: 'trading' },
-          { hour: 16, location: 'warehouse_district', activity: 'trading' },
-          { hour: 17, location: 'docks', activity: 'trading' },
-          { hour: 18, location: 'tavern', activity: 'drinking' },
-        ];
-        break;
+  /**
+   * Walk to the exit that leads towards a location, then leave
+   */
+  private headForExit(location: string | null): void {
+    const zones = (this.scene.registry.get('transitionZones') as TransitionZone[] | undefined) ?? [];
+    const exit = zones.find(zone => zone.targetLocation === location) ?? this.findNearestZone(zones);
 
-      case 'npc_soldier':
-        // Soldiers: patrol routes
-        this.schedule = [
-          { hour: 6, location: 'docks', activity: 'walking' },
-          { hour: 7, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 8, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 9, location: 'alfandega', activity: 'trading' },
-          { hour: 10, location: 'alfandega', activity: 'trading' },
-          { hour: 11, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 12, location: 'ribeira_grande', activity: 'resting' },
-          { hour: 13, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 14, location: 'docks', activity: 'trading' },
-          { hour: 15, location: 'docks', activity: 'trading' },
-          { hour: 16, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 17, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 18, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 19, location: 'old_quarter', activity: 'walking' },
-          { hour: 20, location: 'ribeira_grande', activity: 'trading' },
-        ];
-        break;
+    if (!exit) {
+      // Nowhere to walk to - just slip away
+      this.leaveLocation(null);
+      return;
+    }
 
-      default:
-        // Default: stay at market
-        this.schedule = [
-          { hour: 7, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 8, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 9, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 17, location: 'ribeira_grande', activity: 'trading' },
-          { hour: 18, location: 'ribeira_grande', activity: 'trading' },
-        ];
+    this.leavingVia = exit;
+    this.scheduleDeparture({ x: exit.x, y: exit.y });
+  }
+
+  private findNearestZone(zones: TransitionZone[]): TransitionZone | null {
+    let nearest: TransitionZone | null = null;
+    let nearestDistance = Infinity;
+    for (const zone of zones) {
+      const distance = Math.abs(zone.x - this.tileX) + Math.abs(zone.y - this.tileY);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = zone;
+      }
     }
+    return nearest;
+  }
+
+  private scheduleDeparture(destination: PathNode): void {
+    this.pendingDestination = destination;
+    this.departureDelay = this.random.next() * 2000;
   }
 
   /**
-   * Handle hour change - update NPC activity based on schedule
+   * Hide the NPC while its schedule has it in another location
    */
-  private onHourChange(timeData: { hour: number }): void {
-    // Find schedule entry for current hour
-    const entry = this.schedule.find(s => s.hour === timeData.hour);
-    if (entry) {
-      this.currentActivity = entry.activity;
-
-      // Check if NPC should move to a different location
-      const currentLocation = this.scene.registry.get('currentLocation') || 'ribeira_grande';
-      if (entry.location !== currentLocation) {
-        // NPC should be in a different location - they'll "disappear" from here
-        // This is handled by the location system checking NPC schedules
-      }
+  private leaveLocation(exit: TransitionZone | null): void {
+    this.leavingVia = null;
+    this.awayVia = exit ?? { x: this.tileX, y: this.tileY, targetLocation: '', label: '' };
+    this.stopMoving();
+    this.getPathfinder()?.removeOccupant(this);
+
+    this.isPlayerNear = false;
+    this.setVisible(false);
+    this.disableInteractive();
+    this.nameText.setVisible(false);
+    this.interactionPrompt.setVisible(false);
+    this.questIndicator?.setVisible(false);
+  }
+
+  /**
+   * Bring the NPC back in through the exit it left by
+   */
+  private returnFromAway(): void {
+    const exit = this.awayVia;
+    this.awayVia = null;
+    if (!exit) return;
+
+    this.placeOnTile(exit.x, exit.y);
+    this.setVisible(true);
+    this.setInteractive({ useHandCursor: true });
+    this.nameText.setVisible(true);
+    this.questIndicator?.setVisible(this.hasAvailableQuest);
+  }
+
+  private placeOnTile(tileX: number, tileY: number): void {
+    const grid = this.getWalkabilityGrid();
+    if (grid) {
+      const pos = grid.tileToScreen(tileX, tileY);
+      this.setPosition(pos.x, pos.y - NPC.FOOT_OFFSET);
     }
+    this.tileX = tileX;
+    this.tileY = tileY;
+    this.getPathfinder()?.setOccupant(this, tileX, tileY);
   }
 
   /**
    * Check if NPC should be visible at current location and time
    */
   public shouldBeVisibleAt(location: string, hour: number): boolean {
-    const entry = this.schedule.find(s => s.hour === hour);
-    if (!entry) {
-      // No schedule entry - default to home location during market hours
-      if (hour >= 7 && hour <= 19) {
-        return location === this.homeLocation;
-      }
-      return false;
-    }
-    return entry.location === location;
+    return resolveSchedule(this.schedule, hour, this.homeLocation).location === location;
   }
 
   /**
@@ -287,6 +271,13 @@ export class NPC extends Phaser.GameObjects.Sprite {
     return this.currentActivity;
   }
 
+  /**
+   * Set the activity directly, e.g. when spawning an NPC mid-schedule
+   */
+  public setActivity(activity: NPCActivity): void {
+    this.currentActivity = activity;
+  }
+
   /**
    * Set NPC home location
    */
@@ -297,10 +288,22 @@ export class NPC extends Phaser.GameObjects.Sprite {
   /**
    * Set custom schedule for this NPC
    */
-  public setSchedule(schedule: ScheduleEntry[]): void {
+  public setSchedule(schedule: NPCScheduleEntry[]): void {
     this.schedule = schedule;
   }
 
+  public getHomeLocation(): string {
+    return this.homeLocation;
+  }
+
+  public setFaction(factionId: string | null): void {
+    this.faction = factionId;
+  }
+
+  public getFaction(): string | null {
+    return this.faction;
+  }
+
   public setNpcId(id: string): void {
     this.npcId = id;
     // Check for quests immediately
@@ -324,7 +327,7 @@ export class NPC extends Phaser.GameObjects.Sprite {
   }
 
   private createInteractionPrompt(): void {
-    this.interactionPrompt = this.scene.add.text(this.x, this.y - 50, '[E] Talk', {
+    this.interactionPrompt = this.scene.add.text(this.x, this.y - 50, `[${getInputBindings().getLabel('interact')}] Talk`, {
       fontFamily: 'Georgia, serif',
       fontSize: '10px',
       color: '#FFD700',
@@ -395,9 +398,31 @@ export class NPC extends Phaser.GameObjects.Sprite {
     this.clearTint();
   }
 
+  /**
+   * Set the tile the NPC was placed on; the first placement is its stall,
+   * which it walks back to when its schedule returns it to work
+   */
   public setTilePosition(x: number, y: number): void {
     this.tileX = x;
     this.tileY = y;
+    if (!this.stallTile) {
+      this.stallTile = { x, y };
+    }
+    this.getPathfinder()?.setOccupant(this, x, y);
+  }
+
+  /**
+   * Set the tile the NPC returns to when working, if not where it spawned
+   */
+  public setStallTile(x: number, y: number): void {
+    this.stallTile = { x, y };
+  }
+
+  /**
+   * Whether the NPC is currently off in another location
+   */
+  public isAway(): boolean {
+    return this.awayVia !== null;
   }
 
   public getTilePosition(): { x: number; y: number } {
@@ -405,6 +430,8 @@ export class NPC extends Phaser.GameObjects.Sprite {
   }
 
   update(_time: number, delta: number): void {
+    if (this.awayVia) return;
+
     // Update name label position
     this.nameText.setPosition(this.x, this.y - 35);
     this.interactionPrompt.setPosition(this.x, this.y - 50);
@@ -415,10 +442,20 @@ export class NPC extends Phaser.GameObjects.Sprite {
     }
 
     // Periodically check for quests (every few seconds)
-    if (Math.random() < 0.01) {
+    if (this.random.next() < 0.01) {
       this.checkForQuests();
     }
 
+    // Set off on a scheduled move once the departure delay has passed
+    if (this.pendingDestination) {
+      this.departureDelay -= delta;
+      if (this.departureDelay <= 0) {
+        const destination = this.pendingDestination;
+        this.pendingDestination = null;
+        this.walkToTile(destination.x, destination.y);
+      }
+    }
+
     // Handle movement if NPC is walking to a target
     if (this.isMovingToTarget && this.targetPosition) {
       this.updateMovement(delta);
@@ -436,35 +473,169 @@ export class NPC extends Phaser.GameObjects.Sprite {
 
   /**
    * Update NPC movement towards target
+   * With a route, the target is the next tile on it; otherwise it is the
+   * final target, walked to in a straight line.
    */
   private updateMovement(delta: number): void {
     if (!this.targetPosition) return;
 
-    const dx = this.targetPosition.x - this.x;
-    const dy = this.targetPosition.y - this.y;
+    const pathfinder = this.getPathfinder();
+    const waypoint = this.path[0];
+
+    // Wait for whoever is standing on the next tile, then route round them
+    if (pathfinder && waypoint && pathfinder.isOccupied(waypoint.x, waypoint.y, this)) {
+      this.blockedTime += delta;
+      if (this.path.length === 1 || this.blockedTime > NPC.GIVE_UP_DELAY) {
+        // Someone is on our spot (or won't move) - this is close enough
+        this.finishRoute();
+      } else if (this.blockedTime > NPC.REPATH_DELAY && this.pathGoal && !this.detourAttempted) {
+        this.detourAttempted = true;
+        const detour = pathfinder.findPath(
+          { x: this.tileX, y: this.tileY },
+          this.pathGoal,
+          { avoidOccupied: true, occupant: this }
+        );
+        if (detour && detour.length > 0 && !pathfinder.isOccupied(detour[0].x, detour[0].y, this)) {
+          this.followPath(detour);
+        }
+      }
+      return;
+    }
+
+    const target = waypoint ? this.tileToSpritePosition(waypoint) : this.targetPosition;
+    const dx = target.x - this.x;
+    const dy = target.y - this.y;
     const distance = Math.sqrt(dx * dx + dy * dy);
+    const moveAmount = (this.moveSpeed * delta) / 1000;
 
-    if (distance < 5) {
+    if (waypoint && distance <= moveAmount) {
+      // Step onto the next tile of the route
+      this.setPosition(target.x, target.y);
+      this.tileX = waypoint.x;
+      this.tileY = waypoint.y;
+      pathfinder?.setOccupant(this, waypoint.x, waypoint.y);
+      this.path.shift();
+      this.blockedTime = 0;
+      this.detourAttempted = false;
+      if (this.path.length === 0) {
+        this.finishRoute();
+      }
+      return;
+    }
+
+    if (!waypoint && distance < 5) {
       // Reached target
-      this.isMovingToTarget = false;
-      this.targetPosition = null;
+      this.finishRoute();
       return;
     }
 
     // Move towards target
-    const moveAmount = (this.moveSpeed * delta) / 1000;
-    const ratio = moveAmount / distance;
+    const ratio = Math.min(1, moveAmount / distance);
+    let stepX = dx * ratio;
+    let stepY = dy * ratio;
+
+    const grid = this.getWalkabilityGrid();
+    if (grid && !waypoint) {
+      const allowed = grid.resolveMove(this.x, this.y + NPC.FOOT_OFFSET, stepX, stepY);
+      if (allowed.dx === 0 && allowed.dy === 0) {
+        // Boxed in - give up on this target
+        this.finishRoute();
+        return;
+      }
+      stepX = allowed.dx;
+      stepY = allowed.dy;
+    }
 
-    this.x += dx * ratio;
-    this.y += dy * ratio;
+    this.x += stepX;
+    this.y += stepY;
   }
 
   /**
    * Set target position for NPC to walk to
+   * Walks the pathfinder's route through the streets when one is available.
+   * @returns False if the target is on a blocked tile or can't be reached
    */
-  public walkTo(x: number, y: number): void {
+  public walkTo(x: number, y: number): boolean {
+    const grid = this.getWalkabilityGrid();
+    if (grid && !grid.isPointWalkable(x, y + NPC.FOOT_OFFSET)) {
+      return false;
+    }
+
+    if (grid && this.getPathfinder()) {
+      const tile = grid.screenToTile(x, y + NPC.FOOT_OFFSET);
+      return this.walkToTile(tile.x, tile.y);
+    }
+
+    this.path = [];
+    this.pathGoal = null;
     this.targetPosition = { x, y };
     this.isMovingToTarget = true;
+    return true;
+  }
+
+  /**
+   * Walk along the shortest route to a tile
+   * @returns False if there is no route
+   */
+  public walkToTile(tileX: number, tileY: number): boolean {
+    const pathfinder = this.getPathfinder();
+    if (!pathfinder) return false;
+
+    const path = pathfinder.findPath({ x: this.tileX, y: this.tileY }, { x: tileX, y: tileY });
+    if (!path) {
+      console.warn(`NPC: No route for ${this.npcName} to tile ${tileX},${tileY}`);
+      if (this.leavingVia) {
+        this.leaveLocation(this.leavingVia);
+      }
+      return false;
+    }
+
+    this.followPath(path);
+    if (path.length === 0) {
+      this.finishRoute();
+    }
+    return true;
+  }
+
+  private followPath(path: PathNode[]): void {
+    this.path = path;
+    this.pathGoal = path.length > 0 ? path[path.length - 1] : null;
+    this.blockedTime = 0;
+    this.detourAttempted = false;
+    this.targetPosition = this.pathGoal ? this.tileToSpritePosition(this.pathGoal) : null;
+    this.isMovingToTarget = this.targetPosition !== null;
+  }
+
+  private finishRoute(): void {
+    const exit = this.leavingVia;
+    this.stopMoving();
+    if (exit) {
+      this.leaveLocation(exit);
+    }
+  }
+
+  private stopMoving(): void {
+    this.path = [];
+    this.pathGoal = null;
+    this.blockedTime = 0;
+    this.isMovingToTarget = false;
+    this.targetPosition = null;
+    this.pendingDestination = null;
+  }
+
+  private tileToSpritePosition(tile: PathNode): { x: number; y: number } {
+    const grid = this.getWalkabilityGrid();
+    if (!grid) return { x: this.x, y: this.y };
+    const pos = grid.tileToScreen(tile.x, tile.y);
+    return { x: pos.x, y: pos.y - NPC.FOOT_OFFSET };
+  }
+
+  private getPathfinder(): Pathfinder | undefined {
+    return this.scene?.registry.get('pathfinder') as Pathfinder | undefined;
+  }
+
+  private getWalkabilityGrid(): WalkabilityGrid | undefined {
+    return this.scene.registry.get('walkabilityGrid') as WalkabilityGrid | undefined;
   }
 
   /**
@@ -475,9 +646,9 @@ export class NPC extends Phaser.GameObjects.Sprite {
     switch (this.currentActivity) {
       case 'walking':
         // Occasional random movement when walking
-        if (Math.random() < 0.001 && !this.isMovingToTarget) {
-          const offsetX = (Math.random() - 0.5) * 40;
-          const offsetY = (Math.random() - 0.5) * 20;
+        if (this.random.next() < 0.001 && !this.isMovingToTarget) {
+          const offsetX = (this.random.next() - 0.5) * 40;
+          const offsetY = (this.random.next() - 0.5) * 20;
           this.walkTo(this.x + offsetX, this.y + offsetY);
         }
         break;
@@ -548,7 +719,7 @@ export class NPC extends Phaser.GameObjects.Sprite {
 
     // Occasional idle variation (look around)
     this.idleTimer += delta;
-    if (this.idleTimer > 5000 + Math.random() * 3000) {
+    if (this.idleTimer > 5000 + this.random.next() * 3000) {
       this.idleTimer = 0;
       // Could add look-around behavior here
     }
@@ -587,17 +758,19 @@ export class NPC extends Phaser.GameObjects.Sprite {
       }
       
       // Emit event for quest progress tracking
-      this.scene.events.emit('npcInteraction', { npcId: this.npcId, npcName: this.npcName });
+      this.gameEvents.emit('npcInteraction', { npcId: this.npcId, npcName: this.npcName });
     }
 
-    // First check if NPC has quests to offer
+    // First check if NPC has quests to offer; quests already under way are
+    // carried on in conversation
     if (this.hasAvailableQuest && this.npcId) {
       const questSystem = this.scene.registry.get('questSystem');
       if (questSystem) {
-        const availableQuests = questSystem.getQuestsFromNPC?.(this.npcId) || [];
+        const availableQuests = (questSystem.getQuestsFromNPC?.(this.npcId) || [])
+          .filter((quest: { id: string }) => !questSystem.isQuestActive?.(quest.id));
         if (availableQuests.length > 0) {
           // Emit quest offer event for UI to handle
-          this.scene.events.emit('questOffer', {
+          this.gameEvents.emit('questOffer', {
             npcId: this.npcId,
             npcName: this.npcName,
             quests: availableQuests,
@@ -612,16 +785,18 @@ export class NPC extends Phaser.GameObjects.Sprite {
     if (dialogueSystem) {
       // Store current NPC info in registry for dialogue system to use
       this.scene.registry.set('currentDialogueNPC', {
+        id: this.npcId,
         name: this.npcName,
         type: this.npcType,
         goods: this.goods,
       });
       // Start dialogue using the NPC type and name
-      dialogueSystem.startDialogue(this.npcType, this.npcName);
+      dialogueSystem.startDialogue(this.npcType, this.npcName, this.npcId);
     } else {
       // Fallback: open trade panel directly for NPCs with goods
       if (this.goods.length > 0) {
-        this.scene.events.emit('openTrade', {
+        this.gameEvents.emit('openTrade', {
+          npcId: this.npcId,
           npcName: this.npcName,
           goods: this.goods,
         });
@@ -677,7 +852,8 @@ export class NPC extends Phaser.GameObjects.Sprite {
 
   public destroy(fromScene?: boolean): void {
     // Remove event listeners
-    this.scene.events.off('hourChange', this.onHourChange, this);
+    this.gameEvents.off('hourChange', this.onHourChange, this);
+    this.getPathfinder()?.removeOccupant(this);
 
     // Clean up child objects
     if (this.nameText) {
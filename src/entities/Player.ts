@@ -1,18 +1,23 @@
 import Phaser from 'phaser';
+import { WalkabilityGrid } from '../systems/WalkabilityGrid';
+import { GameEventBus, getGameEvents } from '../systems/GameEvents';
+import { InputAction, InputBindings, getInputBindings, readGamepadDirections } from '../systems/InputBindings';
 
 /**
  * Player - The player character representing a trader in 16th century Goa
  * Handles movement, animation, and interaction with the game world
  */
 export class Player extends Phaser.GameObjects.Sprite {
-  private cursors!: Phaser.Types.Input.Keyboard.CursorKeys;
-  private wasd!: { W: Phaser.Input.Keyboard.Key; A: Phaser.Input.Keyboard.Key; S: Phaser.Input.Keyboard.Key; D: Phaser.Input.Keyboard.Key };
+  private bindings: InputBindings = getInputBindings();
   private speed = 100;
+  // The sprite is placed 16px above the centre of the tile it stands on
+  private static readonly FOOT_OFFSET = 16;
   private tileX = 0;
   private tileY = 0;
   private isMoving = false;
   private direction: 'up' | 'down' | 'left' | 'right' | 'up-left' | 'up-right' | 'down-left' | 'down-right' = 'down';
   private animationsCreated = false;
+  private gameEvents: GameEventBus;
 
   // Inventory and resources
   private gold = 100;
@@ -29,6 +34,7 @@ export class Player extends Phaser.GameObjects.Sprite {
 
   constructor(scene: Phaser.Scene, x: number, y: number) {
     super(scene, x, y, 'player');
+    this.gameEvents = getGameEvents(scene);
     
     scene.add.existing(this);
     scene.physics.add.existing(this);
@@ -38,26 +44,10 @@ export class Player extends Phaser.GameObjects.Sprite {
     body.setCollideWorldBounds(true);
     body.setSize(16, 8);
     body.setOffset(8, 40);
-
-    // Set up input
-    this.setupInput();
-  }
-
-  private setupInput(): void {
-    // Cursor keys
-    this.cursors = this.scene.input.keyboard!.createCursorKeys();
-    
-    // WASD keys
-    this.wasd = {
-      W: this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.W),
-      A: this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.A),
-      S: this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.S),
-      D: this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.D),
-    };
   }
 
-  update(_time: number, _delta: number): void {
-    this.handleMovement();
+  update(_time: number, delta: number): void {
+    this.handleMovement(delta);
     this.updateAnimation();
   }
 
@@ -153,17 +143,21 @@ export class Player extends Phaser.GameObjects.Sprite {
     }
   }
 
-  private handleMovement(): void {
+  private handleMovement(delta: number): void {
     const body = this.body as Phaser.Physics.Arcade.Body;
     
     // Reset velocity
     body.setVelocity(0);
 
-    // Check input for 8-directional movement
-    const up = this.cursors.up.isDown || this.wasd.W.isDown;
-    const down = this.cursors.down.isDown || this.wasd.S.isDown;
-    const left = this.cursors.left.isDown || this.wasd.A.isDown;
-    const right = this.cursors.right.isDown || this.wasd.D.isDown;
+    // Check input for 8-directional movement. The d-pad and left stick move
+    // the player too. In a conversation the player stands still; the d-pad's
+    // button presses choose a response, and the stick does nothing.
+    const talking = this.scene.registry.get('dialogueSystem')?.isDialogueActive?.() ?? false;
+    const pad = readGamepadDirections(this.scene.input.gamepad?.pad1);
+    const up = !talking && (this.isActionDown('moveUp') || pad.up);
+    const down = !talking && (this.isActionDown('moveDown') || pad.down);
+    const left = !talking && (this.isActionDown('moveLeft') || pad.left);
+    const right = !talking && (this.isActionDown('moveRight') || pad.right);
 
     // Isometric movement requires diagonal screen movement
     // for cardinal tile directions
@@ -208,6 +202,15 @@ export class Player extends Phaser.GameObjects.Sprite {
       this.direction = 'right';
     }
 
+    // Keep the player's feet on walkable tiles, sliding along blocked edges
+    const grid = this.scene.registry.get('walkabilityGrid') as WalkabilityGrid | undefined;
+    if (grid && delta > 0 && (velocityX !== 0 || velocityY !== 0)) {
+      const seconds = delta / 1000;
+      const allowed = grid.resolveMove(this.x, this.y + Player.FOOT_OFFSET, velocityX * seconds, velocityY * seconds);
+      velocityX = allowed.dx / seconds;
+      velocityY = allowed.dy / seconds;
+    }
+
     body.setVelocity(velocityX, velocityY);
     this.isMoving = velocityX !== 0 || velocityY !== 0;
 
@@ -215,6 +218,16 @@ export class Player extends Phaser.GameObjects.Sprite {
     this.updateTilePosition();
   }
 
+  /**
+   * Whether any key bound to an action is held down
+   */
+  private isActionDown(action: InputAction): boolean {
+    const keyboard = this.scene.input.keyboard;
+    if (!keyboard) return false;
+    // addKey returns the key already added for a code, so rebinding needs no new keys set up
+    return this.bindings.getKeyCodes(action).some(code => keyboard.addKey(code).isDown);
+  }
+
   private updateTilePosition(): void {
     // Convert screen position to tile position
     // Uses 2x scale tile dimensions for Ultima 8 style
@@ -256,13 +269,13 @@ export class Player extends Phaser.GameObjects.Sprite {
 
   public addGold(amount: number): void {
     this.gold += amount;
-    this.scene.events.emit('goldChange', this.gold);
+    this.gameEvents.emit('goldTotal', this.gold);
   }
 
   public removeGold(amount: number): boolean {
     if (this.gold >= amount) {
       this.gold -= amount;
-      this.scene.events.emit('goldChange', this.gold);
+      this.gameEvents.emit('goldTotal', this.gold);
       return true;
     }
     return false;
@@ -285,7 +298,7 @@ export class Player extends Phaser.GameObjects.Sprite {
       this.inventory.push({ item, quantity });
     }
     
-    this.scene.events.emit('inventoryChange', this.getInventory());
+    this.gameEvents.emit('inventoryChange', this.getInventory());
     return true;
   }
 
@@ -300,7 +313,7 @@ export class Player extends Phaser.GameObjects.Sprite {
       this.inventory = this.inventory.filter(i => i.item !== item);
     }
 
-    this.scene.events.emit('inventoryChange', this.getInventory());
+    this.gameEvents.emit('inventoryChange', this.getInventory());
     return true;
   }
 
@@ -328,13 +341,13 @@ export class Player extends Phaser.GameObjects.Sprite {
 
     if (Math.floor(this.skills[skill]) > Math.floor(oldValue)) {
       // Skill level increased (whole number)
-      this.scene.events.emit('skillUp', {
+      this.gameEvents.emit('skillUp', {
         skill,
         newLevel: Math.floor(this.skills[skill]),
       });
     }
 
-    this.scene.events.emit('skillChange', {
+    this.gameEvents.emit('skillChange', {
       skill,
       value: this.skills[skill],
     });
@@ -400,7 +413,7 @@ export class Player extends Phaser.GameObjects.Sprite {
    */
   public setMaxCarryCapacity(capacity: number): void {
     this.maxCarryCapacity = capacity;
-    this.scene.events.emit('capacityChange', { current: this.getCarryCapacity().current, max: capacity });
+    this.gameEvents.emit('capacityChange', { current: this.getCarryCapacity().current, max: capacity });
   }
 
   /**
@@ -415,7 +428,7 @@ export class Player extends Phaser.GameObjects.Sprite {
    */
   public setGold(amount: number): void {
     this.gold = amount;
-    this.scene.events.emit('goldChange', this.gold);
+    this.gameEvents.emit('goldTotal', this.gold);
   }
 
   /**
@@ -450,9 +463,9 @@ export class Player extends Phaser.GameObjects.Sprite {
     this.maxCarryCapacity = data.maxCarryCapacity ?? 20;
 
     // Emit events to update UI
-    this.scene.events.emit('goldChange', this.gold);
-    this.scene.events.emit('inventoryChange', this.getInventory());
-    this.scene.events.emit('capacityChange', { current: this.getCarryCapacity().current, max: this.maxCarryCapacity });
+    this.gameEvents.emit('goldTotal', this.gold);
+    this.gameEvents.emit('inventoryChange', this.getInventory());
+    this.gameEvents.emit('capacityChange', { current: this.getCarryCapacity().current, max: this.maxCarryCapacity });
   }
 
   /**
@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { loadGoodsCatalog } from '../systems/GoodsCatalog';
 
 /**
  * TradePost - A location where trading can occur
@@ -17,19 +18,23 @@ export class TradePost extends Phaser.GameObjects.Container {
     x: number,
     y: number,
     name: string,
-    initialGoods?: { item: string; quantity: number; basePrice: number }[]
+    initialGoods?: { item: string; quantity: number; basePrice?: number }[]
   ) {
     super(scene, x, y);
     
     this.postName = name;
     scene.add.existing(this);
 
-    // Initialize goods
+    // Initialize goods - only goods in the catalogue can be stocked
     if (initialGoods) {
       for (const good of initialGoods) {
+        if (!loadGoodsCatalog().has(good.item)) {
+          console.warn(`TradePost: Unknown good ${good.item} at ${name}`);
+          continue;
+        }
         this.goods.set(good.item, {
           quantity: good.quantity,
-          basePrice: good.basePrice,
+          basePrice: good.basePrice ?? this.getCatalogPrice(good.item),
         });
       }
     }
@@ -136,7 +141,7 @@ export class TradePost extends Phaser.GameObjects.Container {
       // Create new entry for this good
       this.goods.set(item, {
         quantity: 1,
-        basePrice: price,
+        basePrice: this.getCatalogPrice(item) || price,
       });
     }
 
@@ -144,12 +149,12 @@ export class TradePost extends Phaser.GameObjects.Container {
     return { success: true, price };
   }
 
-  public addStock(item: string, quantity: number, basePrice: number): void {
+  public addStock(item: string, quantity: number, basePrice?: number): void {
     const existing = this.goods.get(item);
     if (existing) {
       existing.quantity += quantity;
     } else {
-      this.goods.set(item, { quantity, basePrice });
+      this.goods.set(item, { quantity, basePrice: basePrice ?? this.getCatalogPrice(item) });
     }
     this.updateGoodsDisplay();
   }
@@ -159,6 +164,10 @@ export class TradePost extends Phaser.GameObjects.Container {
     return good !== undefined && good.quantity > 0;
   }
 
+  private getCatalogPrice(item: string): number {
+    return loadGoodsCatalog().get(item)?.basePrice ?? 0;
+  }
+
   public getStockLevel(item: string): number {
     const good = this.goods.get(item);
     return good ? good.quantity : 0;
@@ -3,6 +3,7 @@ import { BootScene } from './scenes/BootScene';
 import { IntroScene } from './scenes/IntroScene';
 import { MainMenuScene } from './scenes/MainMenuScene';
 import { MarketScene } from './scenes/MarketScene';
+import { SettingsScene } from './scenes/SettingsScene';
 import { UIScene } from './scenes/UIScene';
 
 // Game configuration
@@ -20,7 +21,11 @@ const config: Phaser.Types.Core.GameConfig = {
       debug: false,
     },
   },
-  scene: [BootScene, IntroScene, MainMenuScene, MarketScene, UIScene],
+  // Gamepads move the player, work the menus and answer in conversations
+  input: {
+    gamepad: true,
+  },
+  scene: [BootScene, IntroScene, MainMenuScene, MarketScene, UIScene, SettingsScene],
   scale: {
     mode: Phaser.Scale.FIT,
     autoCenter: Phaser.Scale.CENTER_BOTH,
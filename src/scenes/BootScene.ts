@@ -4,6 +4,12 @@ import { TileGenerator } from '../art/generators/TileGenerator';
 import { CharacterGenerator, CharacterType, SkinTone } from '../art/generators/CharacterGenerator';
 import { BuildingGenerator, BuildingType, MarketStallVariant } from '../art/generators/BuildingGenerator';
 import { UIGenerator } from '../art/generators/UIGenerator';
+import { loadGoodsCatalog, GoodIconShape } from '../systems/GoodsCatalog';
+import { loadNPCRegistry } from '../systems/NPCRegistry';
+import { loadDialogueLibrary } from '../systems/DialogueLibrary';
+import { loadCalendar } from '../systems/Calendar';
+import { loadSkillTree } from '../systems/SkillTree';
+import { getGameSettings } from '../systems/GameSettings';
 
 /**
  * BootScene - Handles procedural asset generation and initialization
@@ -321,6 +327,7 @@ export class BootScene extends Phaser.Scene {
       // Initialize audio system and generate placeholder sounds
       this.audioSystem = new AudioSystem(this);
       this.audioSystem.generatePlaceholderAudio();
+      getGameSettings().applyVolumes(this.audioSystem);
 
       // Store audio system in registry for other scenes to access
       this.registry.set('audioSystem', this.audioSystem);
@@ -342,9 +349,10 @@ export class BootScene extends Phaser.Scene {
     let stageIndex = 0;
 
     try {
-      // Stage 1: Core palette/utilities
+      // Stage 1: Core palette/utilities and game data
       console.log('BootScene: Stage 1 - Preparing palette...');
       this.updateProgress(0, LOADING_STAGES[stageIndex].message);
+      this.validateGameData();
       await this.delay(100);
       this.completedWeight += LOADING_STAGES[stageIndex].weight;
       stageIndex++;
@@ -392,8 +400,31 @@ export class BootScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Check the data files the game is built from before generating anything
+   * A broken goods.json, NPC, dialogue, calendar or perks file stops the boot with its schema errors in the console
+   */
+  private validateGameData(): void {
+    const sources: Array<[string, string[]]> = [
+      ['goods.json', loadGoodsCatalog().getErrors()],
+      ['NPC data', loadNPCRegistry().getErrors()],
+      ['Dialogue data', loadDialogueLibrary().getErrors()],
+      ['calendar.json', loadCalendar().getErrors()],
+      ['perks.json', loadSkillTree().getErrors()],
+    ];
+
+    for (const [source, errors] of sources) {
+      if (errors.length > 0) {
+        for (const error of errors) {
+          console.error(`BootScene: ${error}`);
+        }
+        throw new Error(`${source} has ${errors.length} schema error(s)`);
+      }
+    }
+  }
+
   private async generateTiles(): Promise<void> {
-    const tileGenerator = new TileGenerator(this);
+    const tileGenerator = new TileGenerator(this, undefined, getGameSettings().get().quality);
 
     // Generate all tile types
     tileGenerator.generateAllTiles();
@@ -830,7 +861,7 @@ export class BootScene extends Phaser.Scene {
   }
 
   private async generateCharacters(): Promise<void> {
-    const charGenerator = new CharacterGenerator(this);
+    const charGenerator = new CharacterGenerator(this, getGameSettings().get().quality);
 
     // Generate player character
     charGenerator.generateCharacter({
@@ -1133,22 +1164,17 @@ export class BootScene extends Phaser.Scene {
   }
 
   private generateTradeGoodsIcons(): void {
-    // Generate trade goods icons using the UIGenerator approach
-    this.createGoodIcon('good_pepper', 0x2c1810, 'pepper');
-    this.createGoodIcon('good_cinnamon', 0x8b4513, 'cinnamon');
-    this.createGoodIcon('good_cloves', 0x4a1c1c, 'cloves');
-    this.createGoodIcon('good_silk', 0xc19a6b, 'silk');
-    this.createGoodIcon('good_porcelain', 0xf5e6d3, 'porcelain');
-    this.createGoodIcon('good_nutmeg', 0x8b4513, 'nutmeg');
-    this.createGoodIcon('good_ginger', 0xd4a574, 'ginger');
-    this.createGoodIcon('good_indigo', 0x1e3a5f, 'indigo');
+    // One icon per good in goods.json, drawn from its icon colour and shape
+    for (const good of loadGoodsCatalog().getAll()) {
+      this.createGoodIcon(good.id, parseInt(good.icon.color.slice(1), 16), good.icon.shape);
+    }
   }
 
-  private createGoodIcon(key: string, color: number, type: string): void {
+  private createGoodIcon(key: string, color: number, shape: GoodIconShape): void {
     const graphics = this.make.graphics({ x: 0, y: 0 });
 
-    switch (type) {
-      case 'pepper':
+    switch (shape) {
+      case 'seeds':
         graphics.fillStyle(color, 1);
         graphics.fillCircle(12, 12, 10);
         graphics.fillStyle(0x0a0a0a, 1);
@@ -1159,7 +1185,7 @@ export class BootScene extends Phaser.Scene {
         graphics.lineStyle(2, 0x0a0a0a, 1);
         graphics.strokeCircle(12, 12, 10);
         break;
-      case 'cinnamon':
+      case 'bark':
         graphics.fillStyle(color, 1);
         graphics.fillRect(4, 8, 16, 8);
         graphics.fillStyle(0x6b3503, 1);
@@ -1169,14 +1195,14 @@ export class BootScene extends Phaser.Scene {
         graphics.fillCircle(4, 12, 4);
         graphics.fillCircle(20, 12, 4);
         break;
-      case 'cloves':
+      case 'bud':
         graphics.fillStyle(color, 1);
         graphics.fillCircle(12, 14, 6);
         graphics.fillRect(11, 4, 2, 10);
         graphics.lineStyle(1, 0x2c1810, 1);
         graphics.strokeCircle(12, 14, 6);
         break;
-      case 'silk':
+      case 'cloth':
         graphics.fillStyle(color, 1);
         graphics.fillRect(4, 6, 16, 12);
         graphics.fillStyle(0xffd700, 0.3);
@@ -1184,7 +1210,7 @@ export class BootScene extends Phaser.Scene {
         graphics.lineStyle(2, 0x2c1810, 1);
         graphics.strokeRect(4, 6, 16, 12);
         break;
-      case 'porcelain':
+      case 'ceramic':
         graphics.fillStyle(color, 1);
         graphics.fillCircle(12, 14, 8);
         graphics.fillRect(10, 4, 4, 6);
@@ -1193,7 +1219,7 @@ export class BootScene extends Phaser.Scene {
         graphics.lineStyle(1, 0x2c1810, 1);
         graphics.strokeCircle(12, 14, 8);
         break;
-      case 'nutmeg':
+      case 'nut':
         graphics.fillStyle(color, 1);
         graphics.fillEllipse(12, 12, 14, 10);
         graphics.fillStyle(0xff6633, 0.6);
@@ -1201,7 +1227,7 @@ export class BootScene extends Phaser.Scene {
         graphics.lineStyle(1, 0x2c1810, 1);
         graphics.strokeEllipse(12, 12, 14, 10);
         break;
-      case 'ginger':
+      case 'root':
         graphics.fillStyle(color, 1);
         graphics.fillCircle(10, 12, 6);
         graphics.fillCircle(16, 10, 5);
@@ -1209,7 +1235,7 @@ export class BootScene extends Phaser.Scene {
         graphics.lineStyle(1, 0x8b4513, 0.5);
         graphics.strokeCircle(10, 12, 6);
         break;
-      case 'indigo':
+      case 'block':
         graphics.fillStyle(color, 1);
         graphics.fillRect(4, 6, 16, 12);
         graphics.fillStyle(0x0a1a3f, 0.5);
@@ -1224,7 +1250,7 @@ export class BootScene extends Phaser.Scene {
   }
 
   private async generateBuildings(): Promise<void> {
-    const buildingGenerator = new BuildingGenerator(this);
+    const buildingGenerator = new BuildingGenerator(this, getGameSettings().get().quality);
 
     // Generate all building types
     const buildingTypes: BuildingType[] = [
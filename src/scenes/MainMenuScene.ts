@@ -1,6 +1,15 @@
 import Phaser from 'phaser';
 import { IntroArtGenerator } from '../art/generators/IntroArtGenerator';
 import { GOLD, WATER_HARBOR, WOOD_DARK } from '../art/palette';
+import {
+  INPUT_ACTIONS,
+  InputAction,
+  KEYS_PER_ACTION,
+  getGamepadAction,
+  getInputBindings,
+  getKeyLabel,
+} from '../systems/InputBindings';
+import { SaveSlotInfo, SaveSystem } from '../systems/SaveSystem';
 
 /**
  * MainMenuScene - Atmospheric late 90s RPG-style main menu
@@ -13,6 +22,9 @@ import { GOLD, WATER_HARBOR, WOOD_DARK } from '../art/palette';
  * - Torch flicker effects
  * - Beveled metal menu buttons
  * - Dust particle ambiance
+ * - Save slots: load, export to a file, import from one
+ * - Controls: rebind the key behind each action
+ * - Settings: volumes, art quality and accessibility (see SettingsScene)
  *
  * Inspired by: Baldur's Gate, Diablo II menu screens
  */
@@ -23,6 +35,10 @@ export class MainMenuScene extends Phaser.Scene {
   private selectedIndex = 0;
   private menuItems: Phaser.GameObjects.Container[] = [];
   private hasSaveData = false;
+  private isControlsOpen = false;
+  // The saves or credits dialog, if one is open: its buttons in the order the keys and pad step through them
+  private activeDialog: { buttons: Phaser.GameObjects.Text[]; focusIndex: number; close: () => void } | null = null;
+  private saveSystem!: SaveSystem;
   private artGenerator!: IntroArtGenerator;
   private dustParticles!: Phaser.GameObjects.Particles.ParticleEmitter;
   private torchLights: Phaser.GameObjects.PointLight[] = [];
@@ -33,6 +49,7 @@ export class MainMenuScene extends Phaser.Scene {
 
   create(): void {
     // Check for existing save data
+    this.saveSystem = new SaveSystem(this);
     this.hasSaveData = this.checkForSaveData();
 
     // Initialize art generator
@@ -62,20 +79,24 @@ export class MainMenuScene extends Phaser.Scene {
     // Play ambient sound if available
     this.playAmbientSound();
 
+    // Phaser does not call shutdown() itself
+    this.events.once('shutdown', this.shutdown, this);
+
     // Fade in
     this.cameras.main.fadeIn(800, 0, 0, 0);
   }
 
   private checkForSaveData(): boolean {
-    try {
-      const autoSave = localStorage.getItem('goa_trade_autosave');
-      const manualSave1 = localStorage.getItem('goa_trade_save_1');
-      const manualSave2 = localStorage.getItem('goa_trade_save_2');
-      const manualSave3 = localStorage.getItem('goa_trade_save_3');
-      return autoSave !== null || manualSave1 !== null || manualSave2 !== null || manualSave3 !== null;
-    } catch {
-      return false;
-    }
+    return this.saveSystem.getSaveSlots().some(slot => slot.exists);
+  }
+
+  /**
+   * The most recent save that can be loaded, for Continue
+   */
+  private getLatestSave(): SaveSlotInfo | undefined {
+    return this.saveSystem.getSaveSlots()
+      .filter(slot => slot.exists && this.saveSystem.getSlotErrors(slot.slotId).length === 0)
+      .sort((a, b) => b.timestamp - a.timestamp)[0];
   }
 
   private createAtmosphericBackground(): void {
@@ -326,18 +347,20 @@ export class MainMenuScene extends Phaser.Scene {
     const width = this.cameras.main.width;
     const height = this.cameras.main.height;
 
-    this.menuContainer = this.add.container(width / 2, height / 2 + 40);
+    this.menuContainer = this.add.container(width / 2, height / 2 + 10);
 
     const menuOptions = [
       { text: 'New Game', action: () => this.startNewGame() },
       { text: 'Continue', action: () => this.continueGame(), enabled: this.hasSaveData },
+      { text: 'Saves', action: () => this.openSaves() },
       { text: 'Settings', action: () => this.openSettings() },
+      { text: 'Controls', action: () => this.openControls() },
       { text: 'Credits', action: () => this.showCredits() },
     ];
 
     menuOptions.forEach((option, index) => {
       const isEnabled = option.enabled !== false;
-      const yOffset = index * 55;
+      const yOffset = index * 52;
 
       const buttonContainer = this.add.container(0, yOffset);
 
@@ -366,6 +389,8 @@ export class MainMenuScene extends Phaser.Scene {
         hitZone.on('pointerover', () => this.highlightMenuItem(index));
         hitZone.on('pointerout', () => this.unhighlightMenuItem(index));
         hitZone.on('pointerdown', () => {
+          // The dialogs' overlays do not stop the pointer reaching the menu underneath
+          if (this.activeDialog || this.isControlsOpen) return;
           this.pressMenuItem(index);
           option.action();
         });
@@ -486,7 +511,39 @@ export class MainMenuScene extends Phaser.Scene {
   }
 
   private setupInput(): void {
-    this.input.keyboard?.on('keydown-UP', () => {
+    // Menu keys are the bound movement and interact keys, with the d-pad and A on a gamepad
+    this.input.keyboard?.on('keydown', this.onKeyDown, this);
+    this.input.gamepad?.on('down', this.onGamepadDown, this);
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    if (event.repeat) return;
+    // Space confirms too, unless the player has bound it to something else
+    const action = getInputBindings().getAction(event.keyCode)
+      ?? (event.keyCode === Phaser.Input.Keyboard.KeyCodes.SPACE ? 'interact' : undefined);
+    if (action) {
+      this.handleMenuAction(action);
+    }
+  }
+
+  private onGamepadDown(_pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button): void {
+    const action = getGamepadAction(button.index);
+    if (action) {
+      this.handleMenuAction(action);
+    }
+  }
+
+  private handleMenuAction(action: InputAction): void {
+    // The controls and settings screens take every key while they are open
+    if (this.isControlsOpen || this.scene.isActive('SettingsScene')) return;
+
+    // The saves and credits dialogs cover the menu, so their buttons take the keys instead
+    if (this.activeDialog) {
+      this.handleDialogAction(action);
+      return;
+    }
+
+    if (action === 'moveUp') {
       let newIndex = this.selectedIndex - 1;
       while (newIndex >= 0 && !this.menuItems[newIndex].getData('enabled')) {
         newIndex--;
@@ -494,9 +551,7 @@ export class MainMenuScene extends Phaser.Scene {
       if (newIndex >= 0) {
         this.highlightMenuItem(newIndex);
       }
-    });
-
-    this.input.keyboard?.on('keydown-DOWN', () => {
+    } else if (action === 'moveDown') {
       let newIndex = this.selectedIndex + 1;
       while (newIndex < this.menuItems.length && !this.menuItems[newIndex].getData('enabled')) {
         newIndex++;
@@ -504,22 +559,63 @@ export class MainMenuScene extends Phaser.Scene {
       if (newIndex < this.menuItems.length) {
         this.highlightMenuItem(newIndex);
       }
-    });
-
-    this.input.keyboard?.on('keydown-ENTER', () => {
-      const action = this.menuItems[this.selectedIndex].getData('action');
-      if (action) {
+    } else if (action === 'interact') {
+      const menuAction = this.menuItems[this.selectedIndex].getData('action');
+      if (menuAction) {
         this.pressMenuItem(this.selectedIndex);
-        action();
+        menuAction();
       }
+    }
+  }
+
+  /**
+   * Let the keys and gamepad work an open dialog: up/left and down/right
+   * step through its buttons, interact presses the chosen one and menu
+   * closes the dialog
+   */
+  private handleDialogAction(action: InputAction): void {
+    const dialog = this.activeDialog;
+    if (!dialog) return;
+
+    switch (action) {
+      case 'moveUp':
+      case 'moveLeft':
+        this.focusDialogButton(dialog.focusIndex - 1);
+        break;
+      case 'moveDown':
+      case 'moveRight':
+        this.focusDialogButton(dialog.focusIndex + 1);
+        break;
+      case 'interact':
+        dialog.buttons[dialog.focusIndex].emit('pointerdown');
+        break;
+      case 'menu':
+        dialog.close();
+        break;
+    }
+  }
+
+  /**
+   * Take over the menu keys for a dialog until it closes
+   * @param close Destroys the dialog; it must also clear activeDialog
+   */
+  private trackDialog(buttons: Phaser.GameObjects.Text[], close: () => void): void {
+    this.activeDialog = { buttons, focusIndex: 0, close };
+    buttons.forEach((button, index) => {
+      button.on('pointerover', () => this.focusDialogButton(index));
+      // Keep the chosen button lit once the mouse has passed over another
+      button.on('pointerout', () => this.focusDialogButton(this.activeDialog?.focusIndex ?? 0));
     });
+    this.focusDialogButton(0);
+  }
 
-    this.input.keyboard?.on('keydown-SPACE', () => {
-      const action = this.menuItems[this.selectedIndex].getData('action');
-      if (action) {
-        this.pressMenuItem(this.selectedIndex);
-        action();
-      }
+  private focusDialogButton(index: number): void {
+    const dialog = this.activeDialog;
+    if (!dialog || dialog.buttons.length === 0) return;
+
+    dialog.focusIndex = (index + dialog.buttons.length) % dialog.buttons.length;
+    dialog.buttons.forEach((button, i) => {
+      if (button.active) button.setColor(i === dialog.focusIndex ? '#ffd700' : '#c9a227');
     });
   }
 
@@ -590,67 +686,360 @@ export class MainMenuScene extends Phaser.Scene {
   private continueGame(): void {
     if (!this.hasSaveData) return;
 
+    const latest = this.getLatestSave();
+    if (!latest) {
+      // Every save there is fails to load; the saves panel says why
+      this.openSaves();
+      return;
+    }
+
+    this.loadGame(latest.slotId);
+  }
+
+  private loadGame(slotId: string): void {
     this.dustParticles?.stop();
     this.cameras.main.fadeOut(800, 0, 0, 0);
     this.cameras.main.once('camerafadeoutcomplete', () => {
-      this.registry.set('loadSaveOnStart', true);
+      this.registry.set('loadSaveOnStart', slotId);
       this.scene.start('MarketScene');
       this.scene.launch('UIScene');
     });
   }
 
-  private openSettings(): void {
+  /**
+   * Saves panel: every slot with its day, gold and date, or why it cannot
+   * be loaded, and buttons to load it, export it to a file or import a file
+   * over it
+   * @param notice Lines to show under the slots, e.g. why an import failed
+   * @param isError Whether the notice reports a failure
+   */
+  private openSaves(notice: string[] = [], isError = false): void {
     const width = this.cameras.main.width;
     const height = this.cameras.main.height;
+    const objects: Phaser.GameObjects.GameObject[] = [];
+    const buttons: Phaser.GameObjects.Text[] = [];
 
     const overlay = this.add.graphics();
     overlay.fillStyle(0x000000, 0.7);
     overlay.fillRect(0, 0, width, height);
+    objects.push(overlay);
 
     const panel = this.add.graphics();
     panel.fillStyle(0x1a1a2a, 0.95);
-    panel.fillRoundedRect(width / 2 - 150, height / 2 - 100, 300, 200, 10);
+    panel.fillRoundedRect(width / 2 - 290, height / 2 - 190, 580, 380, 10);
     panel.lineStyle(2, GOLD.shadow, 0.8);
-    panel.strokeRoundedRect(width / 2 - 150, height / 2 - 100, 300, 200, 10);
+    panel.strokeRoundedRect(width / 2 - 290, height / 2 - 190, 580, 380, 10);
+    objects.push(panel);
 
-    const settingsTitle = this.add.text(width / 2, height / 2 - 70, 'Settings', {
+    const savesTitle = this.add.text(width / 2, height / 2 - 160, 'Saves', {
       fontFamily: 'Georgia, serif',
       fontSize: '24px',
       color: '#ffd700',
       fontStyle: 'bold',
     });
-    settingsTitle.setOrigin(0.5);
+    savesTitle.setOrigin(0.5);
+    objects.push(savesTitle);
 
-    const comingSoon = this.add.text(width / 2, height / 2, 'Settings coming soon...', {
-      fontFamily: 'Georgia, serif',
-      fontSize: '16px',
-      color: '#a0a0a0',
-      fontStyle: 'italic',
+    const closeDialog = () => {
+      objects.forEach(obj => obj.destroy());
+      this.activeDialog = null;
+    };
+
+    // Reopen with fresh slot details after an import
+    const refresh = (lines: string[], error: boolean) => {
+      closeDialog();
+      this.openSaves(lines, error);
+    };
+
+    const manualSlots = this.saveSystem.getManualSlots();
+    this.saveSystem.getSaveSlots().forEach((slot, index) => {
+      const y = height / 2 - 105 + index * 50;
+      const errors = this.saveSystem.getSlotErrors(slot.slotId);
+      const isSound = slot.exists && errors.length === 0;
+
+      const label = slot.slotId === this.saveSystem.getAutoSaveSlot()
+        ? 'Autosave'
+        : `Slot ${manualSlots.indexOf(slot.slotId) + 1}`;
+      const labelText = this.add.text(width / 2 - 260, y, label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '16px',
+        color: '#c9a227',
+      });
+      labelText.setOrigin(0, 0.5);
+      objects.push(labelText);
+
+      let summary = 'Empty';
+      if (slot.exists && !isSound) {
+        summary = `Damaged: ${errors[0]}`;
+      } else if (slot.exists) {
+        summary = `Day ${slot.dayCount} · ${slot.playerGold} gold · ${new Date(slot.timestamp).toLocaleDateString()}`;
+      }
+      const summaryText = this.add.text(width / 2 - 170, y, summary, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '13px',
+        color: slot.exists && !isSound ? '#d9534f' : '#c0c0c0',
+        fontStyle: slot.exists ? 'normal' : 'italic',
+        wordWrap: { width: 220 },
+      });
+      summaryText.setOrigin(0, 0.5);
+      objects.push(summaryText);
+
+      if (isSound) {
+        buttons.push(this.createDialogButton(width / 2 + 105, y, 'Load', () => {
+          closeDialog();
+          this.loadGame(slot.slotId);
+        }));
+        buttons.push(this.createDialogButton(width / 2 + 170, y, 'Export', () => {
+          if (!this.downloadSave(slot.slotId)) {
+            refresh([`${label} could not be exported`], true);
+          }
+        }));
+      }
+      buttons.push(this.createDialogButton(width / 2 + 240, y, 'Import', () => {
+        this.pickSaveFile(contents => {
+          const result = this.saveSystem.importSlot(slot.slotId, contents);
+          if (result.success) {
+            refresh([`Save file imported into ${label}`], false);
+          } else {
+            refresh([`The file could not be imported into ${label}:`, ...result.errors], true);
+          }
+        });
+      }));
     });
-    comingSoon.setOrigin(0.5);
 
-    const closeBtn = this.add.text(width / 2, height / 2 + 60, '[ Close ]', {
+    if (notice.length > 0) {
+      const noticeText = this.add.text(width / 2, height / 2 + 115, notice.join('\n'), {
+        fontFamily: 'Georgia, serif',
+        fontSize: '13px',
+        color: isError ? '#d9534f' : '#8fbc8f',
+        align: 'center',
+        wordWrap: { width: 520 },
+      });
+      noticeText.setOrigin(0.5);
+      objects.push(noticeText);
+    }
+
+    buttons.push(this.createDialogButton(width / 2, height / 2 + 165, '[ Close ]', closeDialog, '18px'));
+    objects.push(...buttons);
+
+    this.trackDialog(buttons, closeDialog);
+  }
+
+  private createDialogButton(
+    x: number,
+    y: number,
+    label: string,
+    onClick: () => void,
+    fontSize = '15px'
+  ): Phaser.GameObjects.Text {
+    const button = this.add.text(x, y, label, {
       fontFamily: 'Georgia, serif',
-      fontSize: '18px',
+      fontSize,
       color: '#c9a227',
     });
-    closeBtn.setOrigin(0.5);
-    closeBtn.setInteractive({ useHandCursor: true });
-    closeBtn.on('pointerover', () => closeBtn.setColor('#ffd700'));
-    closeBtn.on('pointerout', () => closeBtn.setColor('#c9a227'));
+    button.setOrigin(0.5);
+    button.setInteractive({ useHandCursor: true });
+    button.on('pointerover', () => button.setColor('#ffd700'));
+    button.on('pointerout', () => button.setColor('#c9a227'));
+    button.on('pointerdown', onClick);
+    return button;
+  }
+
+  /**
+   * Hand the browser a slot's save file to download
+   * @returns False if the slot could not be exported
+   */
+  private downloadSave(slotId: string): boolean {
+    const file = this.saveSystem.exportSlot(slotId);
+    if (!file) return false;
+
+    const url = URL.createObjectURL(new Blob([file.contents], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    link.click();
+    // The download starts after click() returns, so the URL must outlive it
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    return true;
+  }
+
+  /**
+   * Ask the player for a save file and pass on its contents
+   */
+  private pickSaveFile(onLoaded: (contents: string) => void): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = [...this.saveSystem.getSaveFileExtensions(), 'application/json'].join(',');
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      file.text()
+        .then(onLoaded)
+        .catch(e => console.error('MainMenuScene: Could not read the save file', e));
+    });
+    input.click();
+  }
+
+  /**
+   * Controls screen: the primary and alternate key of every action. Clicking
+   * a key waits for the next key pressed and binds it; a key taken from
+   * another action is swapped for the one it replaces.
+   * @param notice A line to show under the keys, e.g. why a key was refused
+   * @param isError Whether the notice reports a failure
+   */
+  private openControls(notice = '', isError = false): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+    const bindings = getInputBindings();
+    const objects: Phaser.GameObjects.GameObject[] = [];
+    const top = height / 2 - 290;
+    this.isControlsOpen = true;
+
+    const overlay = this.add.graphics();
+    overlay.fillStyle(0x000000, 0.7);
+    overlay.fillRect(0, 0, width, height);
+    objects.push(overlay);
+
+    const panel = this.add.graphics();
+    panel.fillStyle(0x1a1a2a, 0.95);
+    panel.fillRoundedRect(width / 2 - 290, top, 580, 580, 10);
+    panel.lineStyle(2, GOLD.shadow, 0.8);
+    panel.strokeRoundedRect(width / 2 - 290, top, 580, 580, 10);
+    objects.push(panel);
+
+    const controlsTitle = this.add.text(width / 2, top + 30, 'Controls', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '24px',
+      color: '#ffd700',
+      fontStyle: 'bold',
+    });
+    controlsTitle.setOrigin(0.5);
+    objects.push(controlsTitle);
+
+    ['Key', 'Alternate'].forEach((heading, slot) => {
+      const headingText = this.add.text(width / 2 + 60 + slot * 140, top + 66, heading, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '13px',
+        color: '#8b7355',
+        fontStyle: 'italic',
+      });
+      headingText.setOrigin(0.5);
+      objects.push(headingText);
+    });
+
+    // The key slot waiting for a key press, if any
+    let listening: { action: InputAction; slot: number; button: Phaser.GameObjects.Text } | null = null;
+
+    const status = this.add.text(width / 2, top + 486, notice || 'Click a key to change it', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '13px',
+      color: notice ? (isError ? '#d9534f' : '#8fbc8f') : '#a0a0a0',
+      align: 'center',
+      wordWrap: { width: 520 },
+    });
+    status.setOrigin(0.5);
+    objects.push(status);
 
     const closeDialog = () => {
-      overlay.destroy();
-      panel.destroy();
-      settingsTitle.destroy();
-      comingSoon.destroy();
-      closeBtn.destroy();
+      this.input.keyboard?.off('keydown', onKey);
+      this.input.gamepad?.off('down', onPad);
+      objects.forEach(obj => obj.destroy());
+      this.isControlsOpen = false;
     };
 
-    closeBtn.on('pointerdown', closeDialog);
+    // Reopen with the keys as they now stand
+    const refresh = (line: string, error: boolean) => {
+      closeDialog();
+      this.openControls(line, error);
+    };
 
-    // ESC key to close dialog
-    this.input.keyboard?.once('keydown-ESC', closeDialog);
+    INPUT_ACTIONS.forEach(({ id, label }, index) => {
+      const y = top + 92 + index * 25;
+      const labelText = this.add.text(width / 2 - 240, y, label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '15px',
+        color: '#c9a227',
+      });
+      labelText.setOrigin(0, 0.5);
+      objects.push(labelText);
+
+      const keys = bindings.getKeys(id);
+      for (let slot = 0; slot < KEYS_PER_ACTION; slot++) {
+        const key = keys[slot];
+        const button = this.createDialogButton(width / 2 + 60 + slot * 140, y, key ? getKeyLabel(key) : '-', () => {
+          if (listening) return;
+          listening = { action: id, slot, button };
+          button.setText('...');
+          status.setText(id === 'menu' ? `Press a key for ${label}` : `Press a key for ${label} (Esc to cancel)`);
+          status.setColor('#a0a0a0');
+        });
+        objects.push(button);
+      }
+
+      if (keys.length > 1) {
+        objects.push(this.createDialogButton(width / 2 + 250, y, 'x', () => {
+          if (listening) return;
+          bindings.clearAlternate(id);
+          refresh(`${label} has no alternate key`, false);
+        }, '13px'));
+      }
+    });
+
+    objects.push(this.createDialogButton(width / 2 - 110, top + 540, '[ Reset to defaults ]', () => {
+      if (listening) return;
+      bindings.resetToDefaults();
+      refresh('Keys reset to their defaults', false);
+    }, '18px'));
+    objects.push(this.createDialogButton(width / 2 + 140, top + 540, '[ Close ]', closeDialog, '18px'));
+
+    const gamepadNote = this.add.text(width / 2, top + 510, 'Gamepad: d-pad or left stick to move, A to interact, B or Start to go back', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '12px',
+      color: '#8b7355',
+      fontStyle: 'italic',
+    });
+    gamepadNote.setOrigin(0.5);
+    objects.push(gamepadNote);
+
+    const onKey = (event: KeyboardEvent) => {
+      if (event.repeat) return;
+      if (listening) {
+        const { action, slot } = listening;
+        const label = INPUT_ACTIONS.find(entry => entry.id === action)?.label ?? action;
+        listening = null;
+        // Esc cancels, unless it is the key being given back to going back
+        if (event.keyCode === Phaser.Input.Keyboard.KeyCodes.ESC && action !== 'menu') {
+          refresh('', false);
+          return;
+        }
+        const result = bindings.rebind(action, slot, event.keyCode);
+        if (result.success) {
+          refresh(`${label} is now ${bindings.getKeys(action).map(getKeyLabel).join(' or ')}`, false);
+        } else {
+          refresh(result.error ?? 'That key cannot be bound', true);
+        }
+        return;
+      }
+      if (bindings.getAction(event.keyCode) === 'menu') {
+        closeDialog();
+      }
+    };
+
+    const onPad = (_pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button) => {
+      if (getGamepadAction(button.index) !== 'menu') return;
+      if (listening) {
+        refresh('', false);
+      } else {
+        closeDialog();
+      }
+    };
+
+    this.input.keyboard?.on('keydown', onKey);
+    this.input.gamepad?.on('down', onPad);
+  }
+
+  private openSettings(): void {
+    this.scene.launch('SettingsScene');
   }
 
   private showCredits(): void {
@@ -693,28 +1082,18 @@ export class MainMenuScene extends Phaser.Scene {
     });
     creditsText.setOrigin(0.5);
 
-    const closeBtn = this.add.text(width / 2, height / 2 + 110, '[ Close ]', {
-      fontFamily: 'Georgia, serif',
-      fontSize: '18px',
-      color: '#c9a227',
-    });
-    closeBtn.setOrigin(0.5);
-    closeBtn.setInteractive({ useHandCursor: true });
-    closeBtn.on('pointerover', () => closeBtn.setColor('#ffd700'));
-    closeBtn.on('pointerout', () => closeBtn.setColor('#c9a227'));
-
     const closeDialog = () => {
       overlay.destroy();
       panel.destroy();
       creditsTitle.destroy();
       creditsText.destroy();
       closeBtn.destroy();
+      this.activeDialog = null;
     };
 
-    closeBtn.on('pointerdown', closeDialog);
+    const closeBtn = this.createDialogButton(width / 2, height / 2 + 110, '[ Close ]', closeDialog, '18px');
 
-    // ESC key to close dialog
-    this.input.keyboard?.once('keydown-ESC', closeDialog);
+    this.trackDialog([closeBtn], closeDialog);
   }
 
   private lerpColor(color1: number, color2: number, t: number): number {
@@ -737,11 +1116,9 @@ export class MainMenuScene extends Phaser.Scene {
    * Clean up all event listeners and resources when scene shuts down
    */
   shutdown(): void {
-    // Remove keyboard event listeners
-    this.input.keyboard?.off('keydown-UP');
-    this.input.keyboard?.off('keydown-DOWN');
-    this.input.keyboard?.off('keydown-ENTER');
-    this.input.keyboard?.off('keydown-SPACE');
+    // Remove keyboard and gamepad event listeners
+    this.input.keyboard?.off('keydown', this.onKeyDown, this);
+    this.input.gamepad?.off('down', this.onGamepadDown, this);
 
     // Destroy particle emitter
     if (this.dustParticles) {
@@ -758,5 +1135,8 @@ export class MainMenuScene extends Phaser.Scene {
 
     // Clean up menu items
     this.menuItems = [];
+    this.activeDialog = null;
+
+    this.saveSystem?.destroy();
   }
 }
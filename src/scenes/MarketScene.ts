@@ -7,7 +7,7 @@ import { AtmosphereSystem } from '../systems/AtmosphereSystem';
 import { WorldSystem } from '../systems/WorldSystem';
 import { FactionSystem } from '../systems/FactionSystem';
 import { QuestSystem } from '../systems/QuestSystem';
-import { SaveSystem } from '../systems/SaveSystem';
+import { SaveData, SaveSystem } from '../systems/SaveSystem';
 import { EventSystem } from '../systems/EventSystem';
 import { DialogueSystem } from '../systems/DialogueSystem';
 import { TradeSystem } from '../systems/TradeSystem';
@@ -18,6 +18,20 @@ import { TradeRouteSystem } from '../systems/TradeRouteSystem';
 import { AchievementSystem } from '../systems/AchievementSystem';
 import { ParticleSystem } from '../systems/ParticleSystem';
 import { PostProcessingSystem } from '../systems/PostProcessingSystem';
+import { TiledMapLoader, LocationMap, MapTile } from '../systems/TiledMapLoader';
+import { WalkabilityGrid } from '../systems/WalkabilityGrid';
+import { Pathfinder } from '../systems/Pathfinder';
+import { loadNPCRegistry, NPCScheduleEntry } from '../systems/NPCRegistry';
+import { NPCSimulationSystem, NPCArrivalEvent, SimulatedNPC } from '../systems/NPCSimulationSystem';
+import { HagglingSystem } from '../systems/HagglingSystem';
+import { PriceLedgerSystem } from '../systems/PriceLedgerSystem';
+import { WarehouseSystem } from '../systems/WarehouseSystem';
+import { HarborSystem, MooredShip } from '../systems/HarborSystem';
+import { SkillSystem } from '../systems/SkillSystem';
+import { RandomSystem } from '../systems/RandomSystem';
+import { GameSettingsData, getGameSettings } from '../systems/GameSettings';
+import { InputAction, getGamepadAction, getInputBindings } from '../systems/InputBindings';
+import { GameEventBus, getGameEvents } from '../systems/GameEvents';
 
 // Import rich JSON quest files
 import pepperContractQuest from '../data/quests/the-pepper-contract.json';
@@ -46,14 +60,27 @@ export class MarketScene extends Phaser.Scene {
   private npcMemorySystem!: NPCMemorySystem;
   private tradeRouteSystem!: TradeRouteSystem;
   private achievementSystem!: AchievementSystem;
+  private npcSimulation!: NPCSimulationSystem;
+  private hagglingSystem!: HagglingSystem;
+  private priceLedger!: PriceLedgerSystem;
+  private warehouseSystem!: WarehouseSystem;
+  private harborSystem!: HarborSystem;
+  private skillSystem!: SkillSystem;
+  private randomSystem!: RandomSystem;
   private particleSystem!: ParticleSystem;
   private postProcessing!: PostProcessingSystem;
+  private gameEvents!: GameEventBus;
   private mapWidth = 40;
   private mapHeight = 30;
   private tileWidth = 64;  // 2x scale for Ultima 8 style
   private tileHeight = 32;
   private transitionZones: { x: number; y: number; targetLocation: string; label: string }[] = [];
   private waterTiles: Phaser.GameObjects.Sprite[] = [];
+  // Hull and name label of each ship moored at the docks, by ship id
+  private mooredShipObjects: Map<string, Phaser.GameObjects.GameObject[]> = new Map();
+  private mapLoader = new TiledMapLoader();
+  private currentMap: LocationMap | null = null;
+  private walkabilityGrid: WalkabilityGrid | null = null;
   private isTransitioning = false; // Guard against double transitions
 
   constructor() {
@@ -62,6 +89,12 @@ export class MarketScene extends Phaser.Scene {
 
   create(): void {
     console.log('MarketScene: create() started');
+    this.gameEvents = getGameEvents(this);
+
+    // Seed the simulation before any system draws from it
+    this.randomSystem = new RandomSystem(this.getStartingSeed());
+    this.registry.set(RandomSystem.REGISTRY_KEY, this.randomSystem);
+    console.log(`MarketScene: Random seed ${this.randomSystem.getSeed()}`);
 
     // Initialize core systems
     this.timeSystem = new TimeSystem(this);
@@ -69,6 +102,7 @@ export class MarketScene extends Phaser.Scene {
     this.atmosphereSystem = new AtmosphereSystem(this);
     this.worldSystem = new WorldSystem(this);
     this.factionSystem = new FactionSystem(this);
+    loadNPCRegistry().registerWithFactions(this.factionSystem);
     this.questSystem = new QuestSystem(this);
     this.saveSystem = new SaveSystem(this);
     this.eventSystem = new EventSystem(this);
@@ -77,11 +111,21 @@ export class MarketScene extends Phaser.Scene {
 
     // Initialize new trading and progression systems
     this.tradeSystem = new TradeSystem(this);
+    this.eventSystem.setTradeSystem(this.tradeSystem);
     this.progressionSystem = new ProgressionSystem(this);
     this.contractSystem = new ContractSystem(this);
     this.npcMemorySystem = new NPCMemorySystem(this);
     this.tradeRouteSystem = new TradeRouteSystem(this);
     this.achievementSystem = new AchievementSystem(this);
+    this.npcSimulation = new NPCSimulationSystem(this);
+    const startTime = this.timeSystem.getTimeData();
+    this.npcSimulation.syncToHour(startTime.hour, startTime.dayCount);
+    this.hagglingSystem = new HagglingSystem(this);
+    this.priceLedger = new PriceLedgerSystem(this, this.tradeSystem);
+    this.warehouseSystem = new WarehouseSystem(this);
+    this.harborSystem = new HarborSystem(this);
+    this.eventSystem.setHarborSystem(this.harborSystem);
+    this.skillSystem = new SkillSystem(this);
     this.particleSystem = new ParticleSystem(this, {
       enableDust: true,
       enableFireflies: true,
@@ -89,21 +133,25 @@ export class MarketScene extends Phaser.Scene {
       maxFireflyParticles: 12,
       dustSpawnRate: 1.5,
     });
+    // Both overlays follow the settings; the vignette is off unless chosen,
+    // as AtmosphereSystem already darkens the edges
+    const settings = getGameSettings().get();
     this.postProcessing = new PostProcessingSystem(this, {
-      enableScanlines: true,
+      enableScanlines: settings.scanlines,
       scanlineOpacity: 0.02,   // Very subtle
       scanlineSpacing: 4,      // Less frequent
-      enableVignette: false,   // AtmosphereSystem already has vignette
-      vignetteIntensity: 0,
-      vignetteRadius: 1,
+      enableVignette: settings.vignette,
+      vignetteIntensity: 0.12,
+      vignetteRadius: 0.75,
     });
+    this.timeSystem.setTimeScale(settings.timeScale);
     console.log('MarketScene: systems initialized');
 
     // Create water animation
     this.createWaterAnimation();
 
     // Create the isometric tilemap
-    this.createIsometricMap();
+    this.createIsometricMap('ribeira_grande');
     console.log('MarketScene: map created');
 
     // Create player
@@ -111,7 +159,7 @@ export class MarketScene extends Phaser.Scene {
     console.log('MarketScene: player created');
 
     // Create NPCs
-    this.createNPCs();
+    this.createNPCsForLocation('ribeira_grande');
     console.log('MarketScene: NPCs created');
 
     // Create transition zones to other locations
@@ -131,6 +179,7 @@ export class MarketScene extends Phaser.Scene {
 
     // Set up system event listeners
     this.setupSystemEvents();
+    this.registerSaveSerializers();
 
     // Load and register quests
     this.loadQuests();
@@ -151,13 +200,21 @@ export class MarketScene extends Phaser.Scene {
     this.registry.set('npcMemorySystem', this.npcMemorySystem);
     this.registry.set('tradeRouteSystem', this.tradeRouteSystem);
     this.registry.set('achievementSystem', this.achievementSystem);
+    this.registry.set('npcSimulation', this.npcSimulation);
+    this.registry.set('hagglingSystem', this.hagglingSystem);
+    this.registry.set('priceLedger', this.priceLedger);
+    this.registry.set('warehouseSystem', this.warehouseSystem);
+    this.registry.set('harborSystem', this.harborSystem);
+    this.registry.set('skillSystem', this.skillSystem);
     this.registry.set('currentLocation', 'ribeira_grande');
+    this.registry.set('gameFlags', {});
 
-    // Check if we should load a saved game (set by MainMenuScene continue)
-    if (this.registry.get('loadSaveOnStart')) {
+    // Check if we should load a saved game (set by MainMenuScene: the slot to load, or true for the autosave)
+    const loadSlot = this.registry.get('loadSaveOnStart');
+    if (loadSlot) {
       this.registry.set('loadSaveOnStart', false); // Clear the flag
       this.time.delayedCall(100, () => {
-        const saveData = this.saveSystem.load('autosave');
+        const saveData = this.saveSystem.load(typeof loadSlot === 'string' ? loadSlot : this.saveSystem.getAutoSaveSlot());
         if (saveData) {
           this.applySaveData(saveData);
         }
@@ -167,76 +224,18 @@ export class MarketScene extends Phaser.Scene {
     console.log('MarketScene: create() complete');
   }
 
-  private applySaveData(saveData: any): void {
-    // Apply player data
-    if (saveData.player) {
-      if (typeof saveData.player.gold === 'number') {
-        const currentGold = this.player.getGold();
-        const goldDiff = saveData.player.gold - currentGold;
-        if (goldDiff > 0) {
-          this.player.addGold(goldDiff);
-        } else if (goldDiff < 0) {
-          this.player.removeGold(Math.abs(goldDiff));
-        }
-      }
-
-      if (Array.isArray(saveData.player.inventory)) {
-        // Clear current inventory and add saved items
-        const currentInv = this.player.getInventory();
-        for (const item of currentInv) {
-          this.player.removeFromInventory(item.item, item.quantity);
-        }
-        for (const item of saveData.player.inventory) {
-          this.player.addToInventory(item.item, item.quantity);
-        }
-      }
-    }
-
-    // Apply faction data
-    if (saveData.factions) {
-      this.factionSystem.loadSaveData(saveData.factions);
-    }
-
-    // Apply quest data
-    if (saveData.quests) {
-      this.questSystem.loadSaveData(saveData.quests);
-    }
-
-    // Apply world location
-    if (saveData.world?.currentLocation && saveData.world.currentLocation !== 'ribeira_grande') {
-      this.handleLocationChange(saveData.world.currentLocation);
-    }
-
-    // Apply progression data
-    if (saveData.progression) {
-      this.progressionSystem.loadSaveData(saveData.progression);
-    }
-
-    // Apply contract data
-    if (saveData.contracts) {
-      this.contractSystem.loadSaveData(saveData.contracts);
-    }
-
-    // Apply NPC memory data
-    if (saveData.npcMemories) {
-      this.npcMemorySystem.loadSaveData(saveData.npcMemories);
-    }
-
-    // Apply trade route data
-    if (saveData.tradeRoutes) {
-      this.tradeRouteSystem.loadSaveData(saveData.tradeRoutes);
-    }
-
-    // Apply achievement data
-    if (saveData.achievements) {
-      this.achievementSystem.loadSaveData(saveData.achievements);
-    }
-
-    // Apply player skills
-    if (saveData.player?.skills) {
-      this.player.setSkills(saveData.player.skills);
-    }
+  /**
+   * Seed for a new game: ?seed= in the URL reproduces a run, otherwise a
+   * fresh one
+   */
+  private getStartingSeed(): number {
+    const param = new URLSearchParams(window.location.search).get('seed');
+    const seed = param !== null ? Number(param) : NaN;
+    return Number.isFinite(seed) ? seed : RandomSystem.createSeed();
+  }
 
+  private applySaveData(saveData: SaveData): void {
+    this.saveSystem.restore(saveData);
     console.log('MarketScene: Save data applied');
   }
 
@@ -354,73 +353,44 @@ export class MarketScene extends Phaser.Scene {
     }
   }
 
-  private createIsometricMap(): void {
-    // Map layout definition
-    // 0 = ground, 1 = water, 2 = building, 3 = dock, 4 = market stall
-    const mapData = this.generateMapData();
+  /**
+   * Render a location from its Tiled map
+   * Ground first, then overlay layers (piers, buildings), decor and roofs
+   */
+  private createIsometricMap(locationId: string): void {
+    const location = this.worldSystem.getLocation(locationId);
+    const map = location ? this.mapLoader.load(location.mapFile) : null;
+    if (!map) {
+      console.error(`MarketScene: No map available for ${locationId}`);
+      return;
+    }
 
-    // First pass: identify shoreline positions (water adjacent to land)
-    const shorelineEdges = this.identifyShorelineEdges(mapData);
+    this.currentMap = map;
+    this.mapWidth = map.width;
+    this.mapHeight = map.height;
+
+    // Share walkability with the player and NPCs
+    this.walkabilityGrid = new WalkabilityGrid(
+      map.walkable,
+      this.tileWidth,
+      this.tileHeight,
+      this.cameras.main.width / 2,
+      100
+    );
+    this.registry.set('walkabilityGrid', this.walkabilityGrid);
+    this.registry.set('pathfinder', new Pathfinder(this.walkabilityGrid));
+
+    // Identify shoreline positions (water adjacent to land)
+    const isWater = map.ground.map(row => row.map(tile => !!tile.animationKey));
+    const shorelineEdges = this.identifyShorelineEdges(isWater);
 
-    // Render the map
     for (let y = 0; y < this.mapHeight; y++) {
       for (let x = 0; x < this.mapWidth; x++) {
-        const tileType = mapData[y][x];
+        const tile = map.ground[y][x];
         const screenPos = this.isoToScreen(x, y);
+        const shorelineEdge = shorelineEdges.get(`${x},${y}`);
 
-        let tileKey: string;
-        let isWalkable = true;
-        let isDecorative = false;
-        let useAnimation = false;
-        let animKey = '';
-
-        // Determine tile key based on type code
-        if (tileType >= 0 && tileType <= 3) {
-          // Ground - use location-appropriate tiles
-          tileKey = this.selectGroundTile(x, y, mapData);
-        } else if (tileType === 100) {
-          // Water - use soft water with animation
-          tileKey = this.textures.exists('tile_soft_water_0') ? 'tile_soft_water_0' : 'tile_harbor_water_0';
-          isWalkable = false;
-          useAnimation = true;
-          animKey = this.anims.exists('anim_soft_water') ? 'anim_soft_water' : 'anim_harbor_water';
-        } else if (tileType >= 200 && tileType <= 202) {
-          // Building variants
-          const variant = tileType - 200;
-          tileKey = variant === 0 ? 'tile_building' : `tile_building_${variant}`;
-          isWalkable = false;
-        } else if (tileType === 3) {
-          // Dock - use laterite for authentic Goa look
-          tileKey = this.textures.exists('tile_laterite_worn') ? 'tile_laterite_worn' : 'tile_dock';
-        } else if (tileType >= 400 && tileType <= 403) {
-          // Market stall variants
-          const variant = tileType - 400;
-          tileKey = variant === 0 ? 'tile_market' : `tile_market_${variant}`;
-        } else if (tileType === 800) {
-          // Palm tree - render ground first, then decorative
-          tileKey = this.selectGroundTile(x, y, mapData);
-          isDecorative = true;
-        } else if (tileType === 900) {
-          // Well - render ground first, then decorative
-          tileKey = this.selectGroundTile(x, y, mapData);
-          isDecorative = true;
-        } else if (tileType === 1000) {
-          // Crates - render ground first, then decorative
-          tileKey = this.selectGroundTile(x, y, mapData);
-          isDecorative = true;
-        } else if (tileType === 1100) {
-          // Planter - render ground first, then decorative
-          tileKey = this.selectGroundTile(x, y, mapData);
-          isDecorative = true;
-        } else {
-          tileKey = this.selectGroundTile(x, y, mapData);
-        }
-
-        // Check if this is a shoreline position
-        const shoreKey = `${x},${y}`;
-        const shorelineEdge = shorelineEdges.get(shoreKey);
-
-        if (shorelineEdge && tileType === 100) {
+        if (shorelineEdge) {
           // Render shoreline tile instead of plain water
           const shoreAnimKey = `anim_shoreline_${shorelineEdge}`;
           const shoreTexKey = `tile_shoreline_${shorelineEdge}_0`;
@@ -435,56 +405,78 @@ export class MarketScene extends Phaser.Scene {
             shoreSprite.setData('tileX', x);
             shoreSprite.setData('tileY', y);
             shoreSprite.setData('walkable', false);
-          } else {
-            // Fallback to regular water
-            this.createWaterTile(screenPos, x, y, tileKey, animKey);
+            continue;
           }
-        } else if (useAnimation && animKey) {
-          // Create animated water sprite
-          this.createWaterTile(screenPos, x, y, tileKey, animKey);
-        } else {
-          // Regular static tile - verify texture exists
-          const finalKey = this.textures.exists(tileKey) ? tileKey : 'tile_ground';
-          const tile = this.add.image(screenPos.x, screenPos.y, finalKey);
-          tile.setOrigin(0.5, 0.5);
-          tile.setDepth(y);
-
-          // Store tile data for collision detection
-          tile.setData('tileX', x);
-          tile.setData('tileY', y);
-          tile.setData('walkable', isWalkable);
         }
 
-        // Render decorative elements on top
-        if (isDecorative) {
-          let decorKey: string;
-          if (tileType === 800) decorKey = 'tile_palm';
-          else if (tileType === 900) decorKey = 'tile_well';
-          else if (tileType === 1000) decorKey = 'tile_crates';
-          else decorKey = 'tile_planter';
+        this.createMapTile(tile, screenPos, x, y, y);
+      }
+    }
 
-          const decor = this.add.image(screenPos.x, screenPos.y - 8, decorKey);
-          decor.setOrigin(0.5, 1);
-          decor.setDepth(y + 50);
+    // Overlay layers sit just above the ground at the same row
+    for (const overlay of map.overlays) {
+      for (let y = 0; y < this.mapHeight; y++) {
+        for (let x = 0; x < this.mapWidth; x++) {
+          const tile = overlay.tiles[y][x];
+          if (tile) {
+            this.createMapTile(tile, this.isoToScreen(x, y), x, y, y + 0.25);
+          }
         }
       }
     }
 
-    // Add building heights (roofs) for buildings
+    // Add building heights (roofs) and decorative elements
     for (let y = 0; y < this.mapHeight; y++) {
       for (let x = 0; x < this.mapWidth; x++) {
-        const tileType = mapData[y][x];
-        if (tileType >= 200 && tileType <= 202) {
-          const screenPos = this.isoToScreen(x, y);
-          // Add roof above building
+        let tile = map.ground[y][x];
+        for (const overlay of map.overlays) {
+          tile = overlay.tiles[y][x] ?? tile;
+        }
+        const screenPos = this.isoToScreen(x, y);
+
+        if (tile.roofed) {
           const roof = this.add.image(screenPos.x, screenPos.y - 24, 'tile_roof');
           roof.setOrigin(0.5, 0.5);
           roof.setDepth(y + 0.5);
         }
+
+        if (tile.decorKey && this.textures.exists(tile.decorKey)) {
+          const decor = this.add.image(screenPos.x, screenPos.y - 8, tile.decorKey);
+          decor.setOrigin(0.5, 1);
+          decor.setDepth(y + 50);
+        }
       }
     }
   }
 
+  /**
+   * Create the sprite for a single map tile - animated for water, static otherwise
+   */
+  private createMapTile(
+    tile: MapTile,
+    screenPos: { x: number; y: number },
+    tileX: number,
+    tileY: number,
+    depth: number
+  ): void {
+    if (tile.animationKey) {
+      const animKey = this.anims.exists(tile.animationKey) ? tile.animationKey : 'anim_harbor_water';
+      this.createWaterTile(screenPos, tileX, tileY, tile.textureKey, animKey);
+      return;
+    }
+
+    // Regular static tile - verify texture exists
+    const finalKey = this.textures.exists(tile.textureKey) ? tile.textureKey : 'tile_ground';
+    const image = this.add.image(screenPos.x, screenPos.y, finalKey);
+    image.setOrigin(0.5, 0.5);
+    image.setDepth(depth);
+
+    // Store tile data for collision detection
+    image.setData('tileX', tileX);
+    image.setData('tileY', tileY);
+    image.setData('walkable', tile.walkable);
+  }
+
   /**
    * Create an animated water tile
    */
@@ -516,17 +508,17 @@ export class MarketScene extends Phaser.Scene {
    * Identify shoreline edges where water meets land
    * Returns a map of "x,y" -> edge direction
    */
-  private identifyShorelineEdges(mapData: number[][]): Map<string, string> {
+  private identifyShorelineEdges(isWater: boolean[][]): Map<string, string> {
     const edges = new Map<string, string>();
 
     for (let y = 0; y < this.mapHeight; y++) {
       for (let x = 0; x < this.mapWidth; x++) {
-        if (mapData[y][x] !== 100) continue; // Only check water tiles
+        if (!isWater[y][x]) continue; // Only check water tiles
 
-        const hasLandNorth = y > 0 && mapData[y - 1][x] !== 100;
-        const hasLandSouth = y < this.mapHeight - 1 && mapData[y + 1][x] !== 100;
-        const hasLandEast = x < this.mapWidth - 1 && mapData[y][x + 1] !== 100;
-        const hasLandWest = x > 0 && mapData[y][x - 1] !== 100;
+        const hasLandNorth = y > 0 && !isWater[y - 1][x];
+        const hasLandSouth = y < this.mapHeight - 1 && !isWater[y + 1][x];
+        const hasLandEast = x < this.mapWidth - 1 && !isWater[y][x + 1];
+        const hasLandWest = x > 0 && !isWater[y][x - 1];
 
         // Determine edge type - prioritize cardinal directions
         let edge = '';
@@ -559,151 +551,6 @@ export class MarketScene extends Phaser.Scene {
     return edges;
   }
 
-  /**
-   * Select appropriate ground tile based on position
-   * Uses primarily cobblestone with laterite for docks and occasional calçada accents
-   */
-  private selectGroundTile(x: number, y: number, mapData: number[][]): string {
-    // Position-based hash for consistent variation
-    const hash = Math.abs((x * 73856093) ^ (y * 19349663));
-
-    // Check if near a building (calçada only appears near prestigious buildings)
-    const nearBuilding = this.isNearBuilding(x, y, mapData);
-
-    // Dock area (x: 5-8) - use laterite (red Goan soil)
-    if (x >= 5 && x <= 8) {
-      const variants = ['tile_laterite_standard', 'tile_laterite_worn', 'tile_laterite_dusty', 'tile_laterite_rocky'];
-      const variantIdx = hash % variants.length;
-      const key = variants[variantIdx];
-      return this.textures.exists(key) ? key : 'tile_cobble_worn';
-    }
-
-    // Transition zone near docks - mix of laterite and cobblestone
-    if (x >= 9 && x <= 11) {
-      const variants = ['tile_laterite_rocky', 'tile_laterite_dusty', 'tile_cobble_worn', 'tile_cobble_mossy'];
-      const variantIdx = hash % variants.length;
-      const key = variants[variantIdx];
-      return this.textures.exists(key) ? key : 'tile_ground';
-    }
-
-    // Market center - primarily cobblestone, calçada only directly adjacent to buildings
-    if (x >= 12 && x <= 28 && y >= 4 && y <= 26) {
-      // Only use calçada if directly adjacent to a building (within 1 tile)
-      if (nearBuilding && (hash % 3 === 0)) {
-        const calcadaVariants = ['tile_calcada_wave', 'tile_calcada_border'];
-        const key = calcadaVariants[hash % calcadaVariants.length];
-        return this.textures.exists(key) ? key : 'tile_cobble_worn';
-      }
-
-      // Most of market uses weathered cobblestone
-      const variants = ['tile_cobble_worn', 'tile_cobble_worn', 'tile_cobble_mossy', 'tile_cobble_new'];
-      const variantIdx = hash % variants.length;
-      const key = variants[variantIdx];
-      return this.textures.exists(key) ? key : 'tile_ground';
-    }
-
-    // Edges of map - laterite (natural Goan soil)
-    const variants = ['tile_laterite_standard', 'tile_laterite_rocky', 'tile_laterite_dusty', 'tile_cobble_worn'];
-    const variantIdx = hash % variants.length;
-    const key = variants[variantIdx];
-    return this.textures.exists(key) ? key : 'tile_ground';
-  }
-
-  /**
-   * Check if a tile position is adjacent to a building
-   */
-  private isNearBuilding(x: number, y: number, mapData: number[][]): boolean {
-    const checkRadius = 2;
-    for (let dy = -checkRadius; dy <= checkRadius; dy++) {
-      for (let dx = -checkRadius; dx <= checkRadius; dx++) {
-        const checkY = y + dy;
-        const checkX = x + dx;
-        if (checkY >= 0 && checkY < this.mapHeight && checkX >= 0 && checkX < this.mapWidth) {
-          const tile = mapData[checkY][checkX];
-          // Building tiles are 200-202
-          if (tile >= 200 && tile <= 202) {
-            return true;
-          }
-        }
-      }
-    }
-    return false;
-  }
-
-  private generateMapData(): number[][] {
-    // Create a map representing Ribeira Grande marketplace
-    // Layout inspired by Linschoten's engravings:
-    // - Water on the left (docks)
-    // - Main commercial street (Rua Direita) in the center
-    // - Buildings on both sides
-    // - Market stalls scattered in the open areas
-    // - Decorative elements (palms, wells, crates)
-    
-    // Tile types:
-    // 0-3: Ground variants, 1: Water, 2: Building, 3: Dock
-    // 4-7: Market stall variants, 8: Palm, 9: Well, 10: Crates, 11: Planter
-
-    const map: number[][] = [];
-
-    for (let y = 0; y < this.mapHeight; y++) {
-      map[y] = [];
-      for (let x = 0; x < this.mapWidth; x++) {
-        // Water on the left edge (harbor)
-        if (x < 5) {
-          map[y][x] = 100; // Water (100 series for water frames)
-        }
-        // Docks along the waterfront
-        else if (x >= 5 && x < 8) {
-          map[y][x] = 3; // Dock
-        }
-        // Buildings - Portuguese colonial structures along the street
-        else if (
-          (x >= 8 && x < 10 && y % 6 < 4) || // Left row of buildings
-          (x >= 30 && x < 33 && y % 6 < 4) || // Right row of buildings
-          (y < 3 && x > 10 && x < 35) || // Top row of buildings
-          (y > 26 && x > 10 && x < 35) // Bottom row of buildings
-        ) {
-          // Use building variants
-          map[y][x] = 200 + ((x + y) % 3); // 200, 201, 202 for building variants
-        }
-        // Market stalls in the central area with different types
-        else if (x === 14 && y > 5 && y < 25 && y % 4 === 0) {
-          map[y][x] = 400; // Spice stall (red)
-        }
-        else if (x === 18 && y > 5 && y < 25 && y % 4 === 0) {
-          map[y][x] = 401; // Textile stall (blue)
-        }
-        else if (x === 22 && y > 5 && y < 25 && y % 4 === 0) {
-          map[y][x] = 402; // Produce stall (green)
-        }
-        else if (x === 26 && y > 5 && y < 25 && y % 4 === 0) {
-          map[y][x] = 403; // Luxury stall (gold)
-        }
-        // Decorative elements
-        else if ((x === 12 && y === 8) || (x === 28 && y === 8) || (x === 12 && y === 20) || (x === 28 && y === 20)) {
-          map[y][x] = 800; // Palm trees at corners
-        }
-        else if (x === 20 && y === 14) {
-          map[y][x] = 900; // Central well/fountain
-        }
-        else if ((x === 7 && y % 8 === 4) || (x === 33 && y % 8 === 4)) {
-          map[y][x] = 1000; // Cargo crates near docks and buildings
-        }
-        else if ((x === 10 && y === 5) || (x === 10 && y === 23)) {
-          map[y][x] = 1100; // Decorative planters
-        }
-        // Open ground (Rua Direita - main street) with variants
-        else {
-          // Use ground variants based on position (seeded randomness)
-          const variant = (x * 7 + y * 13) % 4;
-          map[y][x] = variant; // 0, 1, 2, 3 for ground variants
-        }
-      }
-    }
-
-    return map;
-  }
-
   private isoToScreen(x: number, y: number): { x: number; y: number } {
     // Convert isometric tile coordinates to screen coordinates
     const screenX = (x - y) * (this.tileWidth / 2) + this.cameras.main.width / 2;
@@ -723,63 +570,14 @@ export class MarketScene extends Phaser.Scene {
   }
 
   private createPlayer(): void {
-    // Start player in the middle of the marketplace
-    const startTile = { x: 18, y: 15 };
+    // Start player at the map's spawn point
+    const startTile = this.getPlayerSpawnTile();
     const startPos = this.isoToScreen(startTile.x, startTile.y);
     
     this.player = new Player(this, startPos.x, startPos.y - 16);
     this.player.setTilePosition(startTile.x, startTile.y);
   }
 
-  private createNPCs(): void {
-    // Create merchants at various market stall locations
-    // Based on Linschoten's descriptions of the diverse population
-    // Organized by trading zones
-
-    const npcData = [
-      // Spice Zone (red stalls - around x=14)
-      { type: 'npc_hindu', id: 'spice_vendor_1', x: 14, y: 8, name: 'Spice Vendor', goods: ['good_pepper', 'good_cinnamon', 'good_cloves'] },
-      { type: 'npc_hindu', id: 'spice_vendor_2', x: 15, y: 12, name: 'Pepper Merchant', goods: ['good_pepper'] },
-      { type: 'npc_arab', id: 'spice_middleman', x: 14, y: 16, name: 'Arab Spice Trader', goods: ['good_cloves', 'good_nutmeg'] },
-      
-      // Textile Zone (blue stalls - around x=18)
-      { type: 'npc_portuguese', id: 'silk_merchant', x: 18, y: 8, name: 'Silk Merchant', goods: ['good_silk'] },
-      { type: 'npc_hindu', id: 'cloth_vendor', x: 19, y: 12, name: 'Cloth Vendor', goods: ['good_silk', 'good_indigo'] },
-      
-      // Produce Zone (green stalls - around x=22)
-      { type: 'npc_hindu', id: 'produce_vendor', x: 22, y: 8, name: 'Produce Seller', goods: ['good_ginger'] },
-      { type: 'npc_porter', id: 'porter_1', x: 23, y: 12, name: 'Porter', goods: [] },
-      
-      // Luxury Zone (gold stalls - around x=26)
-      { type: 'npc_portuguese', id: 'luxury_merchant', x: 26, y: 8, name: 'Portuguese Merchant', goods: ['good_porcelain', 'good_silk'] },
-      { type: 'npc_arab', id: 'arab_trader', x: 27, y: 12, name: 'Arab Middleman', goods: ['good_cloves'] },
-      
-      // Officials and Guards (near buildings)
-      { type: 'npc_official', id: 'crown_officer', x: 32, y: 10, name: 'Crown Trade Officer', goods: [] },
-      { type: 'npc_soldier', id: 'guard_1', x: 9, y: 10, name: 'Portuguese Guard', goods: [] },
-      { type: 'npc_soldier', id: 'guard_2', x: 9, y: 18, name: 'Portuguese Guard', goods: [] },
-      
-      // Dock workers
-      { type: 'npc_sailor', id: 'sailor_1', x: 7, y: 8, name: 'Sailor', goods: [] },
-      { type: 'npc_porter', id: 'dock_porter', x: 7, y: 14, name: 'Dock Worker', goods: [] },
-      
-      // Religious figures (near cathedral area)
-      { type: 'npc_monk', id: 'friar_1', x: 20, y: 4, name: 'Franciscan Friar', goods: [] },
-      
-      // Wandering merchants
-      { type: 'npc_hindu', id: 'wandering_vendor', x: 16, y: 18, name: 'Ginger Seller', goods: ['good_ginger'] },
-      { type: 'npc_arab', id: 'yusuf_broker', x: 24, y: 20, name: 'Yusuf al-Rashid', goods: ['good_pepper', 'good_cinnamon'] },
-    ];
-
-    for (const data of npcData) {
-      const pos = this.isoToScreen(data.x, data.y);
-      const npc = new NPC(this, pos.x, pos.y - 16, data.type, data.name, data.goods);
-      npc.setTilePosition(data.x, data.y);
-      npc.setNpcId(data.id); // Set NPC ID for quest system
-      this.npcs.push(npc);
-    }
-  }
-
   private setupCamera(): void {
     // Set up camera bounds and follow player
     const mapWidthPixels = (this.mapWidth + this.mapHeight) * (this.tileWidth / 2);
@@ -803,35 +601,61 @@ export class MarketScene extends Phaser.Scene {
   }
 
   private setupInput(): void {
-    // Keyboard input is handled by Player class
+    // Movement keys are read by the Player class
     // Add click-to-interact for NPCs
     this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
       const worldPoint = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
       this.checkNPCInteraction(worldPoint.x, worldPoint.y);
     });
 
-    // Centralized E key handler for both NPCs and transitions
-    this.input.keyboard?.on('keydown-E', () => {
-      this.handleInteractionKey();
-    });
-    this.input.keyboard?.on('keydown-ENTER', () => {
-      this.handleInteractionKey();
-    });
-    
-    // Quick save (F5) and quick load (F9)
-    this.input.keyboard?.on('keydown-F5', () => {
-      this.saveSystem.autoSave();
-      this.events.emit('notification', { title: 'Game Saved', message: 'Auto-save complete.' });
-    });
-    this.input.keyboard?.on('keydown-F9', () => {
-      const saveData = this.saveSystem.load('autosave');
-      if (saveData) {
-        this.applySaveData(saveData);
-        this.events.emit('notification', { title: 'Game Loaded', message: 'Save loaded.' });
-      } else {
-        this.events.emit('notification', { title: 'No Save', message: 'No save data found.' });
+    // Keys and gamepad buttons are read as actions, so rebound keys apply here too
+    this.input.keyboard?.on('keydown', this.onKeyDown, this);
+    this.input.gamepad?.on('down', this.onGamepadDown, this);
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    // A held key repeats; an action is taken once per press
+    if (event.repeat) return;
+    const action = getInputBindings().getAction(event.keyCode);
+    if (action) {
+      this.handleAction(action);
+    }
+  }
+
+  private onGamepadDown(_pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button): void {
+    const action = getGamepadAction(button.index);
+    if (action) {
+      this.handleAction(action);
+    }
+  }
+
+  private handleAction(action: InputAction): void {
+    // A conversation takes the keys it answers with while it lasts. Menu is
+    // left to UIScene, which closes a conversation before any panel.
+    if (action !== 'menu' && this.dialogueSystem.handleAction(action)) {
+      return;
+    }
+
+    switch (action) {
+      case 'interact':
+        // Centralized handler for both NPCs and transitions
+        this.handleInteractionKey();
+        break;
+      case 'quickSave':
+        this.saveSystem.autoSave();
+        this.gameEvents.emit('notification', { title: 'Game Saved', message: 'Auto-save complete.' });
+        break;
+      case 'quickLoad': {
+        const saveData = this.saveSystem.load('autosave');
+        if (saveData) {
+          this.applySaveData(saveData);
+          this.gameEvents.emit('notification', { title: 'Game Loaded', message: 'Save loaded.' });
+        } else {
+          this.gameEvents.emit('notification', { title: 'No Save', message: 'No save data found.' });
+        }
+        break;
       }
-    });
+    }
   }
 
   private handleInteractionKey(): void {
@@ -852,6 +676,7 @@ export class MarketScene extends Phaser.Scene {
 
   private checkNPCInteraction(worldX: number, worldY: number): void {
     for (const npc of this.npcs) {
+      if (npc.isAway()) continue;
       const distance = Phaser.Math.Distance.Between(worldX, worldY, npc.x, npc.y);
       if (distance < 30) {
         const playerDistance = Phaser.Math.Distance.Between(
@@ -874,15 +699,9 @@ export class MarketScene extends Phaser.Scene {
 
   private createTransitionZones(): void {
     // Define zones where player can travel to other locations
-    this.transitionZones = [
-      { x: 6, y: 5, targetLocation: 'docks', label: 'To Docks' },
-      { x: 6, y: 15, targetLocation: 'docks', label: 'To Docks' },
-      { x: 35, y: 10, targetLocation: 'alfandega', label: 'To Customs House' },
-      { x: 35, y: 20, targetLocation: 'se_cathedral', label: 'To Cathedral' },
-      { x: 18, y: 28, targetLocation: 'old_quarter', label: 'To Old Quarter' },
-      { x: 25, y: 28, targetLocation: 'tavern', label: 'To Tavern' },
-      { x: 12, y: 28, targetLocation: 'warehouse_district', label: 'To Warehouses' },
-    ];
+    this.transitionZones = this.getTransitionZonesForLocation('ribeira_grande');
+    // NPCs leaving for another location walk to these
+    this.registry.set('transitionZones', this.transitionZones);
 
     // Create visual indicators for transition zones
     for (const zone of this.transitionZones) {
@@ -922,123 +741,269 @@ export class MarketScene extends Phaser.Scene {
 
   private setupSystemEvents(): void {
     // Listen for location change requests
-    this.events.on('requestLocationChange', (targetLocation: string) => {
+    this.gameEvents.on('requestLocationChange', (targetLocation: string) => {
       this.handleLocationChange(targetLocation);
     });
 
+    // Walks to a neighbouring location chosen on the map
+    this.gameEvents.on('requestFastTravel', (targetLocation: string) => {
+      this.handleFastTravel(targetLocation);
+    });
+
+    // Options changed on the settings screen while the game runs
+    this.gameEvents.on('settingsChanged', (settings: GameSettingsData) => {
+      this.timeSystem.setTimeScale(settings.timeScale);
+      this.postProcessing.setScanlines(settings.scanlines);
+      this.postProcessing.setVignette(settings.vignette);
+    });
+
+    // NPCs whose schedule brings them here while the player is present
+    this.gameEvents.on('npcArrived', (event: NPCArrivalEvent) => {
+      // NPCs that already have a sprite here walk back in by themselves
+      if (this.isTransitioning || this.npcs.some(npc => npc.getNpcId() === event.npcId)) return;
+      const simulated = this.npcSimulation.getNPC(event.npcId);
+      if (simulated) {
+        this.spawnSimulatedNPC(simulated, event.location, this.npcs.length, true);
+      }
+    });
+
     // Listen for ship arrival events (emitted by EventSystem to scene)
-    this.events.on('ship_arrival', (data: { shipType: { name: string }; cargo: { goodId: string; quantity: number }[] }) => {
+    this.gameEvents.on('ship_arrival', (data: { shipType: { name: string }; cargo: { goodId: string; quantity: number }[] }) => {
       console.log(`Ship arrived: ${data.shipType.name}`);
       // Show notification to player
       this.showLocationNotification(`${data.shipType.name} has arrived!`);
     });
 
+    // Ships tying up or casting off while the player is at the docks
+    this.gameEvents.on('shipMoored', (ship: MooredShip) => {
+      if (!this.isTransitioning && this.registry.get('currentLocation') === HarborSystem.LOCATION_ID) {
+        this.spawnMooredShip(ship);
+      }
+    });
+    this.gameEvents.on('shipCastOff', (ship: MooredShip) => {
+      this.removeMooredShip(ship);
+    });
+
+    // Announce the feasts a new day brings (Sundays need no announcing)
+    this.gameEvents.on('newDay', data => {
+      const feasts = data.date.feasts.filter(feast => feast.weekday === undefined);
+      if (feasts.length > 0) {
+        this.showLocationNotification(feasts.map(feast => feast.name).join(' - '));
+      }
+    });
+
     // Listen for cargo unloaded events
-    this.events.on('cargo_unloaded', (data: { goods: { goodId: string; quantity: number }[] }) => {
+    this.gameEvents.on('cargo_unloaded', (data: { goods: { goodId: string; quantity: number }[] }) => {
       console.log('Cargo unloaded:', data.goods);
     });
 
-    // Connect Quest System reputation events to Faction System
-    this.events.on('reputationChange', (data: { target: string; value: number }) => {
-      if (data.target && typeof data.value === 'number') {
+    // Apply reputation earned or lost through quests, contracts and achievements
+    this.gameEvents.on('reputationDelta', data => {
+      if (data.target && Number.isFinite(data.value)) {
         this.factionSystem.adjustReputation(data.target, data.value);
         console.log(`Faction reputation changed: ${data.target} by ${data.value}`);
       }
     });
 
-    // Handle gold changes from quest effects
-    this.events.on('goldChange', (amount: number) => {
-      if (typeof amount === 'number') {
-        if (amount > 0) {
-          this.player.addGold(amount);
-        } else if (amount < 0) {
-          this.player.removeGold(Math.abs(amount));
-        }
+    // Pay or charge the player gold from quests, contracts, expeditions and achievements
+    this.gameEvents.on('goldDelta', amount => {
+      if (amount > 0) {
+        this.player.addGold(amount);
+      } else if (amount < 0) {
+        this.player.removeGold(Math.abs(amount));
       }
     });
 
+    // Keep story flags set by quests and dialogue where quest and dialogue conditions read them
+    this.gameEvents.on('flagSet', data => {
+      this.registry.set('gameFlags', { ...this.registry.get('gameFlags'), [data.flag]: data.value });
+    });
+
     // Handle item gained from quest effects
-    this.events.on('itemGained', (data: { item: string; quantity: number }) => {
+    this.gameEvents.on('itemGained', (data: { item: string; quantity: number }) => {
       if (data.item && data.quantity) {
         this.player.addToInventory(data.item, data.quantity);
       }
     });
 
     // Handle item lost from quest effects
-    this.events.on('itemLost', (data: { item: string; quantity: number }) => {
+    this.gameEvents.on('itemLost', (data: { item: string; quantity: number }) => {
       if (data.item && data.quantity) {
         this.player.removeFromInventory(data.item, data.quantity);
       }
     });
 
     // Handle quest state changes - notify UI
-    this.events.on('questStarted', () => {
-      this.events.emit('questStateChange');
+    this.gameEvents.on('questStarted', () => {
+      this.gameEvents.emit('questStateChange');
     });
 
-    this.events.on('questStageAdvanced', () => {
-      this.events.emit('questStateChange');
+    this.gameEvents.on('questStageAdvanced', () => {
+      this.gameEvents.emit('questStateChange');
     });
 
-    this.events.on('questCompleted', () => {
-      this.events.emit('questStateChange');
+    this.gameEvents.on('questCompleted', () => {
+      this.gameEvents.emit('questStateChange');
     });
+  }
 
-    // Handle save data requests
-    this.events.on('requestSaveData', () => {
-      // Emit quest system save data
-      this.events.emit('saveDataResponse', {
-        system: 'quests',
-        data: this.questSystem.getSaveData(),
-      });
+  /**
+   * Give the save system a serializer for each system that keeps state
+   * across sessions. SaveSystem decides the order they are restored in.
+   */
+  private registerSaveSerializers(): void {
+    const saves = this.saveSystem;
+
+    saves.registerSerializer('world', {
+      version: 1,
+      save: () => {
+        const time = this.timeSystem.getSaveData();
+        return {
+          currentTime: { hour: time.hour, minute: time.minute, day: time.dayCount },
+          currentLocation: this.worldSystem.getCurrentLocation()?.id ?? 'ribeira_grande',
+        };
+      },
+      load: data => {
+        this.timeSystem.loadSaveData({
+          hour: data.currentTime.hour,
+          minute: data.currentTime.minute ?? 0,
+          dayCount: data.currentTime.day,
+        });
+        if (data.currentLocation && data.currentLocation !== this.worldSystem.getCurrentLocation()?.id) {
+          this.handleLocationChange(data.currentLocation);
+        }
+      },
+    });
 
-      // Emit faction system save data
-      this.events.emit('saveDataResponse', {
-        system: 'factions',
-        data: this.factionSystem.getSaveData(),
-      });
+    saves.registerSerializer('weather', {
+      version: 1,
+      save: () => this.weatherSystem.getSaveData(),
+      load: data => this.weatherSystem.loadSaveData(data),
+    });
 
-      // Emit player save data
-      this.events.emit('saveDataResponse', {
-        system: 'player',
-        data: {
-          gold: this.player.getGold(),
-          inventory: this.player.getInventory(),
-          skills: this.player.getSkills(),
-          position: { x: this.player.x, y: this.player.y },
-          location: this.worldSystem.getCurrentLocation?.() || 'ribeira_grande',
-        },
+    const windSystem = this.weatherSystem.getWindSystem();
+    if (windSystem) {
+      saves.registerSerializer('wind', {
+        version: 1,
+        save: () => windSystem.getSaveData(),
+        load: data => windSystem.loadSaveData(data),
       });
+    }
 
-      // Emit progression system save data
-      this.events.emit('saveDataResponse', {
-        system: 'progression',
-        data: this.progressionSystem.getSaveData(),
-      });
+    saves.registerSerializer('market', {
+      version: 1,
+      save: () => this.tradeSystem.getSaveData(),
+      load: data => this.tradeSystem.loadSaveData(data),
+    });
 
-      // Emit contract system save data
-      this.events.emit('saveDataResponse', {
-        system: 'contracts',
-        data: this.contractSystem.getSaveData(),
-      });
+    saves.registerSerializer('priceLedger', {
+      version: 1,
+      save: () => this.priceLedger.getSaveData(),
+      load: data => this.priceLedger.loadSaveData(data),
+    });
 
-      // Emit NPC memory save data
-      this.events.emit('saveDataResponse', {
-        system: 'npcMemories',
-        data: this.npcMemorySystem.getSaveData(),
-      });
+    // Version 1 was FactionSystem's bare faction-to-reputation record
+    saves.registerSerializer('factions', {
+      version: 2,
+      save: () => ({ reputation: this.factionSystem.getSaveData() }),
+      load: data => this.factionSystem.loadSaveData(data.reputation),
+      migrate: data => {
+        const record = data as Record<string, unknown>;
+        if (typeof record.reputation === 'object' && record.reputation !== null) {
+          return { reputation: record.reputation as Record<string, number> };
+        }
+        return { reputation: record as Record<string, number> };
+      },
+    });
 
-      // Emit trade route save data
-      this.events.emit('saveDataResponse', {
-        system: 'tradeRoutes',
-        data: this.tradeRouteSystem.getSaveData(),
-      });
+    saves.registerSerializer('progression', {
+      version: 1,
+      save: () => this.progressionSystem.getSaveData(),
+      load: data => this.progressionSystem.loadSaveData(data),
+    });
 
-      // Emit achievement save data
-      this.events.emit('saveDataResponse', {
-        system: 'achievements',
-        data: this.achievementSystem.getSaveData(),
-      });
+    saves.registerSerializer('achievements', {
+      version: 1,
+      save: () => this.achievementSystem.getSaveData(),
+      load: data => this.achievementSystem.loadSaveData(data),
+    });
+
+    saves.registerSerializer('npcMemories', {
+      version: 1,
+      save: () => this.npcMemorySystem.getSaveData(),
+      load: data => this.npcMemorySystem.loadSaveData(data),
+    });
+
+    saves.registerSerializer('quests', {
+      version: 1,
+      save: () => this.questSystem.getSaveData(),
+      load: data => this.questSystem.loadSaveData(data),
+    });
+
+    saves.registerSerializer('flags', {
+      version: 1,
+      save: () => ({ ...this.registry.get('gameFlags') }),
+      load: data => this.registry.set('gameFlags', { ...data }),
+    });
+
+    saves.registerSerializer('contracts', {
+      version: 1,
+      save: () => this.contractSystem.getSaveData(),
+      load: data => this.contractSystem.loadSaveData(data),
+    });
+
+    saves.registerSerializer('tradeRoutes', {
+      version: 1,
+      save: () => this.tradeRouteSystem.getSaveData(),
+      load: data => this.tradeRouteSystem.loadSaveData(data),
+    });
+
+    saves.registerSerializer('warehouse', {
+      version: 1,
+      save: () => this.warehouseSystem.getSaveData(),
+      load: data => this.warehouseSystem.loadSaveData(data),
+    });
+
+    saves.registerSerializer('harbor', {
+      version: 1,
+      save: () => this.harborSystem.getSaveData(),
+      load: data => this.harborSystem.loadSaveData(data),
+    });
+
+    saves.registerSerializer('perks', {
+      version: 1,
+      save: () => this.skillSystem.getSaveData(),
+      load: data => this.skillSystem.loadSaveData(data),
+    });
+
+    saves.registerSerializer('player', {
+      version: 1,
+      save: () => {
+        const player = this.player.getSaveData();
+        return {
+          ...player,
+          position: {
+            location: this.worldSystem.getCurrentLocation()?.id ?? 'ribeira_grande',
+            x: this.player.x,
+            y: this.player.y,
+          },
+        };
+      },
+      load: data => {
+        const current = this.player.getSaveData();
+        this.player.loadSaveData({
+          gold: data.gold,
+          inventory: data.inventory ?? [],
+          skills: { ...current.skills, ...data.skills },
+          maxCarryCapacity: data.maxCarryCapacity ?? current.maxCarryCapacity,
+        });
+      },
+    });
+
+    saves.registerSerializer('random', {
+      version: 1,
+      save: () => this.randomSystem.getSaveData(),
+      load: data => this.randomSystem.loadSaveData(data),
     });
   }
 
@@ -1104,7 +1069,49 @@ export class MarketScene extends Phaser.Scene {
     });
   }
 
+  /**
+   * Walk to a neighbouring location, spending the connection's travel time.
+   * The connection's requirements are checked before setting out.
+   */
+  private handleFastTravel(targetLocation: string): void {
+    if (this.isTransitioning) return;
+
+    const connection = this.worldSystem.getConnectionTo(targetLocation);
+    if (!connection) {
+      console.warn(`No road leads to ${targetLocation} from here`);
+      return;
+    }
+
+    const check = this.worldSystem.checkRequirements(connection.requirements);
+    if (!check.allowed) {
+      this.gameEvents.emit('transitionBlocked', { connection, reason: check.reason });
+      return;
+    }
+
+    this.timeSystem.advanceMinutes(this.worldSystem.getTravelMinutes(connection));
+
+    // The walk takes time; the place may have shut its doors by the time we get there
+    const onArrival = this.worldSystem.checkRequirements(connection.requirements);
+    if (!onArrival.allowed) {
+      this.gameEvents.emit('transitionBlocked', { connection, reason: onArrival.reason });
+      this.gameEvents.emit('notification', {
+        title: 'Turned Away',
+        message: `You reach ${this.getLocationDisplayName(targetLocation)} but cannot go in. ${onArrival.reason ?? ''}`.trim(),
+        type: 'warning',
+      });
+      return;
+    }
+
+    this.handleLocationChange(targetLocation);
+  }
+
   private getLocationDisplayName(locationId: string): string {
+    const location = this.worldSystem.getLocation(locationId);
+    const map = location ? this.mapLoader.load(location.mapFile) : null;
+    if (map?.mapName) {
+      return map.mapName;
+    }
+
     const names: { [key: string]: string } = {
       'ribeira_grande': 'Ribeira Grande - The Great Waterfront',
       'docks': 'The Docks - Ship Moorings',
@@ -1118,6 +1125,9 @@ export class MarketScene extends Phaser.Scene {
   }
   
   private regenerateForLocation(locationId: string): void {
+    // Ships' name labels are not swept up with the map tiles below
+    this.clearMooredShips();
+
     // Properly clean up water tiles to prevent memory leaks
     for (const tile of this.waterTiles) {
       if (tile && tile.active) {
@@ -1146,9 +1156,9 @@ export class MarketScene extends Phaser.Scene {
     this.npcs.forEach(npc => npc.destroy());
     this.npcs = [];
     
-    // Generate new map based on location
-    const mapData = this.generateMapDataForLocation(locationId);
-    this.createIsometricMapFromData(mapData);
+    // Render the new location's map
+    this.createIsometricMap(locationId);
+    this.setupCamera();
     
     // Create location-specific NPCs
     this.createNPCsForLocation(locationId);
@@ -1157,315 +1167,158 @@ export class MarketScene extends Phaser.Scene {
     this.transitionZones = [];
     this.createTransitionZonesForLocation(locationId);
     
-    // Reset player position
-    const startPos = this.isoToScreen(this.mapWidth / 2, this.mapHeight / 2);
-    this.player.setPosition(startPos.x, startPos.y);
-  }
-  
-  private generateMapDataForLocation(locationId: string): string[][] {
-    const mapData: string[][] = [];
-    
-    for (let y = 0; y < this.mapHeight; y++) {
-      const row: string[] = [];
-      for (let x = 0; x < this.mapWidth; x++) {
-        row.push(this.getTileForLocation(locationId, x, y));
-      }
-      mapData.push(row);
-    }
-    
-    return mapData;
-  }
-  
-  private getTileForLocation(locationId: string, x: number, y: number): string {
-    switch (locationId) {
-      case 'docks':
-        // Docks: lots of water, wooden platforms, laterite ground
-        if (y < 10) return `W${x % 4}`;
-        if (y < 12) return 'D';
-        if (x < 8 || x > 32) return `W${x % 4}`;
-        // Laterite ground for docks area
-        return `L${(x + y) % 4}`;
-
-      case 'alfandega':
-        // Customs house: formal building, Calçada floor (wealthy area)
-        if (x < 5 || x > 35 || y < 5 || y > 25) return `B${x % 3}`;
-        // Prestigious Calçada Portuguesa floor inside
-        return `C${(x + y) % 3}`;
-
-      case 'se_cathedral':
-        // Cathedral: under construction, stone floor with Calçada
-        if (x > 15 && x < 25 && y > 10 && y < 20) return `B${x % 3}`;
-        if ((x + y) % 7 === 0) return 'R';
-        // Mix of Calçada and laterite
-        if (x > 10 && x < 30) return `C${(x + y) % 3}`;
-        return `L${(x + y) % 4}`;
-
-      case 'old_quarter':
-        // Residential: narrow streets, laterite ground (poorer area)
-        if ((x % 6 < 3 && y % 5 < 3) || (x % 8 === 0)) return `B${x % 3}`;
-        // Laterite soil streets
-        return `L${(x + y) % 4}`;
-
-      case 'tavern':
-        // Tavern interior: wooden floor, dim
-        if (x < 5 || x > 35 || y < 5 || y > 25) return `B${x % 3}`;
-        return 'D';
-
-      case 'warehouse_district':
-        // Warehouses: crates, dock tiles, laterite
-        if (y < 5 || y > 25) return `B${x % 3}`;
-        if ((x + y) % 5 === 0) return 'D';
-        return `L${(x + y) % 4}`;
-
-      default: // ribeira_grande - default market
-        return this.getDefaultMarketTile(x, y);
-    }
+    // Reset player position to the map's spawn point
+    const startTile = this.getPlayerSpawnTile();
+    const startPos = this.isoToScreen(startTile.x, startTile.y);
+    this.player.setPosition(startPos.x, startPos.y - 16);
+    this.player.setTilePosition(startTile.x, startTile.y);
   }
-  
-  private getDefaultMarketTile(x: number, y: number): string {
-    // Deep water (far left)
-    if (x < 4) return `W${(x + y) % 4}`;
-
-    // Shoreline transition zone - where water meets land
-    if (x === 4) return `Sw`; // West shoreline edge
-    if (x === 5) return `Ssw`; // Southwest transition
-
-    // Dock wooden platforms
-    if (x >= 6 && x < 8) return 'D';
-
-    // Buildings along right side
-    if (x > 32) return `B${x % 3}`;
-    // Roofs above buildings
-    if (x > 34 && y % 4 < 2) return 'R';
-
-    // Market stall zones - fancy Calçada floor (wealthy trading area)
-    if (x >= 14 && x <= 16 && y >= 6 && y <= 18) return `M${0}`;
-    if (x >= 18 && x <= 20 && y >= 6 && y <= 18) return `M${1}`;
-    if (x >= 22 && x <= 24 && y >= 6 && y <= 18) return `M${2}`;
-    if (x >= 26 && x <= 28 && y >= 6 && y <= 18) return `M${3}`;
-
-    // Main market area with Calçada Portuguesa (prestigious cobblestone)
-    if (x >= 12 && x <= 30 && y >= 4 && y <= 20) {
-      return `C${(x + y) % 3}`;
-    }
 
-    // Transition from Calçada to Laterite around market edges
-    if (x >= 10 && x <= 32 && y >= 2 && y <= 22) {
-      // Mix of Calçada border and laterite
-      if ((x + y) % 4 === 0) return `C2`; // Border Calçada
-      return `L${(x + y) % 4}`;
+  private getPlayerSpawnTile(): { x: number; y: number } {
+    if (!this.currentMap) {
+      return { x: Math.floor(this.mapWidth / 2), y: Math.floor(this.mapHeight / 2) };
     }
+    return this.snapToWalkable(this.mapLoader.getPlayerSpawn(this.currentMap));
+  }
 
-    // Default red laterite soil (authentic Goan ground)
-    return `L${(x + y) % 4}`;
+  /**
+   * Move a tile position onto the nearest walkable tile, if one is close by
+   */
+  private snapToWalkable(tile: { x: number; y: number }): { x: number; y: number } {
+    return this.walkabilityGrid?.findNearestWalkable(tile.x, tile.y) ?? tile;
   }
   
-  private createIsometricMapFromData(mapData: string[][]): void {
-    // Render the map data as tiles
-    for (let y = 0; y < mapData.length; y++) {
-      for (let x = 0; x < mapData[y].length; x++) {
-        const tileCode = mapData[y][x];
-        const pos = this.isoToScreen(x, y);
-        this.createTileFromCode(tileCode, pos.x, pos.y, x, y);
+  /**
+   * Materialize the NPCs the off-screen simulation has in this location
+   */
+  private createNPCsForLocation(locationId: string): void {
+    this.npcSimulation.getNPCsAt(locationId).forEach((simulated, index) => {
+      this.spawnSimulatedNPC(simulated, locationId, index);
+    });
+
+    if (locationId === HarborSystem.LOCATION_ID) {
+      for (const ship of this.harborSystem.getShips()) {
+        this.spawnMooredShip(ship);
       }
     }
   }
-  
-  private createTileFromCode(code: string, screenX: number, screenY: number, tileX: number, tileY: number): void {
-    const type = code.charAt(0);
-    const variant = parseInt(code.charAt(1)) || 0;
-
-    let textureKey = 'tile_ground_0';
-    let isAnimated = false;
-    let animKey = '';
-
-    switch (type) {
-      // Original tile types
-      case 'G': textureKey = `tile_ground_${variant}`; break;
-      case 'B': textureKey = `tile_building_${variant}`; break;
-      case 'D': textureKey = 'tile_dock'; break;
-      case 'R': textureKey = 'tile_roof'; break;
-      case 'M': textureKey = `tile_market_${variant}`; break;
-
-      // Water - use soft water if available
-      case 'W':
-        if (this.anims.exists('anim_soft_water')) {
-          isAnimated = true;
-          textureKey = 'tile_soft_water_0';
-          animKey = 'anim_soft_water';
-        } else if (this.anims.exists('anim_harbor_water')) {
-          isAnimated = true;
-          textureKey = 'tile_harbor_water_0';
-          animKey = 'anim_harbor_water';
-        } else {
-          textureKey = `tile_water_${variant}`;
-        }
-        break;
 
-      // New Goa-specific tiles
-      case 'L':
-        // Laterite - red Goan soil
-        const lateriteVariants = ['standard', 'rocky', 'dusty', 'worn'];
-        const lateriteVar = lateriteVariants[variant % lateriteVariants.length];
-        textureKey = `tile_laterite_${lateriteVar}`;
-        // Fallback to dirt if laterite not available
-        if (!this.textures.exists(textureKey)) {
-          textureKey = `tile_dirt_packed`;
-        }
-        break;
-
-      case 'C':
-        // Calçada Portuguesa - Portuguese cobblestone
-        const calcadaVariants = ['wave', 'checkerboard', 'border'];
-        const calcadaVar = calcadaVariants[variant % calcadaVariants.length];
-        textureKey = `tile_calcada_${calcadaVar}`;
-        // Fallback to cobblestone if calcada not available
-        if (!this.textures.exists(textureKey)) {
-          textureKey = 'tile_cobble_new';
-        }
-        break;
+  /**
+   * Draw a moored ship at its berth, with its captain on the pier beside it
+   */
+  private spawnMooredShip(ship: MooredShip): void {
+    if (this.mooredShipObjects.has(ship.shipId)) return;
+
+    const { berth } = ship;
+    const centreX = berth.tileX + Math.floor(berth.tileWidth / 2);
+    const centreY = berth.tileY + Math.floor(berth.tileHeight / 2);
+    const hullPos = this.isoToScreen(centreX, centreY);
+
+    const hull = this.add.image(hullPos.x, hullPos.y, 'ui-ship-silhouette');
+    hull.setOrigin(0.5, 0.85);
+    hull.setScale(berth.kind === 'carrack' ? 4 : 3);
+    hull.setDepth(centreY + 50);
+
+    const label = this.add.text(hullPos.x, hullPos.y + 12, ship.shipName, {
+      fontFamily: 'Georgia, serif',
+      fontSize: '8px',
+      color: '#ffd700',
+      stroke: '#000000',
+      strokeThickness: 2,
+    });
+    label.setOrigin(0.5, 0.5);
+    label.setDepth(centreY + 51);
+    this.mooredShipObjects.set(ship.shipId, [hull, label]);
+
+    // Captains keep to their ship all day and night
+    const tile = this.snapToWalkable({ x: centreX, y: berth.tileY + berth.tileHeight });
+    const schedule: NPCScheduleEntry[] = Array.from({ length: 24 }, (_, hour) => ({
+      hour,
+      location: HarborSystem.LOCATION_ID,
+      activity: 'trading' as const,
+    }));
+
+    const pos = this.isoToScreen(tile.x, tile.y);
+    const captain = new NPC(this, pos.x, pos.y - 16, 'npc_captain', ship.captainName, ship.cargo.map(c => c.goodId));
+    captain.setTilePosition(tile.x, tile.y);
+    captain.setStallTile(tile.x, tile.y);
+    captain.setHomeLocation(HarborSystem.LOCATION_ID);
+    captain.setSchedule(schedule);
+    captain.setActivity('trading');
+    captain.setNpcId(ship.captainId);
+    this.npcs.push(captain);
+  }
 
-      case 'S':
-        // Shoreline tiles
-        const edgeCode = code.substring(1).toLowerCase();
-        const shorelineEdge = this.parseShorelineEdge(edgeCode);
-        if (this.anims.exists(`anim_shoreline_${shorelineEdge}`)) {
-          isAnimated = true;
-          textureKey = `tile_shoreline_${shorelineEdge}_0`;
-          animKey = `anim_shoreline_${shorelineEdge}`;
-        } else {
-          // Fallback: draw laterite with water edge
-          textureKey = this.textures.exists('tile_laterite_water_edge')
-            ? 'tile_laterite_water_edge'
-            : 'tile_cobble_water_edge';
-        }
-        break;
+  private removeMooredShip(ship: MooredShip): void {
+    this.mooredShipObjects.get(ship.shipId)?.forEach(obj => obj.destroy());
+    this.mooredShipObjects.delete(ship.shipId);
 
-      default:
-        textureKey = 'tile_ground_0';
+    const captain = this.npcs.find(npc => npc.getNpcId() === ship.captainId);
+    if (captain) {
+      this.npcs = this.npcs.filter(npc => npc !== captain);
+      captain.destroy();
     }
+  }
 
-    // Create the tile - animated or static
-    if (isAnimated && this.anims.exists(animKey)) {
-      const sprite = this.add.sprite(screenX, screenY, textureKey);
-      sprite.setOrigin(0.5, 0.5);
-      sprite.setDepth(tileY);
-      sprite.play(animKey);
-      // Offset animation start for visual variety
-      sprite.anims.setProgress(((tileX + tileY) % 4) / 4);
-      this.waterTiles.push(sprite);
-    } else {
-      // Try to create the tile, with fallback
-      if (!this.textures.exists(textureKey)) {
-        console.warn(`Texture not found: ${textureKey}, using fallback`);
-        textureKey = 'tile_ground_0';
-      }
-      const tile = this.add.image(screenX, screenY, textureKey);
-      tile.setOrigin(0.5, 0.5);
-      tile.setDepth(tileY);
+  private clearMooredShips(): void {
+    for (const objects of this.mooredShipObjects.values()) {
+      objects.forEach(obj => obj.destroy());
     }
+    this.mooredShipObjects.clear();
   }
 
   /**
-   * Parse shoreline edge code to edge type
+   * @param arriving Walk in from the entrance rather than appear in place
    */
-  private parseShorelineEdge(code: string): string {
-    const edgeMap: { [key: string]: string } = {
-      'n': 'north',
-      's': 'south',
-      'e': 'east',
-      'w': 'west',
-      'ne': 'ne',
-      'nw': 'nw',
-      'se': 'se',
-      'sw': 'sw',
-    };
-    return edgeMap[code] || 'west';
-  }
-  
-  private createNPCsForLocation(locationId: string): void {
-    const npcData = this.getNPCDataForLocation(locationId);
-    
-    for (const data of npcData) {
-      const pos = this.isoToScreen(data.x, data.y);
-      const npc = new NPC(this, pos.x, pos.y - 16, data.type, data.name, data.goods);
-      npc.setTilePosition(data.x, data.y);
-      npc.setNpcId(data.id);
-      this.npcs.push(npc);
+  private spawnSimulatedNPC(simulated: SimulatedNPC, locationId: string, index: number, arriving = false): NPC {
+    const data = simulated.definition;
+    // Keep NPCs inside smaller maps (the tavern is only 20x18) and off walls
+    const clampToMap = (tile: { x: number; y: number }) => this.snapToWalkable({
+      x: Phaser.Math.Clamp(tile.x, 1, this.mapWidth - 2),
+      y: Phaser.Math.Clamp(tile.y, 1, this.mapHeight - 2),
+    });
+    const arrival = this.getArrivalTile(locationId, simulated.previousLocation, index);
+    const { x, y } = clampToMap(arriving ? arrival : simulated.position ?? arrival);
+
+    const pos = this.isoToScreen(x, y);
+    const npc = new NPC(this, pos.x, pos.y - 16, data.type, data.name, data.goods);
+    npc.setTilePosition(x, y);
+    if (data.location === locationId) {
+      const stall = clampToMap(data);
+      npc.setStallTile(stall.x, stall.y);
     }
-  }
-  
-  private getNPCDataForLocation(locationId: string): Array<{type: string; id: string; x: number; y: number; name: string; goods: string[]}> {
-    switch (locationId) {
-      case 'docks':
-        return [
-          { type: 'npc_sailor', id: 'dock_sailor_1', x: 15, y: 14, name: 'Sailor', goods: [] },
-          { type: 'npc_sailor', id: 'dock_sailor_2', x: 20, y: 16, name: 'Bosun', goods: [] },
-          { type: 'npc_porter', id: 'dock_porter_1', x: 18, y: 12, name: 'Dock Porter', goods: [] },
-          { type: 'npc_porter', id: 'dock_porter_2', x: 25, y: 14, name: 'Cargo Handler', goods: [] },
-          { type: 'npc_soldier', id: 'dock_guard', x: 12, y: 14, name: 'Harbor Guard', goods: [] },
-        ];
-        
-      case 'alfandega':
-        return [
-          { type: 'npc_official', id: 'customs_officer', x: 20, y: 15, name: 'Customs Official', goods: [] },
-          { type: 'npc_official', id: 'tax_collector', x: 18, y: 18, name: 'Tax Collector', goods: [] },
-          { type: 'npc_soldier', id: 'customs_guard', x: 15, y: 12, name: 'Customs Guard', goods: [] },
-          { type: 'npc_portuguese', id: 'merchant_waiting', x: 22, y: 18, name: 'Waiting Merchant', goods: ['good_silk', 'good_pepper'] },
-        ];
-        
-      case 'se_cathedral':
-        return [
-          { type: 'npc_monk', id: 'fr_tomas', x: 20, y: 15, name: 'Brother Tomás', goods: [] },
-          { type: 'npc_monk', id: 'fr_miguel', x: 18, y: 18, name: 'Brother Miguel', goods: [] },
-          { type: 'npc_porter', id: 'worker_1', x: 22, y: 14, name: 'Stone Mason', goods: [] },
-        ];
-        
-      case 'old_quarter':
-        return [
-          { type: 'npc_hindu', id: 'resident_1', x: 18, y: 15, name: 'Local Resident', goods: [] },
-          { type: 'npc_hindu', id: 'home_vendor', x: 22, y: 18, name: 'Home Vendor', goods: ['good_ginger'] },
-          { type: 'npc_arab', id: 'quarter_trader', x: 20, y: 12, name: 'Street Trader', goods: ['good_cloves', 'good_nutmeg'] },
-        ];
-        
-      case 'tavern':
-        return [
-          { type: 'npc_sailor', id: 'drunk_sailor', x: 18, y: 15, name: 'Tipsy Sailor', goods: [] },
-          { type: 'npc_portuguese', id: 'tavern_patron', x: 22, y: 16, name: 'Merchant', goods: [] },
-          { type: 'npc_arab', id: 'tavern_trader', x: 20, y: 18, name: 'Traveler', goods: ['good_silk'] },
-        ];
-        
-      case 'warehouse_district':
-        return [
-          { type: 'npc_porter', id: 'warehouse_worker_1', x: 18, y: 15, name: 'Warehouse Worker', goods: [] },
-          { type: 'npc_porter', id: 'warehouse_worker_2', x: 22, y: 18, name: 'Inventory Clerk', goods: [] },
-          { type: 'npc_official', id: 'warehouse_master', x: 20, y: 12, name: 'Warehouse Master', goods: [] },
-          { type: 'npc_portuguese', id: 'bulk_merchant', x: 25, y: 16, name: 'Bulk Merchant', goods: ['good_pepper', 'good_cinnamon', 'good_silk'] },
-        ];
-        
-      default: // ribeira_grande
-        return [
-          { type: 'npc_hindu', id: 'spice_vendor_1', x: 14, y: 8, name: 'Spice Vendor', goods: ['good_pepper', 'good_cinnamon', 'good_cloves'] },
-          { type: 'npc_hindu', id: 'spice_vendor_2', x: 15, y: 12, name: 'Pepper Merchant', goods: ['good_pepper'] },
-          { type: 'npc_arab', id: 'spice_middleman', x: 14, y: 16, name: 'Arab Spice Trader', goods: ['good_cloves', 'good_nutmeg'] },
-          { type: 'npc_portuguese', id: 'silk_merchant', x: 18, y: 8, name: 'Silk Merchant', goods: ['good_silk'] },
-          { type: 'npc_hindu', id: 'cloth_vendor', x: 19, y: 12, name: 'Cloth Vendor', goods: ['good_silk', 'good_indigo'] },
-          { type: 'npc_hindu', id: 'produce_vendor', x: 22, y: 8, name: 'Produce Seller', goods: ['good_ginger'] },
-          { type: 'npc_portuguese', id: 'luxury_merchant', x: 26, y: 8, name: 'Portuguese Merchant', goods: ['good_porcelain', 'good_silk'] },
-          { type: 'npc_arab', id: 'arab_trader', x: 27, y: 12, name: 'Yusuf al-Rashid', goods: ['good_cloves'] },
-          { type: 'npc_official', id: 'crown_officer', x: 32, y: 10, name: 'Crown Trade Officer', goods: [] },
-          { type: 'npc_soldier', id: 'guard_1', x: 9, y: 10, name: 'Portuguese Guard', goods: [] },
-          { type: 'npc_soldier', id: 'guard_2', x: 9, y: 18, name: 'Portuguese Guard', goods: [] },
-          { type: 'npc_sailor', id: 'sailor_1', x: 7, y: 8, name: 'Sailor', goods: [] },
-          { type: 'npc_porter', id: 'dock_porter', x: 7, y: 14, name: 'Dock Worker', goods: [] },
-          { type: 'npc_hindu', id: 'ginger_seller', x: 23, y: 16, name: 'Ginger Seller', goods: ['good_ginger'] },
-        ];
+    npc.setHomeLocation(data.location);
+    npc.setSchedule(simulated.schedule);
+    npc.setActivity(simulated.activity);
+    npc.setFaction(data.faction ?? null);
+    npc.setNpcId(data.id);
+    this.npcs.push(npc);
+
+    if (arriving && simulated.position) {
+      const destination = clampToMap(simulated.position);
+      npc.walkToTile(destination.x, destination.y);
     }
+    return npc;
   }
-  
+
+  /**
+   * Where a visiting NPC stands: just inside the exit from where it came
+   * from, spread out a little so a group arriving together doesn't stack
+   */
+  private getArrivalTile(locationId: string, from: string | null, index: number): { x: number; y: number } {
+    const zones = this.getTransitionZonesForLocation(locationId);
+    const entrance = zones.find(zone => zone.targetLocation === from) ?? zones[0];
+    const base = entrance ?? this.getPlayerSpawnTile();
+    return {
+      x: base.x + (index % 3) - 1,
+      y: base.y + (Math.floor(index / 3) % 3) - 1,
+    };
+  }
+
   private createTransitionZonesForLocation(locationId: string): void {
     const zones = this.getTransitionZonesForLocation(locationId);
     this.transitionZones = zones;
+    this.registry.set('transitionZones', zones);
     
     // Create visual indicators
     for (const zone of zones) {
@@ -1490,49 +1343,48 @@ export class MarketScene extends Phaser.Scene {
   }
   
   private getTransitionZonesForLocation(locationId: string): Array<{x: number; y: number; targetLocation: string; label: string}> {
-    switch (locationId) {
-      case 'docks':
-        return [
-          { x: 20, y: 28, targetLocation: 'ribeira_grande', label: 'To Market' },
-          { x: 30, y: 20, targetLocation: 'warehouse_district', label: 'To Warehouses' },
-        ];
-      case 'alfandega':
-        return [
-          { x: 10, y: 15, targetLocation: 'ribeira_grande', label: 'To Market' },
-        ];
-      case 'se_cathedral':
-        return [
-          { x: 10, y: 15, targetLocation: 'ribeira_grande', label: 'To Market' },
-        ];
-      case 'old_quarter':
-        return [
-          { x: 10, y: 15, targetLocation: 'ribeira_grande', label: 'To Market' },
-          { x: 25, y: 25, targetLocation: 'tavern', label: 'To Tavern' },
-        ];
-      case 'tavern':
-        return [
-          { x: 10, y: 15, targetLocation: 'old_quarter', label: 'To Old Quarter' },
-          { x: 20, y: 28, targetLocation: 'ribeira_grande', label: 'To Market' },
-        ];
-      case 'warehouse_district':
-        return [
-          { x: 10, y: 15, targetLocation: 'docks', label: 'To Docks' },
-          { x: 25, y: 25, targetLocation: 'ribeira_grande', label: 'To Market' },
-        ];
-      default: // ribeira_grande
-        return [
-          { x: 6, y: 5, targetLocation: 'docks', label: 'To Docks' },
-          { x: 6, y: 15, targetLocation: 'docks', label: 'To Docks' },
-          { x: 35, y: 10, targetLocation: 'alfandega', label: 'To Customs House' },
-          { x: 35, y: 20, targetLocation: 'se_cathedral', label: 'To Cathedral' },
-          { x: 18, y: 28, targetLocation: 'old_quarter', label: 'To Old Quarter' },
-          { x: 25, y: 28, targetLocation: 'tavern', label: 'To Tavern' },
-          { x: 12, y: 28, targetLocation: 'warehouse_district', label: 'To Warehouses' },
-        ];
+    // Prefer the transition objects authored in the location's Tiled map
+    if (this.currentMap && this.currentMap.id === locationId) {
+      const zones = this.mapLoader.getObjectsOfType(this.currentMap, 'transition').map(obj => {
+        // Tiled maps name targets by either id or file name
+        const targetLocation = String(obj.properties.targetMap ?? '').replace(/-/g, '_');
+        const label = obj.properties.prompt ?? obj.properties.transitionText ??
+          `To ${this.worldSystem.getLocation(targetLocation)?.name ?? targetLocation}`;
+        // Some exits are drawn over walls; put the marker where it can be reached
+        const tile = this.snapToWalkable({
+          x: obj.tileX + Math.floor((obj.tileWidth - 1) / 2),
+          y: obj.tileY + Math.floor((obj.tileHeight - 1) / 2),
+        });
+        return {
+          x: tile.x,
+          y: tile.y,
+          targetLocation,
+          label: String(label),
+        };
+      });
+      if (zones.length > 0) {
+        return zones;
+      }
     }
+
+    // Ribeira Grande's map has no transition objects yet
+    return [
+      { x: 6, y: 5, targetLocation: 'docks', label: 'To Docks' },
+      { x: 6, y: 15, targetLocation: 'docks', label: 'To Docks' },
+      { x: 35, y: 10, targetLocation: 'alfandega', label: 'To Customs House' },
+      { x: 35, y: 20, targetLocation: 'se_cathedral', label: 'To Cathedral' },
+      { x: 18, y: 28, targetLocation: 'old_quarter', label: 'To Old Quarter' },
+      { x: 25, y: 28, targetLocation: 'tavern', label: 'To Tavern' },
+      { x: 12, y: 28, targetLocation: 'warehouse_district', label: 'To Warehouses' },
+    ];
   }
 
   private isInteriorLocation(locationId: string): boolean {
+    const location = this.worldSystem.getLocation(locationId);
+    const locationType = location ? this.mapLoader.load(location.mapFile)?.locationType : undefined;
+    if (locationType) {
+      return locationType === 'interior';
+    }
     const interiors = ['alfandega', 'se_cathedral', 'tavern'];
     return interiors.includes(locationId);
   }
@@ -1594,7 +1446,7 @@ export class MarketScene extends Phaser.Scene {
         // Player is near a transition zone
         if (!this.registry.get('nearTransition')) {
           this.registry.set('nearTransition', zone);
-          this.events.emit('showTransitionPrompt', zone.label);
+          this.gameEvents.emit('showTransitionPrompt', zone.label);
         }
         return;
       }
@@ -1603,7 +1455,7 @@ export class MarketScene extends Phaser.Scene {
     // Not near any zone
     if (this.registry.get('nearTransition')) {
       this.registry.set('nearTransition', null);
-      this.events.emit('hideTransitionPrompt');
+      this.gameEvents.emit('hideTransitionPrompt');
     }
   }
 
@@ -1630,7 +1482,9 @@ export class MarketScene extends Phaser.Scene {
     // Render dynamic shadows for entities
     const entities = [
       { x: this.player.x, y: this.player.y, width: 14, height: 6 },
-      ...this.npcs.map(npc => ({ x: npc.x, y: npc.y, width: 12, height: 5 })),
+      ...this.npcs
+        .filter(npc => !npc.isAway())
+        .map(npc => ({ x: npc.x, y: npc.y, width: 12, height: 5 })),
     ];
     this.atmosphereSystem.renderEntityShadows(entities);
 
@@ -1641,7 +1495,7 @@ export class MarketScene extends Phaser.Scene {
     this.updateDepthSorting();
 
     // Emit time update event for UI (include weather info)
-    this.events.emit('timeUpdate', {
+    this.gameEvents.emit('timeUpdate', {
       ...this.timeSystem.getTimeData(),
       weather: this.weatherSystem.getCurrentWeather(),
       weatherDescription: this.weatherSystem.getWeatherDescription(),
@@ -1678,6 +1532,10 @@ export class MarketScene extends Phaser.Scene {
    * Clean up resources when scene is shut down
    */
   shutdown(): void {
+    this.registry.remove('walkabilityGrid');
+    this.registry.remove('pathfinder');
+    this.registry.remove('transitionZones');
+
     // Clean up particle system
     if (this.particleSystem) {
       this.particleSystem.destroy();
@@ -1705,26 +1563,29 @@ export class MarketScene extends Phaser.Scene {
     this.npcs = [];
 
     // Remove keyboard event listeners
-    this.input.keyboard?.off('keydown-E');
-    this.input.keyboard?.off('keydown-ENTER');
-    this.input.keyboard?.off('keydown-F5');
-    this.input.keyboard?.off('keydown-F9');
+    this.input.keyboard?.off('keydown', this.onKeyDown, this);
+    this.input.gamepad?.off('down', this.onGamepadDown, this);
 
     // Remove input event listeners
     this.input.off('pointerdown');
 
     // Unsubscribe from events to prevent memory leaks
-    this.events.off('requestLocationChange');
-    this.events.off('ship_arrival');
-    this.events.off('cargo_unloaded');
-    this.events.off('reputationChange');
-    this.events.off('goldChange');
-    this.events.off('itemGained');
-    this.events.off('itemLost');
-    this.events.off('questStarted');
-    this.events.off('questStageAdvanced');
-    this.events.off('questCompleted');
-    this.events.off('requestSaveData');
+    this.gameEvents.off('requestLocationChange');
+    this.gameEvents.off('requestFastTravel');
+    this.gameEvents.off('settingsChanged');
+    this.gameEvents.off('ship_arrival');
+    this.gameEvents.off('shipMoored');
+    this.gameEvents.off('shipCastOff');
+    this.gameEvents.off('cargo_unloaded');
+    this.gameEvents.off('newDay');
+    this.gameEvents.off('flagSet');
+    this.gameEvents.off('reputationDelta');
+    this.gameEvents.off('goldDelta');
+    this.gameEvents.off('itemGained');
+    this.gameEvents.off('itemLost');
+    this.gameEvents.off('questStarted');
+    this.gameEvents.off('questStageAdvanced');
+    this.gameEvents.off('questCompleted');
 
     // Destroy all systems
     if (this.timeSystem?.destroy) this.timeSystem.destroy();
@@ -1742,6 +1603,13 @@ export class MarketScene extends Phaser.Scene {
     if (this.npcMemorySystem?.destroy) this.npcMemorySystem.destroy();
     if (this.tradeRouteSystem?.destroy) this.tradeRouteSystem.destroy();
     if (this.achievementSystem?.destroy) this.achievementSystem.destroy();
+    if (this.npcSimulation?.destroy) this.npcSimulation.destroy();
+    if (this.hagglingSystem?.destroy) this.hagglingSystem.destroy();
+    if (this.priceLedger?.destroy) this.priceLedger.destroy();
+    if (this.warehouseSystem?.destroy) this.warehouseSystem.destroy();
+    if (this.harborSystem?.destroy) this.harborSystem.destroy();
+    if (this.skillSystem?.destroy) this.skillSystem.destroy();
+    this.clearMooredShips();
 
     // Destroy player
     if (this.player?.destroy) this.player.destroy();
@@ -1759,6 +1627,13 @@ export class MarketScene extends Phaser.Scene {
     this.registry.remove('npcMemorySystem');
     this.registry.remove('tradeRouteSystem');
     this.registry.remove('achievementSystem');
+    this.registry.remove('npcSimulation');
+    this.registry.remove('hagglingSystem');
+    this.registry.remove('priceLedger');
+    this.registry.remove('warehouseSystem');
+    this.registry.remove('harborSystem');
+    this.registry.remove('skillSystem');
+    this.registry.remove(RandomSystem.REGISTRY_KEY);
     this.registry.remove('nearTransition');
     this.registry.remove('currentLocation');
   }
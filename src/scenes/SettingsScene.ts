@@ -0,0 +1,303 @@
+import Phaser from 'phaser';
+import { GOLD } from '../art/palette';
+import { getGameEvents } from '../systems/GameEvents';
+import {
+  GameSettingsData,
+  QUALITY_LEVELS,
+  TIME_SCALES,
+  TextSize,
+  VolumeSetting,
+  getGameSettings,
+} from '../systems/GameSettings';
+import { InputAction, getGamepadAction, getInputBindings } from '../systems/InputBindings';
+
+/**
+ * SettingsScene - The player's audio, graphics and accessibility options
+ *
+ * Launched over the main menu, or over the game from the pause panel, and
+ * stopped again when closed. The scene it was opened over leaves its keys
+ * alone while it is open. Changes are saved and applied as they are made
+ * (see GameSettings).
+ */
+
+// One line of the settings screen
+interface SettingRow {
+  label: string;
+  hint: string; // Shown under the rows while the line is chosen
+  describe(settings: GameSettingsData): string;
+  change(settings: GameSettingsData, step: number): void;
+}
+
+const VOLUME_STEP = 0.1;
+const ROW_SPACING = 34;
+
+export class SettingsScene extends Phaser.Scene {
+  private rows: SettingRow[] = [];
+  private selectedIndex = 0;
+  private labelTexts: Phaser.GameObjects.Text[] = [];
+  private valueTexts: Phaser.GameObjects.Text[] = [];
+  private rowHighlight!: Phaser.GameObjects.Graphics;
+  private statusText!: Phaser.GameObjects.Text;
+  private top = 0;
+
+  constructor() {
+    super({ key: 'SettingsScene' });
+  }
+
+  create(): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+    this.rows = this.createRows();
+    this.selectedIndex = 0;
+    this.labelTexts = [];
+    this.valueTexts = [];
+    this.top = height / 2 - 250;
+
+    // Interactive, so clicks do not reach the scene underneath
+    const overlay = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.7);
+    overlay.setInteractive();
+
+    const panel = this.add.graphics();
+    panel.fillStyle(0x1a1a2a, 0.95);
+    panel.fillRoundedRect(width / 2 - 270, this.top, 540, 500, 10);
+    panel.lineStyle(2, GOLD.shadow, 0.8);
+    panel.strokeRoundedRect(width / 2 - 270, this.top, 540, 500, 10);
+
+    const title = this.add.text(width / 2, this.top + 30, 'Settings', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '24px',
+      color: '#ffd700',
+      fontStyle: 'bold',
+    });
+    title.setOrigin(0.5);
+
+    this.rowHighlight = this.add.graphics();
+
+    this.rows.forEach((row, index) => {
+      const y = this.top + 80 + index * ROW_SPACING;
+
+      const labelText = this.add.text(width / 2 - 230, y, row.label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '16px',
+        color: '#c9a227',
+      });
+      labelText.setOrigin(0, 0.5);
+      labelText.setInteractive({ useHandCursor: true });
+      labelText.on('pointerdown', () => this.selectRow(index));
+      this.labelTexts.push(labelText);
+
+      this.createButton(width / 2 + 80, y, '<', () => this.changeRow(index, -1), '16px');
+      const valueText = this.add.text(width / 2 + 150, y, '', {
+        fontFamily: 'Georgia, serif',
+        fontSize: '16px',
+        color: '#e8d5b7',
+      });
+      valueText.setOrigin(0.5);
+      this.valueTexts.push(valueText);
+      this.createButton(width / 2 + 220, y, '>', () => this.changeRow(index, 1), '16px');
+    });
+
+    this.statusText = this.add.text(width / 2, this.top + 414, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '13px',
+      color: '#a0a0a0',
+      fontStyle: 'italic',
+      align: 'center',
+      wordWrap: { width: 480 },
+    });
+    this.statusText.setOrigin(0.5);
+
+    const bindings = getInputBindings();
+    const keysHint = this.add.text(
+      width / 2,
+      this.top + 442,
+      `${bindings.getLabel('moveUp')}/${bindings.getLabel('moveDown')} choose, ` +
+        `${bindings.getLabel('moveLeft')}/${bindings.getLabel('moveRight')} change, ` +
+        `${bindings.getLabel('menu')} to close`,
+      {
+        fontFamily: 'Georgia, serif',
+        fontSize: '12px',
+        color: '#8b7355',
+        fontStyle: 'italic',
+      }
+    );
+    keysHint.setOrigin(0.5);
+
+    this.createButton(width / 2 - 110, this.top + 472, '[ Reset to defaults ]', () => {
+      getGameSettings().resetToDefaults();
+      this.applySettings();
+      this.refreshRows('Settings reset to their defaults');
+    }, '18px');
+    this.createButton(width / 2 + 140, this.top + 472, '[ Close ]', () => this.close(), '18px');
+
+    this.input.keyboard?.on('keydown', this.onKeyDown, this);
+    this.input.gamepad?.on('down', this.onGamepadDown, this);
+
+    this.refreshRows();
+  }
+
+  private createRows(): SettingRow[] {
+    return [
+      this.volumeRow('masterVolume', 'Master volume', 'Every sound in the game'),
+      this.volumeRow('musicVolume', 'Music', 'The music of the market'),
+      this.volumeRow('sfxVolume', 'Effects', 'Coins, footsteps and the like'),
+      this.volumeRow('ambientVolume', 'Ambience', 'The crowd, the sea and the weather'),
+      this.choiceRow('quality', 'Art quality', QUALITY_LEVELS, ['Low', 'Medium', 'High'],
+        'Takes effect the next time the game starts'),
+      this.choiceRow('scanlines', 'Scanlines', [false, true], ['Off', 'On'], 'Faint CRT lines over the screen'),
+      this.choiceRow('vignette', 'Vignette', [false, true], ['Off', 'On'], 'Darkens the edges of the screen'),
+      this.choiceRow('textSize', 'Text size', ['normal', 'large', 'larger'] as TextSize[],
+        ['Normal', 'Large', 'Larger'], 'Text in conversations, trading and your goods'),
+      this.choiceRow('timeScale', 'Game speed', TIME_SCALES, TIME_SCALES.map(scale => `x${scale / 60}`),
+        'How quickly the hours pass; x1 is one game minute each second'),
+      this.choiceRow('reducedFlashing', 'Reduced flashing', [false, true], ['Off', 'On'],
+        'Lightning glows faintly instead of flashing the screen'),
+    ];
+  }
+
+  private volumeRow(key: VolumeSetting, label: string, hint: string): SettingRow {
+    return {
+      label,
+      hint,
+      describe: settings => `${Math.round(settings[key] * 100)}%`,
+      change: (settings, step) => {
+        const volume = Math.max(0, Math.min(1, settings[key] + step * VOLUME_STEP));
+        getGameSettings().set(key, Math.round(volume * 10) / 10);
+      },
+    };
+  }
+
+  // Left and right step through the options, wrapping round at either end
+  private choiceRow<K extends keyof GameSettingsData>(
+    key: K,
+    label: string,
+    options: GameSettingsData[K][],
+    names: string[],
+    hint: string
+  ): SettingRow {
+    return {
+      label,
+      hint,
+      describe: settings => names[options.indexOf(settings[key])] ?? String(settings[key]),
+      change: (settings, step) => {
+        const index = options.indexOf(settings[key]);
+        const next = (index + step + options.length) % options.length;
+        getGameSettings().set(key, options[next]);
+      },
+    };
+  }
+
+  private createButton(
+    x: number,
+    y: number,
+    label: string,
+    onClick: () => void,
+    fontSize = '15px'
+  ): Phaser.GameObjects.Text {
+    const button = this.add.text(x, y, label, {
+      fontFamily: 'Georgia, serif',
+      fontSize,
+      color: '#c9a227',
+    });
+    button.setOrigin(0.5);
+    button.setInteractive({ useHandCursor: true });
+    button.on('pointerover', () => button.setColor('#ffd700'));
+    button.on('pointerout', () => button.setColor('#c9a227'));
+    button.on('pointerdown', onClick);
+    return button;
+  }
+
+  private selectRow(index: number): void {
+    this.selectedIndex = (index + this.rows.length) % this.rows.length;
+    this.refreshRows();
+  }
+
+  private changeRow(index: number, step: number): void {
+    this.selectedIndex = index;
+    this.rows[index].change(getGameSettings().get(), step);
+    this.applySettings();
+    this.refreshRows();
+  }
+
+  /**
+   * Set the volumes and tell MarketScene, if the game is running, what changed
+   */
+  private applySettings(): void {
+    const settings = getGameSettings();
+    settings.applyVolumes(this.registry.get('audioSystem'));
+    getGameEvents(this.scene.get('MarketScene')).emit('settingsChanged', settings.get());
+  }
+
+  /**
+   * @param notice A line to show in place of the chosen row's hint
+   */
+  private refreshRows(notice = ''): void {
+    const settings = getGameSettings().get();
+    const width = this.cameras.main.width;
+
+    this.rows.forEach((row, index) => {
+      const selected = index === this.selectedIndex;
+      this.labelTexts[index].setColor(selected ? '#ffd700' : '#c9a227');
+      this.valueTexts[index].setText(row.describe(settings));
+    });
+
+    const y = this.top + 80 + this.selectedIndex * ROW_SPACING;
+    this.rowHighlight.clear();
+    this.rowHighlight.fillStyle(GOLD.shadow, 0.15);
+    this.rowHighlight.fillRoundedRect(width / 2 - 245, y - 14, 490, 28, 4);
+
+    this.statusText.setText(notice || this.rows[this.selectedIndex].hint);
+    this.statusText.setColor(notice ? '#8fbc8f' : '#a0a0a0');
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    if (event.repeat) return;
+    const action = getInputBindings().getAction(event.keyCode);
+    if (action) {
+      this.handleAction(action);
+    }
+  }
+
+  private onGamepadDown(_pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button): void {
+    const action = getGamepadAction(button.index);
+    if (action) {
+      this.handleAction(action);
+    }
+  }
+
+  private handleAction(action: InputAction): void {
+    switch (action) {
+      case 'moveUp':
+        this.selectRow(this.selectedIndex - 1);
+        break;
+      case 'moveDown':
+        this.selectRow(this.selectedIndex + 1);
+        break;
+      case 'moveLeft':
+        this.changeRow(this.selectedIndex, -1);
+        break;
+      case 'moveRight':
+      case 'interact':
+        this.changeRow(this.selectedIndex, 1);
+        break;
+      case 'menu':
+        this.close();
+        break;
+    }
+  }
+
+  private close(): void {
+    this.scene.stop();
+  }
+
+  /**
+   * Clean up event listeners when scene shuts down
+   */
+  shutdown(): void {
+    this.input.keyboard?.off('keydown', this.onKeyDown, this);
+    this.input.gamepad?.off('down', this.onGamepadDown, this);
+    this.rows = [];
+    this.labelTexts = [];
+    this.valueTexts = [];
+  }
+}
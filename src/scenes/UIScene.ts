@@ -1,4 +1,17 @@
 import Phaser from 'phaser';
+import type { CalendarDate } from '../systems/Calendar';
+import type { ContractSystem } from '../systems/ContractSystem';
+import { loadGoodsCatalog } from '../systems/GoodsCatalog';
+import { HarborSystem } from '../systems/HarborSystem';
+import { InputAction, getGamepadAction, getInputBindings } from '../systems/InputBindings';
+import { loadNPCRegistry } from '../systems/NPCRegistry';
+import type { NPCSimulationSystem } from '../systems/NPCSimulationSystem';
+import type { SkillSystem } from '../systems/SkillSystem';
+import type { OrderQuote } from '../systems/TradeSystem';
+import type { TradeRouteSystem } from '../systems/TradeRouteSystem';
+import type { WorldSystem } from '../systems/WorldSystem';
+import { GameEventBus, getGameEvents } from '../systems/GameEvents';
+import { getGameSettings } from '../systems/GameSettings';
 
 /**
  * UIScene - Handles all UI elements overlaid on the game
@@ -10,18 +23,54 @@ export class UIScene extends Phaser.Scene {
   private rankText!: Phaser.GameObjects.Text;
   private inventoryPanel!: Phaser.GameObjects.Container;
   private tradePanel!: Phaser.GameObjects.Container;
+  private hagglePanel!: Phaser.GameObjects.Container;
+  private basketPanel!: Phaser.GameObjects.Container;
   private transitionPrompt!: Phaser.GameObjects.Container;
   private questOfferPanel!: Phaser.GameObjects.Container;
   private questLogPanel!: Phaser.GameObjects.Container;
   private contractPanel!: Phaser.GameObjects.Container;
+  private ledgerPanel!: Phaser.GameObjects.Container;
+  private warehousePanel!: Phaser.GameObjects.Container;
+  private shipTradePanel!: Phaser.GameObjects.Container;
+  private expeditionPanel!: Phaser.GameObjects.Container;
+  private mapPanel!: Phaser.GameObjects.Container;
+  private skillsPanel!: Phaser.GameObjects.Container;
+  private voyageDecisionPanel!: Phaser.GameObjects.Container;
+  private pausePanel!: Phaser.GameObjects.Container;
   private bottomBar!: Phaser.GameObjects.Container;
   private actionButtons: Map<string, Phaser.GameObjects.Container> = new Map();
   private isInventoryOpen = false;
   private isTradeOpen = false;
+  private isHaggleOpen = false;
+  private isBasketOpen = false;
   private isQuestOfferOpen = false;
   private isQuestLogOpen = false;
   private isContractPanelOpen = false;
+  private isLedgerOpen = false;
+  private ledgerPage = 0;
+  private isWarehouseOpen = false;
+  private currentShipId: string | null = null;
+  private isExpeditionOpen = false;
+  private isMapOpen = false;
+  private isSkillsOpen = false;
+  private isPaused = false;
+  private pauseOptions: { text: Phaser.GameObjects.Text; select: () => void }[] = [];
+  private selectedPauseOption = 0;
+  private selectedPerkId: string | null = null;
+  private selectedRouteId = 'route_malabar';
+  // Units of each carried good to load for the next expedition
+  private expeditionCargo: Map<string, number> = new Map();
+  // Expedition whose captain is waiting on the decision panel
+  private currentDecisionId: string | null = null;
   private currentQuestOffer: { npcId: string; npcName: string; quests: any[] } | null = null;
+  private currentTrader: { npcId: string; npcName: string } | null = null;
+  private currentHaggle: { good: string; isBuying: boolean } | null = null;
+  private haggleOffer = 0;
+  // Units of each of the trader's goods to buy and sell in one order
+  private basket: Map<string, { buy: number; sell: number }> = new Map();
+  private tradeGoods: string[] = [];
+  // MarketScene's events, which the UI follows and reports player actions on
+  private gameEvents?: GameEventBus;
 
   constructor() {
     super({ key: 'UIScene' });
@@ -32,10 +81,20 @@ export class UIScene extends Phaser.Scene {
     this.createBottomActionBar();
     this.createInventoryPanel();
     this.createTradePanel();
+    this.createHagglePanel();
+    this.createBasketPanel();
     this.createTransitionPrompt();
     this.createQuestOfferPanel();
     this.createQuestLogPanel();
     this.createContractPanel();
+    this.createLedgerPanel();
+    this.createWarehousePanel();
+    this.createShipTradePanel();
+    this.createExpeditionPanel();
+    this.createVoyageDecisionPanel();
+    this.createMapPanel();
+    this.createSkillsPanel();
+    this.createPausePanel();
     this.setupEventListeners();
     this.setupInputHandlers();
 
@@ -110,7 +169,7 @@ export class UIScene extends Phaser.Scene {
     this.transitionPrompt.add(bg);
     
     // Text
-    const text = this.add.text(0, 0, 'Press E to enter', {
+    const text = this.add.text(0, 0, `Press ${getInputBindings().getLabel('interact')} to enter`, {
       fontFamily: 'Georgia, serif',
       fontSize: '14px',
       color: '#f4e4bc',
@@ -267,8 +326,8 @@ export class UIScene extends Phaser.Scene {
     title.setOrigin(0.5, 0.5);
     this.questLogPanel.add(title);
     
-    // Press J to close hint
-    const closeHint = this.add.text(160, 260, 'Press J to close', {
+    // Close hint
+    const closeHint = this.add.text(160, 260, `Press ${getInputBindings().getLabel('journal')} to close`, {
       fontFamily: 'Georgia, serif',
       fontSize: '11px',
       color: '#5a4030',
@@ -491,7 +550,7 @@ export class UIScene extends Phaser.Scene {
     this.drawCornerOrnament(statusBar, 58, 8);
 
     // Time display with larger quill-written style
-    this.timeText = this.add.text(64, 12, 'Market Hours - 7:00 AM (Day 1)', {
+    this.timeText = this.add.text(64, 12, 'Mon 1 Jan 1590, 7:00 AM - Market Hours', {
       fontFamily: 'Georgia, serif',
       fontSize: '16px',
       color: '#2c1810',
@@ -624,8 +683,10 @@ export class UIScene extends Phaser.Scene {
       { id: 'inventory', icon: 'bag', label: 'Inventory', hotkey: 'I', action: () => this.toggleInventory() },
       { id: 'quests', icon: 'scroll', label: 'Quests', hotkey: 'J', action: () => this.toggleQuestLog() },
       { id: 'contracts', icon: 'contract', label: 'Contracts', hotkey: 'C', action: () => this.toggleContractPanel() },
-      { id: 'map', icon: 'map', label: 'Map', hotkey: 'M', action: () => this.showMapPlaceholder() },
-      { id: 'skills', icon: 'star', label: 'Skills', hotkey: 'K', action: () => this.showSkillsPlaceholder() },
+      { id: 'ledger', icon: 'ledger', label: 'Price Ledger', hotkey: 'L', action: () => this.toggleLedger() },
+      { id: 'expeditions', icon: 'ship', label: 'Expeditions', hotkey: 'X', action: () => this.toggleExpeditions() },
+      { id: 'map', icon: 'map', label: 'Map', hotkey: 'M', action: () => this.toggleMap() },
+      { id: 'skills', icon: 'star', label: 'Skills', hotkey: 'K', action: () => this.toggleSkills() },
     ];
 
     const buttonSize = 40;
@@ -855,6 +916,41 @@ export class UIScene extends Phaser.Scene {
         icon.fillCircle(center - 1, center + 3, 2);
         break;
 
+      case 'ledger': // Price ledger book
+        icon.fillStyle(0x5a3a1a, 1);
+        icon.fillRect(center - 9, center - 8, 18, 16);
+        icon.fillStyle(0xf4e4bc, 1);
+        icon.fillRect(center - 7, center - 6, 14, 12);
+        // Price line
+        icon.lineStyle(2, 0x8b2500, 1);
+        icon.beginPath();
+        icon.moveTo(center - 6, center + 3);
+        icon.lineTo(center - 2, center - 1);
+        icon.lineTo(center + 1, center + 1);
+        icon.lineTo(center + 6, center - 4);
+        icon.strokePath();
+        break;
+
+      case 'ship': // Expedition ship
+        icon.fillStyle(0x654321, 1);
+        icon.beginPath();
+        icon.moveTo(center - 10, center + 3);
+        icon.lineTo(center + 10, center + 3);
+        icon.lineTo(center + 7, center + 8);
+        icon.lineTo(center - 7, center + 8);
+        icon.closePath();
+        icon.fillPath();
+        // Mast and sail
+        icon.fillRect(center - 1, center - 10, 2, 13);
+        icon.fillStyle(0xf4e4bc, 1);
+        icon.fillRect(center - 7, center - 8, 6, 9);
+        icon.fillRect(center + 1, center - 6, 5, 7);
+        // Cross of the Order of Christ
+        icon.fillStyle(0x8b2500, 1);
+        icon.fillRect(center - 5, center - 5, 2, 4);
+        icon.fillRect(center - 6, center - 4, 4, 2);
+        break;
+
       case 'map': // Map icon
         icon.fillStyle(0xd4a574, 1);
         icon.fillRect(center - 8, center - 6, 16, 12);
@@ -911,22 +1007,6 @@ export class UIScene extends Phaser.Scene {
     graphics.fillCircle(startX + 9 * dir, y + 7, 1);
   }
 
-  /**
-   * Placeholder for map functionality
-   */
-  private showMapPlaceholder(): void {
-    // TODO: Implement map panel
-    console.log('Map functionality coming soon');
-  }
-
-  /**
-   * Placeholder for skills functionality
-   */
-  private showSkillsPlaceholder(): void {
-    // TODO: Implement skills panel
-    console.log('Skills functionality coming soon');
-  }
-
   private createInventoryPanel(): void {
     const width = this.cameras.main.width;
 
@@ -1088,6 +1168,187 @@ export class UIScene extends Phaser.Scene {
     this.tradePanel.add(closeBtn);
   }
 
+  private createHagglePanel(): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+
+    this.hagglePanel = this.add.container(width / 2, height / 2);
+    this.hagglePanel.setVisible(false);
+    this.hagglePanel.setDepth(2000);
+
+    // Small parchment slip laid over the trade ledger
+    const bg = this.add.graphics();
+    bg.fillStyle(0xf4e4bc, 0.99);
+    bg.fillRoundedRect(-180, -130, 360, 260, 10);
+    bg.lineStyle(3, 0x3d2314, 1);
+    bg.strokeRoundedRect(-180, -130, 360, 260, 10);
+    bg.fillStyle(0xc9a227, 0.7);
+    bg.fillRect(-170, -92, 340, 2);
+    this.hagglePanel.add(bg);
+
+    const title = this.add.text(0, -110, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '17px',
+      color: '#2c1810',
+      fontStyle: 'italic',
+    });
+    title.setOrigin(0.5, 0.5);
+    title.setName('haggleTitle');
+    this.hagglePanel.add(title);
+
+    // What the vendor last said
+    const line = this.add.text(0, -65, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '13px',
+      color: '#4a3020',
+      fontStyle: 'italic',
+      wordWrap: { width: 320 },
+      align: 'center',
+    });
+    line.setOrigin(0.5, 0.5);
+    line.setName('haggleLine');
+    this.hagglePanel.add(line);
+
+    const counter = this.add.text(0, -32, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '14px',
+      color: '#8b6914',
+    });
+    counter.setOrigin(0.5, 0.5);
+    counter.setName('haggleCounter');
+    this.hagglePanel.add(counter);
+
+    const patience = this.add.text(0, -12, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '12px',
+      color: '#8b2500',
+    });
+    patience.setOrigin(0.5, 0.5);
+    patience.setName('hagglePatience');
+    this.hagglePanel.add(patience);
+
+    // Offer with step buttons either side
+    const offer = this.add.text(0, 18, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '16px',
+      color: '#2c1810',
+      fontStyle: 'bold',
+    });
+    offer.setOrigin(0.5, 0.5);
+    offer.setName('haggleOffer');
+    this.hagglePanel.add(offer);
+
+    const steps: Array<[number, string, number]> = [[-120, '-', -1], [120, '+', 1]];
+    for (const [x, label, direction] of steps) {
+      const stepBtn = this.add.text(x, 18, label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '20px',
+        color: '#5a4020',
+      });
+      stepBtn.setOrigin(0.5, 0.5);
+      stepBtn.setInteractive({ useHandCursor: true });
+      stepBtn.on('pointerover', () => stepBtn.setColor('#c9a227'));
+      stepBtn.on('pointerout', () => stepBtn.setColor('#5a4020'));
+      stepBtn.on('pointerdown', () => this.adjustHaggleOffer(direction));
+      this.hagglePanel.add(stepBtn);
+    }
+
+    // The player's read of the vendor, from appraisal skill
+    const hint = this.add.text(0, 48, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '11px',
+      color: '#5a4030',
+      fontStyle: 'italic',
+    });
+    hint.setOrigin(0.5, 0.5);
+    hint.setName('haggleHint');
+    this.hagglePanel.add(hint);
+
+    const buttons: Array<[number, string, number, () => void]> = [
+      [-110, 'Offer', 0x2d5a27, () => this.submitHaggleOffer()],
+      [0, 'Accept', 0x8b6914, () => this.acceptHaggleCounter()],
+      [110, 'Walk away', 0x8b2500, () => this.closeHaggle()],
+    ];
+    for (const [x, label, color, action] of buttons) {
+      const buttonBg = this.add.graphics();
+      buttonBg.fillStyle(color, 1);
+      buttonBg.fillRoundedRect(x - 45, 78, 90, 30, 5);
+      this.hagglePanel.add(buttonBg);
+
+      const button = this.add.text(x, 93, label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '14px',
+        color: '#f4e4bc',
+      });
+      button.setOrigin(0.5, 0.5);
+      button.setInteractive({ useHandCursor: true });
+      button.on('pointerdown', action);
+      button.on('pointerover', () => buttonBg.setAlpha(0.8));
+      button.on('pointerout', () => buttonBg.setAlpha(1));
+      this.hagglePanel.add(button);
+    }
+  }
+
+  private createBasketPanel(): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+
+    // Beside the trade ledger
+    this.basketPanel = this.add.container(width / 2 + 230, height / 2 - 175);
+    this.basketPanel.setVisible(false);
+
+    const bg = this.add.graphics();
+    bg.fillStyle(0xf4e4bc, 0.98);
+    bg.fillRect(0, 0, 300, 350);
+    bg.fillStyle(0x3d2314, 1);
+    bg.fillRect(0, 0, 300, 5);
+    bg.fillRect(0, 345, 300, 5);
+    bg.fillRect(0, 0, 5, 350);
+    bg.fillRect(295, 0, 5, 350);
+    bg.fillStyle(0xc9a227, 0.7);
+    bg.fillRect(5, 5, 290, 2);
+    bg.fillRect(5, 343, 290, 2);
+    bg.lineStyle(1, 0x8b6914, 0.6);
+    bg.lineBetween(20, 48, 280, 48);
+    bg.lineBetween(20, 240, 280, 240);
+    this.basketPanel.add(bg);
+
+    const title = this.add.text(150, 28, 'Order Basket', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '18px',
+      color: '#2c1810',
+      fontStyle: 'italic',
+    });
+    title.setOrigin(0.5, 0.5);
+    this.basketPanel.add(title);
+
+    const buttons: Array<[number, string, number, () => void]> = [
+      [90, 'Strike deal', 0x2d5a27, () => this.executeBasket()],
+      [210, 'Clear', 0x8b2500, () => {
+        this.basket.clear();
+        this.updateBasketPanel();
+      }],
+    ];
+    for (const [x, label, color, action] of buttons) {
+      const buttonBg = this.add.graphics();
+      buttonBg.fillStyle(color, 1);
+      buttonBg.fillRoundedRect(x - 50, 305, 100, 28, 5);
+      this.basketPanel.add(buttonBg);
+
+      const button = this.add.text(x, 319, label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '13px',
+        color: '#f4e4bc',
+      });
+      button.setOrigin(0.5, 0.5);
+      button.setInteractive({ useHandCursor: true });
+      button.on('pointerdown', action);
+      button.on('pointerover', () => buttonBg.setAlpha(0.8));
+      button.on('pointerout', () => buttonBg.setAlpha(1));
+      this.basketPanel.add(button);
+    }
+  }
+
   private drawPanelCorner(graphics: Phaser.GameObjects.Graphics, x: number, y: number): void {
     graphics.fillStyle(0x8b6914, 0.5);
     graphics.fillRect(x, y, 20, 2);
@@ -1135,28 +1396,1612 @@ export class UIScene extends Phaser.Scene {
     title.setOrigin(0.5, 0.5);
     this.contractPanel.add(title);
 
-    // Press C to close hint
-    const closeHint = this.add.text(175, 300, 'Press C to close', {
-      fontFamily: 'Georgia, serif',
-      fontSize: '11px',
-      color: '#5a4030',
-      fontStyle: 'italic',
+    // Close hint
+    const closeHint = this.add.text(175, 300, `Press ${getInputBindings().getLabel('contracts')} to close`, {
+      fontFamily: 'Georgia, serif',
+      fontSize: '11px',
+      color: '#5a4030',
+      fontStyle: 'italic',
+    });
+    closeHint.setOrigin(0.5, 0.5);
+    this.contractPanel.add(closeHint);
+
+    // Decorative separator
+    const sep = this.add.graphics();
+    sep.lineStyle(2, 0x8b6914, 0.6);
+    sep.lineBetween(20, 35, 330, 35);
+    sep.fillStyle(0xc9a227, 1);
+    sep.fillCircle(175, 35, 4);
+    this.contractPanel.add(sep);
+
+    // Contract list container
+    const contractList = this.add.container(15, 50);
+    contractList.setName('contractList');
+    this.contractPanel.add(contractList);
+  }
+
+  private createLedgerPanel(): void {
+    const width = this.cameras.main.width;
+
+    this.ledgerPanel = this.add.container(width / 2 - 260, 70);
+    this.ledgerPanel.setVisible(false);
+    this.ledgerPanel.setDepth(1500);
+
+    const bg = this.add.graphics();
+    bg.fillStyle(0xf4e4bc, 0.97);
+    bg.fillRect(0, 0, 520, 470);
+    bg.fillStyle(0x3d2314, 1);
+    bg.fillRect(0, 0, 520, 5);
+    bg.fillRect(0, 465, 520, 5);
+    bg.fillRect(0, 0, 5, 470);
+    bg.fillRect(515, 0, 5, 470);
+    bg.fillStyle(0xc9a227, 0.7);
+    bg.fillRect(5, 5, 510, 2);
+    bg.fillRect(5, 463, 510, 2);
+    bg.lineStyle(1, 0x8b6914, 0.6);
+    bg.lineBetween(20, 48, 500, 48);
+    this.ledgerPanel.add(bg);
+
+    const title = this.add.text(260, 25, '- Price Ledger -', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '18px',
+      color: '#2c1810',
+      fontStyle: 'bold italic',
+    });
+    title.setOrigin(0.5, 0.5);
+    this.ledgerPanel.add(title);
+
+    const closeHint = this.add.text(260, 452, `Press ${getInputBindings().getLabel('ledger')} to close`, {
+      fontFamily: 'Georgia, serif',
+      fontSize: '11px',
+      color: '#5a4030',
+      fontStyle: 'italic',
+    });
+    closeHint.setOrigin(0.5, 0.5);
+    this.ledgerPanel.add(closeHint);
+  }
+
+  private toggleLedger(): void {
+    this.isLedgerOpen = !this.isLedgerOpen;
+    this.ledgerPanel.setVisible(this.isLedgerOpen);
+
+    if (this.isLedgerOpen) {
+      this.ledgerPage = 0;
+      this.updateLedgerPanel();
+    }
+  }
+
+  private refreshLedger(): void {
+    if (this.isLedgerOpen) {
+      this.updateLedgerPanel();
+    }
+  }
+
+  // Goods the ledger shows on each page
+  private static readonly LEDGER_ROWS_PER_PAGE = 8;
+
+  /**
+   * Draw a sparkline of recent days per good
+   * Everyone sees the closing prices; merchants with the
+   * 'price_information' unlock also see each day's range and open/close.
+   * Goods beyond one page are paged through.
+   */
+  private updateLedgerPanel(): void {
+    for (const child of this.ledgerPanel.getAll()) {
+      if (child.name?.startsWith('ledger')) {
+        child.destroy();
+      }
+    }
+
+    const priceLedger = this.registry.get('priceLedger');
+    const detailed = !!this.registry.get('progressionSystem')?.hasUnlock?.('price_information');
+    const days = 14;
+    const chartX = 150;
+    const chartWidth = 220;
+    const chartHeight = 30;
+
+    const subtitle = this.add.text(260, 60, detailed
+      ? `Daily open, high, low and close - last ${days} days`
+      : `Closing prices - last ${days} days (full ledger opens at Master rank)`, {
+      fontFamily: 'Georgia, serif',
+      fontSize: '10px',
+      color: '#5a4020',
+      fontStyle: 'italic',
+    });
+    subtitle.setOrigin(0.5, 0.5);
+    subtitle.setName('ledgerSubtitle');
+    this.ledgerPanel.add(subtitle);
+
+    const chart = this.add.graphics();
+    chart.setName('ledgerChart');
+    this.ledgerPanel.add(chart);
+
+    const goods = loadGoodsCatalog().getAllIds();
+    const perPage = UIScene.LEDGER_ROWS_PER_PAGE;
+    const pageCount = Math.max(1, Math.ceil(goods.length / perPage));
+    this.ledgerPage = Phaser.Math.Clamp(this.ledgerPage, 0, pageCount - 1);
+    if (pageCount > 1) {
+      this.createLedgerPageLinks(pageCount);
+    }
+
+    goods.slice(this.ledgerPage * perPage, (this.ledgerPage + 1) * perPage).forEach((good, index) => {
+      const rowY = 78 + index * 42;
+      const history: { open: number; high: number; low: number; close: number }[] =
+        priceLedger?.getHistory?.(good, days) ?? [];
+
+      const name = this.add.text(20, rowY + 4, this.formatGoodName(good), {
+        fontFamily: 'Georgia, serif',
+        fontSize: '13px',
+        color: '#2c1810',
+      });
+      name.setName(`ledgerGood${index}`);
+      this.ledgerPanel.add(name);
+
+      chart.lineStyle(1, 0xd4c4a8, 0.6);
+      chart.lineBetween(chartX, rowY + chartHeight, chartX + chartWidth, rowY + chartHeight);
+      if (history.length === 0) return;
+
+      const prices = detailed ? history.flatMap(day => [day.high, day.low]) : history.map(day => day.close);
+      const min = Math.min(...prices);
+      const max = Math.max(...prices);
+      const toY = (price: number) => rowY + chartHeight - ((price - min) / Math.max(1, max - min)) * chartHeight;
+      const step = chartWidth / days;
+      const toX = (i: number) => chartX + (days - history.length + i) * step + step / 2;
+
+      if (detailed) {
+        history.forEach((day, i) => {
+          const rising = day.close >= day.open;
+          chart.lineStyle(1, 0x5a4020, 1);
+          chart.lineBetween(toX(i), toY(day.high), toX(i), toY(day.low));
+          chart.fillStyle(rising ? 0x2d5a27 : 0x8b2500, 1);
+          const top = toY(Math.max(day.open, day.close));
+          chart.fillRect(toX(i) - step / 4, top, step / 2, Math.max(1, toY(Math.min(day.open, day.close)) - top));
+        });
+      } else {
+        chart.lineStyle(2, 0x8b6914, 1);
+        chart.beginPath();
+        history.forEach((day, i) => {
+          if (i === 0) chart.moveTo(toX(i), toY(day.close));
+          else chart.lineTo(toX(i), toY(day.close));
+        });
+        chart.strokePath();
+      }
+
+      const today = history[history.length - 1];
+      const previous = history.length > 1 ? history[history.length - 2].close : today.open;
+      const change = previous > 0 ? Math.round(((today.close - previous) / previous) * 100) : 0;
+
+      const price = this.add.text(chartX + chartWidth + 15, rowY + 4, `${today.close} reis`, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '13px',
+        color: '#8b6914',
+      });
+      price.setName(`ledgerPrice${index}`);
+      this.ledgerPanel.add(price);
+
+      const changeText = this.add.text(chartX + chartWidth + 90, rowY + 4, `${change > 0 ? '+' : ''}${change}%`, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '12px',
+        color: change > 0 ? '#2d5a27' : change < 0 ? '#8b2500' : '#5a4020',
+      });
+      changeText.setName(`ledgerChange${index}`);
+      this.ledgerPanel.add(changeText);
+
+      if (detailed) {
+        const ohlc = this.add.text(20, rowY + 22, `O ${today.open}  H ${today.high}  L ${today.low}  C ${today.close}`, {
+          fontFamily: 'Georgia, serif',
+          fontSize: '9px',
+          color: '#5a4020',
+        });
+        ohlc.setName(`ledgerOHLC${index}`);
+        this.ledgerPanel.add(ohlc);
+      }
+    });
+  }
+
+  private createLedgerPageLinks(pageCount: number): void {
+    const pageText = this.add.text(260, 430, `Page ${this.ledgerPage + 1} of ${pageCount}`, {
+      fontFamily: 'Georgia, serif',
+      fontSize: '11px',
+      color: '#5a4020',
+    });
+    pageText.setOrigin(0.5, 0.5);
+    pageText.setName('ledgerPage');
+    this.ledgerPanel.add(pageText);
+
+    const links: Array<[number, string, number]> = [[160, '< Previous', -1], [360, 'Next >', 1]];
+    for (const [x, label, step] of links) {
+      const target = this.ledgerPage + step;
+      const enabled = target >= 0 && target < pageCount;
+      const link = this.add.text(x, 430, label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '12px',
+        color: enabled ? '#5a4020' : '#b8a888',
+        fontStyle: 'italic',
+      });
+      link.setOrigin(0.5, 0.5);
+      link.setName(step < 0 ? 'ledgerPrevious' : 'ledgerNext');
+      if (enabled) {
+        link.setInteractive({ useHandCursor: true });
+        link.on('pointerover', () => link.setColor('#c9a227'));
+        link.on('pointerout', () => link.setColor('#5a4020'));
+        link.on('pointerdown', () => {
+          this.ledgerPage = target;
+          this.updateLedgerPanel();
+        });
+      }
+      this.ledgerPanel.add(link);
+    }
+  }
+
+  // Where each location sits on the map of the city, the Mandovi along the top
+  private static readonly CITY_MAP_LOCATIONS: Record<string, { x: number; y: number }> = {
+    docks: { x: 120, y: 50 },
+    warehouse_district: { x: 330, y: 44 },
+    alfandega: { x: 330, y: 128 },
+    ribeira_grande: { x: 220, y: 165 },
+    tavern: { x: 70, y: 178 },
+    old_quarter: { x: 460, y: 140 },
+    se_cathedral: { x: 400, y: 228 },
+  };
+
+  private createMapPanel(): void {
+    const width = this.cameras.main.width;
+
+    this.mapPanel = this.add.container(width / 2 - 280, 60);
+    this.mapPanel.setVisible(false);
+    this.mapPanel.setDepth(1500);
+
+    const bg = this.add.graphics();
+    bg.fillStyle(0xf4e4bc, 0.98);
+    bg.fillRect(0, 0, 560, 520);
+    bg.fillStyle(0x3d2314, 1);
+    bg.fillRect(0, 0, 560, 5);
+    bg.fillRect(0, 515, 560, 5);
+    bg.fillRect(0, 0, 5, 520);
+    bg.fillRect(555, 0, 5, 520);
+    bg.fillStyle(0xc9a227, 0.7);
+    bg.fillRect(5, 5, 550, 2);
+    bg.fillRect(5, 513, 550, 2);
+    bg.lineStyle(1, 0x8b6914, 0.6);
+    bg.lineBetween(20, 48, 540, 48);
+    bg.lineBetween(20, 330, 540, 330);
+    bg.lineBetween(290, 340, 290, 470);
+    this.drawPanelCorner(bg, 8, 8);
+    this.drawPanelCorner(bg, 532, 8);
+    this.mapPanel.add(bg);
+
+    const title = this.add.text(280, 25, '- Map of Goa -', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '18px',
+      color: '#2c1810',
+      fontStyle: 'bold italic',
+    });
+    title.setOrigin(0.5, 0.5);
+    this.mapPanel.add(title);
+
+    // The city on the south bank of the Mandovi
+    const mapX = 20;
+    const mapY = 58;
+    const chart = this.add.graphics();
+    chart.fillStyle(0xe8d5a9, 1);
+    chart.fillRect(mapX, mapY, 520, 262);
+    chart.fillStyle(0xc8d8d0, 1);
+    chart.fillRect(mapX, mapY, 520, 24);
+    chart.lineStyle(2, 0x5a4020, 1);
+    chart.strokeRect(mapX, mapY, 520, 262);
+    this.mapPanel.add(chart);
+
+    const river = this.add.text(mapX + 500, mapY + 12, 'Rio Mandovi', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '10px',
+      color: '#4a6a6a',
+      fontStyle: 'italic',
+    });
+    river.setOrigin(1, 0.5);
+    this.mapPanel.add(river);
+
+    const compass = this.add.text(mapX + 505, mapY + 247, 'N', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '10px',
+      color: '#5a4020',
+      fontStyle: 'bold',
+    });
+    compass.setOrigin(0.5, 0.5);
+    this.mapPanel.add(compass);
+
+    const headers: Array<[number, number, string]> = [[20, 338, 'Roads from here'], [305, 338, 'At the docks'], [305, 404, 'Contract clients']];
+    for (const [x, y, label] of headers) {
+      const header = this.add.text(x, y, label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '12px',
+        color: '#5a4020',
+        fontStyle: 'italic',
+      });
+      this.mapPanel.add(header);
+    }
+
+    const message = this.add.text(280, 488, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '11px',
+      color: '#8b2500',
+      fontStyle: 'italic',
+    });
+    message.setOrigin(0.5, 0.5);
+    message.setName('mapMessage');
+    this.mapPanel.add(message);
+
+    const closeHint = this.add.text(280, 506, `Press ${getInputBindings().getLabel('map')} to close`, {
+      fontFamily: 'Georgia, serif',
+      fontSize: '10px',
+      color: '#5a4030',
+      fontStyle: 'italic',
+    });
+    closeHint.setOrigin(0.5, 0.5);
+    this.mapPanel.add(closeHint);
+  }
+
+  private toggleMap(): void {
+    this.isMapOpen = !this.isMapOpen;
+    this.mapPanel.setVisible(this.isMapOpen);
+
+    if (this.isMapOpen) {
+      (this.mapPanel.getByName('mapMessage') as Phaser.GameObjects.Text).setText('');
+      this.updateMapPanel();
+    }
+  }
+
+  private refreshMap(): void {
+    if (this.isMapOpen) {
+      this.updateMapPanel();
+    }
+  }
+
+  private onTransitionBlocked(event: { reason?: string }): void {
+    if (this.isMapOpen) {
+      (this.mapPanel.getByName('mapMessage') as Phaser.GameObjects.Text).setText(event.reason ?? 'The way is barred.');
+      this.updateMapPanel();
+    }
+  }
+
+  // MarketScene checks the road again, spends the walk and makes the move
+  private travelTo(locationId: string): void {
+    this.toggleMap();
+    this.gameEvents?.emit('requestFastTravel', locationId);
+  }
+
+  /**
+   * Redraw the roads between locations, those leading from the current
+   * one, the ships at the docks and where contract clients can be found
+   */
+  private updateMapPanel(): void {
+    for (const child of this.mapPanel.getAll()) {
+      if (child.name?.startsWith('mapRow')) {
+        child.destroy();
+      }
+    }
+
+    const worldSystem: WorldSystem | undefined = this.registry.get('worldSystem');
+    const current = worldSystem?.getCurrentLocation();
+    if (!worldSystem || !current) return;
+
+    const addText = (x: number, y: number, text: string, size: number, color: string, style = 'normal') => {
+      const label = this.add.text(x, y, text, { fontFamily: 'Georgia, serif', fontSize: `${size}px`, color, fontStyle: style });
+      label.setName('mapRow');
+      this.mapPanel.add(label);
+      return label;
+    };
+    const addAction = (x: number, y: number, text: string, action: () => void) => {
+      const link = addText(x, y, text, 12, '#8b4513', 'bold');
+      link.setInteractive({ useHandCursor: true });
+      link.on('pointerover', () => link.setColor('#c06020'));
+      link.on('pointerout', () => link.setColor('#8b4513'));
+      link.on('pointerdown', action);
+      return link;
+    };
+
+    const mapX = 20;
+    const mapY = 58;
+    const positions = UIScene.CITY_MAP_LOCATIONS;
+    const roads = worldSystem.getAvailableConnections(true);
+    const fromHere = new Map(roads.map(road => [road.connection.targetLocationId, road]));
+    const graph = this.add.graphics();
+    graph.setName('mapRowGraph');
+    this.mapPanel.add(graph);
+
+    // Every road once, those leading from here in green, or red while barred
+    const drawn = new Set<string>();
+    for (const location of worldSystem.getAllLocations()) {
+      const from = positions[location.id];
+      for (const connection of location.connections) {
+        const to = positions[connection.targetLocationId];
+        const key = [location.id, connection.targetLocationId].sort().join('|');
+        if (!from || !to || drawn.has(key)) continue;
+        drawn.add(key);
+
+        const otherEnd = location.id === current.id ? connection.targetLocationId
+          : connection.targetLocationId === current.id ? location.id : null;
+        const road = otherEnd ? fromHere.get(otherEnd) : undefined;
+        if (road) {
+          graph.lineStyle(3, road.accessible ? 0x2d5a27 : 0x8b2500, 1);
+        } else {
+          graph.lineStyle(2, 0x5a4020, 0.5);
+        }
+        graph.lineBetween(mapX + from.x, mapY + from.y, mapX + to.x, mapY + to.y);
+
+        const minutes = worldSystem.getTravelMinutes(road?.connection ?? connection);
+        addText(mapX + (from.x + to.x) / 2, mapY + (from.y + to.y) / 2, `${minutes} min`, 9,
+          road ? (road.accessible ? '#2d5a27' : '#8b2500') : '#8a7a60', 'italic').setOrigin(0.5, 0.5);
+      }
+    }
+
+    // Locations, the current one marked and its open neighbours clickable
+    for (const location of worldSystem.getAllLocations()) {
+      const position = positions[location.id];
+      if (!position) continue;
+      const x = mapX + position.x;
+      const y = mapY + position.y;
+      const isCurrent = location.id === current.id;
+      const road = fromHere.get(location.id);
+
+      if (isCurrent) {
+        graph.lineStyle(2, 0x8b2500, 1);
+        graph.strokeCircle(x, y, 10);
+      }
+      graph.fillStyle(isCurrent ? 0x8b2500 : road?.accessible ? 0x2d5a27 : 0x2c1810, 1);
+      graph.fillCircle(x, y, isCurrent ? 6 : 5);
+
+      const label = addText(x, y - 14, location.name, 11,
+        isCurrent ? '#8b2500' : road?.accessible ? '#2d5a27' : '#2c1810', isCurrent || road?.accessible ? 'bold' : 'normal');
+      label.setOrigin(0.5, 1);
+      if (road?.accessible) {
+        label.setInteractive({ useHandCursor: true });
+        label.on('pointerover', () => label.setColor('#4a8a42'));
+        label.on('pointerout', () => label.setColor('#2d5a27'));
+        label.on('pointerdown', () => this.travelTo(location.id));
+      }
+      if (isCurrent) {
+        addText(x, y + 12, 'You are here', 9, '#8b2500', 'italic').setOrigin(0.5, 0);
+      }
+    }
+
+    // Roads from here, with the walk or what bars the way
+    roads.slice(0, 5).forEach(({ connection, accessible, reason }, index) => {
+      const y = 358 + index * 22;
+      const target = worldSystem.getLocation(connection.targetLocationId);
+      addText(20, y, target?.name ?? connection.targetLocationId, 12, accessible ? '#2c1810' : '#8a7a60', 'bold');
+      if (accessible) {
+        addText(20, y + 13, `${worldSystem.getTravelMinutes(connection)} minutes on foot`, 9, '#5a4020', 'italic');
+        addAction(275, y, 'Travel', () => this.travelTo(connection.targetLocationId)).setOrigin(1, 0);
+      } else {
+        addText(20, y + 13, reason ?? 'The way is barred', 9, '#8b2500', 'italic');
+      }
+    });
+
+    // Ships moored at the docks
+    const harborSystem: HarborSystem | undefined = this.registry.get('harborSystem');
+    const ships = harborSystem?.getShips() ?? [];
+    const docks = positions[HarborSystem.LOCATION_ID];
+    if (docks && ships.length > 0) {
+      ships.slice(0, 4).forEach((_, index) => {
+        const hullX = mapX + docks.x + 16 + index * 14;
+        const hullY = mapY + 14;
+        graph.fillStyle(0x5a4020, 1);
+        graph.fillTriangle(hullX - 6, hullY, hullX + 6, hullY, hullX, hullY + 5);
+        graph.fillStyle(0xf4e4bc, 1);
+        graph.fillTriangle(hullX, hullY - 9, hullX, hullY - 1, hullX + 5, hullY - 1);
+      });
+    }
+    ships.slice(0, 3).forEach((ship, index) => {
+      const y = 356 + index * 15;
+      addText(305, y, `${ship.shipName} from ${ship.origin}`, 10, '#2c1810');
+      addText(540, y, `until day ${ship.departsDay}`, 9, '#5a4020', 'italic').setOrigin(1, 0);
+    });
+    if (ships.length > 3) {
+      addText(305, 356 + 3 * 15, `and ${ships.length - 3} more`, 9, '#5a4020', 'italic');
+    } else if (ships.length === 0) {
+      addText(305, 356, 'No ships are moored.', 10, '#8a7a60', 'italic');
+    }
+
+    // Contract clients, where they are now or where they live
+    const contractSystem: ContractSystem | undefined = this.registry.get('contractSystem');
+    const npcSimulation: NPCSimulationSystem | undefined = this.registry.get('npcSimulation');
+    const contracts = contractSystem?.getActiveContracts() ?? [];
+    const clientsAt = new Map<string, number>();
+    contracts.slice(0, 3).forEach((contract, index) => {
+      const locationId = npcSimulation?.getNPCLocation(contract.clientId)
+        ?? loadNPCRegistry().getNPC(contract.clientId)?.location;
+      const location = locationId ? worldSystem.getLocation(locationId) : undefined;
+      const position = locationId ? positions[locationId] : undefined;
+      const y = 422 + index * 15;
+      addText(305, y, contract.clientName, 10, '#2c1810');
+      addText(540, y, location?.name ?? 'Whereabouts unknown', 9, location ? '#8b6914' : '#8a7a60', 'italic')
+        .setOrigin(1, 0);
+
+      if (locationId && position) {
+        const count = clientsAt.get(locationId) ?? 0;
+        clientsAt.set(locationId, count + 1);
+        const x = mapX + position.x + 10 + count * 9;
+        const markerY = mapY + position.y + 8;
+        graph.fillStyle(0xc9a227, 1);
+        graph.lineStyle(1, 0x5a4020, 1);
+        graph.fillTriangle(x - 4, markerY, x + 4, markerY, x, markerY - 5);
+        graph.fillTriangle(x - 4, markerY, x + 4, markerY, x, markerY + 5);
+      }
+    });
+    if (contracts.length === 0) {
+      addText(305, 422, 'No contracts outstanding.', 10, '#8a7a60', 'italic');
+    }
+  }
+
+  private createSkillsPanel(): void {
+    const width = this.cameras.main.width;
+
+    this.skillsPanel = this.add.container(width / 2 - 300, 60);
+    this.skillsPanel.setVisible(false);
+    this.skillsPanel.setDepth(1500);
+
+    const bg = this.add.graphics();
+    bg.fillStyle(0xf4e4bc, 0.98);
+    bg.fillRect(0, 0, 600, 520);
+    bg.fillStyle(0x3d2314, 1);
+    bg.fillRect(0, 0, 600, 5);
+    bg.fillRect(0, 515, 600, 5);
+    bg.fillRect(0, 0, 5, 520);
+    bg.fillRect(595, 0, 5, 520);
+    bg.fillStyle(0xc9a227, 0.7);
+    bg.fillRect(5, 5, 590, 2);
+    bg.fillRect(5, 513, 590, 2);
+    bg.lineStyle(1, 0x8b6914, 0.6);
+    bg.lineBetween(20, 48, 580, 48);
+    bg.lineBetween(20, 350, 580, 350);
+    for (let column = 1; column < 4; column++) {
+      bg.lineBetween(20 + column * 142, 58, 20 + column * 142, 340);
+    }
+    this.drawPanelCorner(bg, 8, 8);
+    this.drawPanelCorner(bg, 572, 8);
+    this.skillsPanel.add(bg);
+
+    const title = this.add.text(300, 25, '- Skills & Perks -', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '18px',
+      color: '#2c1810',
+      fontStyle: 'bold italic',
+    });
+    title.setOrigin(0.5, 0.5);
+    this.skillsPanel.add(title);
+
+    const message = this.add.text(300, 488, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '11px',
+      color: '#8b2500',
+      fontStyle: 'italic',
+    });
+    message.setOrigin(0.5, 0.5);
+    message.setName('skillsMessage');
+    this.skillsPanel.add(message);
+
+    const closeHint = this.add.text(300, 506, `Press ${getInputBindings().getLabel('skills')} to close`, {
+      fontFamily: 'Georgia, serif',
+      fontSize: '10px',
+      color: '#5a4030',
+      fontStyle: 'italic',
+    });
+    closeHint.setOrigin(0.5, 0.5);
+    this.skillsPanel.add(closeHint);
+  }
+
+  private toggleSkills(): void {
+    this.isSkillsOpen = !this.isSkillsOpen;
+    this.skillsPanel.setVisible(this.isSkillsOpen);
+
+    if (this.isSkillsOpen) {
+      (this.skillsPanel.getByName('skillsMessage') as Phaser.GameObjects.Text).setText('');
+      this.updateSkillsPanel();
+    }
+  }
+
+  private refreshSkills(): void {
+    if (this.isSkillsOpen) {
+      this.updateSkillsPanel();
+    }
+  }
+
+  private learnPerk(perkId: string): void {
+    const skillSystem: SkillSystem | undefined = this.registry.get('skillSystem');
+    if (!skillSystem) return;
+
+    const result = skillSystem.learnPerk(perkId);
+    const message = this.skillsPanel.getByName('skillsMessage') as Phaser.GameObjects.Text;
+    if (result.success) {
+      message.setColor('#2d5a27');
+      message.setText(`You have learned ${skillSystem.getTree().getPerk(perkId)?.name}.`);
+    } else {
+      message.setColor('#8b2500');
+      message.setText(result.error ?? 'The perk could not be learned.');
+    }
+    this.updateSkillsPanel();
+  }
+
+  /**
+   * Redraw each skill's level and progress, its perk tree, and the
+   * selected perk's details
+   */
+  private updateSkillsPanel(): void {
+    for (const child of this.skillsPanel.getAll()) {
+      if (child.name?.startsWith('skillsRow')) {
+        child.destroy();
+      }
+    }
+
+    const skillSystem: SkillSystem | undefined = this.registry.get('skillSystem');
+    if (!skillSystem) return;
+    const tree = skillSystem.getTree();
+
+    const addText = (x: number, y: number, text: string, size: number, color: string, style = 'normal') => {
+      const label = this.add.text(x, y, text, { fontFamily: 'Georgia, serif', fontSize: `${size}px`, color, fontStyle: style });
+      label.setName('skillsRow');
+      this.skillsPanel.add(label);
+      return label;
+    };
+    const graphics = this.add.graphics();
+    graphics.setName('skillsRowGraphics');
+    this.skillsPanel.add(graphics);
+
+    skillSystem.getSkillProgress().forEach((skill, column) => {
+      const x = 28 + column * 142;
+      const unspent = Math.max(0, skill.pointsEarned - skill.pointsSpent);
+
+      addText(x, 58, skill.name, 14, '#2c1810', 'bold');
+      addText(x, 77, `Level ${skill.level}`, 11, '#5a4020');
+      addText(x + 126, 77, skill.level >= 100 ? 'Mastered' : `${Math.floor(skill.progress * 100)}%`, 10, '#8a7a60', 'italic')
+        .setOrigin(1, 0);
+      graphics.fillStyle(0xd4c4a8, 1);
+      graphics.fillRect(x, 93, 126, 5);
+      graphics.fillStyle(0xc9a227, 1);
+      graphics.fillRect(x, 93, 126 * skill.progress, 5);
+      addText(x, 102, unspent === 1 ? '1 point to spend' : `${unspent} points to spend`, 10,
+        unspent > 0 ? '#8b6914' : '#8a7a60', unspent > 0 ? 'bold italic' : 'italic');
+
+      // The skill's perks, each beneath the perk it needs
+      const perks = tree.getPerks(skill.id);
+      const depthOf = (perkId: string): number => {
+        const perk = tree.getPerk(perkId);
+        return perk?.requires ? depthOf(perk.requires) + 1 : 0;
+      };
+      const ordered: string[] = [];
+      const visit = (parentId: string | undefined) => {
+        for (const perk of perks.filter(entry => entry.requires === parentId)) {
+          ordered.push(perk.id);
+          visit(perk.id);
+        }
+      };
+      visit(undefined);
+
+      const rowY = new Map<string, number>();
+      ordered.slice(0, 5).forEach((perkId, row) => {
+        const perk = tree.getPerk(perkId)!;
+        const indent = depthOf(perkId) * 12;
+        const y = 126 + row * 43;
+        rowY.set(perkId, y);
+        const learned = skillSystem.hasPerk(perkId);
+        const lockReason = skillSystem.getLockReason(perkId);
+        const selected = perkId === this.selectedPerkId;
+
+        const parentY = perk.requires ? rowY.get(perk.requires) : undefined;
+        if (parentY !== undefined) {
+          graphics.lineStyle(1, 0x8b6914, 0.8);
+          graphics.lineBetween(x + indent - 6, parentY + 36, x + indent - 6, y + 18);
+          graphics.lineBetween(x + indent - 6, y + 18, x + indent, y + 18);
+        }
+
+        graphics.fillStyle(learned ? 0xd9c49a : 0xf4e4bc, 1);
+        graphics.fillRect(x + indent, y, 126 - indent, 36);
+        graphics.lineStyle(selected ? 2 : 1, selected ? 0x8b2500 : lockReason ? 0xb0a080 : 0xc9a227, 1);
+        graphics.strokeRect(x + indent, y, 126 - indent, 36);
+
+        const name = addText(x + indent + 4, y + 3, perk.name, 10, lockReason && !learned ? '#8a7a60' : '#2c1810', 'bold');
+        name.setWordWrapWidth(118 - indent);
+        const status = learned ? 'Learned' : lockReason ? `Level ${perk.requiredLevel}` : 'Can be learned';
+        addText(x + indent + 4, y + 22, status, 9, learned ? '#2d5a27' : lockReason ? '#8a7a60' : '#8b6914', 'italic');
+
+        const hitArea = this.add.zone(x + indent, y, 126 - indent, 36).setOrigin(0, 0);
+        hitArea.setName('skillsRowZone');
+        hitArea.setInteractive({ useHandCursor: true });
+        hitArea.on('pointerdown', () => {
+          this.selectedPerkId = perkId;
+          this.updateSkillsPanel();
+        });
+        this.skillsPanel.add(hitArea);
+      });
+    });
+
+    // The selected perk
+    const perk = this.selectedPerkId ? tree.getPerk(this.selectedPerkId) : undefined;
+    if (!perk) {
+      addText(300, 410, 'Choose a perk to read of it.', 12, '#8a7a60', 'italic').setOrigin(0.5, 0.5);
+      return;
+    }
+    addText(20, 360, perk.name, 15, '#2c1810', 'bold');
+    addText(580, 362, `${tree.getSkill(perk.skill).name} ${perk.requiredLevel}`, 11, '#5a4020', 'italic').setOrigin(1, 0);
+    addText(20, 384, perk.description, 11, '#2c1810').setWordWrapWidth(560);
+    if (perk.requires) {
+      addText(20, 420, `Follows ${tree.getPerk(perk.requires)?.name ?? perk.requires}`, 10, '#5a4020', 'italic');
+    }
+
+    const lockReason = skillSystem.getLockReason(perk.id);
+    if (skillSystem.hasPerk(perk.id)) {
+      addText(580, 450, 'Learned', 13, '#2d5a27', 'bold').setOrigin(1, 0);
+    } else if (lockReason) {
+      addText(580, 450, lockReason, 11, '#8b2500', 'italic').setOrigin(1, 0);
+    } else {
+      const learn = addText(580, 450, 'Learn this perk', 13, '#2d5a27', 'bold');
+      learn.setOrigin(1, 0);
+      learn.setInteractive({ useHandCursor: true });
+      learn.on('pointerover', () => learn.setColor('#4a8a42'));
+      learn.on('pointerout', () => learn.setColor('#2d5a27'));
+      learn.on('pointerdown', () => this.learnPerk(perk.id));
+    }
+  }
+
+  // Where each route's destination sits on the expedition map, with Goa
+  private static readonly EXPEDITION_MAP_PORTS: Record<string, { x: number; y: number }> = {
+    goa: { x: 128, y: 120 },
+    route_malabar: { x: 140, y: 168 },
+    route_hormuz: { x: 62, y: 40 },
+    route_malacca: { x: 236, y: 210 },
+    route_macau: { x: 282, y: 86 },
+    route_africa: { x: 22, y: 236 },
+  };
+
+  private createExpeditionPanel(): void {
+    const width = this.cameras.main.width;
+
+    this.expeditionPanel = this.add.container(width / 2 - 300, 60);
+    this.expeditionPanel.setVisible(false);
+    this.expeditionPanel.setDepth(1500);
+
+    const bg = this.add.graphics();
+    bg.fillStyle(0xf4e4bc, 0.98);
+    bg.fillRect(0, 0, 600, 540);
+    bg.fillStyle(0x3d2314, 1);
+    bg.fillRect(0, 0, 600, 5);
+    bg.fillRect(0, 535, 600, 5);
+    bg.fillRect(0, 0, 5, 540);
+    bg.fillRect(595, 0, 5, 540);
+    bg.fillStyle(0xc9a227, 0.7);
+    bg.fillRect(5, 5, 590, 2);
+    bg.fillRect(5, 533, 590, 2);
+    bg.lineStyle(1, 0x8b6914, 0.6);
+    bg.lineBetween(20, 48, 580, 48);
+    bg.lineBetween(20, 330, 580, 330);
+    bg.lineBetween(330, 340, 330, 500);
+    this.drawPanelCorner(bg, 8, 8);
+    this.drawPanelCorner(bg, 572, 8);
+    this.expeditionPanel.add(bg);
+
+    const title = this.add.text(300, 25, '- Expeditions -', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '18px',
+      color: '#2c1810',
+      fontStyle: 'bold italic',
+    });
+    title.setOrigin(0.5, 0.5);
+    this.expeditionPanel.add(title);
+
+    // A chart of the Indian Ocean in the manner of the Portuguese roteiros
+    const mapX = 20;
+    const mapY = 58;
+    const chart = this.add.graphics();
+    chart.fillStyle(0xc8d8d0, 1);
+    chart.fillRect(mapX, mapY, 300, 260);
+    chart.fillStyle(0xd9c49a, 1);
+    const land = (points: number[][]) => {
+      chart.fillPoints(points.map(([x, y]) => new Phaser.Math.Vector2(mapX + x, mapY + y)), true);
+    };
+    land([[0, 0], [120, 0], [96, 30], [70, 62], [34, 70], [0, 52]]);          // Arabia and Persia
+    land([[100, 0], [220, 0], [200, 60], [168, 110], [150, 190], [128, 120], [118, 70]]); // Hindustan
+    land([[0, 90], [30, 100], [44, 160], [18, 260], [0, 260]]);              // Africa
+    land([[210, 0], [300, 0], [300, 120], [262, 130], [240, 190], [226, 150], [204, 70]]); // Further India and China
+    land([[244, 226], [300, 214], [300, 250], [262, 252]]);                    // Sumatra
+    chart.lineStyle(2, 0x5a4020, 1);
+    chart.strokeRect(mapX, mapY, 300, 260);
+    this.expeditionPanel.add(chart);
+
+    const compass = this.add.text(mapX + 285, mapY + 245, 'N', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '10px',
+      color: '#5a4020',
+      fontStyle: 'bold',
+    });
+    compass.setOrigin(0.5, 0.5);
+    this.expeditionPanel.add(compass);
+
+    const headers: Array<[number, number, string]> = [[20, 338, 'Cargo to send'], [345, 338, 'Ships at sea']];
+    for (const [x, y, label] of headers) {
+      const header = this.add.text(x, y, label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '12px',
+        color: '#5a4020',
+        fontStyle: 'italic',
+      });
+      this.expeditionPanel.add(header);
+    }
+
+    const launch = this.add.text(165, 490, 'Launch expedition', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '14px',
+      color: '#2d5a27',
+      fontStyle: 'bold',
+    });
+    launch.setOrigin(0.5, 0.5);
+    launch.setInteractive({ useHandCursor: true });
+    launch.on('pointerover', () => launch.setColor('#4a8a42'));
+    launch.on('pointerout', () => launch.setColor('#2d5a27'));
+    launch.on('pointerdown', () => this.launchExpedition());
+    this.expeditionPanel.add(launch);
+
+    const message = this.add.text(300, 510, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '11px',
+      color: '#8b2500',
+      fontStyle: 'italic',
+    });
+    message.setOrigin(0.5, 0.5);
+    message.setName('expeditionMessage');
+    this.expeditionPanel.add(message);
+
+    const closeHint = this.add.text(300, 526, `Press ${getInputBindings().getLabel('expeditions')} to close`, {
+      fontFamily: 'Georgia, serif',
+      fontSize: '10px',
+      color: '#5a4030',
+      fontStyle: 'italic',
+    });
+    closeHint.setOrigin(0.5, 0.5);
+    this.expeditionPanel.add(closeHint);
+  }
+
+  private toggleExpeditions(): void {
+    this.isExpeditionOpen = !this.isExpeditionOpen;
+    this.expeditionPanel.setVisible(this.isExpeditionOpen);
+
+    if (this.isExpeditionOpen) {
+      (this.expeditionPanel.getByName('expeditionMessage') as Phaser.GameObjects.Text).setText('');
+      this.updateExpeditionPanel();
+    }
+  }
+
+  private refreshExpeditions(): void {
+    if (this.isExpeditionOpen) {
+      this.updateExpeditionPanel();
+    }
+  }
+
+  private adjustExpeditionCargo(good: string, delta: number, carried: number): void {
+    const quantity = Phaser.Math.Clamp((this.expeditionCargo.get(good) ?? 0) + delta, 0, carried);
+    this.expeditionCargo.set(good, quantity);
+    this.updateExpeditionPanel();
+  }
+
+  private getExpeditionCargo(): { goodId: string; quantity: number }[] {
+    return Array.from(this.expeditionCargo.entries())
+      .filter(([, quantity]) => quantity > 0)
+      .map(([goodId, quantity]) => ({ goodId, quantity }));
+  }
+
+  private launchExpedition(): void {
+    const tradeRouteSystem = this.registry.get('tradeRouteSystem');
+    if (!tradeRouteSystem) return;
+
+    const result = tradeRouteSystem.startExpedition(this.selectedRouteId, this.getExpeditionCargo());
+    const message = this.expeditionPanel.getByName('expeditionMessage') as Phaser.GameObjects.Text;
+    if (result.success) {
+      this.expeditionCargo.clear();
+      message.setColor('#2d5a27');
+      message.setText(`The ${tradeRouteSystem.getRoute(this.selectedRouteId)?.name} has sailed.`);
+    } else {
+      message.setColor('#8b2500');
+      message.setText(result.error ?? 'The expedition could not sail.');
+    }
+    this.updateExpeditionPanel();
+  }
+
+  /**
+   * Redraw routes, the selected route's prospects, the cargo picker and
+   * the ships at sea
+   */
+  private updateExpeditionPanel(): void {
+    for (const child of this.expeditionPanel.getAll()) {
+      if (child.name?.startsWith('expeditionRow')) {
+        child.destroy();
+      }
+    }
+
+    const tradeRouteSystem = this.registry.get('tradeRouteSystem');
+    const marketScene = this.scene.get('MarketScene') as any;
+    if (!tradeRouteSystem || !marketScene?.getPlayer) return;
+
+    const addText = (x: number, y: number, text: string, size: number, color: string, style = 'normal') => {
+      const label = this.add.text(x, y, text, { fontFamily: 'Georgia, serif', fontSize: `${size}px`, color, fontStyle: style });
+      label.setName('expeditionRow');
+      this.expeditionPanel.add(label);
+      return label;
+    };
+    const addAction = (x: number, y: number, text: string, action: () => void) => {
+      const link = addText(x, y, text, 12, '#8b4513', 'bold');
+      link.setInteractive({ useHandCursor: true });
+      link.on('pointerover', () => link.setColor('#c06020'));
+      link.on('pointerout', () => link.setColor('#8b4513'));
+      link.on('pointerdown', action);
+      return link;
+    };
+    const percent = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value * 100)}%`;
+
+    // Routes on the chart
+    const mapX = 20;
+    const mapY = 58;
+    const ports = UIScene.EXPEDITION_MAP_PORTS;
+    const goa = ports.goa;
+    const routes = this.add.graphics();
+    routes.setName('expeditionRowRoutes');
+    this.expeditionPanel.add(routes);
+
+    for (const route of tradeRouteSystem.getAllRoutes()) {
+      const port = ports[route.id];
+      if (!port) continue;
+      const selected = route.id === this.selectedRouteId;
+      const locked = tradeRouteSystem.getLockReason(route.id) !== null;
+
+      routes.lineStyle(selected ? 3 : 2, locked ? 0x9a8a70 : selected ? 0x8b2500 : 0x5a4020, locked ? 0.5 : 1);
+      routes.lineBetween(mapX + goa.x, mapY + goa.y, mapX + port.x, mapY + port.y);
+      routes.fillStyle(locked ? 0x9a8a70 : 0x2c1810, 1);
+      routes.fillCircle(mapX + port.x, mapY + port.y, 4);
+
+      const label = addText(mapX + port.x, mapY + port.y - 11, route.to, 11,
+        locked ? '#8a7a60' : selected ? '#8b2500' : '#2c1810', selected ? 'bold' : 'normal');
+      label.setOrigin(0.5, 0.5);
+      label.setInteractive({ useHandCursor: true });
+      label.on('pointerdown', () => {
+        this.selectedRouteId = route.id;
+        this.updateExpeditionPanel();
+      });
+    }
+    routes.fillStyle(0x8b2500, 1);
+    routes.fillCircle(mapX + goa.x, mapY + goa.y, 5);
+    addText(mapX + goa.x - 8, mapY + goa.y, 'Goa', 11, '#8b2500', 'bold').setOrigin(1, 0.5);
+
+    // Active expeditions as ships along their routes
+    const active: ReturnType<TradeRouteSystem['getActiveExpeditions']> = tradeRouteSystem.getActiveExpeditions();
+    for (const { expedition, route, progress } of active) {
+      const port = ports[route.id];
+      if (!port) continue;
+      // Out to the destination over the first half, back over the second
+      const leg = progress <= 50 ? progress / 50 : (100 - progress) / 50;
+      routes.fillStyle(expedition.status === 'returning' ? 0x2d5a27 : 0xc9a227, 1);
+      routes.fillTriangle(
+        mapX + goa.x + (port.x - goa.x) * leg - 4, mapY + goa.y + (port.y - goa.y) * leg + 3,
+        mapX + goa.x + (port.x - goa.x) * leg + 4, mapY + goa.y + (port.y - goa.y) * leg + 3,
+        mapX + goa.x + (port.x - goa.x) * leg, mapY + goa.y + (port.y - goa.y) * leg - 6
+      );
+    }
+
+    // The selected route's prospects for the chosen cargo
+    const route = tradeRouteSystem.getRoute(this.selectedRouteId);
+    const cargo = this.getExpeditionCargo();
+    const estimate = tradeRouteSystem.estimateExpedition(this.selectedRouteId, cargo);
+    if (route && estimate) {
+      const detailX = 340;
+      addText(detailX, 58, route.name, 15, '#2c1810', 'bold');
+      const description = addText(detailX, 78, route.description, 10, '#5a4020', 'italic');
+      description.setWordWrapWidth(240);
+      addText(detailX, 112, `${route.travelTime} hours each way - ${route.faction.replace(/_/g, ' ')} waters`, 10, '#2c1810');
+      addText(detailX, 126, `Wanted there: ${route.goodsAffinity.map((g: string) => this.formatGoodName(g)).join(', ')}`, 10, '#2c1810')
+        .setWordWrapWidth(240);
+
+      const risk = estimate.risk;
+      addText(detailX, 154, 'Risk of loss', 12, '#5a4020', 'italic');
+      const riskLines: Array<[string, number]> = [
+        ['Route', risk.base],
+        ['Faction standing', risk.faction],
+        ['Winds today', risk.wind],
+        ['Season', risk.season],
+        ['Navigation perks', risk.skill],
+      ];
+      riskLines.forEach(([label, value], index) => {
+        addText(detailX + 8, 168 + index * 13, label, 10, '#2c1810');
+        addText(detailX + 150, 168 + index * 13, index === 0 ? `${Math.round(value * 100)}%` : percent(value), 10,
+          value > 0 && index > 0 ? '#8b2500' : value < 0 ? '#2d5a27' : '#2c1810');
+      });
+      addText(detailX + 8, 234, 'Chance of loss', 11, '#2c1810', 'bold');
+      addText(detailX + 150, 234, `${Math.round(risk.total * 100)}%`, 11, risk.total >= 0.3 ? '#8b2500' : '#2c1810', 'bold');
+
+      addText(detailX, 252, 'Expected return', 12, '#5a4020', 'italic');
+      addText(detailX + 8, 268,
+        `Route x${estimate.routeMultiplier.toFixed(1)}  Goods ${percent(estimate.affinityBonus)}  Faction ${percent(estimate.factionBonus)}`,
+        10, '#2c1810');
+      addText(detailX + 8, 284, `Cargo worth ${estimate.investment} reis`, 10, '#2c1810');
+      addText(detailX + 8, 300, `Should fetch ${estimate.expectedReturn} reis`, 11, '#8b6914', 'bold');
+
+      const lockReason = tradeRouteSystem.getLockReason(route.id);
+      if (lockReason) {
+        addText(detailX, 316, lockReason, 10, '#8b2500', 'italic');
+      }
+    }
+
+    // Cargo picked from what the player carries
+    const carried: { item: string; quantity: number }[] = marketScene.getPlayer().getInventory();
+    for (const good of Array.from(this.expeditionCargo.keys())) {
+      const have = carried.find(entry => entry.item === good)?.quantity ?? 0;
+      if (have <= 0) this.expeditionCargo.delete(good);
+      else if ((this.expeditionCargo.get(good) ?? 0) > have) this.expeditionCargo.set(good, have);
+    }
+    carried.slice(0, 6).forEach((entry, index) => {
+      const y = 358 + index * 20;
+      const chosen = this.expeditionCargo.get(entry.item) ?? 0;
+      addText(20, y, `${this.formatGoodName(entry.item)} (${entry.quantity})`, 12, '#2c1810');
+      addAction(180, y, '-', () => this.adjustExpeditionCargo(entry.item, -1, entry.quantity));
+      addText(200, y, `${chosen}`, 12, chosen > 0 ? '#8b6914' : '#8a7a60', 'bold');
+      addAction(225, y, '+', () => this.adjustExpeditionCargo(entry.item, 1, entry.quantity));
+      addAction(250, y, 'all', () => this.adjustExpeditionCargo(entry.item, entry.quantity, entry.quantity));
+    });
+    if (carried.length === 0) {
+      addText(20, 358, 'You carry nothing to send.', 11, '#8a7a60', 'italic');
+    }
+
+    // Ships at sea
+    addText(450, 338, `${tradeRouteSystem.getExpeditionCount()}/${tradeRouteSystem.getMaxExpeditions()}`, 12, '#5a4020');
+    active.slice(0, 5).forEach(({ expedition, route: sailing, timeRemaining, progress }, index) => {
+      const y = 358 + index * 30;
+      const returning = expedition.status === 'returning';
+      addText(345, y, sailing.name, 11, '#2c1810', 'bold');
+      if (expedition.pendingIncident) {
+        addAction(575, y, 'Awaiting orders', () => this.showVoyageDecision(expedition.id)).setOrigin(1, 0);
+      } else {
+        addText(575, y, `${returning ? 'Returning' : 'Outbound'} - ${Math.ceil(timeRemaining)}h`, 10,
+          returning ? '#2d5a27' : '#8b6914').setOrigin(1, 0);
+      }
+      const lastIncident = expedition.incidents?.[expedition.incidents.length - 1];
+      if (lastIncident) {
+        addText(345, y + 20, `${lastIncident.title} - ${lastIncident.summary}`, 9, '#5a4020', 'italic')
+          .setWordWrapWidth(230);
+      }
+      const bar = this.add.graphics();
+      bar.setName('expeditionRowBar');
+      bar.fillStyle(0xd4c4a8, 1);
+      bar.fillRect(345, y + 15, 230, 5);
+      bar.fillStyle(returning ? 0x2d5a27 : 0xc9a227, 1);
+      bar.fillRect(345, y + 15, 230 * Math.min(1, progress / 100), 5);
+      this.expeditionPanel.add(bar);
+    });
+    if (active.length === 0) {
+      addText(345, 358, 'No ships at sea.', 11, '#8a7a60', 'italic');
+    }
+  }
+
+  private createVoyageDecisionPanel(): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+
+    this.voyageDecisionPanel = this.add.container(width / 2 - 230, height / 2 - 170);
+    this.voyageDecisionPanel.setVisible(false);
+    this.voyageDecisionPanel.setDepth(2000);
+
+    const bg = this.add.graphics();
+    bg.fillStyle(0xf4e4bc, 0.98);
+    bg.fillRect(0, 0, 460, 340);
+    bg.fillStyle(0x3d2314, 1);
+    bg.fillRect(0, 0, 460, 5);
+    bg.fillRect(0, 335, 460, 5);
+    bg.fillRect(0, 0, 5, 340);
+    bg.fillRect(455, 0, 5, 340);
+    bg.fillStyle(0xc9a227, 0.7);
+    bg.fillRect(5, 5, 450, 2);
+    bg.fillRect(5, 333, 450, 2);
+    bg.lineStyle(1, 0x8b6914, 0.6);
+    bg.lineBetween(20, 120, 440, 120);
+    this.drawPanelCorner(bg, 8, 8);
+    this.drawPanelCorner(bg, 432, 8);
+    this.voyageDecisionPanel.add(bg);
+
+    const route = this.add.text(230, 22, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '11px',
+      color: '#5a4020',
+      fontStyle: 'italic',
+    });
+    route.setOrigin(0.5, 0.5);
+    route.setName('decisionRoute');
+    this.voyageDecisionPanel.add(route);
+
+    const title = this.add.text(230, 42, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '17px',
+      color: '#2c1810',
+      fontStyle: 'bold',
+    });
+    title.setOrigin(0.5, 0.5);
+    title.setName('decisionTitle');
+    this.voyageDecisionPanel.add(title);
+
+    const description = this.add.text(25, 62, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '12px',
+      color: '#2c1810',
+      wordWrap: { width: 410 },
+    });
+    description.setName('decisionDesc');
+    this.voyageDecisionPanel.add(description);
+
+    const message = this.add.text(230, 305, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '11px',
+      color: '#8b2500',
+      fontStyle: 'italic',
+    });
+    message.setOrigin(0.5, 0.5);
+    message.setName('decisionMessage');
+    this.voyageDecisionPanel.add(message);
+
+    const closeHint = this.add.text(230, 322, `${getInputBindings().getLabel('menu')} - decide later (the ship waits a day for orders)`, {
+      fontFamily: 'Georgia, serif',
+      fontSize: '10px',
+      color: '#5a4030',
+      fontStyle: 'italic',
+    });
+    closeHint.setOrigin(0.5, 0.5);
+    this.voyageDecisionPanel.add(closeHint);
+  }
+
+  private onVoyageDecision(data: { expeditionId: string }): void {
+    // Don't pull the player away from orders they are already giving
+    if (!this.currentDecisionId) {
+      this.showVoyageDecision(data.expeditionId);
+    }
+  }
+
+  /**
+   * Show the orders a captain is waiting on, or the first waiting captain's
+   */
+  private showVoyageDecision(expeditionId?: string): void {
+    const tradeRouteSystem = this.registry.get('tradeRouteSystem');
+    const pending: ReturnType<TradeRouteSystem['getPendingDecisions']> = tradeRouteSystem?.getPendingDecisions() ?? [];
+    const decision = pending.find(p => p.expedition.id === expeditionId) ?? pending[0];
+    if (!decision) {
+      this.closeVoyageDecision();
+      return;
+    }
+
+    this.currentDecisionId = decision.expedition.id;
+    for (const child of this.voyageDecisionPanel.getAll()) {
+      if (child.name === 'decisionChoice') {
+        child.destroy();
+      }
+    }
+
+    (this.voyageDecisionPanel.getByName('decisionRoute') as Phaser.GameObjects.Text).setText(decision.route.name);
+    (this.voyageDecisionPanel.getByName('decisionTitle') as Phaser.GameObjects.Text).setText(decision.incident.title);
+    (this.voyageDecisionPanel.getByName('decisionDesc') as Phaser.GameObjects.Text).setText(decision.incident.description);
+    (this.voyageDecisionPanel.getByName('decisionMessage') as Phaser.GameObjects.Text).setText('');
+
+    (decision.incident.choices ?? []).forEach((choice, index) => {
+      const y = 132 + index * 56;
+      const effects = choice.effects;
+      const costs: string[] = [];
+      if (effects.tribute) costs.push(`${Math.ceil(decision.expedition.investment * effects.tribute)} gold`);
+      if (effects.delayHours) costs.push(`${effects.delayHours > 0 ? '+' : ''}${effects.delayHours}h`);
+      if (effects.returnMultiplier) {
+        costs.push(`return ${effects.returnMultiplier >= 1 ? '+' : ''}${Math.round((effects.returnMultiplier - 1) * 100)}%`);
+      }
+      if (effects.riskChange) {
+        costs.push(`risk ${effects.riskChange > 0 ? '+' : ''}${Math.round(effects.riskChange * 100)}%`);
+      }
+      if (effects.reputation) {
+        const faction = (effects.reputationFaction ?? decision.route.faction).replace(/_/g, ' ');
+        costs.push(`${faction} ${effects.reputation > 0 ? '+' : ''}${effects.reputation}`);
+      }
+
+      const label = this.add.text(25, y, choice.label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '13px',
+        color: '#8b4513',
+        fontStyle: 'bold',
+      });
+      label.setName('decisionChoice');
+      label.setInteractive({ useHandCursor: true });
+      label.on('pointerover', () => label.setColor('#c06020'));
+      label.on('pointerout', () => label.setColor('#8b4513'));
+      label.on('pointerdown', () => this.sendVoyageOrders(choice.id));
+      this.voyageDecisionPanel.add(label);
+
+      const detail = this.add.text(25, y + 18, `${choice.description}${costs.length > 0 ? ` (${costs.join(', ')})` : ''}`, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '11px',
+        color: '#5a4020',
+        fontStyle: 'italic',
+        wordWrap: { width: 410 },
+      });
+      detail.setName('decisionChoice');
+      this.voyageDecisionPanel.add(detail);
+    });
+
+    this.voyageDecisionPanel.setVisible(true);
+  }
+
+  private sendVoyageOrders(choiceId: string): void {
+    const tradeRouteSystem = this.registry.get('tradeRouteSystem');
+    if (!tradeRouteSystem || !this.currentDecisionId) return;
+
+    const result = tradeRouteSystem.resolveIncidentChoice(this.currentDecisionId, choiceId);
+    if (!result.success) {
+      (this.voyageDecisionPanel.getByName('decisionMessage') as Phaser.GameObjects.Text)
+        .setText(result.error ?? 'The orders could not be sent.');
+      return;
+    }
+
+    // Move on to the next captain waiting for orders, if any
+    this.currentDecisionId = null;
+    this.showVoyageDecision();
+    this.refreshExpeditions();
+  }
+
+  private closeVoyageDecision(): void {
+    this.voyageDecisionPanel.setVisible(false);
+    this.currentDecisionId = null;
+  }
+
+  private createWarehousePanel(): void {
+    const width = this.cameras.main.width;
+
+    this.warehousePanel = this.add.container(width / 2 - 230, 90);
+    this.warehousePanel.setVisible(false);
+    this.warehousePanel.setDepth(1500);
+
+    const bg = this.add.graphics();
+    bg.fillStyle(0xf4e4bc, 0.98);
+    bg.fillRect(0, 0, 460, 420);
+    bg.fillStyle(0x3d2314, 1);
+    bg.fillRect(0, 0, 460, 5);
+    bg.fillRect(0, 415, 460, 5);
+    bg.fillRect(0, 0, 5, 420);
+    bg.fillRect(455, 0, 5, 420);
+    bg.fillStyle(0xc9a227, 0.7);
+    bg.fillRect(5, 5, 450, 2);
+    bg.fillRect(5, 413, 450, 2);
+    bg.lineStyle(1, 0x8b6914, 0.6);
+    bg.lineBetween(20, 48, 440, 48);
+    bg.lineBetween(230, 110, 230, 360);
+    this.drawPanelCorner(bg, 8, 8);
+    this.drawPanelCorner(bg, 432, 8);
+    this.warehousePanel.add(bg);
+
+    const title = this.add.text(230, 26, 'Royal Warehouse', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '19px',
+      color: '#2c1810',
+      fontStyle: 'italic',
+    });
+    title.setOrigin(0.5, 0.5);
+    this.warehousePanel.add(title);
+
+    const headers: Array<[number, string]> = [[20, 'In your pack'], [245, 'In storage']];
+    for (const [x, label] of headers) {
+      const header = this.add.text(x, 112, label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '12px',
+        color: '#5a4020',
+        fontStyle: 'italic',
+      });
+      this.warehousePanel.add(header);
+    }
+
+    const buttons: Array<[number, string, () => void]> = [
+      [150, 'Rent a bay', () => this.runWarehouseAction(system => system.rentBay())],
+      [310, 'Release a bay', () => this.runWarehouseAction(system => system.releaseBay())],
+    ];
+    for (const [x, label, action] of buttons) {
+      const button = this.add.text(x, 85, label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '13px',
+        color: '#2d5a27',
+      });
+      button.setOrigin(0.5, 0.5);
+      button.setInteractive({ useHandCursor: true });
+      button.on('pointerover', () => button.setColor('#4a8a42'));
+      button.on('pointerout', () => button.setColor('#2d5a27'));
+      button.on('pointerdown', action);
+      this.warehousePanel.add(button);
+    }
+
+    const message = this.add.text(230, 378, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '12px',
+      color: '#8b2500',
+      fontStyle: 'italic',
+      align: 'center',
+      wordWrap: { width: 420 },
+    });
+    message.setOrigin(0.5, 0.5);
+    message.setName('warehouseMessage');
+    this.warehousePanel.add(message);
+
+    const closeHint = this.add.text(230, 402, `Press ${getInputBindings().getLabel('menu')} to leave`, {
+      fontFamily: 'Georgia, serif',
+      fontSize: '11px',
+      color: '#8a7a60',
+      fontStyle: 'italic',
+    });
+    closeHint.setOrigin(0.5, 0.5);
+    this.warehousePanel.add(closeHint);
+  }
+
+  private openWarehouse(): void {
+    const warehouse = this.registry.get('warehouseSystem');
+    const access = warehouse?.canAccess?.();
+    if (!access?.allowed) {
+      this.gameEvents?.emit('notification', {
+        title: 'Warehouse',
+        message: access?.reason ?? 'The warehouse is closed.',
+        type: 'warning',
+      });
+      return;
+    }
+
+    this.isWarehouseOpen = true;
+    this.warehousePanel.setVisible(true);
+    (this.warehousePanel.getByName('warehouseMessage') as Phaser.GameObjects.Text).setText('');
+    this.updateWarehousePanel();
+  }
+
+  private closeWarehouse(): void {
+    this.isWarehouseOpen = false;
+    this.warehousePanel.setVisible(false);
+  }
+
+  private refreshWarehouse(): void {
+    if (this.isWarehouseOpen) {
+      this.updateWarehousePanel();
+    }
+  }
+
+  /**
+   * Run a warehouse action and show the warehouse master's answer if refused
+   */
+  private runWarehouseAction(action: (warehouse: any) => { success: boolean; message: string }): void {
+    const warehouse = this.registry.get('warehouseSystem');
+    if (!warehouse) return;
+
+    const result = action(warehouse);
+    const message = this.warehousePanel.getByName('warehouseMessage') as Phaser.GameObjects.Text;
+    message.setColor(result.success ? '#2d5a27' : '#8b2500');
+    message.setText(result.message);
+    this.updateWarehousePanel();
+  }
+
+  private updateWarehousePanel(): void {
+    for (const child of this.warehousePanel.getAll()) {
+      if (child.name?.startsWith('warehouseRow')) {
+        child.destroy();
+      }
+    }
+
+    const warehouse = this.registry.get('warehouseSystem');
+    const marketScene = this.scene.get('MarketScene') as any;
+    if (!warehouse || !marketScene?.getPlayer) return;
+
+    const state = warehouse.getState();
+    const addText = (x: number, y: number, text: string, size: number, color: string) => {
+      const label = this.add.text(x, y, text, { fontFamily: 'Georgia, serif', fontSize: `${size}px`, color });
+      label.setName('warehouseRow');
+      this.warehousePanel.add(label);
+      return label;
+    };
+    const addAction = (x: number, y: number, text: string, action: () => void) => {
+      const link = addText(x, y, text, 11, '#8b4513');
+      link.setInteractive({ useHandCursor: true });
+      link.on('pointerover', () => link.setColor('#c06020'));
+      link.on('pointerout', () => link.setColor('#8b4513'));
+      link.on('pointerdown', action);
+    };
+
+    const status = addText(230, 60,
+      `Bays: ${state.bays}/${state.maxBays}   Stored: ${state.used}/${state.capacity}   Rent: ${state.dailyRent} reis a day`,
+      12, '#2c1810');
+    status.setOrigin(0.5, 0.5);
+
+    // Carried goods, each with store actions
+    const carried: { item: string; quantity: number }[] = marketScene.getPlayer().getInventory();
+    carried.slice(0, 9).forEach((entry, index) => {
+      const y = 135 + index * 25;
+      addText(20, y, `${this.formatGoodName(entry.item)} x${entry.quantity}`, 12, '#2c1810');
+      addAction(140, y, 'Store 1', () => this.runWarehouseAction(w => w.deposit(entry.item, 1)));
+      addAction(185, y, 'All', () => this.runWarehouseAction(w => w.deposit(entry.item, entry.quantity)));
+    });
+
+    // Stored goods, each with take actions
+    state.contents.slice(0, 9).forEach((entry: { item: string; quantity: number }, index: number) => {
+      const y = 135 + index * 25;
+      addText(245, y, `${this.formatGoodName(entry.item)} x${entry.quantity}`, 12, '#2c1810');
+      addAction(365, y, 'Take 1', () => this.runWarehouseAction(w => w.withdraw(entry.item, 1)));
+      addAction(408, y, 'All', () => this.runWarehouseAction(w => w.withdraw(entry.item, entry.quantity)));
+    });
+
+    if (state.bays === 0) {
+      const hint = addText(345, 160, 'Rent a bay to store goods', 11, '#8a7a60');
+      hint.setOrigin(0.5, 0.5);
+    }
+  }
+
+  private createShipTradePanel(): void {
+    const width = this.cameras.main.width;
+
+    this.shipTradePanel = this.add.container(width / 2 - 230, 90);
+    this.shipTradePanel.setVisible(false);
+    this.shipTradePanel.setDepth(1500);
+
+    const bg = this.add.graphics();
+    bg.fillStyle(0xf4e4bc, 0.98);
+    bg.fillRect(0, 0, 460, 420);
+    bg.fillStyle(0x3d2314, 1);
+    bg.fillRect(0, 0, 460, 5);
+    bg.fillRect(0, 415, 460, 5);
+    bg.fillRect(0, 0, 5, 420);
+    bg.fillRect(455, 0, 5, 420);
+    bg.fillStyle(0xc9a227, 0.7);
+    bg.fillRect(5, 5, 450, 2);
+    bg.fillRect(5, 413, 450, 2);
+    bg.lineStyle(1, 0x8b6914, 0.6);
+    bg.lineBetween(20, 70, 440, 70);
+    bg.lineBetween(230, 85, 230, 360);
+    this.drawPanelCorner(bg, 8, 8);
+    this.drawPanelCorner(bg, 432, 8);
+    this.shipTradePanel.add(bg);
+
+    const title = this.add.text(230, 26, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '19px',
+      color: '#2c1810',
+      fontStyle: 'italic',
+    });
+    title.setOrigin(0.5, 0.5);
+    title.setName('shipTitle');
+    this.shipTradePanel.add(title);
+
+    const headers: Array<[number, string]> = [[20, 'From the hold'], [245, 'Wanted for the voyage home']];
+    for (const [x, label] of headers) {
+      const header = this.add.text(x, 88, label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '12px',
+        color: '#5a4020',
+        fontStyle: 'italic',
+      });
+      this.shipTradePanel.add(header);
+    }
+
+    const message = this.add.text(230, 378, '', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '12px',
+      color: '#8b2500',
+      fontStyle: 'italic',
+      align: 'center',
+      wordWrap: { width: 420 },
+    });
+    message.setOrigin(0.5, 0.5);
+    message.setName('shipMessage');
+    this.shipTradePanel.add(message);
+
+    const closeHint = this.add.text(230, 402, `Press ${getInputBindings().getLabel('menu')} to go ashore`, {
+      fontFamily: 'Georgia, serif',
+      fontSize: '11px',
+      color: '#8a7a60',
+      fontStyle: 'italic',
+    });
+    closeHint.setOrigin(0.5, 0.5);
+    this.shipTradePanel.add(closeHint);
+  }
+
+  private openShipTrade(data: { npcId?: string }): void {
+    const ship = this.registry.get('harborSystem')?.getShipByCaptain(data.npcId ?? '');
+    if (!ship) return;
+
+    this.currentShipId = ship.shipId;
+    this.shipTradePanel.setVisible(true);
+    (this.shipTradePanel.getByName('shipMessage') as Phaser.GameObjects.Text).setText('');
+    this.updateShipTradePanel();
+  }
+
+  private closeShipTrade(): void {
+    this.currentShipId = null;
+    this.shipTradePanel.setVisible(false);
+  }
+
+  private refreshShipTrade(): void {
+    if (this.currentShipId) {
+      this.updateShipTradePanel();
+    }
+  }
+
+  private onShipCastOff(ship: { shipId: string }): void {
+    if (ship.shipId === this.currentShipId) {
+      this.closeShipTrade();
+    }
+  }
+
+  /**
+   * Trade with the captain and show his answer
+   */
+  private runShipAction(action: (harbor: any, shipId: string) => { success: boolean; message: string }): void {
+    const harbor = this.registry.get('harborSystem');
+    if (!harbor || !this.currentShipId) return;
+
+    const result = action(harbor, this.currentShipId);
+    const message = this.shipTradePanel.getByName('shipMessage') as Phaser.GameObjects.Text;
+    message.setColor(result.success ? '#2d5a27' : '#8b2500');
+    message.setText(result.message);
+    this.updateShipTradePanel();
+  }
+
+  private updateShipTradePanel(): void {
+    for (const child of this.shipTradePanel.getAll()) {
+      if (child.name?.startsWith('shipRow')) {
+        child.destroy();
+      }
+    }
+
+    const harbor = this.registry.get('harborSystem');
+    const ship = this.currentShipId ? harbor?.getShip(this.currentShipId) : undefined;
+    if (!ship) return;
+
+    (this.shipTradePanel.getByName('shipTitle') as Phaser.GameObjects.Text).setText(ship.shipName);
+
+    const addText = (x: number, y: number, text: string, size: number, color: string) => {
+      const label = this.add.text(x, y, text, { fontFamily: 'Georgia, serif', fontSize: `${size}px`, color });
+      label.setName('shipRow');
+      this.shipTradePanel.add(label);
+      return label;
+    };
+    const addAction = (x: number, y: number, text: string, action: () => void) => {
+      const link = addText(x, y, text, 11, '#8b4513');
+      link.setInteractive({ useHandCursor: true });
+      link.on('pointerover', () => link.setColor('#c06020'));
+      link.on('pointerout', () => link.setColor('#8b4513'));
+      link.on('pointerdown', action);
+    };
+
+    const subtitle = addText(230, 52,
+      `${ship.captainName} - from ${ship.origin}, sailing on day ${ship.departsDay}`, 12, '#2c1810');
+    subtitle.setOrigin(0.5, 0.5);
+
+    // Cargo still aboard, at the captain's wholesale price
+    const cargo = ship.cargoLanded ? [] : ship.cargo.filter((c: { quantity: number }) => c.quantity > 0);
+    cargo.slice(0, 9).forEach((entry: { goodId: string; quantity: number }, index: number) => {
+      const y = 112 + index * 26;
+      addText(20, y, `${this.formatGoodName(entry.goodId)} x${entry.quantity}`, 12, '#2c1810');
+      addText(20, y + 12, `${harbor.getWholesalePrice(entry.goodId)} reis each`, 10, '#5a4020');
+      addAction(150, y, 'Buy 1', () => this.runShipAction((h, id) => h.buyCargo(id, entry.goodId, 1)));
+      addAction(190, y, 'Buy 5', () => this.runShipAction((h, id) => h.buyCargo(id, entry.goodId, 5)));
     });
-    closeHint.setOrigin(0.5, 0.5);
-    this.contractPanel.add(closeHint);
+    if (cargo.length === 0) {
+      addText(20, 112, ship.cargoLanded ? 'The hold has gone ashore.' : 'The hold is empty.', 11, '#8a7a60');
+    }
 
-    // Decorative separator
-    const sep = this.add.graphics();
-    sep.lineStyle(2, 0x8b6914, 0.6);
-    sep.lineBetween(20, 35, 330, 35);
-    sep.fillStyle(0xc9a227, 1);
-    sep.fillCircle(175, 35, 4);
-    this.contractPanel.add(sep);
+    // Goods the captain is buying, at a premium on the market
+    const exports = ship.exports.filter((e: { wanted: number }) => e.wanted > 0);
+    exports.slice(0, 9).forEach((entry: { goodId: string; wanted: number }, index: number) => {
+      const y = 112 + index * 26;
+      addText(245, y, `${this.formatGoodName(entry.goodId)} - wants ${entry.wanted}`, 12, '#2c1810');
+      addText(245, y + 12, `${harbor.getExportPrice(ship.shipId, entry.goodId)} reis each`, 10, '#5a4020');
+      addAction(375, y, 'Sell 1', () => this.runShipAction((h, id) => h.sellExport(id, entry.goodId, 1)));
+      addAction(415, y, 'All', () => this.runShipAction((h, id) => h.sellExport(id, entry.goodId, this.getCarried(entry.goodId))));
+    });
+    if (exports.length === 0) {
+      addText(245, 112, 'The captain is buying nothing.', 11, '#8a7a60');
+    }
+  }
 
-    // Contract list container
-    const contractList = this.add.container(15, 50);
-    contractList.setName('contractList');
-    this.contractPanel.add(contractList);
+  private getCarried(good: string): number {
+    const marketScene = this.scene.get('MarketScene') as any;
+    const inventory: { item: string; quantity: number }[] = marketScene?.getPlayer?.().getInventory() ?? [];
+    return inventory.find(entry => entry.item === good)?.quantity ?? 0;
   }
 
   private toggleContractPanel(): void {
@@ -1310,85 +3155,125 @@ export class UIScene extends Phaser.Scene {
 
   private setupEventListeners(): void {
     // Listen for time updates from MarketScene
-    const marketScene = this.scene.get('MarketScene');
-    marketScene.events.on('timeUpdate', (timeData: { hour: number; period: string; dayCount: number }) => {
+    this.gameEvents = getGameEvents(this.scene.get('MarketScene'));
+    this.gameEvents.on('timeUpdate', timeData => {
       this.updateTimeDisplay(timeData);
     });
 
     // Listen for trade events
-    marketScene.events.on('openTrade', (data: { npcName: string; goods: string[] }) => {
-      this.openTrade(data.npcName, data.goods);
+    this.gameEvents.on('openTrade', (data: { npcId?: string; npcName: string; goods: string[] }) => {
+      this.openTrade(data.npcName, data.goods, data.npcId);
     });
 
-    // Listen for gold changes from Player
-    marketScene.events.on('goldChange', (newGold: number) => {
+    // Listen for the gold total from Player
+    this.gameEvents.on('goldTotal', newGold => {
       this.goldText.setText(`${newGold}`);
     });
 
     // Listen for inventory changes from Player
-    marketScene.events.on('inventoryChange', () => {
+    this.gameEvents.on('inventoryChange', () => {
       this.updateInventoryDisplay();
+      this.refreshWarehouse();
+      this.refreshShipTrade();
+      this.refreshExpeditions();
     });
 
+    // Warehouse bays let by the warehouse master
+    this.gameEvents.on('openWarehouse', this.openWarehouse, this);
+    this.gameEvents.on('warehouseChange', this.refreshWarehouse, this);
+
+    // Captains of ships moored at the docks
+    this.gameEvents.on('openShipTrade', this.openShipTrade, this);
+    this.gameEvents.on('shipCargoChange', this.refreshShipTrade, this);
+    this.gameEvents.on('shipCastOff', this.onShipCastOff, this);
+
+    // Expeditions at sea move on by the hour
+    this.gameEvents.on('hourChange', this.refreshExpeditions, this);
+    this.gameEvents.on('expeditionStarted', this.refreshExpeditions, this);
+    this.gameEvents.on('expeditionReturning', this.refreshExpeditions, this);
+    this.gameEvents.on('expeditionCompleted', this.refreshExpeditions, this);
+    this.gameEvents.on('expeditionLost', this.refreshExpeditions, this);
+    this.gameEvents.on('voyageIncident', this.refreshExpeditions, this);
+    this.gameEvents.on('voyageDecision', this.onVoyageDecision, this);
+
+    // The map follows the hour, the harbour and the player's contracts
+    this.gameEvents.on('locationChange', this.refreshMap, this);
+    this.gameEvents.on('transitionBlocked', this.onTransitionBlocked, this);
+    this.gameEvents.on('hourChange', this.refreshMap, this);
+    this.gameEvents.on('shipMoored', this.refreshMap, this);
+    this.gameEvents.on('shipCastOff', this.refreshMap, this);
+    this.gameEvents.on('contractAccepted', this.refreshMap, this);
+    this.gameEvents.on('contractCompleted', this.refreshMap, this);
+    this.gameEvents.on('contractFailed', this.refreshMap, this);
+
+    // Skills rise with use; perks are learned on the skills panel
+    this.gameEvents.on('skillChange', this.refreshSkills, this);
+    this.gameEvents.on('perkLearned', this.refreshSkills, this);
+    this.gameEvents.on('gameLoaded', this.refreshSkills, this);
+
     // Listen for transition zone proximity
-    marketScene.events.on('showTransitionPrompt', (label: string) => {
+    this.gameEvents.on('showTransitionPrompt', (label: string) => {
       this.showTransitionPrompt(label);
     });
-    marketScene.events.on('hideTransitionPrompt', () => {
+    this.gameEvents.on('hideTransitionPrompt', () => {
       this.hideTransitionPrompt();
     });
     
     // Listen for quest events
-    marketScene.events.on('questOffer', (data: { npcId: string; npcName: string; quests: any[] }) => {
+    this.gameEvents.on('questOffer', (data: { npcId: string; npcName: string; quests: any[] }) => {
       this.showQuestOffer(data);
     });
 
-    marketScene.events.on('questStateChange', () => {
+    this.gameEvents.on('questStateChange', () => {
       this.updateQuestLog();
     });
 
     // Listen for rank changes
-    marketScene.events.on('rankUp', (data: { rankInfo: { title: string } }) => {
+    this.gameEvents.on('rankUp', (data: { rankInfo: { title: string } }) => {
       this.rankText.setText(data.rankInfo.title);
     });
 
     // Listen for progression updates
-    marketScene.events.on('progressionUpdate', (data: { title: string }) => {
+    this.gameEvents.on('progressionUpdate', (data: { title: string }) => {
       if (this.rankText && data.title) {
         this.rankText.setText(data.title);
       }
     });
 
     // Listen for contract updates
-    marketScene.events.on('contractAccepted', () => {
+    this.gameEvents.on('contractAccepted', () => {
       if (this.isContractPanelOpen) {
         this.updateContractPanel();
       }
     });
 
-    marketScene.events.on('contractCompleted', () => {
+    this.gameEvents.on('contractCompleted', () => {
       if (this.isContractPanelOpen) {
         this.updateContractPanel();
       }
     });
 
-    marketScene.events.on('contractFailed', () => {
+    this.gameEvents.on('contractFailed', () => {
       if (this.isContractPanelOpen) {
         this.updateContractPanel();
       }
     });
 
-    marketScene.events.on('contractsRefreshed', () => {
+    this.gameEvents.on('contractsRefreshed', () => {
       if (this.isContractPanelOpen) {
         this.updateContractPanel();
       }
     });
+
+    // Keep the price ledger current while it is open
+    this.gameEvents.on('priceLedgerUpdate', this.refreshLedger, this);
+    this.gameEvents.on('marketUpdate', this.refreshLedger, this);
   }
 
   private showTransitionPrompt(label: string): void {
     const promptText = this.transitionPrompt.getByName('promptText') as Phaser.GameObjects.Text;
     if (promptText) {
-      promptText.setText(`Press E - ${label}`);
+      promptText.setText(`Press ${getInputBindings().getLabel('interact')} - ${label}`);
     }
     this.transitionPrompt.setVisible(true);
   }
@@ -1398,34 +3283,217 @@ export class UIScene extends Phaser.Scene {
   }
 
   private setupInputHandlers(): void {
-    // Keyboard shortcuts
-    this.input.keyboard?.on('keydown-I', () => {
+    // Keyboard shortcuts and gamepad buttons, read as actions so rebound keys apply
+    this.input.keyboard?.on('keydown', this.onKeyDown, this);
+    this.input.gamepad?.on('down', this.onGamepadDown, this);
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    if (event.repeat) return;
+    const action = getInputBindings().getAction(event.keyCode);
+    if (action) {
+      this.handleAction(action);
+    }
+  }
+
+  private onGamepadDown(_pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button): void {
+    const action = getGamepadAction(button.index);
+    if (action) {
+      this.handleAction(action);
+    }
+  }
+
+  private handleAction(action: InputAction): void {
+    // The settings screen takes every key while it is open
+    if (this.scene.isActive('SettingsScene')) return;
+    if (this.isPaused) {
+      this.handlePauseAction(action);
+      return;
+    }
+
+    switch (action) {
+      case 'inventory':
+        this.toggleInventory();
+        break;
+      case 'journal':
+        this.toggleQuestLog();
+        break;
+      case 'contracts':
+        this.toggleContractPanel();
+        break;
+      case 'ledger':
+        this.toggleLedger();
+        break;
+      case 'expeditions':
+        this.toggleExpeditions();
+        break;
+      case 'map':
+        this.toggleMap();
+        break;
+      case 'skills':
+        this.toggleSkills();
+        break;
+      case 'menu':
+        // A conversation is walked away from first, then the topmost panel
+        // closed; with nothing open the game pauses
+        if (!this.registry.get('dialogueSystem')?.handleAction?.('menu') && !this.closeTopPanel()) {
+          this.togglePause();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Close the topmost open panel
+   * @returns False if no panel was open
+   */
+  private closeTopPanel(): boolean {
+    if (this.isQuestOfferOpen) {
+      this.closeQuestOffer();
+    } else if (this.currentDecisionId) {
+      this.closeVoyageDecision();
+    } else if (this.isHaggleOpen) {
+      this.closeHaggle();
+    } else if (this.isWarehouseOpen) {
+      this.closeWarehouse();
+    } else if (this.currentShipId) {
+      this.closeShipTrade();
+    } else if (this.isBasketOpen) {
+      this.toggleBasket();
+    } else if (this.isTradeOpen) {
+      this.closeTrade();
+    } else if (this.isQuestLogOpen) {
+      this.toggleQuestLog();
+    } else if (this.isContractPanelOpen) {
+      this.toggleContractPanel();
+    } else if (this.isLedgerOpen) {
+      this.toggleLedger();
+    } else if (this.isExpeditionOpen) {
+      this.toggleExpeditions();
+    } else if (this.isMapOpen) {
+      this.toggleMap();
+    } else if (this.isSkillsOpen) {
+      this.toggleSkills();
+    } else if (this.isInventoryOpen) {
       this.toggleInventory();
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  private createPausePanel(): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+
+    this.pausePanel = this.add.container(0, 0);
+    this.pausePanel.setVisible(false);
+    this.pausePanel.setDepth(1500);
+
+    // Interactive, so nothing behind the panel can be clicked while paused
+    const shade = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.4);
+    shade.setInteractive();
+    this.pausePanel.add(shade);
+
+    const panel = this.add.container(width / 2 - 130, height / 2 - 95);
+    this.pausePanel.add(panel);
+
+    const bg = this.add.graphics();
+    bg.fillStyle(0xf4e4bc, 0.98);
+    bg.fillRect(0, 0, 260, 190);
+    bg.fillStyle(0x3d2314, 1);
+    bg.fillRect(0, 0, 260, 5);
+    bg.fillRect(0, 185, 260, 5);
+    bg.fillRect(0, 0, 5, 190);
+    bg.fillRect(255, 0, 5, 190);
+    bg.fillStyle(0xc9a227, 0.7);
+    bg.fillRect(5, 5, 250, 2);
+    bg.fillRect(5, 183, 250, 2);
+    bg.lineStyle(1, 0x8b6914, 0.6);
+    bg.lineBetween(20, 48, 240, 48);
+    this.drawPanelCorner(bg, 8, 8);
+    this.drawPanelCorner(bg, 232, 8);
+    panel.add(bg);
+
+    const title = this.add.text(130, 25, '- Paused -', {
+      fontFamily: 'Georgia, serif',
+      fontSize: '18px',
+      color: '#2c1810',
+      fontStyle: 'bold italic',
     });
+    title.setOrigin(0.5, 0.5);
+    panel.add(title);
 
-    this.input.keyboard?.on('keydown-J', () => {
-      this.toggleQuestLog();
+    const options: Array<[string, () => void]> = [
+      ['Resume', () => this.togglePause()],
+      ['Settings', () => this.scene.launch('SettingsScene')],
+    ];
+    this.pauseOptions = options.map(([label, select], index) => {
+      const text = this.add.text(130, 80 + index * 40, label, {
+        fontFamily: 'Georgia, serif',
+        fontSize: '16px',
+        color: '#2c1810',
+      });
+      text.setOrigin(0.5, 0.5);
+      text.setInteractive({ useHandCursor: true });
+      text.on('pointerover', () => this.highlightPauseOption(index));
+      text.on('pointerdown', select);
+      panel.add(text);
+      return { text, select };
     });
 
-    this.input.keyboard?.on('keydown-C', () => {
-      this.toggleContractPanel();
+    const bindings = getInputBindings();
+    const closeHint = this.add.text(130, 166, `${bindings.getLabel('interact')} to choose, ${bindings.getLabel('menu')} to resume`, {
+      fontFamily: 'Georgia, serif',
+      fontSize: '10px',
+      color: '#5a4030',
+      fontStyle: 'italic',
     });
+    closeHint.setOrigin(0.5, 0.5);
+    panel.add(closeHint);
+  }
 
-    this.input.keyboard?.on('keydown-ESC', () => {
-      if (this.isQuestOfferOpen) {
-        this.closeQuestOffer();
-      } else if (this.isTradeOpen) {
-        this.closeTrade();
-      } else if (this.isQuestLogOpen) {
-        this.toggleQuestLog();
-      } else if (this.isContractPanelOpen) {
-        this.toggleContractPanel();
-      } else if (this.isInventoryOpen) {
-        this.toggleInventory();
-      }
+  /**
+   * Pause or resume the game; MarketScene's clock, people and weather stop while paused
+   */
+  private togglePause(): void {
+    this.isPaused = !this.isPaused;
+    this.pausePanel.setVisible(this.isPaused);
+
+    if (this.isPaused) {
+      this.scene.pause('MarketScene');
+      this.highlightPauseOption(0);
+    } else {
+      this.scene.resume('MarketScene');
+    }
+  }
+
+  private highlightPauseOption(index: number): void {
+    this.selectedPauseOption = index;
+    this.pauseOptions.forEach(({ text }, i) => {
+      text.setColor(i === index ? '#8b2500' : '#2c1810');
+      text.setFontStyle(i === index ? 'bold' : '');
     });
   }
 
+  private handlePauseAction(action: InputAction): void {
+    const count = this.pauseOptions.length;
+    switch (action) {
+      case 'moveUp':
+        this.highlightPauseOption((this.selectedPauseOption - 1 + count) % count);
+        break;
+      case 'moveDown':
+        this.highlightPauseOption((this.selectedPauseOption + 1) % count);
+        break;
+      case 'interact':
+        this.pauseOptions[this.selectedPauseOption].select();
+        break;
+      case 'menu':
+        this.togglePause();
+        break;
+    }
+  }
+
   private toggleInventory(): void {
     this.isInventoryOpen = !this.isInventoryOpen;
     this.inventoryPanel.setVisible(this.isInventoryOpen);
@@ -1456,12 +3524,13 @@ export class UIScene extends Phaser.Scene {
 
     // Get inventory from Player (source of truth)
     const inventory = this.getInventory();
+    const scale = getGameSettings().getTextScale();
 
     // Add inventory items (ledger entry style)
     if (inventory.length === 0) {
       const emptyText = this.add.text(105, 150, 'No goods in possession', {
         fontFamily: 'Georgia, serif',
-        fontSize: '13px',
+        fontSize: `${Math.round(13 * scale)}px`,
         color: '#8a7a60',
         fontStyle: 'italic',
       });
@@ -1473,7 +3542,7 @@ export class UIScene extends Phaser.Scene {
         const itemName = this.formatGoodName(item.item);
         const itemText = this.add.text(20, 50 + index * 28, `${itemName}`, {
           fontFamily: 'Georgia, serif',
-          fontSize: '14px',
+          fontSize: `${Math.round(14 * scale)}px`,
           color: '#2c1810',
         });
         itemText.setName(`invItem${index}`);
@@ -1482,7 +3551,7 @@ export class UIScene extends Phaser.Scene {
         // Quantity in a different style (like a tally)
         const qtyText = this.add.text(170, 50 + index * 28, `×${item.quantity}`, {
           fontFamily: 'Georgia, serif',
-          fontSize: '14px',
+          fontSize: `${Math.round(14 * scale)}px`,
           color: '#8b6914',
           fontStyle: 'bold',
         });
@@ -1492,7 +3561,12 @@ export class UIScene extends Phaser.Scene {
     }
   }
 
-  private openTrade(npcName: string, goods: string[]): void {
+  private openTrade(npcName: string, npcGoods: string[], npcId?: string): void {
+    // Only goods defined in the catalogue can be traded
+    const goods = npcGoods.filter(good => loadGoodsCatalog().has(good));
+    this.currentTrader = { npcId: npcId ?? '', npcName };
+    this.tradeGoods = goods;
+    this.basket.clear();
     this.isTradeOpen = true;
     this.tradePanel.setVisible(true);
 
@@ -1514,10 +3588,15 @@ export class UIScene extends Phaser.Scene {
       }
     }
 
+    // Rows grow with the text size setting
+    const scale = getGameSettings().getTextScale();
+    const rowHeight = Math.round(35 * scale);
+    const subLine = Math.round(16 * scale);
+
     // Column headers (ledger style)
     const headerGoods = this.add.text(30, 65, 'Commodity', {
       fontFamily: 'Georgia, serif',
-      fontSize: '12px',
+      fontSize: `${Math.round(12 * scale)}px`,
       color: '#5a4020',
       fontStyle: 'italic',
     });
@@ -1526,7 +3605,7 @@ export class UIScene extends Phaser.Scene {
     
     const headerPrice = this.add.text(180, 65, 'Price', {
       fontFamily: 'Georgia, serif',
-      fontSize: '12px',
+      fontSize: `${Math.round(12 * scale)}px`,
       color: '#5a4020',
       fontStyle: 'italic',
     });
@@ -1535,7 +3614,7 @@ export class UIScene extends Phaser.Scene {
     
     const headerActions = this.add.text(300, 65, 'Transaction', {
       fontFamily: 'Georgia, serif',
-      fontSize: '12px',
+      fontSize: `${Math.round(12 * scale)}px`,
       color: '#5a4020',
       fontStyle: 'italic',
     });
@@ -1546,7 +3625,7 @@ export class UIScene extends Phaser.Scene {
     if (goods.length === 0) {
       const noGoodsText = this.add.text(220, 160, 'No commodities available', {
         fontFamily: 'Georgia, serif',
-        fontSize: '14px',
+        fontSize: `${Math.round(14 * scale)}px`,
         color: '#8a7a60',
         fontStyle: 'italic',
       });
@@ -1558,21 +3637,34 @@ export class UIScene extends Phaser.Scene {
       goods.forEach((good, index) => {
         const goodName = this.formatGoodName(good);
         const price = this.getGoodPrice(good);
-        const yPos = 95 + index * 35;
+        const yPos = 95 + index * rowHeight;
 
         // Good name (quill-written style)
         const goodText = this.add.text(30, yPos, goodName, {
           fontFamily: 'Georgia, serif',
-          fontSize: '15px',
+          fontSize: `${Math.round(15 * scale)}px`,
           color: '#2c1810',
         });
         goodText.setName(`tradeGood${index}`);
         this.tradePanel.add(goodText);
 
+        // Merchants with an eye for the market can count the stock on the stalls
+        const market = this.getTradeSystem()?.getMarketState?.(good);
+        if (market && this.registry.get('skillSystem')?.canSeeSupply?.()) {
+          const supplyText = this.add.text(30, yPos + Math.round(18 * scale), `${market.supply} in stock, ${market.demand} wanted`, {
+            fontFamily: 'Georgia, serif',
+            fontSize: `${Math.round(9 * scale)}px`,
+            color: '#5a4020',
+            fontStyle: 'italic',
+          });
+          supplyText.setName(`tradeSupply${index}`);
+          this.tradePanel.add(supplyText);
+        }
+
         // Price (gold ink style)
         const priceText = this.add.text(180, yPos, `${price} reis`, {
           fontFamily: 'Georgia, serif',
-          fontSize: '14px',
+          fontSize: `${Math.round(14 * scale)}px`,
           color: '#8b6914',
         });
         priceText.setName(`tradePrice${index}`);
@@ -1581,52 +3673,297 @@ export class UIScene extends Phaser.Scene {
         // Buy button (green wax seal style)
         const buyBtn = this.add.text(290, yPos, 'Purchase', {
           fontFamily: 'Georgia, serif',
-          fontSize: '13px',
+          fontSize: `${Math.round(13 * scale)}px`,
           color: '#2d5a27',
         });
         buyBtn.setInteractive({ useHandCursor: true });
         buyBtn.on('pointerover', () => buyBtn.setColor('#4a8a42'));
         buyBtn.on('pointerout', () => buyBtn.setColor('#2d5a27'));
-        buyBtn.on('pointerdown', () => this.buyGood(good, price));
+        buyBtn.on('pointerdown', () => this.tradeOne(good, true));
         buyBtn.setName(`tradeBuy${index}`);
         this.tradePanel.add(buyBtn);
 
         // Sell button
-        const sellBtn = this.add.text(370, yPos, 'Sell', {
+        const sellBtn = this.add.text(380, yPos, 'Sell', {
           fontFamily: 'Georgia, serif',
-          fontSize: '13px',
+          fontSize: `${Math.round(13 * scale)}px`,
           color: '#8b4513',
         });
         sellBtn.setInteractive({ useHandCursor: true });
         sellBtn.on('pointerover', () => sellBtn.setColor('#c06020'));
         sellBtn.on('pointerout', () => sellBtn.setColor('#8b4513'));
-        sellBtn.on('pointerdown', () => this.sellGood(good, price));
+        sellBtn.on('pointerdown', () => this.tradeOne(good, false));
         sellBtn.setName(`tradeSell${index}`);
         this.tradePanel.add(sellBtn);
+
+        // Haggle links beneath each transaction
+        const haggleBuy = this.add.text(290, yPos + subLine, 'haggle', {
+          fontFamily: 'Georgia, serif',
+          fontSize: `${Math.round(10 * scale)}px`,
+          color: '#8a7a60',
+          fontStyle: 'italic',
+        });
+        haggleBuy.setInteractive({ useHandCursor: true });
+        haggleBuy.on('pointerover', () => haggleBuy.setColor('#2c1810'));
+        haggleBuy.on('pointerout', () => haggleBuy.setColor('#8a7a60'));
+        haggleBuy.on('pointerdown', () => this.startHaggle(good, true));
+        haggleBuy.setName(`tradeHaggleBuy${index}`);
+        this.tradePanel.add(haggleBuy);
+
+        const haggleSell = this.add.text(380, yPos + subLine, 'haggle', {
+          fontFamily: 'Georgia, serif',
+          fontSize: `${Math.round(10 * scale)}px`,
+          color: '#8a7a60',
+          fontStyle: 'italic',
+        });
+        haggleSell.setInteractive({ useHandCursor: true });
+        haggleSell.on('pointerover', () => haggleSell.setColor('#2c1810'));
+        haggleSell.on('pointerout', () => haggleSell.setColor('#8a7a60'));
+        haggleSell.on('pointerdown', () => this.startHaggle(good, false));
+        haggleSell.setName(`tradeHaggleSell${index}`);
+        this.tradePanel.add(haggleSell);
       });
     }
 
     // Instructions (aged ink style)
-    const instructions = this.add.text(220, 320, 'Press ESC to conclude dealings', {
+    // Set at the left so larger text keeps clear of the basket link
+    const instructions = this.add.text(20, 320, `Press ${getInputBindings().getLabel('menu')} to conclude dealings`, {
       fontFamily: 'Georgia, serif',
-      fontSize: '11px',
+      fontSize: `${Math.round(11 * scale)}px`,
       color: '#8a7a60',
       fontStyle: 'italic',
     });
-    instructions.setOrigin(0.5, 0.5);
+    instructions.setOrigin(0, 0.5);
     instructions.setName('tradeInstructions');
     this.tradePanel.add(instructions);
+
+    if (goods.length > 0) {
+      const basketBtn = this.add.text(420, 320, 'Order basket >', {
+        fontFamily: 'Georgia, serif',
+        fontSize: `${Math.round(12 * scale)}px`,
+        color: '#5a4020',
+        fontStyle: 'italic',
+      });
+      basketBtn.setOrigin(1, 0.5);
+      basketBtn.setInteractive({ useHandCursor: true });
+      basketBtn.on('pointerover', () => basketBtn.setColor('#c9a227'));
+      basketBtn.on('pointerout', () => basketBtn.setColor('#5a4020'));
+      basketBtn.on('pointerdown', () => this.toggleBasket());
+      basketBtn.setName('tradeBasketBtn');
+      this.tradePanel.add(basketBtn);
+    }
+
+    if (this.isBasketOpen) {
+      this.updateBasketPanel();
+    }
+  }
+
+  /**
+   * Buy or sell one unit at the current trader's price, moving the market
+   * as the basket does
+   */
+  private tradeOne(good: string, isBuying: boolean): void {
+    const tradeSystem = this.getTradeSystem();
+    if (!tradeSystem?.executeOrder) return;
+
+    const npcId = this.currentTrader?.npcId || undefined;
+    const faction = npcId ? loadNPCRegistry().getNPC(npcId)?.faction : undefined;
+    const quote: OrderQuote | null = tradeSystem.quoteOrder(good, 1, isBuying, faction, npcId);
+    if (!quote || quote.quantity === 0) {
+      this.gameEvents?.emit('notification', {
+        title: 'Nothing to Trade',
+        message: `No ${this.formatGoodName(good)} available.`,
+        type: 'warning',
+      });
+      return;
+    }
+    if (!this.canTradeOne(good, isBuying, quote.total)) return;
+
+    const result = tradeSystem.executeOrder(good, 1, isBuying, faction, npcId);
+    if (!result.success) return;
+    if (isBuying) {
+      this.buyGood(good, result.quote.total, result.quote.quantity);
+    } else {
+      this.sellGood(good, result.quote.total, result.quote.quantity);
+    }
+
+    // The trade moved the market, so the listed prices with it
+    this.tradeGoods.forEach((tradeGood, index) => {
+      const priceText = this.tradePanel.getByName(`tradePrice${index}`) as Phaser.GameObjects.Text | null;
+      priceText?.setText(`${this.getGoodPrice(tradeGood)} reis`);
+    });
   }
 
   private closeTrade(): void {
+    this.closeHaggle();
+    this.isBasketOpen = false;
+    this.basketPanel.setVisible(false);
+    this.basket.clear();
     this.isTradeOpen = false;
     this.tradePanel.setVisible(false);
+    this.currentTrader = null;
+  }
+
+  /**
+   * Open a haggle over one unit of a good with the current trader
+   */
+  private startHaggle(good: string, isBuying: boolean): void {
+    const haggling = this.registry.get('hagglingSystem');
+    const marketScene = this.scene.get('MarketScene') as any;
+    if (!haggling || !this.currentTrader || !marketScene?.getPlayer) return;
+
+    // Open the bargaining a fifth away from the vendor's price
+    const askingPrice = isBuying ? this.getGoodPrice(good) : this.getSellPrice(good);
+    const openingOffer = Math.max(1, Math.round(askingPrice * (isBuying ? 0.8 : 1.2)));
+    if (!this.canTradeOne(good, isBuying, openingOffer)) return;
+
+    haggling.startHaggle(this.currentTrader.npcId, this.currentTrader.npcName, good, isBuying, askingPrice);
+    this.currentHaggle = { good, isBuying };
+    this.haggleOffer = openingOffer;
+    this.isHaggleOpen = true;
+    this.hagglePanel.setVisible(true);
+    this.updateHagglePanel();
+  }
+
+  private adjustHaggleOffer(direction: number): void {
+    const session = this.registry.get('hagglingSystem')?.getSession();
+    if (!session) return;
+
+    const step = Math.max(1, Math.round(session.askingPrice * 0.05));
+    this.haggleOffer = Math.max(1, this.haggleOffer + direction * step);
+    // No point offering more gold than the purse holds
+    if (session.isBuying) {
+      this.haggleOffer = Math.min(this.haggleOffer, Math.max(1, this.getGold()));
+    }
+    this.updateHagglePanel();
+  }
+
+  private submitHaggleOffer(): void {
+    const haggling = this.registry.get('hagglingSystem');
+    const session = haggling?.getSession();
+    if (!session) return;
+
+    // A buying offer is never taken above itself, so it is the most that can be owed
+    if (!this.canTradeOne(session.goodId, session.isBuying, this.haggleOffer)) return;
+    this.handleHaggleResult(haggling.makeOffer(this.haggleOffer));
+  }
+
+  private acceptHaggleCounter(): void {
+    const haggling = this.registry.get('hagglingSystem');
+    const session = haggling?.getSession();
+    if (!session) return;
+
+    if (!this.canTradeOne(session.goodId, session.isBuying, session.counterPrice)) return;
+    this.handleHaggleResult(haggling.acceptCounter());
+  }
+
+  /**
+   * Whether a unit could change hands at a price - the gold to pay and
+   * room to carry it when buying, or a unit to hand over when selling.
+   * Warns the player when it could not.
+   */
+  private canTradeOne(good: string, isBuying: boolean, price: number): boolean {
+    const player = (this.scene.get('MarketScene') as any)?.getPlayer?.();
+    if (!player) return false;
+
+    let warning: { title: string; message: string } | null = null;
+    if (isBuying) {
+      const capacity = player.getCarryCapacity();
+      if (capacity.current >= capacity.max) {
+        warning = { title: 'Inventory Full', message: 'You cannot carry any more items.' };
+      } else if (player.getGold() < price) {
+        warning = { title: 'Not Enough Gold', message: `You cannot pay ${price} reis.` };
+      }
+    } else {
+      const owned = player.getInventory().find((item: { item: string; quantity: number }) => item.item === good);
+      if (!owned || owned.quantity <= 0) {
+        warning = { title: 'Nothing to Sell', message: `You have no ${this.formatGoodName(good)} to bargain with.` };
+      }
+    }
+
+    if (warning) {
+      this.gameEvents?.emit('notification', { ...warning, type: 'warning' });
+      return false;
+    }
+    return true;
+  }
+
+  private handleHaggleResult(result: { outcome: string; price: number; message: string }): void {
+    const haggle = this.currentHaggle;
+    if (!haggle) return;
+
+    if (result.outcome === 'countered') {
+      this.updateHagglePanel();
+      return;
+    }
+
+    this.hideHagglePanel();
+    const npcName = this.currentTrader?.npcName ?? 'The merchant';
+    if (result.outcome !== 'accepted') {
+      this.gameEvents?.emit('notification', {
+        title: 'Haggle Failed',
+        message: `${npcName}: "${result.message}"`,
+        type: 'warning',
+      });
+      return;
+    }
+
+    // The bargain only counts once the goods have changed hands
+    const haggling = this.registry.get('hagglingSystem');
+    const traded = haggle.isBuying ? this.buyGood(haggle.good, result.price) : this.sellGood(haggle.good, result.price);
+    if (!traded) {
+      haggling?.cancelDeal();
+      this.gameEvents?.emit('notification', {
+        title: 'Bargain Fell Through',
+        message: `The ${this.formatGoodName(haggle.good)} could not change hands at ${result.price} reis.`,
+        type: 'warning',
+      });
+      return;
+    }
+
+    haggling?.completeDeal();
+    this.gameEvents?.emit('notification', {
+      title: 'Bargain Struck',
+      message: `${npcName}: "${result.message}"`,
+      type: 'success',
+    });
+  }
+
+  private updateHagglePanel(): void {
+    const session = this.registry.get('hagglingSystem')?.getSession();
+    if (!session) return;
+
+    const verb = session.isBuying ? 'Buying' : 'Selling';
+    (this.hagglePanel.getByName('haggleTitle') as Phaser.GameObjects.Text)
+      .setText(`${verb} ${this.formatGoodName(session.goodId)}`);
+    (this.hagglePanel.getByName('haggleLine') as Phaser.GameObjects.Text)
+      .setText(`${session.npcName}: "${session.lastMessage}"`);
+    (this.hagglePanel.getByName('haggleCounter') as Phaser.GameObjects.Text)
+      .setText(`${session.isBuying ? 'Asking' : 'Offering'}: ${session.counterPrice} reis`);
+    (this.hagglePanel.getByName('hagglePatience') as Phaser.GameObjects.Text)
+      .setText(`Patience: ${'*'.repeat(Math.max(0, session.patience))}${'-'.repeat(session.maxPatience - Math.max(0, session.patience))}`);
+    (this.hagglePanel.getByName('haggleOffer') as Phaser.GameObjects.Text)
+      .setText(`Your offer: ${this.haggleOffer} reis`);
+    (this.hagglePanel.getByName('haggleHint') as Phaser.GameObjects.Text)
+      .setText(session.appraisalHint);
+  }
+
+  /**
+   * Leave a haggle - walking out mid-bargain costs the vendor's goodwill
+   */
+  private closeHaggle(): void {
+    this.registry.get('hagglingSystem')?.walkAway();
+    this.hideHagglePanel();
+  }
+
+  private hideHagglePanel(): void {
+    this.isHaggleOpen = false;
+    this.hagglePanel.setVisible(false);
+    this.currentHaggle = null;
   }
 
   private formatGoodName(good: string): string {
-    // Convert good_pepper to Pepper, etc.
-    return good.replace('good_', '').charAt(0).toUpperCase() + 
-           good.replace('good_', '').slice(1);
+    return loadGoodsCatalog().getName(good);
   }
 
   /**
@@ -1652,18 +3989,8 @@ export class UIScene extends Phaser.Scene {
       }
     }
 
-    // Fallback to hardcoded base prices if TradeSystem unavailable
-    const prices: { [key: string]: number } = {
-      'good_pepper': 15,
-      'good_cinnamon': 25,
-      'good_cloves': 40,
-      'good_silk': 50,
-      'good_porcelain': 35,
-      'good_ginger': 12,
-      'good_nutmeg': 45,
-      'good_indigo': 30,
-    };
-    return prices[good] || 10;
+    // Fallback to catalogue base prices if TradeSystem unavailable
+    return loadGoodsCatalog().get(good)?.basePrice ?? 10;
   }
 
   /**
@@ -1684,9 +4011,12 @@ export class UIScene extends Phaser.Scene {
     return Math.floor(buyPrice * 0.75);
   }
 
-  private buyGood(good: string, price: number): void {
+  /**
+   * Buy units of a good; price is the total for all of them
+   */
+  private buyGood(good: string, price: number, quantity: number = 1): boolean {
     const marketScene = this.scene.get('MarketScene') as any;
-    if (!marketScene?.getPlayer) return;
+    if (!marketScene?.getPlayer) return false;
 
     const player = marketScene.getPlayer();
     const currentGold = player.getGold();
@@ -1694,17 +4024,17 @@ export class UIScene extends Phaser.Scene {
     if (currentGold >= price) {
       // Use Player as source of truth
       player.removeGold(price);
-      const success = player.addToInventory(good, 1);
+      const success = player.addToInventory(good, quantity);
 
       if (!success) {
         // Inventory full - refund gold and show notification
         player.addGold(price);
-        this.scene.get('MarketScene')?.events.emit('notification', {
+        this.gameEvents?.emit('notification', {
           title: 'Inventory Full',
           message: 'You cannot carry any more items.',
           type: 'warning'
         });
-        return;
+        return false;
       }
 
       // Update UI to reflect new state
@@ -1712,31 +4042,37 @@ export class UIScene extends Phaser.Scene {
       this.updateInventoryDisplay();
 
       // Emit event to MarketScene
-      marketScene.events.emit('playerBuy', { good, price });
+      this.gameEvents?.emit('playerBuy', { good, price, quantity, npcId: this.currentTrader?.npcId || undefined });
 
       // Notify quest system about item acquisition
       const questSystem = this.registry.get('questSystem');
       if (questSystem && questSystem.handleItemAcquired) {
-        questSystem.handleItemAcquired(good, 1);
+        questSystem.handleItemAcquired(good, quantity);
       }
+      return true;
     }
+    return false;
   }
 
-  private sellGood(good: string, _price: number): void {
+  /**
+   * Sell units of a good, at a haggled or basket total or the market's
+   * sell price per unit
+   */
+  private sellGood(good: string, price?: number, quantity: number = 1): boolean {
     const marketScene = this.scene.get('MarketScene') as any;
-    if (!marketScene?.getPlayer) return;
+    if (!marketScene?.getPlayer) return false;
 
     const player = marketScene.getPlayer();
     const inventory = player.getInventory();
     const existingItem = inventory.find((item: { item: string; quantity: number }) => item.item === good);
 
-    if (existingItem && existingItem.quantity > 0) {
+    if (existingItem && existingItem.quantity >= quantity) {
       // Use Player as source of truth
-      const success = player.removeFromInventory(good, 1);
-      if (!success) return;
+      const success = player.removeFromInventory(good, quantity);
+      if (!success) return false;
 
       // Get sell price from TradeSystem (uses 0.75 multiplier) or fallback
-      const sellPrice = this.getSellPrice(good);
+      const sellPrice = price ?? this.getSellPrice(good) * quantity;
       player.addGold(sellPrice);
 
       // Update UI to reflect new state
@@ -1744,15 +4080,183 @@ export class UIScene extends Phaser.Scene {
       this.updateInventoryDisplay();
 
       // Emit event to MarketScene
-      marketScene.events.emit('playerSell', { good, price: sellPrice });
+      this.gameEvents?.emit('playerSell', { good, price: sellPrice, quantity, npcId: this.currentTrader?.npcId || undefined });
+      return true;
+    }
+    return false;
+  }
+
+  private toggleBasket(): void {
+    this.isBasketOpen = !this.isBasketOpen && this.isTradeOpen;
+    this.basketPanel.setVisible(this.isBasketOpen);
+    if (this.isBasketOpen) {
+      this.updateBasketPanel();
+    }
+  }
+
+  private adjustBasket(good: string, side: 'buy' | 'sell', delta: number): void {
+    const order = this.basket.get(good) ?? { buy: 0, sell: 0 };
+    const maxOrder = this.getTradeSystem()?.getMaxOrderSize?.() ?? 1;
+    order[side] = Phaser.Math.Clamp(order[side] + delta, 0, maxOrder);
+
+    if (order.buy === 0 && order.sell === 0) {
+      this.basket.delete(good);
+    } else {
+      this.basket.set(good, order);
+    }
+    this.updateBasketPanel();
+  }
+
+  /**
+   * Why the basket cannot be traded as it stands, if anything
+   */
+  private getBasketProblem(netCost: number, cargoAfter: number, maxCargo: number): string | null {
+    if (this.basket.size === 0) {
+      return 'The basket is empty.';
+    }
+    if (cargoAfter > maxCargo) {
+      return `That would leave you carrying ${cargoAfter} goods; you can carry ${maxCargo}.`;
+    }
+    if (netCost > this.getGold()) {
+      return `The order costs ${netCost} reis more than you carry.`;
+    }
+
+    const marketScene = this.scene.get('MarketScene') as any;
+    const inventory: { item: string; quantity: number }[] = marketScene?.getPlayer?.().getInventory() ?? [];
+    for (const [good, order] of this.basket) {
+      const owned = inventory.find(item => item.item === good)?.quantity ?? 0;
+      if (order.sell > owned) {
+        return `You only have ${owned} ${this.formatGoodName(good)} to sell.`;
+      }
+    }
+    return null;
+  }
+
+  private updateBasketPanel(): void {
+    // Clear the previous rows and summary
+    for (const child of this.basketPanel.getAll()) {
+      if (child.name?.startsWith('basket')) {
+        child.destroy();
+      }
     }
+
+    const addText = (x: number, y: number, text: string, size: number, color: string, name: string) => {
+      const label = this.add.text(x, y, text, { fontFamily: 'Georgia, serif', fontSize: `${size}px`, color });
+      label.setName(name);
+      this.basketPanel.add(label);
+      return label;
+    };
+
+    addText(145, 55, 'Buy', 11, '#2d5a27', 'basketHeaderBuy');
+    addText(225, 55, 'Sell', 11, '#8b4513', 'basketHeaderSell');
+
+    this.tradeGoods.forEach((good, index) => {
+      const y = 75 + index * 26;
+      const order = this.basket.get(good) ?? { buy: 0, sell: 0 };
+      addText(15, y, this.formatGoodName(good), 12, '#2c1810', `basketGood${index}`);
+
+      const sides: Array<['buy' | 'sell', number]> = [['buy', 125], ['sell', 205]];
+      for (const [side, x] of sides) {
+        const minus = addText(x, y, '-', 14, '#5a4020', `basket${side}Minus${index}`);
+        minus.setInteractive({ useHandCursor: true });
+        minus.on('pointerdown', () => this.adjustBasket(good, side, -1));
+
+        const count = addText(x + 30, y, `${order[side]}`, 12, '#2c1810', `basket${side}Count${index}`);
+        count.setOrigin(0.5, 0);
+
+        const plus = addText(x + 50, y, '+', 14, '#5a4020', `basket${side}Plus${index}`);
+        plus.setInteractive({ useHandCursor: true });
+        plus.on('pointerdown', () => this.adjustBasket(good, side, 1));
+      }
+    });
+
+    // Summary of the quoted order
+    const quotes = this.quoteBasket();
+    const cost = quotes.reduce((sum, q) => sum + (q.buy?.total ?? 0), 0);
+    const proceeds = quotes.reduce((sum, q) => sum + (q.sell?.total ?? 0), 0);
+    const bought = quotes.reduce((sum, q) => sum + (q.buy?.quantity ?? 0), 0);
+    const sold = quotes.reduce((sum, q) => sum + (q.sell?.quantity ?? 0), 0);
+
+    const marketScene = this.scene.get('MarketScene') as any;
+    const capacity = marketScene?.getPlayer?.().getCarryCapacity() ?? { current: 0, max: 0 };
+    const cargoAfter = capacity.current + bought - sold;
+    const maxOrder = this.getTradeSystem()?.getMaxOrderSize?.() ?? 1;
+    const bulkTrading = this.registry.get('progressionSystem')?.hasUnlock?.('bulk_trading');
+
+    addText(20, 248, `Cost: ${cost} reis    Proceeds: ${proceeds} reis`, 12, '#2c1810', 'basketTotals');
+    addText(20, 264, `Net: ${proceeds - cost >= 0 ? '+' : ''}${proceeds - cost} reis`, 12, '#8b6914', 'basketNet');
+    addText(20, 280, `Cargo after: ${cargoAfter} / ${capacity.max}`, 12,
+      cargoAfter > capacity.max ? '#8b2500' : '#2c1810', 'basketCargo');
+    addText(20, 294, bulkTrading
+      ? `Bulk trading: up to ${maxOrder} of each good`
+      : `Up to ${maxOrder} of each good - bulk trading opens at Merchant rank`,
+    9, '#8a7a60', 'basketLimit');
+  }
+
+  /**
+   * Quotes for everything in the basket, priced by TradeSystem with the
+   * current trader's faction and relationship modifiers
+   */
+  private quoteBasket(): { good: string; buy: OrderQuote | null; sell: OrderQuote | null }[] {
+    const tradeSystem = this.getTradeSystem();
+    const npcId = this.currentTrader?.npcId || undefined;
+    const faction = npcId ? loadNPCRegistry().getNPC(npcId)?.faction : undefined;
+
+    return Array.from(this.basket.entries()).map(([good, order]) => ({
+      good,
+      buy: order.buy > 0 ? tradeSystem?.quoteOrder?.(good, order.buy, true, faction, npcId) ?? null : null,
+      sell: order.sell > 0 ? tradeSystem?.quoteOrder?.(good, order.sell, false, faction, npcId) ?? null : null,
+    }));
+  }
+
+  /**
+   * Trade the whole basket: sales first so their proceeds can pay for purchases
+   */
+  private executeBasket(): void {
+    const marketScene = this.scene.get('MarketScene') as any;
+    const tradeSystem = this.getTradeSystem();
+    if (!marketScene?.getPlayer || !tradeSystem?.executeOrder) return;
+
+    const player = marketScene.getPlayer();
+    const quotes = this.quoteBasket();
+    const cost = quotes.reduce((sum, q) => sum + (q.buy?.total ?? 0), 0);
+    const proceeds = quotes.reduce((sum, q) => sum + (q.sell?.total ?? 0), 0);
+    const bought = quotes.reduce((sum, q) => sum + (q.buy?.quantity ?? 0), 0);
+    const sold = quotes.reduce((sum, q) => sum + (q.sell?.quantity ?? 0), 0);
+    const capacity = player.getCarryCapacity();
+
+    const problem = this.getBasketProblem(cost - proceeds, capacity.current + bought - sold, capacity.max);
+    if (problem) {
+      this.gameEvents?.emit('notification', { title: 'Order Refused', message: problem, type: 'warning' });
+      return;
+    }
+
+    const npcId = this.currentTrader?.npcId || undefined;
+    const faction = npcId ? loadNPCRegistry().getNPC(npcId)?.faction : undefined;
+    for (const { good, sell } of quotes) {
+      if (!sell) continue;
+      const result = tradeSystem.executeOrder(good, sell.quantity, false, faction, npcId);
+      if (result.success) this.sellGood(good, result.quote.total, result.quote.quantity);
+    }
+    for (const { good, buy } of quotes) {
+      if (!buy) continue;
+      const result = tradeSystem.executeOrder(good, buy.quantity, true, faction, npcId);
+      if (result.success) this.buyGood(good, result.quote.total, result.quote.quantity);
+    }
+
+    this.basket.clear();
+    this.updateBasketPanel();
   }
 
-  private updateTimeDisplay(timeData: { hour: number; period: string; dayCount: number }): void {
+  private updateTimeDisplay(timeData: { hour: number; period: string; date: CalendarDate }): void {
     const ampm = timeData.hour >= 12 ? 'PM' : 'AM';
     const displayHour = timeData.hour > 12 ? timeData.hour - 12 : (timeData.hour === 0 ? 12 : timeData.hour);
 
-    this.timeText.setText(`${timeData.period} - ${displayHour}:00 ${ampm} (Day ${timeData.dayCount})`);
+    // The date, then the feast being kept (Sundays show in the weekday) or else the time of day
+    const { date } = timeData;
+    const feast = date.feasts.find(f => f.weekday === undefined);
+    const dateText = `${date.weekdayName.slice(0, 3)} ${date.day} ${date.monthName.slice(0, 3)} ${date.year}`;
+    this.timeText.setText(`${dateText}, ${displayHour}:00 ${ampm} - ${feast?.name ?? timeData.period}`);
 
     // Change text color based on time of day (dark ink that fades slightly)
     if (timeData.period === 'Night') {
@@ -1769,29 +4273,51 @@ export class UIScene extends Phaser.Scene {
    */
   shutdown(): void {
     // Remove MarketScene event listeners
-    const marketScene = this.scene.get('MarketScene');
-    if (marketScene) {
-      marketScene.events.off('timeUpdate');
-      marketScene.events.off('openTrade');
-      marketScene.events.off('goldChange');
-      marketScene.events.off('inventoryChange');
-      marketScene.events.off('showTransitionPrompt');
-      marketScene.events.off('hideTransitionPrompt');
-      marketScene.events.off('questOffer');
-      marketScene.events.off('questStateChange');
-      marketScene.events.off('rankUp');
-      marketScene.events.off('progressionUpdate');
-      marketScene.events.off('contractAccepted');
-      marketScene.events.off('contractCompleted');
-      marketScene.events.off('contractFailed');
-      marketScene.events.off('contractsRefreshed');
+    if (this.gameEvents) {
+      this.gameEvents.off('timeUpdate');
+      this.gameEvents.off('openTrade');
+      this.gameEvents.off('goldTotal');
+      this.gameEvents.off('inventoryChange');
+      this.gameEvents.off('showTransitionPrompt');
+      this.gameEvents.off('hideTransitionPrompt');
+      this.gameEvents.off('questOffer');
+      this.gameEvents.off('questStateChange');
+      this.gameEvents.off('rankUp');
+      this.gameEvents.off('progressionUpdate');
+      this.gameEvents.off('contractAccepted');
+      this.gameEvents.off('contractCompleted');
+      this.gameEvents.off('contractFailed');
+      this.gameEvents.off('contractsRefreshed');
+      this.gameEvents.off('priceLedgerUpdate', this.refreshLedger, this);
+      this.gameEvents.off('openWarehouse', this.openWarehouse, this);
+      this.gameEvents.off('warehouseChange', this.refreshWarehouse, this);
+      this.gameEvents.off('openShipTrade', this.openShipTrade, this);
+      this.gameEvents.off('hourChange', this.refreshExpeditions, this);
+      this.gameEvents.off('expeditionStarted', this.refreshExpeditions, this);
+      this.gameEvents.off('expeditionReturning', this.refreshExpeditions, this);
+      this.gameEvents.off('expeditionCompleted', this.refreshExpeditions, this);
+      this.gameEvents.off('expeditionLost', this.refreshExpeditions, this);
+      this.gameEvents.off('voyageIncident', this.refreshExpeditions, this);
+      this.gameEvents.off('voyageDecision', this.onVoyageDecision, this);
+      this.gameEvents.off('shipCargoChange', this.refreshShipTrade, this);
+      this.gameEvents.off('shipCastOff', this.onShipCastOff, this);
+      this.gameEvents.off('marketUpdate', this.refreshLedger, this);
+      this.gameEvents.off('locationChange', this.refreshMap, this);
+      this.gameEvents.off('transitionBlocked', this.onTransitionBlocked, this);
+      this.gameEvents.off('hourChange', this.refreshMap, this);
+      this.gameEvents.off('shipMoored', this.refreshMap, this);
+      this.gameEvents.off('shipCastOff', this.refreshMap, this);
+      this.gameEvents.off('skillChange', this.refreshSkills, this);
+      this.gameEvents.off('perkLearned', this.refreshSkills, this);
+      this.gameEvents.off('gameLoaded', this.refreshSkills, this);
     }
 
     // Remove keyboard event listeners
-    this.input.keyboard?.off('keydown-I');
-    this.input.keyboard?.off('keydown-J');
-    this.input.keyboard?.off('keydown-C');
-    this.input.keyboard?.off('keydown-ESC');
+    this.input.keyboard?.off('keydown', this.onKeyDown, this);
+    this.input.gamepad?.off('down', this.onGamepadDown, this);
+
+    this.isPaused = false;
+    this.pauseOptions = [];
 
     // Clean up action buttons
     this.actionButtons.clear();
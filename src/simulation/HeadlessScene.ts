@@ -0,0 +1,179 @@
+import Phaser from 'phaser';
+
+/**
+ * HeadlessScene - Just enough of a Phaser.Scene to run gameplay systems
+ * without a browser
+ *
+ * The simulation systems only reach their scene through scene.events,
+ * scene.registry, scene.scene.get('MarketScene'), scene.time.delayedCall
+ * and (TimeSystem) the main camera's background colour. This provides each
+ * of those in plain TypeScript, so the systems can be constructed in Node
+ * exactly as MarketScene constructs them in the game.
+ */
+
+type Listener = {
+  fn: (...args: any[]) => void;
+  context?: unknown;
+  once: boolean;
+};
+
+/**
+ * Event emitter with the on/once/off/emit semantics of Phaser's
+ * EventEmitter: off(event) with no handler removes every listener
+ */
+export class HeadlessEvents {
+  private listeners: Map<string, Listener[]> = new Map();
+
+  public on(event: string, fn: (...args: any[]) => void, context?: unknown): this {
+    return this.addListener(event, fn, context, false);
+  }
+
+  public once(event: string, fn: (...args: any[]) => void, context?: unknown): this {
+    return this.addListener(event, fn, context, true);
+  }
+
+  public off(event: string, fn?: (...args: any[]) => void, context?: unknown): this {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return this;
+
+    if (!fn) {
+      this.listeners.delete(event);
+      return this;
+    }
+
+    const remaining = listeners.filter(l => l.fn !== fn || (context !== undefined && l.context !== context));
+    if (remaining.length > 0) {
+      this.listeners.set(event, remaining);
+    } else {
+      this.listeners.delete(event);
+    }
+    return this;
+  }
+
+  public emit(event: string, ...args: unknown[]): boolean {
+    const listeners = this.listeners.get(event);
+    if (!listeners || listeners.length === 0) return false;
+
+    // Copy so handlers can add or remove listeners while we iterate
+    for (const listener of [...listeners]) {
+      if (listener.once) {
+        this.off(event, listener.fn, listener.context);
+      }
+      listener.fn.apply(listener.context, args);
+    }
+    return true;
+  }
+
+  public listenerCount(event: string): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  public removeAllListeners(event?: string): this {
+    if (event) {
+      this.listeners.delete(event);
+    } else {
+      this.listeners.clear();
+    }
+    return this;
+  }
+
+  private addListener(event: string, fn: (...args: any[]) => void, context: unknown, once: boolean): this {
+    const listeners = this.listeners.get(event) ?? [];
+    listeners.push({ fn, context, once });
+    this.listeners.set(event, listeners);
+    return this;
+  }
+}
+
+/**
+ * Key/value store standing in for the game registry
+ */
+export class HeadlessRegistry {
+  private values: Map<string, unknown> = new Map();
+
+  public get(key: string): any {
+    return this.values.get(key);
+  }
+
+  public set(key: string, value: unknown): this {
+    this.values.set(key, value);
+    return this;
+  }
+
+  public has(key: string): boolean {
+    return this.values.has(key);
+  }
+
+  public remove(key: string): this {
+    this.values.delete(key);
+    return this;
+  }
+}
+
+/**
+ * Clock for delayed calls, advanced by hand instead of by frames
+ */
+export class HeadlessClock {
+  public now = 0;
+  private timers: { at: number; callback: (...args: any[]) => void; args: unknown[]; scope?: unknown }[] = [];
+
+  public delayedCall(
+    delay: number,
+    callback: (...args: any[]) => void,
+    args: unknown[] = [],
+    scope?: unknown
+  ): { remove: () => void } {
+    const timer = { at: this.now + delay, callback, args, scope };
+    this.timers.push(timer);
+    return { remove: () => { this.timers = this.timers.filter(t => t !== timer); } };
+  }
+
+  /**
+   * Move time on, firing every delayed call that falls due in order
+   */
+  public advance(ms: number): void {
+    this.now += ms;
+    const due = this.timers.filter(t => t.at <= this.now).sort((a, b) => a.at - b.at);
+    if (due.length === 0) return;
+
+    this.timers = this.timers.filter(t => t.at > this.now);
+    for (const timer of due) {
+      timer.callback.apply(timer.scope, timer.args);
+    }
+  }
+}
+
+export class HeadlessScene {
+  public readonly events = new HeadlessEvents();
+  public readonly registry = new HeadlessRegistry();
+  public readonly time = new HeadlessClock();
+  public readonly cameras = {
+    main: {
+      width: 1280,
+      height: 720,
+      setBackgroundColor: (_color: number | string) => this.cameras.main,
+    },
+  };
+  public readonly scene: { get: (key: string) => any };
+
+  private scenes: Map<string, unknown> = new Map();
+
+  constructor() {
+    this.scene = { get: (key: string) => this.scenes.get(key) };
+  }
+
+  /**
+   * Make an object answer scene.scene.get(key), as MarketScene does for
+   * getPlayer() and getTimeSystem()
+   */
+  public addScene(key: string, scene: unknown): void {
+    this.scenes.set(key, scene);
+  }
+
+  /**
+   * This scene typed as the Phaser.Scene the systems' constructors expect
+   */
+  public asScene(): Phaser.Scene {
+    return this as unknown as Phaser.Scene;
+  }
+}
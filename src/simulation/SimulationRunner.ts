@@ -0,0 +1,375 @@
+import { HeadlessScene } from './HeadlessScene';
+import { RandomSystem } from '../systems/RandomSystem';
+import { TimeSystem } from '../systems/TimeSystem';
+import { FactionSystem } from '../systems/FactionSystem';
+import { EventSystem } from '../systems/EventSystem';
+import { TradeSystem } from '../systems/TradeSystem';
+import { ProgressionSystem } from '../systems/ProgressionSystem';
+import { ContractSystem } from '../systems/ContractSystem';
+import { TradeRouteSystem } from '../systems/TradeRouteSystem';
+import { GameEventBus, getGameEvents } from '../systems/GameEvents';
+
+/**
+ * SimulationRunner - Plays the economy forward without a browser
+ *
+ * Builds TimeSystem, FactionSystem, EventSystem, TradeSystem,
+ * ProgressionSystem, ContractSystem and TradeRouteSystem on a HeadlessScene,
+ * wires them together the way MarketScene does, and runs the clock a game
+ * minute at a time for as many days as asked. A strategy stands in for the
+ * player, acting each hour through the same calls the trade panel makes.
+ *
+ * Everything draws from a RandomSystem seeded from the options, so a run
+ * is reproducible from its seed. There is no WeatherSystem headless: ship
+ * arrivals and voyages see the dry season throughout.
+ */
+
+export interface SimulationStrategy {
+  name: string;
+  /** Called at the top of every game hour, after the systems have updated */
+  onHour(runner: SimulationRunner, time: { hour: number; dayCount: number }): void;
+}
+
+export interface SimulationOptions {
+  days: number;
+  seed: number;
+  strategy: SimulationStrategy;
+  startingGold?: number;  // Defaults to the game's 100
+}
+
+// Closing state of one simulated day
+export interface DailySnapshot {
+  day: number;
+  gold: number;
+  inventoryValue: number;
+  atSea: number;          // Cargo value out on expeditions
+  netWorth: number;
+  rank: number;
+  rankName: string;
+  trades: number;
+}
+
+export interface PriceSample {
+  day: number;
+  goodId: string;
+  price: number;
+  supply: number;
+  demand: number;
+}
+
+export interface RankUpRecord {
+  rank: number;
+  name: string;
+  day: number;
+  hour: number;
+  gold: number;
+}
+
+export interface SimulationResult {
+  seed: number;
+  days: number;
+  strategy: string;
+  finalGold: number;
+  finalNetWorth: number;
+  finalRank: string;
+  rankUps: RankUpRecord[];
+  daily: DailySnapshot[];
+  prices: PriceSample[];
+  trades: { buys: number; sells: number; spent: number; earned: number };
+  contracts: { completed: number; failed: number; totalOffered: number; successRate: number };
+  expeditions: { completed: number; lost: number; totalProfit: number; successRate: number; activeCount: number };
+  reputation: Record<string, number>;
+}
+
+/**
+ * The player as the systems see it: the same gold and inventory rules as
+ * entities/Player, without the sprite
+ */
+export class SimulationPlayer {
+  private events: GameEventBus;
+  private gold: number;
+  private inventory: { item: string; quantity: number }[] = [];
+  private maxCarryCapacity = 20;
+
+  constructor(scene: HeadlessScene, gold: number = 100) {
+    this.events = getGameEvents(scene.asScene());
+    this.gold = gold;
+  }
+
+  public getGold(): number {
+    return this.gold;
+  }
+
+  public addGold(amount: number): void {
+    this.gold += amount;
+    this.events.emit('goldTotal', this.gold);
+  }
+
+  public removeGold(amount: number): boolean {
+    if (this.gold < amount) return false;
+    this.gold -= amount;
+    this.events.emit('goldTotal', this.gold);
+    return true;
+  }
+
+  public getInventory(): { item: string; quantity: number }[] {
+    return this.inventory.map(entry => ({ ...entry }));
+  }
+
+  public getQuantity(item: string): number {
+    return this.inventory.find(entry => entry.item === item)?.quantity ?? 0;
+  }
+
+  public addToInventory(item: string, quantity: number = 1): boolean {
+    if (this.getCarryCapacity().current + quantity > this.maxCarryCapacity) return false;
+
+    const existing = this.inventory.find(entry => entry.item === item);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      this.inventory.push({ item, quantity });
+    }
+    this.events.emit('inventoryChange', this.getInventory());
+    return true;
+  }
+
+  public removeFromInventory(item: string, quantity: number = 1): boolean {
+    const existing = this.inventory.find(entry => entry.item === item);
+    if (!existing || existing.quantity < quantity) return false;
+
+    existing.quantity -= quantity;
+    if (existing.quantity <= 0) {
+      this.inventory = this.inventory.filter(entry => entry.item !== item);
+    }
+    this.events.emit('inventoryChange', this.getInventory());
+    return true;
+  }
+
+  public getCarryCapacity(): { current: number; max: number } {
+    const current = this.inventory.reduce((sum, entry) => sum + entry.quantity, 0);
+    return { current, max: this.maxCarryCapacity };
+  }
+}
+
+export class SimulationRunner {
+  // One game minute at TimeSystem's default scale
+  private static readonly STEP_MS = 1000;
+
+  private options: SimulationOptions;
+  private scene = new HeadlessScene();
+  private events = getGameEvents(this.scene.asScene());
+  private player: SimulationPlayer;
+  private timeSystem: TimeSystem;
+  private factionSystem: FactionSystem;
+  private eventSystem: EventSystem;
+  private tradeSystem: TradeSystem;
+  private progressionSystem: ProgressionSystem;
+  private contractSystem: ContractSystem;
+  private tradeRouteSystem: TradeRouteSystem;
+
+  private rankUps: RankUpRecord[] = [];
+  private daily: DailySnapshot[] = [];
+  private prices: PriceSample[] = [];
+  private trades = { buys: 0, sells: 0, spent: 0, earned: 0 };
+
+  constructor(options: SimulationOptions) {
+    this.options = options;
+
+    // Seed before any system takes its stream
+    this.scene.registry.set(RandomSystem.REGISTRY_KEY, new RandomSystem(options.seed));
+
+    this.player = new SimulationPlayer(this.scene, options.startingGold);
+    this.scene.addScene('MarketScene', {
+      getPlayer: () => this.player,
+      getTimeSystem: () => this.timeSystem,
+      getWeatherSystem: () => undefined,
+    });
+
+    // Same construction order as MarketScene
+    const scene = this.scene.asScene();
+    this.timeSystem = new TimeSystem(scene);
+    this.factionSystem = new FactionSystem(scene);
+    this.eventSystem = new EventSystem(scene);
+    this.tradeSystem = new TradeSystem(scene);
+    this.progressionSystem = new ProgressionSystem(scene);
+    this.contractSystem = new ContractSystem(scene);
+    this.tradeRouteSystem = new TradeRouteSystem(scene);
+    this.eventSystem.setTradeSystem(this.tradeSystem);
+
+    this.scene.registry.set('factionSystem', this.factionSystem);
+    this.scene.registry.set('eventSystem', this.eventSystem);
+    this.scene.registry.set('tradeSystem', this.tradeSystem);
+    this.scene.registry.set('progressionSystem', this.progressionSystem);
+    this.scene.registry.set('contractSystem', this.contractSystem);
+    this.scene.registry.set('tradeRouteSystem', this.tradeRouteSystem);
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Play the configured number of days and report on them
+   */
+  public run(): SimulationResult {
+    // The clock starts on the hour, so no hourChange announces the first one
+    const start = this.timeSystem.getTimeData();
+    this.options.strategy.onHour(this, { hour: start.hour, dayCount: start.dayCount });
+
+    const steps = this.options.days * 24 * 60;
+    for (let step = 0; step < steps; step++) {
+      this.scene.time.advance(SimulationRunner.STEP_MS);
+      this.timeSystem.update(SimulationRunner.STEP_MS);
+      this.eventSystem.update(SimulationRunner.STEP_MS);
+      this.tradeSystem.update(this.scene.time.now);
+    }
+
+    const last = this.daily[this.daily.length - 1];
+    return {
+      seed: this.options.seed,
+      days: this.options.days,
+      strategy: this.options.strategy.name,
+      finalGold: this.player.getGold(),
+      finalNetWorth: last?.netWorth ?? this.player.getGold(),
+      finalRank: this.progressionSystem.getCurrentRankData().name,
+      rankUps: this.rankUps,
+      daily: this.daily,
+      prices: this.prices,
+      trades: { ...this.trades },
+      contracts: this.contractSystem.getStats(),
+      expeditions: this.tradeRouteSystem.getStats(),
+      reputation: this.factionSystem.getSaveData(),
+    };
+  }
+
+  public getPlayer(): SimulationPlayer {
+    return this.player;
+  }
+
+  public getTimeSystem(): TimeSystem {
+    return this.timeSystem;
+  }
+
+  public getTradeSystem(): TradeSystem {
+    return this.tradeSystem;
+  }
+
+  public getProgressionSystem(): ProgressionSystem {
+    return this.progressionSystem;
+  }
+
+  public getFactionSystem(): FactionSystem {
+    return this.factionSystem;
+  }
+
+  public getContractSystem(): ContractSystem {
+    return this.contractSystem;
+  }
+
+  public getTradeRouteSystem(): TradeRouteSystem {
+    return this.tradeRouteSystem;
+  }
+
+  /**
+   * Buy from the market as the trade panel does
+   * @returns Units bought, 0 if the order could not be made
+   */
+  public buy(goodId: string, quantity: number): number {
+    const quote = this.tradeSystem.quoteOrder(goodId, quantity, true);
+    const capacity = this.player.getCarryCapacity();
+    if (!quote || quote.quantity === 0 || quote.total > this.player.getGold()) return 0;
+    if (capacity.current + quote.quantity > capacity.max) return 0;
+
+    const result = this.tradeSystem.executeOrder(goodId, quantity, true);
+    if (!result.success || !result.quote) return 0;
+
+    this.player.removeGold(result.quote.total);
+    this.player.addToInventory(goodId, result.quote.quantity);
+    this.trades.buys++;
+    this.trades.spent += result.quote.total;
+    this.events.emit('playerBuy', { good: goodId, price: result.quote.total, quantity: result.quote.quantity });
+    return result.quote.quantity;
+  }
+
+  /**
+   * Sell to the market as the trade panel does
+   * @returns Units sold, 0 if the order could not be made
+   */
+  public sell(goodId: string, quantity: number): number {
+    if (quantity <= 0 || this.player.getQuantity(goodId) < quantity) return 0;
+
+    const result = this.tradeSystem.executeOrder(goodId, quantity, false);
+    if (!result.success || !result.quote) return 0;
+
+    this.player.removeFromInventory(goodId, result.quote.quantity);
+    this.player.addGold(result.quote.total);
+    this.trades.sells++;
+    this.trades.earned += result.quote.total;
+    this.events.emit('playerSell', { good: goodId, price: result.quote.total, quantity: result.quote.quantity });
+    return result.quote.quantity;
+  }
+
+  private setupEventListeners(): void {
+    const events = this.events;
+
+    // MarketScene's bridges: contract and voyage payments arrive on
+    // goldDelta, reputation earned or lost on reputationDelta
+    events.on('goldDelta', amount => {
+      if (amount > 0) {
+        this.player.addGold(amount);
+      } else if (amount < 0) {
+        this.player.removeGold(Math.abs(amount));
+      }
+    });
+    events.on('reputationDelta', data => {
+      if (data.target && Number.isFinite(data.value)) {
+        this.factionSystem.adjustReputation(data.target, data.value);
+      }
+    });
+
+    events.on('rankUp', (data: { newRank: number; rankInfo: { name: string } }) => {
+      const time = this.timeSystem.getTimeData();
+      this.rankUps.push({
+        rank: data.newRank,
+        name: data.rankInfo.name,
+        day: time.dayCount,
+        hour: time.hour,
+        gold: this.player.getGold(),
+      });
+    });
+
+    events.on('newDay', (data: { dayCount: number }) => {
+      this.recordDay(data.dayCount - 1);
+    });
+
+    // The player acts once the systems have had their hour
+    events.on('hourChange', (time: { hour: number; dayCount: number }) => {
+      this.options.strategy.onHour(this, time);
+    });
+  }
+
+  private recordDay(day: number): void {
+    let inventoryValue = 0;
+    for (const entry of this.player.getInventory()) {
+      inventoryValue += this.tradeSystem.getBasePrice(entry.item, false) * entry.quantity;
+    }
+    const atSea = this.tradeRouteSystem.getActiveExpeditions()
+      .reduce((sum, active) => sum + active.expedition.investment, 0);
+    const rank = this.progressionSystem.getCurrentRankData();
+    const gold = this.player.getGold();
+
+    this.daily.push({
+      day,
+      gold,
+      inventoryValue,
+      atSea,
+      netWorth: gold + inventoryValue + atSea,
+      rank: this.progressionSystem.getCurrentRank(),
+      rankName: rank.name,
+      trades: this.trades.buys + this.trades.sells,
+    });
+
+    for (const good of this.tradeSystem.getAllGoods()) {
+      const state = this.tradeSystem.getMarketState(good.id);
+      if (!state) continue;
+      this.prices.push({ day, goodId: good.id, price: state.currentPrice, supply: state.supply, demand: state.demand });
+    }
+  }
+}
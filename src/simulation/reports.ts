@@ -0,0 +1,117 @@
+import type { SimulationResult } from './SimulationRunner';
+
+/**
+ * Reports on simulation runs, as CSV for spreadsheets and JSON for tools
+ */
+
+// How soon, across a batch of runs, players reached each rank
+export interface RankTiming {
+  rank: string;
+  reachedBy: number;      // Runs that reached the rank
+  share: number;          // Of all runs, 0-1
+  meanDay: number | null;
+  minDay: number | null;
+  maxDay: number | null;
+}
+
+export interface BatchSummary {
+  strategy: string;
+  days: number;
+  runs: number;
+  seeds: number[];
+  finalGold: { mean: number; median: number; min: number; max: number };
+  finalNetWorth: { mean: number; median: number; min: number; max: number };
+  rankTimings: RankTiming[];
+  contracts: { completed: number; failed: number };
+  expeditions: { completed: number; lost: number; totalProfit: number };
+}
+
+export function toCsv(headers: string[], rows: (string | number)[][]): string {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [headers, ...rows].map(row => row.map(escape).join(',')).join('\n') + '\n';
+}
+
+/**
+ * One row per run and day: gold, goods and rank
+ */
+export function dailyCsv(results: SimulationResult[]): string {
+  return toCsv(
+    ['seed', 'day', 'gold', 'inventoryValue', 'atSea', 'netWorth', 'rank', 'trades'],
+    results.flatMap(result => result.daily.map(day => [
+      result.seed, day.day, day.gold, day.inventoryValue, day.atSea, day.netWorth, day.rankName, day.trades,
+    ]))
+  );
+}
+
+/**
+ * One row per run, day and good: closing price, supply and demand
+ */
+export function pricesCsv(results: SimulationResult[]): string {
+  return toCsv(
+    ['seed', 'day', 'good', 'price', 'supply', 'demand'],
+    results.flatMap(result => result.prices.map(sample => [
+      result.seed, sample.day, sample.goodId, sample.price, sample.supply, sample.demand,
+    ]))
+  );
+}
+
+/**
+ * One row per rank reached in each run
+ */
+export function rankUpsCsv(results: SimulationResult[]): string {
+  return toCsv(
+    ['seed', 'rank', 'day', 'hour', 'gold'],
+    results.flatMap(result => result.rankUps.map(rankUp => [
+      result.seed, rankUp.name, rankUp.day, rankUp.hour, rankUp.gold,
+    ]))
+  );
+}
+
+export function summarizeRuns(results: SimulationResult[], rankNames: string[]): BatchSummary {
+  const stats = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return {
+      mean: Math.round(sorted.reduce((sum, value) => sum + value, 0) / Math.max(1, sorted.length)),
+      median: sorted.length % 2 === 0 ? Math.round((sorted[middle - 1] + sorted[middle]) / 2) : sorted[middle],
+      min: sorted[0] ?? 0,
+      max: sorted[sorted.length - 1] ?? 0,
+    };
+  };
+
+  const rankTimings = rankNames.map(rank => {
+    const days = results
+      .map(result => result.rankUps.find(rankUp => rankUp.name === rank)?.day)
+      .filter((day): day is number => day !== undefined);
+    return {
+      rank,
+      reachedBy: days.length,
+      share: results.length > 0 ? days.length / results.length : 0,
+      meanDay: days.length > 0 ? Math.round(days.reduce((sum, day) => sum + day, 0) / days.length * 10) / 10 : null,
+      minDay: days.length > 0 ? Math.min(...days) : null,
+      maxDay: days.length > 0 ? Math.max(...days) : null,
+    };
+  });
+
+  return {
+    strategy: results[0]?.strategy ?? '',
+    days: results[0]?.days ?? 0,
+    runs: results.length,
+    seeds: results.map(result => result.seed),
+    finalGold: stats(results.map(result => result.finalGold)),
+    finalNetWorth: stats(results.map(result => result.finalNetWorth)),
+    rankTimings,
+    contracts: {
+      completed: results.reduce((sum, result) => sum + result.contracts.completed, 0),
+      failed: results.reduce((sum, result) => sum + result.contracts.failed, 0),
+    },
+    expeditions: {
+      completed: results.reduce((sum, result) => sum + result.expeditions.completed, 0),
+      lost: results.reduce((sum, result) => sum + result.expeditions.lost, 0),
+      totalProfit: results.reduce((sum, result) => sum + result.expeditions.totalProfit, 0),
+    },
+  };
+}
@@ -0,0 +1,251 @@
+import type { SimulationRunner, SimulationStrategy } from './SimulationRunner';
+
+/**
+ * Player strategies for the headless simulation
+ *
+ * Each stands in for a kind of player so designers can see how fast that
+ * player climbs the merchant ranks: one who never trades, a market trader
+ * who buys cheap and sells dear, one who also takes contracts, and one who
+ * also sends expeditions. A scripted strategy replays a fixed list of
+ * actions instead, for reproducing a particular run.
+ */
+
+export type StrategyName = 'idle' | 'trader' | 'contractor' | 'expeditions';
+
+export const STRATEGY_NAMES: StrategyName[] = ['idle', 'trader', 'contractor', 'expeditions'];
+
+// One step of a scripted run
+export interface ScriptStep {
+  day: number;
+  hour: number;
+  action: 'buy' | 'sell' | 'acceptContract' | 'expedition';
+  good?: string;
+  quantity?: number;
+  contractGood?: string;  // Accept the first offered contract for this good
+  route?: string;
+  goods?: { goodId: string; quantity: number }[];
+}
+
+export function createStrategy(name: StrategyName): SimulationStrategy {
+  switch (name) {
+    case 'idle':
+      return { name, onHour: () => undefined };
+    case 'trader':
+      return createTraderStrategy(name, { contracts: false, expeditions: false });
+    case 'contractor':
+      return createTraderStrategy(name, { contracts: true, expeditions: false });
+    case 'expeditions':
+      return createTraderStrategy(name, { contracts: true, expeditions: true });
+  }
+}
+
+// Gold the trader never spends on stock, and the most of the rest one purchase may use
+const TRADER_RESERVE = 40;
+const TRADER_BUDGET_SHARE = 0.5;
+
+// A good is cheap below this share of its base price
+const TRADER_BUY_BELOW = 0.85;
+
+/**
+ * Buy what is cheap against its base price and sell once the market is
+ * back above it at a profit, keeping a reserve of gold; optionally fill
+ * contracts and send expeditions
+ */
+function createTraderStrategy(
+  name: string,
+  options: { contracts: boolean; expeditions: boolean }
+): SimulationStrategy {
+  // Average price paid per unit of each good bought
+  const costs: Map<string, number> = new Map();
+
+  return {
+    name,
+    onHour(runner, time) {
+      if (!runner.getTimeSystem().isMarketOpen()) return;
+
+      if (options.expeditions) {
+        answerVoyageDecisions(runner);
+      }
+
+      const tradeSystem = runner.getTradeSystem();
+      const reference = (goodId: string) => tradeSystem.getGoodInfo(goodId)?.basePrice ?? 0;
+
+      // Take profits once the market is above the base price; hold otherwise
+      for (const { item, quantity } of runner.getPlayer().getInventory()) {
+        const state = tradeSystem.getMarketState(item);
+        const quote = tradeSystem.quoteOrder(item, quantity, false);
+        if (!state || !quote || state.currentPrice < reference(item)) continue;
+        const unitCost = costs.get(item);
+        if (unitCost !== undefined && quote.averagePrice <= unitCost) continue;
+        if (runner.sell(item, quantity) > 0 && runner.getPlayer().getQuantity(item) === 0) {
+          costs.delete(item);
+        }
+      }
+
+      if (options.contracts) {
+        fillContracts(runner, time.hour === 7);
+      }
+
+      if (options.expeditions && time.hour === 8) {
+        sendExpedition(runner);
+      }
+
+      // Spend part of the purse above the reserve on the cheapest good against its base price
+      const budget = (runner.getPlayer().getGold() - TRADER_RESERVE) * TRADER_BUDGET_SHARE;
+      if (budget <= 0) return;
+
+      const candidates = tradeSystem.getAllGoods()
+        .map(good => ({ good, state: tradeSystem.getMarketState(good.id) }))
+        .filter(({ state }) => state && state.supply > 2)
+        .map(({ good, state }) => ({ good, ratio: state!.currentPrice / good.basePrice }))
+        .sort((a, b) => a.ratio - b.ratio);
+      const pick = candidates[0];
+      if (!pick || pick.ratio >= TRADER_BUY_BELOW) return;
+
+      const player = runner.getPlayer();
+      const capacity = player.getCarryCapacity();
+      const price = tradeSystem.getMarketState(pick.good.id)!.currentPrice;
+      let quantity = Math.min(
+        tradeSystem.getMaxOrderSize(),
+        capacity.max - capacity.current,
+        Math.floor(budget / Math.max(1, price))
+      );
+
+      // Each unit bought raises the price, so stop short of the reference or the budget
+      let quote = quantity > 0 ? tradeSystem.quoteOrder(pick.good.id, quantity, true) : null;
+      while (quote && quantity > 0 &&
+        (quote.total > budget || quote.averagePrice >= pick.good.basePrice * TRADER_BUY_BELOW)) {
+        quantity--;
+        quote = quantity > 0 ? tradeSystem.quoteOrder(pick.good.id, quantity, true) : null;
+      }
+      if (!quote || quantity <= 0) return;
+
+      const held = player.getQuantity(pick.good.id);
+      const previous = costs.get(pick.good.id);
+      const bought = runner.buy(pick.good.id, quantity);
+      if (bought > 0) {
+        // Goods held from before with no known cost count at their base price
+        const paid = quote.total + (previous ?? pick.good.basePrice) * held;
+        costs.set(pick.good.id, paid / (held + bought));
+      }
+    },
+  };
+}
+
+/**
+ * Accept contracts that pay more than buying the goods and selling them
+ * back loses, then buy and sell them on, which counts as delivery
+ */
+function fillContracts(runner: SimulationRunner, acceptNew: boolean): void {
+  const contractSystem = runner.getContractSystem();
+  const tradeSystem = runner.getTradeSystem();
+  const player = runner.getPlayer();
+
+  for (const contract of acceptNew ? contractSystem.getAvailableContracts() : []) {
+    const capacity = player.getCarryCapacity();
+    const buy = tradeSystem.quoteOrder(contract.goods, contract.quantity, true);
+    const sell = tradeSystem.quoteOrder(contract.goods, contract.quantity, false);
+    if (!buy || !sell || buy.quantity < contract.quantity) continue;
+    if (buy.total > player.getGold() * 0.6 || capacity.current + contract.quantity > capacity.max) continue;
+    if (contract.reward > buy.total - sell.total) {
+      contractSystem.acceptContract(contract.id);
+    }
+  }
+
+  for (const contract of contractSystem.getActiveContracts()) {
+    const needed = contract.quantity - contract.delivered;
+    const bought = runner.buy(contract.goods, needed);
+    if (bought > 0) {
+      runner.sell(contract.goods, bought);
+    }
+  }
+}
+
+/**
+ * Send the best open route's favoured goods when a ship is free
+ */
+function sendExpedition(runner: SimulationRunner): void {
+  const tradeRouteSystem = runner.getTradeRouteSystem();
+  if (!tradeRouteSystem.canStartExpedition()) return;
+
+  // Expected return per unit of risk, for a cargo of the route's goods
+  const routes = tradeRouteSystem.getAvailableRoutes()
+    .filter(route => !tradeRouteSystem.getActiveExpeditions().some(active => active.route.id === route.id))
+    .map(route => {
+      const estimate = tradeRouteSystem.estimateExpedition(route.id, [{ goodId: route.goodsAffinity[0], quantity: 1 }]);
+      return { route, score: estimate ? estimate.profitMultiplier * (1 - estimate.risk.total) : 0 };
+    })
+    .sort((a, b) => b.score - a.score);
+  const best = routes[0];
+  if (!best || best.score <= 1) return;
+
+  const goodId = best.route.goodsAffinity[0];
+  const price = runner.getTradeSystem().getMarketState(goodId)?.currentPrice ?? 0;
+  const capacity = runner.getPlayer().getCarryCapacity();
+  const quantity = Math.min(
+    runner.getTradeSystem().getMaxOrderSize(),
+    capacity.max - capacity.current,
+    Math.floor(runner.getPlayer().getGold() * 0.4 / Math.max(1, price))
+  );
+  if (quantity <= 0) return;
+
+  const bought = runner.buy(goodId, quantity);
+  if (bought > 0) {
+    tradeRouteSystem.startExpedition(best.route.id, [{ goodId, quantity: bought }]);
+  }
+}
+
+/**
+ * Give each waiting captain the orders with the best expected value
+ */
+function answerVoyageDecisions(runner: SimulationRunner): void {
+  const tradeRouteSystem = runner.getTradeRouteSystem();
+  for (const { expedition, incident } of tradeRouteSystem.getPendingDecisions()) {
+    const risk = expedition.risk ?? 0.2;
+    const choices = (incident.choices ?? [])
+      .map(choice => {
+        const effects = choice.effects;
+        const survival = 1 - Math.min(0.9, Math.max(0, risk + (effects.riskChange ?? 0)));
+        const value = expedition.expectedReturn * (effects.returnMultiplier ?? 1) * survival
+          - expedition.investment * (effects.tribute ?? 0);
+        return { choice, value };
+      })
+      .sort((a, b) => b.value - a.value);
+
+    for (const { choice } of choices) {
+      if (tradeRouteSystem.resolveIncidentChoice(expedition.id, choice.id).success) break;
+    }
+  }
+}
+
+/**
+ * Replay a fixed list of actions at their day and hour
+ */
+export function createScriptedStrategy(steps: ScriptStep[]): SimulationStrategy {
+  return {
+    name: 'script',
+    onHour(runner, time) {
+      for (const step of steps) {
+        if (step.day !== time.dayCount || step.hour !== time.hour) continue;
+
+        switch (step.action) {
+          case 'buy':
+            if (step.good) runner.buy(step.good, step.quantity ?? 1);
+            break;
+          case 'sell':
+            if (step.good) runner.sell(step.good, step.quantity ?? runner.getPlayer().getQuantity(step.good));
+            break;
+          case 'acceptContract': {
+            const contract = runner.getContractSystem().getAvailableContracts()
+              .find(c => !step.contractGood || c.goods === step.contractGood);
+            if (contract) runner.getContractSystem().acceptContract(contract.id);
+            break;
+          }
+          case 'expedition':
+            if (step.route && step.goods) runner.getTradeRouteSystem().startExpedition(step.route, step.goods);
+            break;
+        }
+      }
+    },
+  };
+}
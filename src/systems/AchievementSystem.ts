@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 /**
  * AchievementSystem - Tracks milestones and rewards
@@ -31,19 +32,20 @@ interface AchievementRequirement {
   target: number | string;
 }
 
-interface AchievementProgress {
+export interface AchievementProgress {
   achievementId: string;
   current: number;
   unlocked: boolean;
   unlockedAt?: number;  // Game time when unlocked
 }
 
-interface AchievementSaveData {
+export interface AchievementSaveData {
   progress: AchievementProgress[];
 }
 
 export class AchievementSystem {
   private scene: Phaser.Scene;
+  private events: GameEventBus;
   private achievements: Map<string, Achievement> = new Map();
   private progress: Map<string, AchievementProgress> = new Map();
 
@@ -285,6 +287,7 @@ export class AchievementSystem {
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.events = getGameEvents(scene);
     this.initializeAchievements();
     this.setupEventListeners();
   }
@@ -301,53 +304,53 @@ export class AchievementSystem {
   }
 
   private setupEventListeners(): void {
-    // Track gold changes
-    this.scene.events.on('goldChange', (gold: number) => {
+    // Track the gold the player holds
+    this.events.on('goldTotal', gold => {
       this.updateProgress('gold_held', gold);
     });
 
     // Track trades
-    this.scene.events.on('playerBuy', () => {
+    this.events.on('playerBuy', () => {
       this.incrementProgress('trades_completed', 1);
     });
-    this.scene.events.on('playerSell', () => {
+    this.events.on('playerSell', () => {
       this.incrementProgress('trades_completed', 1);
     });
 
     // Track contracts
-    this.scene.events.on('contractCompleted', () => {
+    this.events.on('contractCompleted', () => {
       this.incrementProgress('contracts_completed', 1);
     });
 
     // Track trade routes
-    this.scene.events.on('expeditionCompleted', () => {
+    this.events.on('expeditionCompleted', () => {
       this.incrementProgress('routes_completed', 1);
     });
 
     // Track NPC meetings
-    this.scene.events.on('npcInteraction', () => {
+    this.events.on('npcInteraction', () => {
       this.incrementProgress('npcs_met', 1);
     });
 
     // Track quest completions
-    this.scene.events.on('questCompleted', () => {
+    this.events.on('questCompleted', () => {
       this.incrementProgress('quests_completed', 1);
     });
 
     // Track faction reputation
-    this.scene.events.on('reputationLevelChange', (data: { factionId: string; newLevel: string }) => {
+    this.events.on('reputationLevelChange', (data: { factionId: string; newLevel: string }) => {
       if (data.newLevel === 'honored' || data.newLevel === 'champion') {
         this.checkFactionAchievement(data.factionId);
       }
     });
 
     // Track rank changes
-    this.scene.events.on('rankUp', (data: { newRank: number }) => {
+    this.events.on('rankUp', (data: { newRank: number }) => {
       this.updateProgress('rank_achieved', data.newRank);
     });
 
     // Track days
-    this.scene.events.on('newDay', (data: { dayCount: number }) => {
+    this.events.on('newDay', (data: { dayCount: number }) => {
       this.updateProgress('days_survived', data.dayCount);
     });
   }
@@ -411,13 +414,13 @@ export class AchievementSystem {
     }
 
     // Emit achievement unlocked event
-    this.scene.events.emit('achievementUnlocked', {
+    this.events.emit('achievementUnlocked', {
       achievement,
       progress: prog,
     });
 
     // Show notification
-    this.scene.events.emit('notification', {
+    this.events.emit('notification', {
       title: 'Achievement Unlocked!',
       message: `${achievement.name}: ${achievement.description}`,
       type: 'achievement',
@@ -427,16 +430,16 @@ export class AchievementSystem {
   private grantReward(reward: AchievementReward): void {
     switch (reward.type) {
       case 'gold':
-        this.scene.events.emit('goldChange', reward.value as number);
+        this.events.emit('goldDelta', Number(reward.value));
         break;
 
       case 'capacity':
         // Will be handled by ProgressionSystem
-        this.scene.events.emit('capacityBonus', reward.value);
+        this.events.emit('capacityBonus', Number(reward.value));
         break;
 
       case 'unlock':
-        this.scene.events.emit('featureUnlocked', reward.value);
+        this.events.emit('featureUnlocked', String(reward.value));
         break;
 
       case 'reputation':
@@ -444,13 +447,13 @@ export class AchievementSystem {
         const [target, amount] = (reward.value as string).split('_');
         if (target === 'all') {
           ['crown', 'free_traders', 'old_routes'].forEach(faction => {
-            this.scene.events.emit('reputationChange', {
+            this.events.emit('reputationDelta', {
               target: faction,
               value: parseInt(amount),
             });
           });
         } else {
-          this.scene.events.emit('reputationChange', {
+          this.events.emit('reputationDelta', {
             target,
             value: parseInt(amount),
           });
@@ -460,7 +463,7 @@ export class AchievementSystem {
       case 'skill':
         // Format: 'negotiation_5'
         const [skill, skillAmount] = (reward.value as string).split('_');
-        this.scene.events.emit('skillBonus', {
+        this.events.emit('skillBonus', {
           skill,
           amount: parseInt(skillAmount),
         });
@@ -543,7 +546,7 @@ export class AchievementSystem {
       }
     }
 
-    this.scene.events.emit('achievementsLoaded', {
+    this.events.emit('achievementsLoaded', {
       unlocked: this.getUnlockedAchievements(),
       completion: this.getCompletionPercentage(),
     });
@@ -553,15 +556,15 @@ export class AchievementSystem {
    * Clean up event listeners to prevent memory leaks
    */
   public destroy(): void {
-    this.scene.events.off('goldChange');
-    this.scene.events.off('playerBuy');
-    this.scene.events.off('playerSell');
-    this.scene.events.off('contractCompleted');
-    this.scene.events.off('expeditionCompleted');
-    this.scene.events.off('npcInteraction');
-    this.scene.events.off('questCompleted');
-    this.scene.events.off('reputationLevelChange');
-    this.scene.events.off('rankUp');
-    this.scene.events.off('newDay');
+    this.events.off('goldTotal');
+    this.events.off('playerBuy');
+    this.events.off('playerSell');
+    this.events.off('contractCompleted');
+    this.events.off('expeditionCompleted');
+    this.events.off('npcInteraction');
+    this.events.off('questCompleted');
+    this.events.off('reputationLevelChange');
+    this.events.off('rankUp');
+    this.events.off('newDay');
   }
 }
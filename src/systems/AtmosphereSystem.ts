@@ -1,5 +1,6 @@
 import Phaser from 'phaser';
 import { LightingSystem } from './LightingSystem';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 /**
  * AtmosphereSystem - Manages dynamic lighting, shadows, and visual atmosphere
@@ -23,7 +24,7 @@ export interface LightingConfig {
   sunIntensity: number; // 0-1
 }
 
-interface LocationAtmosphere {
+export interface LocationAtmosphere {
   id: string;
   ambientTint: number;
   particleType?: 'dust' | 'incense' | 'smoke' | 'seaSpray';
@@ -72,6 +73,7 @@ const LOCATION_COLOR_GRADES: Record<string, ColorGrade> = {
 
 export class AtmosphereSystem {
   private scene: Phaser.Scene;
+  private events: GameEventBus;
 
   // Lighting layers
   private ambientOverlay: Phaser.GameObjects.Graphics | null = null;
@@ -147,6 +149,7 @@ export class AtmosphereSystem {
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.events = getGameEvents(scene);
     this.currentLighting = this.lightingByHour[7]; // Default to 7 AM
 
     this.createParticleTextures();
@@ -315,22 +318,20 @@ export class AtmosphereSystem {
 
   private setupEventListeners(): void {
     // Listen for time changes (hour)
-    this.scene.events.on('hourChange', (data: { hour: number }) => {
+    this.events.on('hourChange', (data: { hour: number }) => {
       this.updateLightingForHour(data.hour);
     });
 
     // Listen for time changes (minute) - for smooth per-minute interpolation
-    this.scene.events.on('minuteChange', (data: { hour: number; minute: number }) => {
+    this.events.on('minuteChange', (data: { hour: number; minute: number }) => {
       this.updateLightingSmooth(data.hour, data.minute);
     });
 
-    // Listen for location changes
-    this.scene.events.on('locationChange', (data: { locationId: string, isInterior: boolean }) => {
-      this.setLocation(data.locationId, data.isInterior);
-    });
+    // Location changes come from MarketScene's setLocation call, which
+    // knows from the map whether the new location is an interior
 
     // Listen for weather changes to adjust lighting
-    this.scene.events.on('weatherChange', (data: { current: string, intensity: number }) => {
+    this.events.on('weatherChange', (data: { current: string, intensity: number }) => {
       this.adjustForWeather(data.current, data.intensity);
     });
   }
@@ -381,7 +382,7 @@ export class AtmosphereSystem {
     this.applyLighting();
 
     // Emit event for other systems that might want to react
-    this.scene.events.emit('lightingUpdate', {
+    this.events.emit('lightingUpdate', {
       hour,
       minute,
       lighting: this.currentLighting,
@@ -524,7 +525,7 @@ export class AtmosphereSystem {
     // Apply location-specific atmosphere
     const atmosphere = this.locationAtmospheres.find(l => l.id === locationId);
     if (atmosphere) {
-      this.scene.events.emit('atmosphereChange', {
+      this.events.emit('atmosphereChange', {
         location: locationId,
         atmosphere: atmosphere,
       });
@@ -607,7 +608,7 @@ export class AtmosphereSystem {
     }
 
     // Emit event for other systems that might want to respond to color grading
-    this.scene.events.emit('colorGradeChange', {
+    this.events.emit('colorGradeChange', {
       location: this.currentLocation,
       colorGrade: this.currentColorGrade,
     });
@@ -786,10 +787,9 @@ export class AtmosphereSystem {
   // Cleanup
   public destroy(): void {
     // Remove event listeners
-    this.scene.events.off('hourChange');
-    this.scene.events.off('minuteChange');
-    this.scene.events.off('locationChange');
-    this.scene.events.off('weatherChange');
+    this.events.off('hourChange');
+    this.events.off('minuteChange');
+    this.events.off('weatherChange');
 
     if (this.lightingSystem) {
       this.lightingSystem.destroy();
@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 /**
  * AudioSystem - Manages all game audio including ambient sounds and interaction feedback
@@ -26,6 +27,7 @@ interface SoundEffect {
 
 export class AudioSystem {
   private scene: Phaser.Scene;
+  private events: GameEventBus;
   private masterVolume = 0.7;
   private musicVolume = 0.5;
   private sfxVolume = 0.8;
@@ -68,30 +70,31 @@ export class AudioSystem {
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.events = getGameEvents(scene);
     this.setupEventListeners();
   }
 
   private setupEventListeners(): void {
     // Listen for time changes
-    this.scene.events.on('periodChange', (data: { current: string }) => {
+    this.events.on('periodChange', (data: { current: string }) => {
       this.handleTimeChange(data.current);
     });
 
     // Listen for zone changes
-    this.scene.events.on('zoneEnter', (zoneName: string) => {
+    this.events.on('zoneEnter', (zoneName: string) => {
       this.handleZoneChange(zoneName);
     });
 
     // Listen for trade events
-    this.scene.events.on('openTrade', () => {
+    this.events.on('openTrade', () => {
       this.playSfx('ui_open');
     });
 
-    this.scene.events.on('playerBuy', () => {
+    this.events.on('playerBuy', () => {
       this.playSfx('trade_buy');
     });
 
-    this.scene.events.on('playerSell', () => {
+    this.events.on('playerSell', () => {
       this.playSfx('trade_sell');
     });
   }
@@ -339,11 +342,11 @@ export class AudioSystem {
    */
   public destroy(): void {
     // Remove event listeners
-    this.scene.events.off('periodChange');
-    this.scene.events.off('zoneEnter');
-    this.scene.events.off('openTrade');
-    this.scene.events.off('playerBuy');
-    this.scene.events.off('playerSell');
+    this.events.off('periodChange');
+    this.events.off('zoneEnter');
+    this.events.off('openTrade');
+    this.events.off('playerBuy');
+    this.events.off('playerSell');
 
     // Stop and clear current music
     if (this.currentMusic) {
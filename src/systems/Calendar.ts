@@ -0,0 +1,389 @@
+/**
+ * Calendar - The date in Goa, and the feasts each faith keeps, loaded from calendar.json
+ *
+ * TimeSystem counts days from 1; the calendar turns that count into a
+ * real date counted from the configured start date. Portugal took up the
+ * Gregorian calendar in 1582, so dates follow JavaScript's own. Feasts
+ * come round on a weekday, on a date every year, or on dates listed year
+ * by year for those that follow the moon or Easter; a game that runs past
+ * the last year listed reports it once in the console, as those feasts
+ * stop being kept. While a feast is kept
+ * it can change when the market opens, send the NPCs of its faith to a
+ * gathering instead of their usual schedule, and raise demand for goods.
+ *
+ * Like GoodsCatalog, problems are collected as errors for BootScene to
+ * report rather than thrown while parsing; a feast with errors is left out.
+ *
+ * Historical context: the Viceroy's ordinances kept the market shut on
+ * Sundays and holy days. Hindu and Muslim feasts were kept more quietly,
+ * at home, as public worship of either was forbidden in the city. The
+ * lunar dates are worked out from mean new moons and the tabular Islamic
+ * calendar, so they may be a day or two from what was kept at the time.
+ */
+
+import calendarData from '../data/calendar.json';
+import { NPC_ACTIVITIES, type NPCActivity } from './NPCRegistry';
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Hours from start up to (not including) end
+export interface HourRange {
+  start: number;
+  end: number;
+}
+
+// Where a faith's NPCs spend part of a feast day; a null location keeps them indoors
+export interface FeastGathering {
+  location: string | null;
+  startHour: number;
+  endHour: number;
+  activity: NPCActivity;
+}
+
+export interface Feast {
+  id: string;
+  name: string;
+  faith: string;
+  description: string;
+  weekday?: number; // 0 (Sunday) to 6, every week
+  date?: string; // "MM-DD", every year
+  dates?: string[]; // "YYYY-MM-DD" first days, for feasts that move
+  days?: number; // How long it is kept (1 if not given)
+  marketHours?: HourRange[]; // Replaces the usual hours; empty closes the market
+  gathering?: FeastGathering;
+  demand?: Record<string, number>; // Extra demand per good on each day of the feast
+}
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 (Sunday) to 6
+  monthName: string;
+  weekdayName: string;
+  feasts: Feast[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class Calendar {
+  private start = Date.UTC(1590, 0, 1);
+  private faiths: Map<string, string> = new Map(); // NPC type -> faith
+  private feasts: Feast[] = [];
+  private errors: string[] = [];
+  private lastListedYear = Infinity; // Last year every moving feast has a date in
+  private reportedPastListing = false;
+
+  constructor(data: unknown) {
+    this.parse(data);
+  }
+
+  /**
+   * Schema errors found while loading; invalid feasts are left out
+   */
+  public getErrors(): string[] {
+    return [...this.errors];
+  }
+
+  public isValid(): boolean {
+    return this.errors.length === 0;
+  }
+
+  /**
+   * The date on a day of the game (day 1 is the start date)
+   */
+  public getDate(dayCount: number): CalendarDate {
+    const date = new Date(this.start + (dayCount - 1) * MS_PER_DAY);
+    const weekday = date.getUTCDay();
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      weekday,
+      monthName: MONTH_NAMES[date.getUTCMonth()],
+      weekdayName: WEEKDAY_NAMES[weekday],
+      feasts: this.getFeasts(dayCount),
+    };
+  }
+
+  /**
+   * "Monday 1 January 1590"
+   */
+  public formatDate(date: CalendarDate): string {
+    return `${date.weekdayName} ${date.day} ${date.monthName} ${date.year}`;
+  }
+
+  /**
+   * Feasts kept on a day, those on a date ahead of the weekly ones
+   */
+  public getFeasts(dayCount: number): Feast[] {
+    const day = this.start + (dayCount - 1) * MS_PER_DAY;
+    this.checkListed(day);
+    const kept = this.feasts.filter(feast => this.isKeptOn(feast, day));
+    return [
+      ...kept.filter(feast => feast.weekday === undefined),
+      ...kept.filter(feast => feast.weekday !== undefined),
+    ];
+  }
+
+  /**
+   * When the market may open on a day, or null for the usual hours.
+   * With more than one feast the market opens only when all of them allow.
+   */
+  public getMarketHours(dayCount: number): HourRange[] | null {
+    const rules = this.getFeasts(dayCount)
+      .map(feast => feast.marketHours)
+      .filter((hours): hours is HourRange[] => hours !== undefined);
+    if (rules.length === 0) return null;
+
+    const open: HourRange[] = [];
+    for (let hour = 0; hour < 24; hour++) {
+      if (!rules.every(hours => hours.some(range => hour >= range.start && hour < range.end))) continue;
+      const last = open[open.length - 1];
+      if (last && last.end === hour) {
+        last.end = hour + 1;
+      } else {
+        open.push({ start: hour, end: hour + 1 });
+      }
+    }
+    return open;
+  }
+
+  /**
+   * The gathering an NPC type's faith keeps at an hour of a day, if any
+   */
+  public getGathering(dayCount: number, hour: number, npcType: string): FeastGathering | null {
+    const faith = this.faiths.get(npcType);
+    if (!faith) return null;
+
+    for (const feast of this.getFeasts(dayCount)) {
+      const gathering = feast.gathering;
+      if (feast.faith === faith && gathering && hour >= gathering.startHour && hour < gathering.endHour) {
+        return gathering;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Extra demand per good from the feasts kept on a day
+   */
+  public getDemand(dayCount: number): Map<string, number> {
+    const demand = new Map<string, number>();
+    for (const feast of this.getFeasts(dayCount)) {
+      for (const [goodId, amount] of Object.entries(feast.demand ?? {})) {
+        demand.set(goodId, (demand.get(goodId) ?? 0) + amount);
+      }
+    }
+    return demand;
+  }
+
+  public getFaith(npcType: string): string | undefined {
+    return this.faiths.get(npcType);
+  }
+
+  /**
+   * The last year the moving feasts are listed for, or Infinity if none move
+   */
+  public getLastListedYear(): number {
+    return this.lastListedYear;
+  }
+
+  /**
+   * Report, once, a day in a year after the moving feasts' dates run out
+   */
+  private checkListed(day: number): void {
+    const year = new Date(day).getUTCFullYear();
+    if (year <= this.lastListedYear || this.reportedPastListing) return;
+
+    this.reportedPastListing = true;
+    const unlisted = this.feasts
+      .filter(feast => feast.dates && !feast.dates.some(date => date.startsWith(`${year}-`)))
+      .map(feast => feast.name);
+    console.error(
+      `Calendar: calendar.json lists moving feasts only up to ${this.lastListedYear}; ` +
+        `${unlisted.join(', ')} will not be kept in ${year}`
+    );
+  }
+
+  private isKeptOn(feast: Feast, day: number): boolean {
+    const date = new Date(day);
+    if (feast.weekday !== undefined) {
+      return date.getUTCDay() === feast.weekday;
+    }
+
+    const length = (feast.days ?? 1) * MS_PER_DAY;
+    const firstDays = feast.date
+      ? [date.getUTCFullYear() - 1, date.getUTCFullYear()].map(year => parseDate(`${year}-${feast.date}`) as number)
+      : (feast.dates ?? []).map(text => parseDate(text) as number);
+    return firstDays.some(first => day >= first && day < first + length);
+  }
+
+  private parse(data: unknown): void {
+    if (!isRecord(data)) {
+      this.errors.push('calendar.json: root must be an object');
+      return;
+    }
+
+    const start = typeof data.startDate === 'string' ? parseDate(data.startDate) : null;
+    if (start === null) {
+      this.errors.push('calendar.json: "startDate" must be a date written YYYY-MM-DD');
+    } else {
+      this.start = start;
+    }
+
+    const faiths = new Set<string>();
+    if (!isRecord(data.faiths)) {
+      this.errors.push('calendar.json: "faiths" must be an object');
+    } else {
+      for (const [faith, npcTypes] of Object.entries(data.faiths)) {
+        if (!Array.isArray(npcTypes) || !npcTypes.every(type => typeof type === 'string')) {
+          this.errors.push(`calendar.json: faiths.${faith} must be an array of NPC types`);
+          continue;
+        }
+        faiths.add(faith);
+        for (const npcType of npcTypes as string[]) {
+          if (this.faiths.has(npcType)) {
+            this.errors.push(`calendar.json: faiths.${faith}: "${npcType}" already keeps ${this.faiths.get(npcType)} feasts`);
+            continue;
+          }
+          this.faiths.set(npcType, faith);
+        }
+      }
+    }
+
+    if (!Array.isArray(data.feasts)) {
+      this.errors.push('calendar.json: "feasts" must be an array');
+      return;
+    }
+
+    const ids = new Set<string>();
+    data.feasts.forEach((entry, index) => {
+      const feast = this.parseFeast(entry, index, faiths);
+      if (!feast) return;
+      if (ids.has(feast.id)) {
+        this.errors.push(`calendar.json: duplicate feast id "${feast.id}"`);
+        return;
+      }
+      ids.add(feast.id);
+      this.feasts.push(feast);
+    });
+
+    for (const feast of this.feasts) {
+      if (!feast.dates || feast.dates.length === 0) continue;
+      const lastYear = Math.max(...feast.dates.map(date => Number(date.slice(0, 4))));
+      this.lastListedYear = Math.min(this.lastListedYear, lastYear);
+    }
+  }
+
+  private parseFeast(entry: unknown, index: number, faiths: Set<string>): Feast | null {
+    if (!isRecord(entry)) {
+      this.errors.push(`calendar.json: feasts[${index}] must be an object`);
+      return null;
+    }
+
+    const label = `calendar.json: ${typeof entry.id === 'string' ? entry.id : `feasts[${index}]`}`;
+    const problems: string[] = [];
+
+    for (const field of ['id', 'name', 'description']) {
+      if (typeof entry[field] !== 'string' || !entry[field]) {
+        problems.push(`"${field}" must be a non-empty string`);
+      }
+    }
+    if (typeof entry.faith !== 'string' || !faiths.has(entry.faith)) {
+      problems.push(`"faith" must be one of: ${Array.from(faiths).join(', ')}`);
+    }
+
+    // Exactly one way of falling due
+    const recurrences = ['weekday', 'date', 'dates'].filter(field => entry[field] !== undefined);
+    if (recurrences.length !== 1) {
+      problems.push('needs exactly one of "weekday", "date" or "dates"');
+    }
+    if (entry.weekday !== undefined && !isWholeNumber(entry.weekday, 0, 6)) {
+      problems.push('"weekday" must be a whole number from 0 (Sunday) to 6');
+    }
+    if (entry.date !== undefined && (typeof entry.date !== 'string' || parseDate(`2000-${entry.date}`) === null)) {
+      problems.push('"date" must be written MM-DD');
+    }
+    if (entry.dates !== undefined && (!Array.isArray(entry.dates)
+      || !entry.dates.every(date => typeof date === 'string' && parseDate(date) !== null))) {
+      problems.push('"dates" must be an array of dates written YYYY-MM-DD');
+    }
+    if (entry.days !== undefined && (entry.weekday !== undefined || !isWholeNumber(entry.days, 1, 60))) {
+      problems.push('"days" must be a whole number from 1 to 60, and only on a feast with a date');
+    }
+
+    if (entry.marketHours !== undefined && (!Array.isArray(entry.marketHours) || !entry.marketHours.every(isHourRange))) {
+      problems.push('"marketHours" must be an array of { start, end } hours from 0 to 24');
+    }
+
+    if (entry.gathering !== undefined) {
+      const gathering = entry.gathering;
+      if (!isRecord(gathering)
+        || !(gathering.location === null || typeof gathering.location === 'string')
+        || !isHourRange({ start: gathering.startHour, end: gathering.endHour })
+        || !NPC_ACTIVITIES.includes(gathering.activity as NPCActivity)) {
+        problems.push(`"gathering" needs a location (or null), "startHour" before "endHour", and an activity (${NPC_ACTIVITIES.join(', ')})`);
+      }
+    }
+
+    if (entry.demand !== undefined && (!isRecord(entry.demand)
+      || !Object.values(entry.demand).every(amount => typeof amount === 'number' && Number.isFinite(amount)))) {
+      problems.push('"demand" must map good ids to numbers');
+    }
+
+    if (problems.length > 0) {
+      for (const problem of problems) {
+        this.errors.push(`${label}: ${problem}`);
+      }
+      return null;
+    }
+
+    return entry as unknown as Feast;
+  }
+}
+
+/**
+ * Milliseconds at midnight UTC on a YYYY-MM-DD date, or null if there is no such day
+ */
+function parseDate(text: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+  // Date.UTC rolls 31 April over into May; such a day does not exist
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return time;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWholeNumber(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function isHourRange(value: unknown): boolean {
+  return isRecord(value) && isWholeNumber(value.start, 0, 23) && isWholeNumber(value.end, 1, 24)
+    && (value.start as number) < (value.end as number);
+}
+
+let sharedCalendar: Calendar | null = null;
+
+/**
+ * Get the calendar built from src/data/calendar.json (parsed once and shared)
+ */
+export function loadCalendar(): Calendar {
+  if (!sharedCalendar) {
+    sharedCalendar = new Calendar(calendarData);
+  }
+  return sharedCalendar;
+}
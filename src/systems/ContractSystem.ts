@@ -1,4 +1,6 @@
 import Phaser from 'phaser';
+import { RandomStream, getRandomStream } from './RandomSystem';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 /**
  * ContractSystem - Manages time-limited trade contracts
@@ -24,14 +26,14 @@ export interface TradeContract {
   difficulty: 'easy' | 'medium' | 'hard';
 }
 
-interface ActiveContract extends TradeContract {
+export interface ActiveContract extends TradeContract {
   acceptedAt: number;    // Game time when accepted (hour * 100 + day * 2400)
   expiresAt: number;     // Game time when it expires
   delivered: number;     // Amount already delivered
   status: 'active' | 'completed' | 'failed';
 }
 
-interface ContractSaveData {
+export interface ContractSaveData {
   activeContracts: ActiveContract[];
   completedCount: number;
   failedCount: number;
@@ -40,6 +42,8 @@ interface ContractSaveData {
 
 export class ContractSystem {
   private scene: Phaser.Scene;
+  private events: GameEventBus;
+  private random: RandomStream;
   private availableContracts: TradeContract[] = [];
   private activeContracts: Map<string, ActiveContract> = new Map();
   private completedCount = 0;
@@ -168,21 +172,23 @@ export class ContractSystem {
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.events = getGameEvents(scene);
+    this.random = getRandomStream(scene, 'contracts');
     this.setupEventListeners();
     this.generateInitialContracts();
   }
 
   private setupEventListeners(): void {
     // Check deadlines on time updates
-    this.scene.events.on('hourChange', (timeData: { hour: number; dayCount: number }) => {
+    this.events.on('hourChange', (timeData: { hour: number; dayCount: number }) => {
       const currentGameTime = this.calculateGameTime(timeData.hour, timeData.dayCount);
       this.checkDeadlines(currentGameTime);
       this.maybeRefreshContracts(timeData.hour);
     });
 
     // Listen for item deliveries (when player sells specific goods to contract NPCs)
-    this.scene.events.on('playerSell', (data: { good: string; price: number }) => {
-      this.checkContractDelivery(data.good, 1);
+    this.events.on('playerSell', (data: { good: string; price: number; quantity?: number }) => {
+      this.checkContractDelivery(data.good, data.quantity ?? 1);
     });
   }
 
@@ -237,7 +243,7 @@ export class ContractSystem {
     }
 
     // Select random contracts from templates
-    const shuffled = [...this.contractTemplates].sort(() => Math.random() - 0.5);
+    const shuffled = this.random.shuffle(this.contractTemplates);
 
     for (let i = 0; i < Math.min(numContracts, shuffled.length); i++) {
       const template = shuffled[i];
@@ -251,7 +257,7 @@ export class ContractSystem {
       // Create contract with unique ID
       const contract: TradeContract = {
         ...template,
-        id: `contract_${Date.now()}_${i}`,
+        id: `contract_${Date.now()}_${this.totalContractsOffered}`,
       };
 
       // Adjust reward based on faction reputation
@@ -264,11 +270,18 @@ export class ContractSystem {
         }
       }
 
+      // The player's reputation perks
+      const skillSystem = this.scene.registry.get('skillSystem');
+      if (skillSystem) {
+        contract.reward = Math.floor(contract.reward * (1 + skillSystem.getBonus('contractReward')));
+        contract.deadline += skillSystem.getBonus('contractHours');
+      }
+
       this.availableContracts.push(contract);
       this.totalContractsOffered++;
     }
 
-    this.scene.events.emit('contractsRefreshed', this.availableContracts);
+    this.events.emit('contractsRefreshed', this.availableContracts);
   }
 
   public getAvailableContracts(): TradeContract[] {
@@ -290,7 +303,7 @@ export class ContractSystem {
     const maxContracts = this.scene.registry.get('progressionSystem')?.hasUnlock?.('special_contracts') ? 5 : 3;
 
     if (activeCount >= maxContracts) {
-      this.scene.events.emit('notification', {
+      this.events.emit('notification', {
         title: 'Too Many Contracts',
         message: `You can only have ${maxContracts} active contracts.`,
         type: 'warning',
@@ -313,8 +326,8 @@ export class ContractSystem {
     // Remove from available
     this.availableContracts = this.availableContracts.filter(c => c.id !== contractId);
 
-    this.scene.events.emit('contractAccepted', activeContract);
-    this.scene.events.emit('notification', {
+    this.events.emit('contractAccepted', activeContract);
+    this.events.emit('notification', {
       title: 'Contract Accepted',
       message: `Deliver ${contract.quantity} ${this.formatGoodName(contract.goods)} within ${contract.deadline} hours.`,
       type: 'info',
@@ -335,7 +348,7 @@ export class ContractSystem {
     if (contract.delivered >= contract.quantity) {
       this.completeContract(contractId);
     } else {
-      this.scene.events.emit('contractProgress', {
+      this.events.emit('contractProgress', {
         contractId,
         delivered: contract.delivered,
         required: contract.quantity,
@@ -363,18 +376,18 @@ export class ContractSystem {
     this.completedCount++;
 
     // Award rewards
-    this.scene.events.emit('goldChange', contract.reward);
+    this.events.emit('goldDelta', contract.reward);
 
     // Award reputation
     if (contract.reputationReward > 0) {
-      this.scene.events.emit('reputationChange', {
+      this.events.emit('reputationDelta', {
         target: contract.faction,
         value: contract.reputationReward,
       });
     }
 
-    this.scene.events.emit('contractCompleted', contract);
-    this.scene.events.emit('notification', {
+    this.events.emit('contractCompleted', contract);
+    this.events.emit('notification', {
       title: 'Contract Completed!',
       message: `Earned ${contract.reward} gold and reputation with ${contract.faction}.`,
       type: 'success',
@@ -398,19 +411,19 @@ export class ContractSystem {
 
     // Apply penalty
     if (contract.penalty > 0) {
-      this.scene.events.emit('goldChange', -contract.penalty);
+      this.events.emit('goldDelta', -contract.penalty);
     }
 
     // Apply reputation penalty
     if (contract.reputationPenalty !== 0) {
-      this.scene.events.emit('reputationChange', {
+      this.events.emit('reputationDelta', {
         target: contract.faction,
         value: contract.reputationPenalty,
       });
     }
 
-    this.scene.events.emit('contractFailed', contract);
-    this.scene.events.emit('notification', {
+    this.events.emit('contractFailed', contract);
+    this.events.emit('notification', {
       title: 'Contract Failed!',
       message: `Lost ${contract.penalty} gold. ${contract.clientName} is disappointed.`,
       type: 'error',
@@ -424,7 +437,7 @@ export class ContractSystem {
     }
 
     // Canceling has a small reputation penalty
-    this.scene.events.emit('reputationChange', {
+    this.events.emit('reputationDelta', {
       target: contract.faction,
       value: -2,
     });
@@ -432,7 +445,7 @@ export class ContractSystem {
     contract.status = 'failed';
     this.failedCount++;
 
-    this.scene.events.emit('contractCanceled', contract);
+    this.events.emit('contractCanceled', contract);
     return true;
   }
 
@@ -497,7 +510,7 @@ export class ContractSystem {
     // Refresh available contracts
     this.refreshContracts();
 
-    this.scene.events.emit('contractsLoaded', {
+    this.events.emit('contractsLoaded', {
       active: this.getActiveContracts(),
       available: this.availableContracts,
     });
@@ -507,8 +520,8 @@ export class ContractSystem {
    * Clean up event listeners and data to prevent memory leaks
    */
   public destroy(): void {
-    this.scene.events.off('hourChange');
-    this.scene.events.off('playerSell');
+    this.events.off('hourChange');
+    this.events.off('playerSell');
     this.availableContracts = [];
     this.activeContracts.clear();
   }
@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 /**
  * DepthSystem - Manages depth of field simulation for visual hierarchy
@@ -53,7 +54,7 @@ export enum DepthPlane {
  * DepthSystem class for managing depth of field effects
  */
 export class DepthSystem {
-  private scene: Phaser.Scene;
+  private events: GameEventBus;
   private config: DepthConfig;
 
   // Tracked sprites for depth tinting
@@ -65,7 +66,7 @@ export class DepthSystem {
   private farTint: number = 0xe8f0ff;
 
   constructor(scene: Phaser.Scene, config?: Partial<DepthConfig>) {
-    this.scene = scene;
+    this.events = getGameEvents(scene);
     this.config = { ...DEFAULT_DEPTH_CONFIG, ...config };
 
     this.calculateTintValues();
@@ -272,7 +273,7 @@ export class DepthSystem {
    */
   private setupEventListeners(): void {
     // Listen for depth changes to update tinting
-    this.scene.events.on('depthUpdate', (data: { id: string; depth: number }) => {
+    this.events.on('depthUpdate', (data: { id: string; depth: number }) => {
       const sprite = this.trackedSprites.get(data.id);
       if (sprite) {
         sprite.setDepth(data.depth);
@@ -282,7 +283,7 @@ export class DepthSystem {
 
     // Listen for color grade changes from AtmosphereSystem
     // to adjust depth tinting based on location
-    this.scene.events.on('colorGradeChange', (_data: { location: string }) => {
+    this.events.on('colorGradeChange', (_data: { location: string }) => {
       // Could adjust depth colors based on location atmosphere
       // For now, just update all sprites in case base colors changed
       this.updateAllSprites();
@@ -327,8 +328,8 @@ export class DepthSystem {
    */
   public destroy(): void {
     this.trackedSprites.clear();
-    this.scene.events.off('depthUpdate');
-    this.scene.events.off('colorGradeChange');
+    this.events.off('depthUpdate');
+    this.events.off('colorGradeChange');
   }
 }
 
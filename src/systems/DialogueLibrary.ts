@@ -0,0 +1,474 @@
+/**
+ * DialogueLibrary - The validated dialogue trees, loaded from src/data/dialogues
+ *
+ * Each file in src/data/dialogues holds one conversation: its nodes, the
+ * NPC types that speak it, and which responses are offered when. Response
+ * conditions and the effects of nodes and responses are written as plain
+ * data (see DialogueCondition and DialogueEffect) and checked here, so a
+ * writer can add or change a conversation without touching DialogueSystem.
+ *
+ * Like GoodsCatalog, problems are collected as errors for BootScene to
+ * report rather than thrown while parsing; a tree with errors is left out.
+ */
+
+import portugueseMerchant from '../data/dialogues/portuguese-merchant.json';
+import hinduTrader from '../data/dialogues/hindu-trader.json';
+import arabMiddleman from '../data/dialogues/arab-middleman.json';
+import crownOfficial from '../data/dialogues/crown-official.json';
+import sailor from '../data/dialogues/sailor.json';
+import shipCaptain from '../data/dialogues/ship-captain.json';
+import franciscanMonk from '../data/dialogues/franciscan-monk.json';
+import portugueseSoldier from '../data/dialogues/portuguese-soldier.json';
+import dockPorter from '../data/dialogues/dock-porter.json';
+import type { ReputationLevel } from './FactionSystem';
+
+export type FlagValue = boolean | number | string;
+
+// Faction standing, worst to best
+const REPUTATION_LEVELS: ReputationLevel[] = ['hostile', 'unfriendly', 'neutral', 'friendly', 'honored', 'champion'];
+
+// An NPC's attitude to the player, worst to best (see NPCMemorySystem)
+const ATTITUDE_LEVELS = ['hostile', 'unfriendly', 'neutral', 'friendly', 'trusted'];
+
+const QUEST_STATUSES = ['notStarted', 'active', 'completed', 'failed'] as const;
+export type QuestStatus = typeof QUEST_STATUSES[number];
+
+/**
+ * When a response is offered
+ * - faction: standing with a faction is within atLeast/atMost
+ * - attitude: the NPC spoken to feels at least/at most this way about the player
+ * - flag / npcFlag: a story flag, or a flag the NPC remembers, has a value (true if not given)
+ * - time: the hour is from startHour up to endHour (across midnight if endHour is smaller),
+ *   or the time of day is one of periods
+ * - quest: a quest has a status, is active at a stage, or offers a choice the player may take
+ * - item: the player carries at least quantity (1 if not given) of an item
+ * - npc: the NPC spoken to is this one
+ * - all / any / not: combine other conditions
+ */
+export type DialogueCondition =
+  | { type: 'faction'; faction: string; atLeast?: ReputationLevel; atMost?: ReputationLevel }
+  | { type: 'attitude'; atLeast?: string; atMost?: string }
+  | { type: 'flag'; flag: string; value?: FlagValue }
+  | { type: 'npcFlag'; flag: string; value?: FlagValue }
+  | { type: 'time'; startHour?: number; endHour?: number; periods?: string[] }
+  | { type: 'quest'; quest: string; status?: QuestStatus; stage?: string; choice?: string }
+  | { type: 'item'; item: string; quantity?: number }
+  | { type: 'npc'; npc: string }
+  | { type: 'all'; conditions: DialogueCondition[] }
+  | { type: 'any'; conditions: DialogueCondition[] }
+  | { type: 'not'; condition: DialogueCondition };
+
+/**
+ * What choosing a response or reaching a node does
+ * - gold / reputation / item / flag: as quest effects; target is the faction, item or flag
+ * - startQuest / advanceStage: target is the quest; choice picks an advanceStage branch
+ * - openTrade / openWarehouse / openShipTrade: open that panel with the NPC, ending the conversation
+ * - attitude: move the NPC's attitude to the player by value
+ * - npcFlag: have the NPC remember a flag (target) with a value
+ */
+export type DialogueEffect =
+  | { type: 'gold'; value: number }
+  | { type: 'reputation'; target: string; value: number }
+  | { type: 'item'; target: string; value: number }
+  | { type: 'flag'; target: string; value: FlagValue }
+  | { type: 'startQuest'; target: string }
+  | { type: 'advanceStage'; target: string; choice?: string }
+  | { type: 'openTrade' }
+  | { type: 'openWarehouse' }
+  | { type: 'openShipTrade' }
+  | { type: 'attitude'; value: number }
+  | { type: 'npcFlag'; target: string; value: FlagValue };
+
+const EFFECT_TYPES: DialogueEffect['type'][] = [
+  'gold', 'reputation', 'item', 'flag', 'startQuest', 'advanceStage',
+  'openTrade', 'openWarehouse', 'openShipTrade', 'attitude', 'npcFlag',
+];
+
+export interface DialogueResponse {
+  text: string;
+  nextNode?: string; // Ends the conversation when absent
+  condition?: DialogueCondition;
+  effects?: DialogueEffect[];
+}
+
+export interface DialogueNode {
+  id: string;
+  speaker: string;
+  text: string;
+  responses?: DialogueResponse[];
+  next?: string; // Next node ID if no responses
+  effects?: DialogueEffect[];
+}
+
+export interface DialogueTree {
+  id: string;
+  npcTypes: string[];
+  startNode: string;
+  nodes: Map<string, DialogueNode>;
+}
+
+/**
+ * What conditions are checked against, for the NPC being spoken to
+ */
+export interface DialogueState {
+  getReputationLevel(factionId: string): ReputationLevel;
+  getAttitudeLevel(): string;
+  getFlag(flag: string): FlagValue | undefined;
+  getNPCFlag(flag: string): FlagValue | undefined;
+  getHour(): number;
+  getPeriod(): string;
+  getQuestStatus(questId: string): QuestStatus;
+  getQuestStage(questId: string): string | undefined;
+  getQuestChoices(questId: string): string[]; // Choices of the current stage whose conditions are met
+  getItemCount(itemId: string): number;
+  getNPCId(): string | undefined;
+}
+
+/**
+ * Whether a condition holds
+ */
+export function evaluateCondition(condition: DialogueCondition, state: DialogueState): boolean {
+  switch (condition.type) {
+    case 'faction':
+      return isWithin(REPUTATION_LEVELS, state.getReputationLevel(condition.faction), condition.atLeast, condition.atMost);
+    case 'attitude':
+      return isWithin(ATTITUDE_LEVELS, state.getAttitudeLevel(), condition.atLeast, condition.atMost);
+    case 'flag':
+      return (state.getFlag(condition.flag) ?? false) === (condition.value ?? true);
+    case 'npcFlag':
+      return (state.getNPCFlag(condition.flag) ?? false) === (condition.value ?? true);
+    case 'time': {
+      if (condition.periods && !condition.periods.includes(state.getPeriod())) return false;
+      if (condition.startHour === undefined || condition.endHour === undefined) return true;
+      const hour = state.getHour();
+      return condition.startHour <= condition.endHour
+        ? hour >= condition.startHour && hour < condition.endHour
+        : hour >= condition.startHour || hour < condition.endHour;
+    }
+    case 'quest':
+      if (condition.choice !== undefined) {
+        return state.getQuestChoices(condition.quest).includes(condition.choice);
+      }
+      if (condition.stage !== undefined) {
+        return state.getQuestStatus(condition.quest) === 'active' && state.getQuestStage(condition.quest) === condition.stage;
+      }
+      return state.getQuestStatus(condition.quest) === (condition.status ?? 'active');
+    case 'item':
+      return state.getItemCount(condition.item) >= (condition.quantity ?? 1);
+    case 'npc':
+      return state.getNPCId() === condition.npc;
+    case 'all':
+      return condition.conditions.every(c => evaluateCondition(c, state));
+    case 'any':
+      return condition.conditions.some(c => evaluateCondition(c, state));
+    case 'not':
+      return !evaluateCondition(condition.condition, state);
+  }
+}
+
+function isWithin(levels: string[], level: string, atLeast?: string, atMost?: string): boolean {
+  const rank = levels.indexOf(level);
+  if (atLeast !== undefined && rank < levels.indexOf(atLeast)) return false;
+  if (atMost !== undefined && rank > levels.indexOf(atMost)) return false;
+  return true;
+}
+
+export class DialogueLibrary {
+  private trees: Map<string, DialogueTree> = new Map();
+  private byNPCType: Map<string, string> = new Map();
+  private errors: string[] = [];
+
+  constructor(files: unknown[]) {
+    files.forEach((file, index) => this.parseTree(file, index));
+  }
+
+  /**
+   * Schema errors found while loading; trees with errors are left out
+   */
+  public getErrors(): string[] {
+    return [...this.errors];
+  }
+
+  public isValid(): boolean {
+    return this.errors.length === 0;
+  }
+
+  public getTree(treeId: string): DialogueTree | undefined {
+    return this.trees.get(treeId);
+  }
+
+  public getTreeForNPCType(npcType: string): DialogueTree | undefined {
+    const treeId = this.byNPCType.get(npcType);
+    return treeId ? this.trees.get(treeId) : undefined;
+  }
+
+  public getAll(): DialogueTree[] {
+    return Array.from(this.trees.values());
+  }
+
+  private parseTree(data: unknown, index: number): void {
+    const label = isRecord(data) && typeof data.id === 'string' ? data.id : `dialogues[${index}]`;
+    const problems: string[] = [];
+
+    if (!isRecord(data)) {
+      this.errors.push(`${label}: must be an object`);
+      return;
+    }
+
+    if (typeof data.id !== 'string' || !data.id) {
+      problems.push('"id" must be a non-empty string');
+    } else if (this.trees.has(data.id)) {
+      problems.push('duplicate id');
+    }
+
+    const npcTypes = isStringArray(data.npcTypes) ? data.npcTypes : [];
+    if (!isStringArray(data.npcTypes)) {
+      problems.push('"npcTypes" must be an array of NPC types');
+    }
+    for (const npcType of npcTypes) {
+      if (this.byNPCType.has(npcType)) {
+        problems.push(`NPC type "${npcType}" already speaks "${this.byNPCType.get(npcType)}"`);
+      }
+    }
+
+    const nodes = new Map<string, DialogueNode>();
+    if (!Array.isArray(data.nodes) || data.nodes.length === 0) {
+      problems.push('"nodes" must be a non-empty array');
+    } else {
+      data.nodes.forEach((node, nodeIndex) => {
+        const parsed = this.parseNode(node, `nodes[${nodeIndex}]`, problems);
+        if (!parsed) return;
+        if (nodes.has(parsed.id)) {
+          problems.push(`duplicate node "${parsed.id}"`);
+        }
+        nodes.set(parsed.id, parsed);
+      });
+    }
+
+    const startNode = data.startNode ?? nodes.keys().next().value;
+    if (typeof startNode !== 'string' || !nodes.has(startNode)) {
+      problems.push(`"startNode" must name one of its nodes`);
+    }
+
+    // Every link has to land somewhere
+    for (const node of nodes.values()) {
+      const links = [node.next, ...(node.responses ?? []).map(response => response.nextNode)];
+      for (const link of links) {
+        if (link !== undefined && !nodes.has(link)) {
+          problems.push(`node "${node.id}" leads to missing node "${link}"`);
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      for (const problem of problems) {
+        this.errors.push(`${label}: ${problem}`);
+      }
+      return;
+    }
+
+    const tree: DialogueTree = { id: data.id as string, npcTypes, startNode: startNode as string, nodes };
+    this.trees.set(tree.id, tree);
+    for (const npcType of npcTypes) {
+      this.byNPCType.set(npcType, tree.id);
+    }
+  }
+
+  private parseNode(entry: unknown, path: string, problems: string[]): DialogueNode | null {
+    if (!isRecord(entry)) {
+      problems.push(`${path} must be an object`);
+      return null;
+    }
+
+    const at = typeof entry.id === 'string' ? `node "${entry.id}"` : path;
+    for (const field of ['id', 'speaker', 'text']) {
+      if (typeof entry[field] !== 'string' || !entry[field]) {
+        problems.push(`${at}: "${field}" must be a non-empty string`);
+      }
+    }
+    if (entry.next !== undefined && typeof entry.next !== 'string') {
+      problems.push(`${at}: "next" must be a node id`);
+    }
+    if (entry.effects !== undefined) {
+      this.checkEffects(entry.effects, `${at}: effects`, problems);
+    }
+
+    if (entry.responses !== undefined) {
+      if (!Array.isArray(entry.responses)) {
+        problems.push(`${at}: "responses" must be an array`);
+      } else {
+        entry.responses.forEach((response, index) => {
+          const where = `${at}: responses[${index}]`;
+          if (!isRecord(response)) {
+            problems.push(`${where} must be an object`);
+            return;
+          }
+          if (typeof response.text !== 'string' || !response.text) {
+            problems.push(`${where}: "text" must be a non-empty string`);
+          }
+          if (response.nextNode !== undefined && typeof response.nextNode !== 'string') {
+            problems.push(`${where}: "nextNode" must be a node id`);
+          }
+          if (response.condition !== undefined) {
+            this.checkCondition(response.condition, `${where}: condition`, problems);
+          }
+          if (response.effects !== undefined) {
+            this.checkEffects(response.effects, `${where}: effects`, problems);
+          }
+        });
+      }
+    }
+
+    return typeof entry.id === 'string' ? (entry as unknown as DialogueNode) : null;
+  }
+
+  private checkCondition(condition: unknown, where: string, problems: string[]): void {
+    if (!isRecord(condition)) {
+      problems.push(`${where} must be an object`);
+      return;
+    }
+
+    const isLevel = (levels: string[], value: unknown) => value === undefined || levels.includes(value as string);
+
+    switch (condition.type) {
+      case 'faction':
+        if (typeof condition.faction !== 'string') problems.push(`${where}: "faction" must be a faction id`);
+        if (!isLevel(REPUTATION_LEVELS, condition.atLeast) || !isLevel(REPUTATION_LEVELS, condition.atMost)) {
+          problems.push(`${where}: levels must be one of: ${REPUTATION_LEVELS.join(', ')}`);
+        }
+        break;
+      case 'attitude':
+        if (!isLevel(ATTITUDE_LEVELS, condition.atLeast) || !isLevel(ATTITUDE_LEVELS, condition.atMost)) {
+          problems.push(`${where}: levels must be one of: ${ATTITUDE_LEVELS.join(', ')}`);
+        }
+        break;
+      case 'flag':
+      case 'npcFlag':
+        if (typeof condition.flag !== 'string') problems.push(`${where}: "flag" must be a flag name`);
+        if (condition.value !== undefined && !isFlagValue(condition.value)) {
+          problems.push(`${where}: "value" must be a boolean, number or string`);
+        }
+        break;
+      case 'time': {
+        const hasHours = condition.startHour !== undefined || condition.endHour !== undefined;
+        if (hasHours && (!isHour(condition.startHour) || !isHour(condition.endHour))) {
+          problems.push(`${where}: "startHour" and "endHour" must both be hours from 0 to 23`);
+        }
+        if (condition.periods !== undefined && !isStringArray(condition.periods)) {
+          problems.push(`${where}: "periods" must be an array of times of day`);
+        }
+        if (!hasHours && condition.periods === undefined) {
+          problems.push(`${where}: needs "startHour" and "endHour", or "periods"`);
+        }
+        break;
+      }
+      case 'quest':
+        if (typeof condition.quest !== 'string') problems.push(`${where}: "quest" must be a quest id`);
+        if (condition.status !== undefined && !QUEST_STATUSES.includes(condition.status as QuestStatus)) {
+          problems.push(`${where}: "status" must be one of: ${QUEST_STATUSES.join(', ')}`);
+        }
+        if (condition.stage !== undefined && typeof condition.stage !== 'string') {
+          problems.push(`${where}: "stage" must be a stage id`);
+        }
+        if (condition.choice !== undefined && typeof condition.choice !== 'string') {
+          problems.push(`${where}: "choice" must be a choice id`);
+        }
+        break;
+      case 'item':
+        if (typeof condition.item !== 'string') problems.push(`${where}: "item" must be an item id`);
+        if (condition.quantity !== undefined && !isPositiveInteger(condition.quantity)) {
+          problems.push(`${where}: "quantity" must be a positive whole number`);
+        }
+        break;
+      case 'npc':
+        if (typeof condition.npc !== 'string') problems.push(`${where}: "npc" must be an NPC id`);
+        break;
+      case 'all':
+      case 'any':
+        if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+          problems.push(`${where}: "conditions" must be a non-empty array`);
+        } else {
+          condition.conditions.forEach((inner, index) => this.checkCondition(inner, `${where}.conditions[${index}]`, problems));
+        }
+        break;
+      case 'not':
+        this.checkCondition(condition.condition, `${where}.condition`, problems);
+        break;
+      default:
+        problems.push(`${where}: unknown condition type "${String(condition.type)}"`);
+    }
+  }
+
+  private checkEffects(effects: unknown, where: string, problems: string[]): void {
+    if (!Array.isArray(effects)) {
+      problems.push(`${where} must be an array`);
+      return;
+    }
+
+    effects.forEach((effect, index) => {
+      const at = `${where}[${index}]`;
+      if (!isRecord(effect) || !EFFECT_TYPES.includes(effect.type as DialogueEffect['type'])) {
+        problems.push(`${at}: "type" must be one of: ${EFFECT_TYPES.join(', ')}`);
+        return;
+      }
+
+      const needsTarget = ['reputation', 'item', 'flag', 'startQuest', 'advanceStage', 'npcFlag'];
+      if (needsTarget.includes(effect.type as string) && (typeof effect.target !== 'string' || !effect.target)) {
+        problems.push(`${at}: ${String(effect.type)} needs a "target"`);
+      }
+
+      const needsNumber = ['gold', 'reputation', 'item', 'attitude'];
+      if (needsNumber.includes(effect.type as string) && typeof effect.value !== 'number') {
+        problems.push(`${at}: ${String(effect.type)} needs a numeric "value"`);
+      }
+      if ((effect.type === 'flag' || effect.type === 'npcFlag') && !isFlagValue(effect.value)) {
+        problems.push(`${at}: ${effect.type} needs a boolean, number or string "value"`);
+      }
+      if (effect.type === 'advanceStage' && effect.choice !== undefined && typeof effect.choice !== 'string') {
+        problems.push(`${at}: "choice" must be a choice id`);
+      }
+    });
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isFlagValue(value: unknown): value is FlagValue {
+  return typeof value === 'boolean' || typeof value === 'number' || typeof value === 'string';
+}
+
+function isHour(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 23;
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+let sharedLibrary: DialogueLibrary | null = null;
+
+/**
+ * Get the library built from src/data/dialogues (parsed once and shared)
+ */
+export function loadDialogueLibrary(): DialogueLibrary {
+  if (!sharedLibrary) {
+    sharedLibrary = new DialogueLibrary([
+      portugueseMerchant,
+      hinduTrader,
+      arabMiddleman,
+      crownOfficial,
+      sailor,
+      shipCaptain,
+      franciscanMonk,
+      portugueseSoldier,
+      dockPorter,
+    ]);
+  }
+  return sharedLibrary;
+}
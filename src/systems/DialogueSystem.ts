@@ -1,60 +1,42 @@
 import Phaser from 'phaser';
+import { GameEventBus, getGameEvents } from './GameEvents';
+import { getGameSettings } from './GameSettings';
+import { InputAction, getInputBindings } from './InputBindings';
+import {
+  evaluateCondition,
+  loadDialogueLibrary,
+  type DialogueEffect,
+  type DialogueNode,
+  type DialogueResponse,
+  type DialogueState,
+  type DialogueTree,
+  type QuestStatus,
+} from './DialogueLibrary';
 
 /**
  * DialogueSystem - Manages conversations and interactions with NPCs
  * 
  * Dialogue reflects the multicultural nature of 16th century Goa,
  * with Portuguese, Hindu, and Arab characters speaking in their
- * characteristic styles.
+ * characteristic styles. The conversations themselves are data in
+ * src/data/dialogues, loaded through DialogueLibrary.
  */
 
-interface DialogueNode {
-  id: string;
-  speaker: string;
-  text: string;
-  responses?: DialogueResponse[];
-  next?: string; // Next node ID if no responses
-  effects?: DialogueEffect[];
-}
-
-interface DialogueResponse {
-  text: string;
-  nextNode?: string;
-  condition?: () => boolean;
-  effects?: DialogueEffect[];
-}
-
-interface DialogueEffect {
-  type: 'gold' | 'reputation' | 'item' | 'flag';
-  value: number | string | boolean;
-  target?: string;
-}
-
-interface DialogueTree {
-  id: string;
-  startNode: string;
-  nodes: Map<string, DialogueNode>;
-}
-
 export class DialogueSystem {
   private scene: Phaser.Scene;
-  private dialogueTrees: Map<string, DialogueTree> = new Map();
+  private events: GameEventBus;
   private currentTree: DialogueTree | null = null;
   private currentNode: DialogueNode | null = null;
+  private currentNPCId: string | undefined;
   private dialogueContainer: Phaser.GameObjects.Container | null = null;
   private isActive = false;
 
-  // NPC type to dialogue tree mapping - all NPC types
-  private readonly npcDialogues: { [key: string]: string } = {
-    'npc_portuguese': 'portuguese_merchant',
-    'npc_hindu': 'hindu_trader',
-    'npc_arab': 'arab_middleman',
-    'npc_official': 'crown_official',
-    'npc_sailor': 'sailor',
-    'npc_monk': 'franciscan_monk',
-    'npc_soldier': 'portuguese_soldier',
-    'npc_porter': 'dock_porter',
-  };
+  // The responses on offer, and the one picked out by keys or gamepad
+  private responseChoices: { response: DialogueResponse; text: Phaser.GameObjects.Text }[] = [];
+  private selectedResponse = 0;
+
+  // What the interact action does at a node without responses
+  private onContinue: (() => void) | null = null;
 
   // Time-based greetings
   private readonly timeGreetings: { [period: string]: string[] } = {
@@ -78,381 +60,18 @@ export class DialogueSystem {
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
-    this.initializeDialogueTrees();
-  }
-
-  private initializeDialogueTrees(): void {
-    // Portuguese Merchant dialogue
-    this.createDialogueTree('portuguese_merchant', [
-      {
-        id: 'start',
-        speaker: 'Portuguese Merchant',
-        text: 'Bom dia, senhor! Welcome to my humble establishment. The finest goods from Lisboa and beyond!',
-        responses: [
-          { text: 'What do you have for sale?', nextNode: 'show_goods' },
-          { text: 'Tell me about the trade routes.', nextNode: 'trade_routes' },
-          { text: 'Good day. (Leave)', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'show_goods',
-        speaker: 'Portuguese Merchant',
-        text: 'Ah, a discerning buyer! I have silk from Macau, porcelain from the Middle Kingdom, and the finest cinnamon from Ceylon. The carrack just arrived last week!',
-        responses: [
-          { text: 'I would like to trade.', nextNode: 'trade' },
-          { text: 'Those prices seem high...', nextNode: 'haggle' },
-          { text: 'Perhaps another time.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'trade_routes',
-        speaker: 'Portuguese Merchant',
-        text: 'The Carreira da Índia connects Lisboa to Goa - six months each way! We bring silver and coral, and return with spices worth their weight in gold. Well, almost!',
-        responses: [
-          { text: 'Fascinating. What do you have for sale?', nextNode: 'show_goods' },
-          { text: 'Thank you for the information.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'haggle',
-        speaker: 'Portuguese Merchant',
-        text: 'High? Senhor, do you know the dangers of the Cape of Good Hope? The storms, the pirates, the scurvy? These prices reflect the risk! ...But perhaps for a regular customer, a small discount.',
-        effects: [{ type: 'flag', value: true, target: 'portuguese_discount' }],
-        responses: [
-          { text: 'Very well, let us trade.', nextNode: 'trade' },
-          { text: 'I will think about it.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'trade',
-        speaker: 'System',
-        text: '[Trade interface opens]',
-        next: 'end',
-      },
-      {
-        id: 'end',
-        speaker: 'Portuguese Merchant',
-        text: 'Até logo, senhor! May God speed your ventures!',
-      },
-    ]);
-
-    // Hindu Trader dialogue
-    this.createDialogueTree('hindu_trader', [
-      {
-        id: 'start',
-        speaker: 'Hindu Trader',
-        text: 'Namaste, traveler! I am Venkatesh, third generation spice merchant. My family has traded on this coast since before the Portuguese came.',
-        responses: [
-          { text: 'What spices do you sell?', nextNode: 'spices' },
-          { text: 'How has the Portuguese rule affected your trade?', nextNode: 'politics' },
-          { text: 'Namaste. (Leave)', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'spices',
-        speaker: 'Hindu Trader',
-        text: 'The finest pepper from the Malabar coast! Cardamom, turmeric, and ginger too. My brother travels to the source and brings only the best. The Portuguese buy from me to fill their ships!',
-        responses: [
-          { text: 'I wish to purchase some.', nextNode: 'trade' },
-          { text: 'How do prices compare to last year?', nextNode: 'prices' },
-          { text: 'Impressive. I must go now.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'politics',
-        speaker: 'Hindu Trader',
-        text: 'The Inquisition... it is difficult. Many have converted, some by choice, some by force. We who remain Hindu must be careful. But trade continues - gold knows no religion!',
-        responses: [
-          { text: 'I understand. Let us focus on trade.', nextNode: 'spices' },
-          { text: 'I am sorry to hear that.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'prices',
-        speaker: 'Hindu Trader',
-        text: 'The monsoon was good this year, so pepper is plentiful. But cloves? The Dutch are making trouble in the Moluccas, so those are harder to come by. Buy them while you can!',
-        responses: [
-          { text: 'Good advice. Let us trade.', nextNode: 'trade' },
-          { text: 'Thank you for the tip.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'trade',
-        speaker: 'System',
-        text: '[Trade interface opens]',
-        next: 'end',
-      },
-      {
-        id: 'end',
-        speaker: 'Hindu Trader',
-        text: 'Shubh yatra! Safe travels, friend!',
-      },
-    ]);
-
-    // Arab Middleman dialogue
-    this.createDialogueTree('arab_middleman', [
-      {
-        id: 'start',
-        speaker: 'Arab Middleman',
-        text: 'As-salamu alaykum! I am Hassan, from Hormuz. I deal in rarities that others cannot find. Interested?',
-        responses: [
-          { text: 'What rarities do you speak of?', nextNode: 'rarities' },
-          { text: 'How did you come to Goa?', nextNode: 'story' },
-          { text: 'Peace be upon you. (Leave)', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'rarities',
-        speaker: 'Arab Middleman',
-        text: 'Cloves from the Moluccas, before the Portuguese take their cut! Incense from Arabia, pearls from the Gulf. I have connections the firangis do not know about.',
-        responses: [
-          { text: 'That sounds... unofficial.', nextNode: 'unofficial' },
-          { text: 'Show me what you have.', nextNode: 'trade' },
-          { text: 'Too risky for me.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'unofficial',
-        speaker: 'Arab Middleman',
-        text: 'Unofficial? The sea belongs to Allah, not to any king! But I understand your caution. My goods are real, my prices fair. The only risk is in the quality - which I guarantee!',
-        responses: [
-          { text: 'Very well, show me.', nextNode: 'trade' },
-          { text: 'I will consider it.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'story',
-        speaker: 'Arab Middleman',
-        text: 'My family has sailed these waters for generations, long before Vasco da Gama "discovered" what we already knew! Goa is the crossroads of the world. Money flows here like the tide.',
-        responses: [
-          { text: 'Indeed. What do you have for sale?', nextNode: 'rarities' },
-          { text: 'Fascinating history.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'trade',
-        speaker: 'System',
-        text: '[Trade interface opens]',
-        next: 'end',
-      },
-      {
-        id: 'end',
-        speaker: 'Arab Middleman',
-        text: 'Ma\'a salama! Until we meet again, inshallah!',
-      },
-    ]);
-
-    // Crown Official dialogue
-    this.createDialogueTree('crown_official', [
-      {
-        id: 'start',
-        speaker: 'Crown Trade Officer',
-        text: 'Halt! I am the representative of His Majesty in these matters of trade. All goods must be properly taxed and documented.',
-        responses: [
-          { text: 'What taxes apply to my goods?', nextNode: 'taxes' },
-          { text: 'I have proper documentation.', nextNode: 'papers' },
-          { text: 'Good day, sir. (Leave)', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'taxes',
-        speaker: 'Crown Trade Officer',
-        text: 'The Crown takes its due share - typically one-fifth on spices, less on common goods. The Casa da Índia in Lisboa oversees all.',
-        responses: [
-          { text: 'I understand. Thank you.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'papers',
-        speaker: 'Crown Trade Officer',
-        text: 'Good. See that you maintain proper records. The Alfândega inspectors are thorough, and smuggling carries... severe penalties.',
-        responses: [
-          { text: 'Of course. Good day.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'end',
-        speaker: 'Crown Trade Officer',
-        text: 'Go about your business. And remember - the Crown sees all.',
-      },
-    ]);
-
-    // Sailor dialogue
-    this.createDialogueTree('sailor', [
-      {
-        id: 'start',
-        speaker: 'Sailor',
-        text: '*spits* Just got off the carrack from Lisboa. Six months at sea, and I need a drink! You trading or just looking?',
-        responses: [
-          { text: 'Where did you sail from?', nextNode: 'voyage' },
-          { text: 'Any news from Portugal?', nextNode: 'news' },
-          { text: 'Good luck finding that drink.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'voyage',
-        speaker: 'Sailor',
-        text: 'Lisboa to Goa via the Cape of Good Hope. Lost three men to scurvy, two to a storm. The usual, really.',
-        responses: [
-          { text: 'Sounds dangerous.', nextNode: 'danger' },
-          { text: 'I should let you go.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'news',
-        speaker: 'Sailor',
-        text: 'King Philip still rules both Portugal and Spain. Trade is good. War with the Dutch brewing. Same old story.',
-        responses: [
-          { text: 'Thank you for the news.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'danger',
-        speaker: 'Sailor',
-        text: 'Every voyage is. But the pay is worth it - if you survive.',
-        next: 'end',
-      },
-      {
-        id: 'end',
-        speaker: 'Sailor',
-        text: 'Right. Now where\'s that tavern...',
-      },
-    ]);
-
-    // Franciscan Monk dialogue
-    this.createDialogueTree('franciscan_monk', [
-      {
-        id: 'start',
-        speaker: 'Franciscan Monk',
-        text: 'Peace be with you, my child. I am Brother Tomás of the Order of Saint Francis. How may I help you on this blessed day?',
-        responses: [
-          { text: 'Tell me about the cathedral.', nextNode: 'cathedral' },
-          { text: 'What is your mission here?', nextNode: 'mission' },
-          { text: 'Blessings to you, Father.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'cathedral',
-        speaker: 'Franciscan Monk',
-        text: 'The Sé Cathedral rises slowly but surely. It will be the grandest church in all of Asia - a testament to God\'s glory in these lands.',
-        responses: [
-          { text: 'A noble endeavor.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'mission',
-        speaker: 'Franciscan Monk',
-        text: 'We bring the light of Christ to these shores. The Jesuits focus on the learned, but we Franciscans serve the poor and humble.',
-        responses: [
-          { text: 'God\'s work indeed.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'end',
-        speaker: 'Franciscan Monk',
-        text: 'Go with God, my child. May He guide your steps.',
-      },
-    ]);
-
-    // Portuguese Soldier dialogue
-    this.createDialogueTree('portuguese_soldier', [
-      {
-        id: 'start',
-        speaker: 'Portuguese Guard',
-        text: '*adjusts helmet* Move along, citizen. I am here to keep the peace and protect Crown interests. No trouble today.',
-        responses: [
-          { text: 'Is the market safe?', nextNode: 'safety' },
-          { text: 'Any threats to worry about?', nextNode: 'threats' },
-          { text: 'Understood. I\'ll be going.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'safety',
-        speaker: 'Portuguese Guard',
-        text: 'Safe enough, if you keep to yourself. Pickpockets work these crowds. Guard your purse.',
-        responses: [
-          { text: 'I\'ll be careful.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'threats',
-        speaker: 'Portuguese Guard',
-        text: 'Dutch privateers off the coast. Rumors of local unrest. Nothing the garrison can\'t handle.',
-        responses: [
-          { text: 'Good to know.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'end',
-        speaker: 'Portuguese Guard',
-        text: 'Stay out of trouble.',
-      },
-    ]);
-
-    // Dock Porter dialogue
-    this.createDialogueTree('dock_porter', [
-      {
-        id: 'start',
-        speaker: 'Porter',
-        text: '*wipes sweat* Heavy loads today. You need cargo moved? I can carry anything for the right price.',
-        responses: [
-          { text: 'What ships have come in?', nextNode: 'ships' },
-          { text: 'How is business?', nextNode: 'business' },
-          { text: 'Not today, thank you.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'ships',
-        speaker: 'Porter',
-        text: 'Big carrack from Lisboa yesterday. Full of silver and cloth. Also a dhow from Hormuz with perfumes.',
-        responses: [
-          { text: 'Interesting. Thank you.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'business',
-        speaker: 'Porter',
-        text: 'When ships come, we eat. When monsoon stops the trade, we go hungry. Such is life.',
-        responses: [
-          { text: 'May the winds be kind.', nextNode: 'end' },
-        ],
-      },
-      {
-        id: 'end',
-        speaker: 'Porter',
-        text: 'Back to work for me. The cargo won\'t move itself!',
-      },
-    ]);
-  }
-
-  private createDialogueTree(id: string, nodes: DialogueNode[]): void {
-    const tree: DialogueTree = {
-      id,
-      startNode: nodes[0].id,
-      nodes: new Map(),
-    };
-
-    for (const node of nodes) {
-      tree.nodes.set(node.id, node);
-    }
-
-    this.dialogueTrees.set(id, tree);
+    this.events = getGameEvents(scene);
   }
 
   public startDialogue(npcType: string, npcName: string, npcId?: string): void {
-    const treeId = this.npcDialogues[npcType];
-    if (!treeId) {
-      console.warn(`No dialogue tree for NPC type: ${npcType}`);
-      return;
-    }
-
-    const tree = this.dialogueTrees.get(treeId);
+    const tree = loadDialogueLibrary().getTreeForNPCType(npcType);
     if (!tree) {
-      console.warn(`Dialogue tree not found: ${treeId}`);
+      console.warn(`No dialogue tree for NPC type: ${npcType}`);
       return;
     }
 
     this.currentTree = tree;
+    this.currentNPCId = npcId;
 
     // Get context for conditional dialogue
     const context = this.getDialogueContext(npcId);
@@ -519,6 +138,45 @@ export class DialogueSystem {
     return { timeOfDay, reputation, attitude, interactionCount, tradeCount };
   }
 
+  /**
+   * The game state that response conditions are checked against
+   */
+  private getDialogueState(): DialogueState {
+    const registry = this.scene.registry;
+    const npcId = this.currentNPCId;
+
+    let marketScene: any = null;
+    try {
+      marketScene = this.scene.scene.get('MarketScene');
+    } catch (e) {
+      // Outside the market there is no clock or player to ask
+    }
+
+    return {
+      getReputationLevel: factionId => registry.get('factionSystem')?.getReputationLevel(factionId) ?? 'neutral',
+      getAttitudeLevel: () => (npcId && registry.get('npcMemorySystem')?.getAttitudeLevelForNPC(npcId)) || 'neutral',
+      getFlag: flag => registry.get('gameFlags')?.[flag],
+      getNPCFlag: flag => (npcId ? registry.get('npcMemorySystem')?.getFlag(npcId, flag) : undefined),
+      getHour: () => marketScene?.getTimeSystem?.().getTimeData().hour ?? 12,
+      getPeriod: () => marketScene?.getTimeSystem?.().getCurrentPeriod() ?? 'Morning',
+      getQuestStatus: (questId): QuestStatus => {
+        const quests = registry.get('questSystem');
+        if (quests?.isQuestActive(questId)) return 'active';
+        if (quests?.isQuestComplete(questId)) return 'completed';
+        if (quests?.isQuestFailed(questId)) return 'failed';
+        return 'notStarted';
+      },
+      getQuestStage: questId => registry.get('questSystem')?.getCurrentStage(questId)?.id,
+      getQuestChoices: questId =>
+        (registry.get('questSystem')?.getAvailableChoices(questId) ?? []).map((choice: { id: string }) => choice.id),
+      getItemCount: itemId => {
+        const inventory: { item: string; quantity: number }[] = marketScene?.getPlayer?.().getInventory() ?? [];
+        return inventory.find(entry => entry.item === itemId)?.quantity ?? 0;
+      },
+      getNPCId: () => npcId,
+    };
+  }
+
   /**
    * Apply conditional modifications to dialogue based on context
    */
@@ -599,10 +257,10 @@ export class DialogueSystem {
     // Account for UIScene bottomBar (52px) plus margin
     const uiBottomBarHeight = 60;
 
-    // Box dimensions in screen pixels
+    // Box dimensions in screen pixels, taller for larger text
     const margin = 20;
     const boxWidth = screenWidth - (margin * 2);
-    const boxHeight = 120;
+    const boxHeight = Math.round(120 * getGameSettings().getTextScale());
     const boxX = margin;
     const boxY = screenHeight - boxHeight - uiBottomBarHeight;
 
@@ -629,14 +287,41 @@ export class DialogueSystem {
     this.dialogueContainer.setData('boxHeight', boxHeight);
     this.dialogueContainer.setData('boxX', boxX);
     this.dialogueContainer.setData('boxY', boxY);
-
-    // Add ESC key handler to close dialogue
-    this.scene.input.keyboard?.on('keydown-ESC', this.handleEscKey, this);
   }
 
-  private handleEscKey(): void {
-    if (this.isActive) {
-      this.endDialogue();
+  /**
+   * Take an input action while a conversation is open. MarketScene passes
+   * on its keys and gamepad buttons, where up and down pick a response and
+   * interact answers or continues; UIScene passes on menu, which walks away.
+   * @returns True if the conversation used the action
+   */
+  public handleAction(action: InputAction): boolean {
+    if (!this.isActive) return false;
+
+    switch (action) {
+      case 'moveUp':
+      case 'moveDown': {
+        const count = this.responseChoices.length;
+        if (count > 0) {
+          const step = action === 'moveUp' ? -1 : 1;
+          this.highlightResponse((this.selectedResponse + step + count) % count);
+        }
+        return true;
+      }
+      case 'interact': {
+        const choice = this.responseChoices[this.selectedResponse];
+        if (choice) {
+          this.selectResponse(choice.response);
+        } else {
+          this.onContinue?.();
+        }
+        return true;
+      }
+      case 'menu':
+        this.endDialogue();
+        return true;
+      default:
+        return false;
     }
   }
 
@@ -648,14 +333,17 @@ export class DialogueSystem {
     for (let i = children.length - 1; i >= 1; i--) {
       children[i].destroy();
     }
+    this.responseChoices = [];
+    this.onContinue = null;
 
     const boxWidth = this.dialogueContainer.getData('boxWidth') || 300;
     const boxX = this.dialogueContainer.getData('boxX') || 20;
     const boxY = this.dialogueContainer.getData('boxY') || 400;
 
-    // Fixed font sizes in screen pixels
-    const speakerSize = 16;
-    const textSize = 14;
+    // Font sizes in screen pixels, scaled by the text size setting
+    const scale = getGameSettings().getTextScale();
+    const speakerSize = Math.round(16 * scale);
+    const textSize = Math.round(14 * scale);
     const padding = 12;
     const lineSpacing = 6;
 
@@ -716,17 +404,19 @@ export class DialogueSystem {
     const boxX = this.dialogueContainer.getData('boxX') || 20;
     const boxY = this.dialogueContainer.getData('boxY') || 400;
 
-    const responseSize = 12;
+    const scale = getGameSettings().getTextScale();
+    const responseSize = Math.round(12 * scale);
     const padding = 12;
-    const responseSpacing = 20;
+    const responseSpacing = Math.round(20 * scale);
 
     // Start responses at 50% down the box
     let yOffset = boxY + boxHeight * 0.5;
 
-    responses.forEach((response, index) => {
-      // Check condition if present
-      if (response.condition && !response.condition()) return;
+    // Number only the responses on offer, so the keys match what is shown
+    const state = this.getDialogueState();
+    const available = responses.filter(response => !response.condition || evaluateCondition(response.condition, state));
 
+    available.forEach((response, index) => {
       const responseText = this.scene.add.text(
         boxX + padding + 8,
         yOffset,
@@ -742,11 +432,7 @@ export class DialogueSystem {
       responseText.setInteractive({ useHandCursor: true });
 
       responseText.on('pointerover', () => {
-        responseText.setColor('#FFD700');
-      });
-
-      responseText.on('pointerout', () => {
-        responseText.setColor('#C19A6B');
+        this.highlightResponse(index);
       });
 
       responseText.on('pointerdown', () => {
@@ -759,10 +445,20 @@ export class DialogueSystem {
       });
 
       this.dialogueContainer!.add(responseText);
+      this.responseChoices.push({ response, text: responseText });
 
       // Calculate actual text height for proper spacing
       yOffset += Math.max(responseSpacing, responseText.height + 4);
     });
+
+    this.highlightResponse(0);
+  }
+
+  private highlightResponse(index: number): void {
+    this.selectedResponse = index;
+    this.responseChoices.forEach((choice, i) => {
+      choice.text.setColor(i === index ? '#FFD700' : '#C19A6B');
+    });
   }
 
   private displayContinuePrompt(nextNodeId: string): void {
@@ -772,13 +468,13 @@ export class DialogueSystem {
     const boxX = this.dialogueContainer.getData('boxX') || 20;
     const boxY = this.dialogueContainer.getData('boxY') || 400;
 
-    const promptSize = 10;
+    const promptSize = Math.round(10 * getGameSettings().getTextScale());
     const padding = 12;
 
     const continueText = this.scene.add.text(
       boxX + padding,
-      boxY + boxHeight - 18,
-      '[Press SPACE to continue]',
+      boxY + boxHeight - promptSize - 8,
+      `[Press ${getInputBindings().getLabel('interact')} to continue]`,
       {
         fontFamily: 'Georgia, serif',
         fontSize: `${promptSize}px`,
@@ -789,9 +485,7 @@ export class DialogueSystem {
     continueText.setScrollFactor(0);
     this.dialogueContainer.add(continueText);
 
-    this.scene.input.keyboard?.once('keydown-SPACE', () => {
-      this.advanceToNode(nextNodeId);
-    });
+    this.onContinue = () => this.advanceToNode(nextNodeId);
   }
 
   private displayEndPrompt(): void {
@@ -801,13 +495,14 @@ export class DialogueSystem {
     const boxX = this.dialogueContainer.getData('boxX') || 20;
     const boxY = this.dialogueContainer.getData('boxY') || 400;
 
-    const promptSize = 10;
+    const promptSize = Math.round(10 * getGameSettings().getTextScale());
     const padding = 12;
+    const bindings = getInputBindings();
 
     const endText = this.scene.add.text(
       boxX + padding,
-      boxY + boxHeight - 18,
-      '[Press SPACE or ESC to close]',
+      boxY + boxHeight - promptSize - 8,
+      `[Press ${bindings.getLabel('interact')} or ${bindings.getLabel('menu')} to close]`,
       {
         fontFamily: 'Georgia, serif',
         fontSize: `${promptSize}px`,
@@ -818,28 +513,12 @@ export class DialogueSystem {
     endText.setScrollFactor(0);
     this.dialogueContainer.add(endText);
 
-    this.scene.input.keyboard?.once('keydown-SPACE', () => {
-      this.endDialogue();
-    });
+    this.onContinue = () => this.endDialogue();
   }
 
   private selectResponse(response: DialogueResponse): void {
-    // Apply effects
-    if (response.effects) {
-      this.applyEffects(response.effects);
-    }
-
-    // Check if this leads to trade
-    if (response.nextNode === 'trade') {
-      // Get the current NPC info from registry
-      const currentNPC = this.scene.registry.get('currentDialogueNPC');
-      const goods = currentNPC?.goods || ['good_pepper', 'good_cinnamon', 'good_cloves', 'good_silk', 'good_porcelain'];
-      const npcName = currentNPC?.name || this.currentNode?.speaker || 'Merchant';
-      
-      this.scene.events.emit('openTrade', {
-        npcName: npcName,
-        goods: goods,
-      });
+    // Apply effects; opening a trade, warehouse or ship panel ends the conversation
+    if (response.effects && this.applyEffects(response.effects)) {
       this.endDialogue();
       return;
     }
@@ -855,23 +534,12 @@ export class DialogueSystem {
   private advanceToNode(nodeId: string): void {
     if (!this.currentTree) return;
 
-    if (nodeId === 'end') {
-      // Show the end node, then close
-      const endNode = this.currentTree.nodes.get('end');
-      if (endNode) {
-        this.currentNode = endNode;
-        this.displayCurrentNode();
-      } else {
-        this.endDialogue();
-      }
-      return;
-    }
-
     const nextNode = this.currentTree.nodes.get(nodeId);
     if (nextNode) {
       // Apply node effects
-      if (nextNode.effects) {
-        this.applyEffects(nextNode.effects);
+      if (nextNode.effects && this.applyEffects(nextNode.effects)) {
+        this.endDialogue();
+        return;
       }
 
       this.currentNode = nextNode;
@@ -882,48 +550,87 @@ export class DialogueSystem {
     }
   }
 
-  private applyEffects(effects: DialogueEffect[]): void {
+  /**
+   * Apply dialogue effects
+   * @returns Whether one of them opened a panel in place of the conversation
+   */
+  private applyEffects(effects: DialogueEffect[]): boolean {
+    const currentNPC = this.scene.registry.get('currentDialogueNPC');
+    const npcMemory = this.scene.registry.get('npcMemorySystem');
+    const questSystem = this.scene.registry.get('questSystem');
+    let openedPanel = false;
+
     for (const effect of effects) {
       switch (effect.type) {
         case 'gold':
-          this.scene.events.emit('goldChange', effect.value);
+          this.events.emit('goldDelta', effect.value);
           break;
         case 'reputation':
-          this.scene.events.emit('reputationChange', {
-            target: effect.target,
-            value: effect.value,
-          });
+          this.events.emit('reputationDelta', { target: effect.target, value: effect.value });
           break;
         case 'item':
-          this.scene.events.emit('itemGained', {
-            item: effect.target,
-            quantity: effect.value,
-          });
+          this.events.emit('itemGained', { item: effect.target, quantity: effect.value });
           break;
         case 'flag':
-          this.scene.events.emit('flagSet', {
-            flag: effect.target,
-            value: effect.value,
+          this.events.emit('flagSet', { flag: effect.target, value: effect.value });
+          break;
+        case 'startQuest':
+          questSystem?.startQuest(effect.target);
+          break;
+        case 'advanceStage':
+          questSystem?.advanceStage(effect.target, effect.choice);
+          break;
+        case 'attitude':
+          if (this.currentNPCId) npcMemory?.adjustAttitude(this.currentNPCId, effect.value);
+          break;
+        case 'npcFlag':
+          if (this.currentNPCId) npcMemory?.setFlag(this.currentNPCId, effect.target, effect.value);
+          break;
+        case 'openTrade':
+          this.events.emit('openTrade', {
+            npcId: currentNPC?.id,
+            npcName: currentNPC?.name || this.currentNode?.speaker || 'Merchant',
+            goods: currentNPC?.goods || ['good_pepper', 'good_cinnamon', 'good_cloves', 'good_silk', 'good_porcelain'],
+          });
+          openedPanel = true;
+          break;
+        case 'openWarehouse':
+          // The warehouse master lets storage bays
+          this.events.emit('openWarehouse', {
+            npcId: currentNPC?.id,
+            npcName: currentNPC?.name || 'Warehouse Master',
+          });
+          openedPanel = true;
+          break;
+        case 'openShipTrade':
+          // Captains of moored ships trade from the hold
+          this.events.emit('openShipTrade', {
+            npcId: currentNPC?.id,
+            npcName: currentNPC?.name || 'Ship\'s Captain',
           });
+          openedPanel = true;
           break;
       }
     }
+
+    return openedPanel;
   }
 
   public endDialogue(): void {
+    const npcId = this.currentNPCId;
     this.isActive = false;
     this.currentTree = null;
     this.currentNode = null;
-
-    // Remove ESC key handler
-    this.scene.input.keyboard?.off('keydown-ESC', this.handleEscKey, this);
+    this.currentNPCId = undefined;
+    this.responseChoices = [];
+    this.onContinue = null;
 
     if (this.dialogueContainer) {
       this.dialogueContainer.destroy();
       this.dialogueContainer = null;
     }
 
-    this.scene.events.emit('dialogueEnd');
+    this.events.emit('dialogueEnd', { npcId });
   }
 
   public isDialogueActive(): boolean {
@@ -935,6 +642,5 @@ export class DialogueSystem {
    */
   public destroy(): void {
     this.endDialogue();
-    this.dialogueTrees.clear();
   }
 }
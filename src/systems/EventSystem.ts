@@ -1,5 +1,8 @@
 import Phaser from 'phaser';
 import { Season } from './WeatherSystem';
+import type { HarborSystem } from './HarborSystem';
+import { RandomStream, getRandomStream } from './RandomSystem';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 /**
  * EventSystem - Manages world events, particularly ship arrivals and departures
@@ -38,13 +41,16 @@ export interface ActiveEvent {
 }
 
 export interface ShipArrivalData {
+  shipId: string;
   shipType: ShipType;
   cargo: { goodId: string; quantity: number }[];
   captainName: string;
   stayDuration: number;
+  exportOpportunity: { goodId: string; demandPrice: number }[]; // Goods captain wants to buy
 }
 
 export interface ShipDepartureData {
+  shipId: string;
   shipType: ShipType;
   captainName: string;
   exportOpportunity: { goodId: string; demandPrice: number }[]; // Goods captain wants to buy
@@ -63,13 +69,15 @@ export interface CargoDemandData {
 }
 
 export class EventSystem {
-  private scene: Phaser.Scene;
+  private events: GameEventBus;
+  private random: RandomStream;
   private scheduledEvents: ScheduledEvent[] = [];
   private activeEvents: ActiveEvent[] = [];
   private eventIdCounter = 0;
   private currentDay = 1;
   private weatherSystem?: any; // WeatherSystem reference
   private tradeSystem?: any; // TradeSystem reference
+  private harborSystem?: HarborSystem;
   
   // Ship type definitions
   private readonly shipTypes: ShipType[] = [
@@ -134,7 +142,8 @@ export class EventSystem {
   };
 
   constructor(scene: Phaser.Scene) {
-    this.scene = scene;
+    this.events = getGameEvents(scene);
+    this.random = getRandomStream(scene, 'events');
     this.setupEventListeners();
   }
 
@@ -149,9 +158,13 @@ export class EventSystem {
     this.tradeSystem = tradeSystem;
   }
 
+  public setHarborSystem(harborSystem: HarborSystem): void {
+    this.harborSystem = harborSystem;
+  }
+
   private setupEventListeners(): void {
     // Listen for day changes to check for ship arrivals
-    this.scene.events.on('newDay', (data: { dayCount: number }) => {
+    this.events.on('newDay', (data: { dayCount: number }) => {
       this.currentDay = data.dayCount;
       this.checkScheduledEvents();
       this.checkShipArrivals();
@@ -159,7 +172,7 @@ export class EventSystem {
     });
 
     // Listen for season changes to adjust arrival probabilities
-    this.scene.events.on('seasonChange', () => {
+    this.events.on('seasonChange', () => {
       // Reschedule any pending arrivals based on new season
       this.adjustScheduledEventsForSeason();
     });
@@ -184,7 +197,7 @@ export class EventSystem {
     for (const shipType of this.shipTypes) {
       const arrivalProbability = this.calculateArrivalProbability(shipType, season, tradeModifier);
       
-      if (Math.random() < arrivalProbability) {
+      if (this.random.next() < arrivalProbability) {
         this.triggerShipArrival(shipType);
       }
     }
@@ -221,7 +234,7 @@ export class EventSystem {
    */
   private triggerShipArrival(shipType: ShipType): void {
     const stayDuration = shipType.stayDuration.min + 
-      Math.floor(Math.random() * (shipType.stayDuration.max - shipType.stayDuration.min + 1));
+      Math.floor(this.random.next() * (shipType.stayDuration.max - shipType.stayDuration.min + 1));
     
     const captainName = this.getRandomCaptainName(shipType.id);
     
@@ -229,18 +242,19 @@ export class EventSystem {
     const cargo = shipType.typicalCargo.map(cargoItem => ({
       goodId: cargoItem.goodId,
       quantity: cargoItem.quantity > 0 
-        ? Math.max(1, cargoItem.quantity + Math.floor((Math.random() - 0.5) * cargoItem.quantity))
+        ? Math.max(1, cargoItem.quantity + Math.floor((this.random.next() - 0.5) * cargoItem.quantity))
         : 0, // Ships that come to buy don't bring cargo
     })).filter(c => c.quantity > 0); // Only include goods with quantity > 0
     
+    const eventId = `ship_arrival_${this.generateEventId()}`;
     const arrivalData: ShipArrivalData = {
+      shipId: eventId,
       shipType,
       cargo,
       captainName,
       stayDuration,
+      exportOpportunity: this.generateExportOpportunity(shipType),
     };
-
-    const eventId = `ship_arrival_${this.generateEventId()}`;
     
     // Create active event
     const activeEvent: ActiveEvent = {
@@ -254,10 +268,14 @@ export class EventSystem {
     this.activeEvents.push(activeEvent);
     
     // Emit ship arrival event
-    this.scene.events.emit('ship_arrival', arrivalData);
+    this.events.emit('ship_arrival', arrivalData);
     
+    // A ship that ties up at the docks keeps its cargo aboard for the
+    // player's first pick; HarborSystem lands the rest later
+    const moored = this.harborSystem?.moorShip(arrivalData) ?? false;
+
     // If ship has cargo, trigger cargo_unloaded event
-    if (cargo.length > 0) {
+    if (cargo.length > 0 && !moored) {
       this.triggerCargoUnloaded(cargo);
     }
     
@@ -266,9 +284,10 @@ export class EventSystem {
       type: 'ship_departure',
       scheduledFor: this.currentDay + stayDuration,
       data: {
+        shipId: eventId,
         shipType,
         captainName,
-        exportOpportunity: this.generateExportOpportunity(shipType),
+        exportOpportunity: arrivalData.exportOpportunity,
       } as ShipDepartureData,
     });
     
@@ -302,7 +321,7 @@ export class EventSystem {
     }
     
     // Emit event for UI notifications
-    this.scene.events.emit('cargo_unloaded', unloadData);
+    this.events.emit('cargo_unloaded', unloadData);
     
     console.log(`Cargo unloaded: ${cargo.map(c => `${c.quantity}x ${c.goodId}`).join(', ')}`);
   }
@@ -379,9 +398,7 @@ export class EventSystem {
   private triggerShipDeparture(departureData: ShipDepartureData): void {
     // Remove the corresponding arrival event
     this.activeEvents = this.activeEvents.filter(
-      event => !(event.type === 'ship_arrival' && 
-        (event.data as ShipArrivalData).shipType.id === departureData.shipType.id &&
-        (event.data as ShipArrivalData).captainName === departureData.captainName)
+      event => !(event.type === 'ship_arrival' && event.id === departureData.shipId)
     );
     
     // Create cargo demand events for export opportunities
@@ -390,7 +407,7 @@ export class EventSystem {
         const demandData: CargoDemandData = {
           goodId: opportunity.goodId,
           demandPrice: opportunity.demandPrice,
-          quantity: 5 + Math.floor(Math.random() * 10), // 5-15 units
+          quantity: 5 + Math.floor(this.random.next() * 10), // 5-15 units
           expiresAt: this.currentDay + 1, // Opportunity lasts 1 day
         };
         
@@ -406,12 +423,12 @@ export class EventSystem {
         this.activeEvents.push(activeEvent);
         
         // Emit event for UI
-        this.scene.events.emit('cargo_demand', demandData);
+        this.events.emit('cargo_demand', demandData);
       }
     }
     
     // Emit departure event
-    this.scene.events.emit('ship_departure', departureData);
+    this.events.emit('ship_departure', departureData);
     
     console.log(`Ship departed: ${departureData.shipType.name}, Captain ${departureData.captainName}`);
   }
@@ -456,7 +473,7 @@ export class EventSystem {
           data: demandData,
         };
         this.activeEvents.push(activeEvent);
-        this.scene.events.emit('cargo_demand', demandData);
+        this.events.emit('cargo_demand', demandData);
         break;
       default:
         console.warn(`Unknown event type: ${type}`);
@@ -504,12 +521,13 @@ export class EventSystem {
   private adjustScheduledEventsForSeason(): void {
     const season = this.weatherSystem?.getCurrentSeason() || 'dry';
     
-    // During monsoon, cancel some scheduled arrivals
+    // During monsoon, cancel some scheduled arrivals (ships already in
+    // port still leave, or they would hold their berth for ever)
     if (season === 'monsoon') {
       this.scheduledEvents = this.scheduledEvents.filter(event => {
-        if (event.type === 'ship_arrival' || event.type === 'ship_departure') {
+        if (event.type === 'ship_arrival') {
           // 80% chance to cancel during monsoon
-          return Math.random() > 0.8;
+          return this.random.next() > 0.8;
         }
         return true;
       });
@@ -532,7 +550,7 @@ export class EventSystem {
       nameList = this.captainNames.local;
     }
     
-    return nameList[Math.floor(Math.random() * nameList.length)];
+    return this.random.pick(nameList);
   }
 
   /**
@@ -546,8 +564,8 @@ export class EventSystem {
    * Clean up event listeners and data to prevent memory leaks
    */
   public destroy(): void {
-    this.scene.events.off('newDay');
-    this.scene.events.off('seasonChange');
+    this.events.off('newDay');
+    this.events.off('seasonChange');
     this.scheduledEvents = [];
     this.activeEvents = [];
   }
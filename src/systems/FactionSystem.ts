@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 /**
  * FactionSystem - Manages the three thematic factions and player reputation
@@ -56,7 +57,7 @@ export interface ReputationRequirement {
 }
 
 export class FactionSystem {
-  private scene: Phaser.Scene;
+  private events: GameEventBus;
   private factions: Map<string, Faction> = new Map();
   private reputation: Map<string, number> = new Map();
 
@@ -114,7 +115,7 @@ export class FactionSystem {
   ];
 
   constructor(scene: Phaser.Scene) {
-    this.scene = scene;
+    this.events = getGameEvents(scene);
     this.initializeFactions();
     this.initializeReputation();
   }
@@ -164,11 +165,11 @@ export class FactionSystem {
       amount,
     };
 
-    this.scene.events.emit('reputationChange', event);
+    this.events.emit('reputationChange', event);
 
     // Emit level change event if level changed
     if (previousLevel !== newLevel) {
-      this.scene.events.emit('reputationLevelChange', {
+      this.events.emit('reputationLevelChange', {
         factionId,
         previousLevel,
         newLevel,
@@ -294,6 +295,25 @@ export class FactionSystem {
     return faction?.keyNPCs ?? [];
   }
 
+  /**
+   * Add an NPC to a faction's key NPCs (used for the NPC roster)
+   * @param factionId The faction to join
+   * @param npc The NPC to add; ignored if already a member
+   * @returns False if the faction does not exist
+   */
+  public addKeyNPC(factionId: string, npc: FactionNPC): boolean {
+    const faction = this.factions.get(factionId);
+    if (!faction) {
+      console.warn(`FactionSystem: Cannot add ${npc.id} to unknown faction ${factionId}`);
+      return false;
+    }
+
+    if (!faction.keyNPCs.some((existing) => existing.id === npc.id)) {
+      faction.keyNPCs.push(npc);
+    }
+    return true;
+  }
+
   /**
    * Check if an NPC belongs to a specific faction
    * @param npcId The NPC ID to check
@@ -368,7 +388,7 @@ export class FactionSystem {
       this.reputation.set(factionId, 0);
     }
 
-    this.scene.events.emit('reputationReset');
+    this.events.emit('reputationReset');
   }
 
   /**
@@ -394,7 +414,7 @@ export class FactionSystem {
       }
     }
 
-    this.scene.events.emit('reputationLoaded', this.getReputationSummary());
+    this.events.emit('reputationLoaded', this.getReputationSummary());
   }
 
   /**
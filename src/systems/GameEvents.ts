@@ -0,0 +1,220 @@
+import Phaser from 'phaser';
+import type { Achievement, AchievementProgress, AchievementSystem } from './AchievementSystem';
+import type { ColorGrade, LightingConfig, LocationAtmosphere } from './AtmosphereSystem';
+import type { CalendarDate } from './Calendar';
+import type { ActiveContract, TradeContract } from './ContractSystem';
+import type { CargoDemandData, CargoUnloadedData, ShipArrivalData, ShipDepartureData } from './EventSystem';
+import type { Faction, FactionSystem, ReputationChangeEvent, ReputationLevel } from './FactionSystem';
+import type { GameSettingsData } from './GameSettings';
+import type { HaggleCompletedEvent } from './HagglingSystem';
+import type { MooredShip } from './HarborSystem';
+import type { NPCMemory, NPCMemorySystem } from './NPCMemorySystem';
+import type { NPCArrivalEvent } from './NPCSimulationSystem';
+import type { MerchantRank, ProgressionSystem, RankData } from './ProgressionSystem';
+import type { Quest, QuestChoiceEffect, QuestReward, QuestStage } from './QuestSystem';
+import type { SaveData, SaveEventData, SystemSaveDataResponse } from './SaveSystem';
+import type { Perk } from './SkillTree';
+import type { TimeSystem } from './TimeSystem';
+import type { ActiveExpedition, TradeRoute, TradeRouteSystem, VoyageIncident } from './TradeRouteSystem';
+import type { TradeSystem } from './TradeSystem';
+import type { StoredGood, WarehouseLossEvent, WarehouseState } from './WarehouseSystem';
+import type { Season, WeatherState } from './WeatherSystem';
+import type { SeasonalWindPattern, WindState } from './WindSystem';
+import type { LocationChangeEvent, LocationConnection } from './WorldSystem';
+
+/**
+ * GameEvents - The events systems and scenes send each other, and what they carry
+ *
+ * Systems never call each other for news: TimeSystem announces the hour,
+ * Player its gold, ContractSystem a finished contract, and whoever cares
+ * listens on the MarketScene's event emitter. This map is the contract for
+ * that traffic. Every event is named here with its payload (void for none),
+ * and getGameEvents() hands out the scene's emitter typed against it, so an
+ * emit with the wrong payload or a listener expecting the wrong one fails
+ * to compile instead of quietly reading undefined.
+ *
+ * Adding an event means adding it here first.
+ */
+
+export type TimeData = ReturnType<TimeSystem['getTimeData']>;
+
+export type TradeAction = { good: string; price: number; quantity: number; npcId?: string };
+
+export interface NotificationEvent {
+  title: string;
+  message: string;
+  type?: 'info' | 'success' | 'warning' | 'error' | 'achievement';
+  /** Set on a voyage decision, whose choices the player answers from the notice */
+  expeditionId?: string;
+  choices?: { id: string; label: string }[];
+}
+
+export interface GameEvents {
+  // Time and weather
+  hourChange: TimeData;
+  minuteChange: { hour: number; minute: number }; // Listened for; nothing announces minutes yet
+  newDay: { dayCount: number; date: CalendarDate };
+  periodChange: { previous: string; current: string; isMarketOpen: boolean };
+  lightingChange: { period: string; color: number };
+  timeUpdate: TimeData & { weather: WeatherState; weatherDescription: string; season: Season };
+  weatherChange: { previous: WeatherState; current: WeatherState; intensity: number; season: Season };
+  seasonChange: { previous: Season; current: Season; description: string; tradeModifier: number };
+  lightning: { intensity: number; thunderDelay: number };
+  thunder: { volume: number; distance: number };
+  groundWetnessChange: { wetness: number; darkening: number };
+  windSeasonChange: { season: Season; pattern: SeasonalWindPattern };
+  windUpdate: WindState;
+  lightingUpdate: { hour: number; minute: number; lighting: LightingConfig; isGoldenHour: boolean };
+  atmosphereChange: { location: string; atmosphere: LocationAtmosphere };
+  colorGradeChange: { location: string; colorGrade: ColorGrade };
+  depthUpdate: { id: string; depth: number }; // Listened for; nothing sends depth updates yet
+
+  // Player. goldDelta asks MarketScene to pay or charge the player an amount;
+  // goldTotal is the player's purse after any change, however it came about
+  goldDelta: number;
+  goldTotal: number;
+  inventoryChange: { item: string; quantity: number }[];
+  capacityChange: { current: number; max: number };
+  skillUp: { skill: string; newLevel: number };
+  skillChange: { skill: string; value: number };
+  perkLearned: Perk;
+  itemGained: { item: string; quantity: number };
+  itemLost: { item: string; quantity: number };
+
+  // Trading
+  playerBuy: TradeAction;
+  playerSell: TradeAction;
+  openTrade: { npcId?: string; npcName: string; goods: string[] };
+  marketUpdate: ReturnType<TradeSystem['getMarketSummary']>;
+  npcTrade: { trader: string; action: 'bought' | 'sold'; goodId: string; quantity: number; price: number };
+  shipArrival: { goodId: string; quantity: number }[];
+  priceLedgerUpdate: void;
+  haggleCompleted: HaggleCompletedEvent;
+  haggleEnded: { npcId: string; goodId: string; by: 'player' | 'vendor' };
+
+  // Harbour and ships
+  ship_arrival: ShipArrivalData;
+  ship_departure: ShipDepartureData;
+  cargo_unloaded: CargoUnloadedData;
+  cargo_demand: CargoDemandData;
+  shipMoored: MooredShip;
+  shipCastOff: MooredShip;
+  shipCargoChange: MooredShip;
+  openShipTrade: { npcId?: string; npcName: string };
+
+  // Warehouse
+  openWarehouse: { npcId?: string; npcName: string };
+  warehouseChange: WarehouseState;
+  warehouseLoss: WarehouseLossEvent;
+  warehouseSeized: { seized: StoredGood[] };
+
+  // Contracts
+  contractsRefreshed: TradeContract[];
+  contractAccepted: ActiveContract;
+  contractProgress: { contractId: string; delivered: number; required: number };
+  contractCompleted: ActiveContract;
+  contractFailed: ActiveContract;
+  contractCanceled: ActiveContract;
+  contractsLoaded: { active: ActiveContract[]; available: TradeContract[] };
+
+  // Trade routes
+  expeditionStarted: {
+    expeditionId: string;
+    route: TradeRoute;
+    goods: ActiveExpedition['goods'];
+    returnTime: number;
+    expectedReturn: number;
+  };
+  expeditionReturning: { expeditionId: string };
+  voyageDecision: { expeditionId: string; route: TradeRoute; incident: VoyageIncident };
+  voyageIncident: { expeditionId: string; route: TradeRoute; incident: VoyageIncident; choiceId?: string; summary: string };
+  expeditionLost: { expeditionId: string; route: TradeRoute; investment: number };
+  expeditionCompleted: { expeditionId: string; route: TradeRoute; investment: number; return: number; profit: number };
+  tradeRoutesLoaded: { active: ReturnType<TradeRouteSystem['getActiveExpeditions']>; stats: ReturnType<TradeRouteSystem['getStats']> };
+
+  // Factions. reputationDelta asks for a faction's standing to move;
+  // reputationChange is FactionSystem reporting that it has
+  reputationDelta: { target: string; value: number };
+  reputationChange: ReputationChangeEvent;
+  reputationLevelChange: { factionId: string; previousLevel: ReputationLevel; newLevel: ReputationLevel; faction?: Faction };
+  reputationReset: void;
+  reputationLoaded: ReturnType<FactionSystem['getReputationSummary']>;
+
+  // Progression and achievements
+  progressionUpdate: ReturnType<ProgressionSystem['getProgressionData']>;
+  progressionLoaded: ReturnType<ProgressionSystem['getProgressionData']>;
+  rankUp: { previousRank: MerchantRank; newRank: MerchantRank; rankInfo: RankData };
+  featureUnlocked: string;
+  capacityBonus: number;
+  skillBonus: { skill: string; amount: number };
+  achievementUnlocked: { achievement: Achievement; progress: AchievementProgress };
+  achievementsLoaded: { unlocked: Achievement[]; completion: ReturnType<AchievementSystem['getCompletionPercentage']> };
+
+  // NPCs
+  npcInteraction: { npcId: string; npcName: string };
+  npcArrived: NPCArrivalEvent;
+  npcMemoryUpdated: { npcId: string; memory: NPCMemory };
+  npcAttitudeChange: { npcId: string; previousLevel: string; newLevel: string; attitude: number };
+  npcMemoriesLoaded: ReturnType<NPCMemorySystem['getRelationshipSummary']>;
+
+  // Quests and dialogue
+  questOffer: { npcId: string; npcName: string; quests: Quest[] };
+  questStarted: { questId: string; quest: Quest; stage: QuestStage };
+  questStageAdvanced: { questId: string; quest: Quest; previousStage: QuestStage; currentStage: QuestStage; stageIndex: number };
+  questChoice: { questId: string; choiceId: string; npcId?: string }; // Listened for; choices are not announced yet
+  questCompleted: { questId: string; quest: Quest; rewards: QuestReward[] };
+  questFailed: { questId: string; quest: Quest };
+  questEffect: QuestChoiceEffect;
+  questStateChange: void;
+  questStateLoaded: void;
+  flagSet: { flag: string; value: number | string | boolean };
+  unlock: { type: string; value: number | string | boolean };
+  dialogueEnd: { npcId?: string };
+
+  // World
+  locationChange: LocationChangeEvent;
+  requestLocationChange: string;
+  requestFastTravel: string; // A neighbouring location picked on the map; the walk takes game time
+  transitionBlocked: { connection: LocationConnection; reason?: string };
+  transitionZoneEntered: { connection: LocationConnection; displayName: string };
+  showTransitionPrompt: string;
+  hideTransitionPrompt: void;
+  zoneEnter: string; // Listened for; nothing names the zone the player walks into yet
+
+  // Saving
+  requestSaveData: void;
+  saveDataResponse: SystemSaveDataResponse;
+  restoreSaveData: SaveData;
+  gameSaved: SaveEventData;
+  gameLoaded: SaveEventData;
+  autoSaveComplete: { timestamp: number };
+  saveDeleted: { slotId: string };
+
+  // Settings
+  settingsChanged: GameSettingsData;
+
+  notification: NotificationEvent;
+}
+
+export type GameEventName = keyof GameEvents;
+
+/** An event's payload as listener arguments: none for void, otherwise one */
+type EventArgs<K extends GameEventName> = [GameEvents[K]] extends [void] ? [] : [GameEvents[K]];
+
+/**
+ * A scene's event emitter, typed against GameEvents
+ */
+export interface GameEventBus {
+  emit<K extends GameEventName>(event: K, ...args: EventArgs<K>): boolean;
+  on<K extends GameEventName>(event: K, fn: (...args: EventArgs<K>) => void, context?: unknown): this;
+  once<K extends GameEventName>(event: K, fn: (...args: EventArgs<K>) => void, context?: unknown): this;
+  off<K extends GameEventName>(event: K, fn?: (...args: EventArgs<K>) => void, context?: unknown): this;
+}
+
+/**
+ * The scene's event emitter as a GameEventBus. It is the same emitter, so
+ * code still holding scene.events sees the same traffic.
+ */
+export function getGameEvents(scene: Phaser.Scene): GameEventBus {
+  return scene.events as unknown as GameEventBus;
+}
@@ -0,0 +1,185 @@
+/**
+ * GameSettings - The player's audio, graphics and accessibility options
+ *
+ * Kept in localStorage apart from the saves, like the key bindings. Most
+ * options take effect at once: SettingsScene sets the volumes on the
+ * AudioSystem and emits settingsChanged for MarketScene's clock and
+ * overlays, while conversations, the trade and inventory panels and
+ * lightning read their options each time they draw. Art quality is read by BootScene as it generates the
+ * textures, so it takes effect the next time the game starts.
+ */
+
+import type { QualityLevel } from '../art/ArtGenerator';
+
+export type TextSize = 'normal' | 'large' | 'larger';
+
+export interface GameSettingsData {
+  masterVolume: number; // 0-1
+  musicVolume: number; // 0-1
+  sfxVolume: number; // 0-1
+  ambientVolume: number; // 0-1
+  quality: QualityLevel;
+  scanlines: boolean;
+  vignette: boolean;
+  textSize: TextSize;
+  timeScale: number; // TimeSystem's scale: 60 is one game minute each real second
+  reducedFlashing: boolean; // Lightning glows faintly instead of flashing the screen
+}
+
+export const DEFAULT_SETTINGS: GameSettingsData = {
+  masterVolume: 0.7,
+  musicVolume: 0.5,
+  sfxVolume: 0.8,
+  ambientVolume: 0.6,
+  quality: 'high',
+  scanlines: true,
+  vignette: false,
+  textSize: 'normal',
+  timeScale: 60,
+  reducedFlashing: false,
+};
+
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high'];
+
+export const TEXT_SCALES: Record<TextSize, number> = {
+  normal: 1,
+  large: 1.25,
+  larger: 1.5,
+};
+
+/** The game speeds on offer; 60 is one game minute each real second */
+export const TIME_SCALES = [30, 60, 120, 240];
+
+/** localStorage key the settings are kept under */
+const STORAGE_KEY = 'goa_trade_settings';
+
+const VOLUME_KEYS = ['masterVolume', 'musicVolume', 'sfxVolume', 'ambientVolume'] as const;
+const TOGGLE_KEYS = ['scanlines', 'vignette', 'reducedFlashing'] as const;
+
+export type VolumeSetting = (typeof VOLUME_KEYS)[number];
+
+// The parts of AudioSystem the volumes are set on
+export interface VolumeControls {
+  setMasterVolume(volume: number): void;
+  setMusicVolume(volume: number): void;
+  setSfxVolume(volume: number): void;
+  setAmbientVolume(volume: number): void;
+}
+
+export class GameSettings {
+  private storage: Storage | null;
+  private settings: GameSettingsData = { ...DEFAULT_SETTINGS };
+
+  constructor(storage: Storage | null = getLocalStorage()) {
+    this.storage = storage;
+    this.load();
+  }
+
+  public get(): GameSettingsData {
+    return { ...this.settings };
+  }
+
+  /**
+   * Change one option, if the value is one it can take
+   * @returns False if the value was refused
+   */
+  public set<K extends keyof GameSettingsData>(key: K, value: GameSettingsData[K]): boolean {
+    if (!isValidSetting(key, value)) {
+      return false;
+    }
+    this.settings[key] = value;
+    this.save();
+    return true;
+  }
+
+  public resetToDefaults(): void {
+    this.settings = { ...DEFAULT_SETTINGS };
+    this.save();
+  }
+
+  /**
+   * Multiplier on the size of the text in conversations and in the trade
+   * and inventory panels
+   */
+  public getTextScale(): number {
+    return TEXT_SCALES[this.settings.textSize];
+  }
+
+  public applyVolumes(audio: VolumeControls | null | undefined): void {
+    if (!audio) return;
+    audio.setMasterVolume(this.settings.masterVolume);
+    audio.setMusicVolume(this.settings.musicVolume);
+    audio.setSfxVolume(this.settings.sfxVolume);
+    audio.setAmbientVolume(this.settings.ambientVolume);
+  }
+
+  // Options missing or unusable in storage keep their defaults
+  private load(): void {
+    let stored: unknown;
+    try {
+      const raw = this.storage?.getItem(STORAGE_KEY);
+      stored = raw ? JSON.parse(raw) : null;
+    } catch (e) {
+      console.warn('GameSettings: could not read saved settings', e);
+      return;
+    }
+    if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return;
+
+    for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof GameSettingsData)[]) {
+      const value = (stored as Record<string, unknown>)[key];
+      if (isValidSetting(key, value)) {
+        (this.settings as unknown as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (e) {
+      console.warn('GameSettings: could not save settings', e);
+    }
+  }
+}
+
+function isValidSetting(key: keyof GameSettingsData, value: unknown): boolean {
+  if ((VOLUME_KEYS as readonly string[]).includes(key)) {
+    return typeof value === 'number' && value >= 0 && value <= 1;
+  }
+  if ((TOGGLE_KEYS as readonly string[]).includes(key)) {
+    return typeof value === 'boolean';
+  }
+  switch (key) {
+    case 'quality':
+      return QUALITY_LEVELS.includes(value as QualityLevel);
+    case 'textSize':
+      return Object.keys(TEXT_SCALES).includes(value as string);
+    case 'timeScale':
+      return TIME_SCALES.includes(value as number);
+    default:
+      return false;
+  }
+}
+
+/**
+ * window.localStorage, or null where there is none or it is blocked
+ */
+export function getLocalStorage(): Storage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+}
+
+let sharedGameSettings: GameSettings | null = null;
+
+/**
+ * Get the player's settings (loaded once and shared by every scene)
+ */
+export function getGameSettings(): GameSettings {
+  if (!sharedGameSettings) {
+    sharedGameSettings = new GameSettings();
+  }
+  return sharedGameSettings;
+}
@@ -0,0 +1,225 @@
+/**
+ * GoodsCatalog - The validated list of trade goods, loaded from goods.json
+ *
+ * Every part of the game that needs to know which commodities exist - the
+ * market simulation, trade posts, the icon generator and the trade ledger -
+ * reads them from here. Adding a commodity means adding an entry to
+ * src/data/goods.json; the catalog validates the file and reports any
+ * schema errors, which BootScene surfaces before the game starts.
+ *
+ * Historical context: the goods are those recorded passing through the
+ * Goa customs house in the 1590s - Malabar pepper, Ceylon cinnamon,
+ * Moluccan cloves, Chinese silk and porcelain, Gujarati indigo.
+ */
+
+import goodsData from '../data/goods.json';
+
+/**
+ * Shapes the icon generator knows how to draw
+ */
+export type GoodIconShape = 'seeds' | 'bark' | 'bud' | 'cloth' | 'ceramic' | 'nut' | 'root' | 'block';
+
+const ICON_SHAPES: GoodIconShape[] = ['seeds', 'bark', 'bud', 'cloth', 'ceramic', 'nut', 'root', 'block'];
+
+// Trade good definition with historical context
+export interface TradeGood {
+  id: string;
+  name: string;
+  basePrice: number;
+  category: string;
+  origin: string;
+  description: string;
+  weight: number; // Affects carry capacity
+  rarity: number; // 1-10, affects price volatility
+  historicalNote?: string;
+  icon: { color: string; shape: GoodIconShape };
+}
+
+export interface GoodCategory {
+  id: string;
+  name: string;
+  description: string;
+  // Daily chance per stored unit of being lost in a warehouse
+  storage: { spoilage: number; theft: number };
+}
+
+export class GoodsCatalog {
+  private goods: Map<string, TradeGood> = new Map();
+  private categories: Map<string, GoodCategory> = new Map();
+  private errors: string[] = [];
+
+  constructor(data: unknown) {
+    this.parse(data);
+  }
+
+  /**
+   * Schema errors found while loading; invalid goods are left out of the catalog
+   */
+  public getErrors(): string[] {
+    return [...this.errors];
+  }
+
+  public isValid(): boolean {
+    return this.errors.length === 0;
+  }
+
+  public getAll(): TradeGood[] {
+    return Array.from(this.goods.values());
+  }
+
+  public getAllIds(): string[] {
+    return Array.from(this.goods.keys());
+  }
+
+  public get(goodId: string): TradeGood | undefined {
+    return this.goods.get(goodId);
+  }
+
+  public has(goodId: string): boolean {
+    return this.goods.has(goodId);
+  }
+
+  public getCategory(categoryId: string): GoodCategory | undefined {
+    return this.categories.get(categoryId);
+  }
+
+  public getCategories(): GoodCategory[] {
+    return Array.from(this.categories.values());
+  }
+
+  /**
+   * Display name for a good, falling back to the id for unknown goods
+   */
+  public getName(goodId: string): string {
+    const good = this.goods.get(goodId);
+    if (good) return good.name;
+
+    const bare = goodId.replace('good_', '');
+    return bare.charAt(0).toUpperCase() + bare.slice(1);
+  }
+
+  private parse(data: unknown): void {
+    if (!isRecord(data)) {
+      this.errors.push('goods.json: root must be an object');
+      return;
+    }
+
+    // Categories first so goods can be checked against them
+    if (!isRecord(data.categories)) {
+      this.errors.push('goods.json: "categories" must be an object');
+    } else {
+      for (const [id, value] of Object.entries(data.categories)) {
+        if (!isRecord(value) || typeof value.name !== 'string') {
+          this.errors.push(`goods.json: category "${id}" needs a name`);
+          continue;
+        }
+        const storage = isRecord(value.storage) ? value.storage : {};
+        if (value.storage !== undefined && (!isChance(storage.spoilage) || !isChance(storage.theft))) {
+          this.errors.push(`goods.json: category "${id}": "storage" needs spoilage and theft chances from 0 to 1`);
+        }
+        this.categories.set(id, {
+          id,
+          name: value.name,
+          description: typeof value.description === 'string' ? value.description : '',
+          storage: {
+            spoilage: isChance(storage.spoilage) ? storage.spoilage : 0,
+            theft: isChance(storage.theft) ? storage.theft : 0,
+          },
+        });
+      }
+    }
+
+    if (!Array.isArray(data.goods)) {
+      this.errors.push('goods.json: "goods" must be an array');
+      return;
+    }
+
+    data.goods.forEach((entry, index) => {
+      const good = this.parseGood(entry, index);
+      if (good) {
+        this.goods.set(good.id, good);
+      }
+    });
+  }
+
+  private parseGood(entry: unknown, index: number): TradeGood | null {
+    const label = isRecord(entry) && typeof entry.id === 'string' ? entry.id : `goods[${index}]`;
+    const problems: string[] = [];
+
+    if (!isRecord(entry)) {
+      this.errors.push(`goods.json: ${label} must be an object`);
+      return null;
+    }
+
+    if (typeof entry.id !== 'string' || !entry.id.startsWith('good_')) {
+      problems.push('"id" must be a string starting with "good_"');
+    } else if (this.goods.has(entry.id)) {
+      problems.push('duplicate id');
+    }
+    for (const field of ['name', 'origin', 'description']) {
+      if (typeof entry[field] !== 'string' || !entry[field]) {
+        problems.push(`"${field}" must be a non-empty string`);
+      }
+    }
+    if (entry.historicalNote !== undefined && typeof entry.historicalNote !== 'string') {
+      problems.push('"historicalNote" must be a string');
+    }
+    if (!isPositiveNumber(entry.basePrice)) {
+      problems.push('"basePrice" must be a positive number');
+    }
+    if (!isPositiveNumber(entry.weight)) {
+      problems.push('"weight" must be a positive number');
+    }
+    if (typeof entry.rarity !== 'number' || entry.rarity < 1 || entry.rarity > 10) {
+      problems.push('"rarity" must be a number from 1 to 10');
+    }
+    if (typeof entry.category !== 'string' || !this.categories.has(entry.category)) {
+      problems.push(`"category" must be one of: ${Array.from(this.categories.keys()).join(', ')}`);
+    }
+
+    const icon = entry.icon;
+    if (!isRecord(icon)) {
+      problems.push('"icon" must be an object with color and shape');
+    } else {
+      if (typeof icon.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(icon.color)) {
+        problems.push('"icon.color" must be a hex colour like "#8b4513"');
+      }
+      if (!ICON_SHAPES.includes(icon.shape as GoodIconShape)) {
+        problems.push(`"icon.shape" must be one of: ${ICON_SHAPES.join(', ')}`);
+      }
+    }
+
+    if (problems.length > 0) {
+      for (const problem of problems) {
+        this.errors.push(`goods.json: ${label}: ${problem}`);
+      }
+      return null;
+    }
+
+    return entry as unknown as TradeGood;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isChance(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+let sharedCatalog: GoodsCatalog | null = null;
+
+/**
+ * Get the catalog built from src/data/goods.json (parsed once and shared)
+ */
+export function loadGoodsCatalog(): GoodsCatalog {
+  if (!sharedCatalog) {
+    sharedCatalog = new GoodsCatalog(goodsData);
+  }
+  return sharedCatalog;
+}
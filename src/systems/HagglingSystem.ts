@@ -0,0 +1,343 @@
+import Phaser from 'phaser';
+import type { TraderPersonality } from './TradeSystem';
+import { loadNPCRegistry } from './NPCRegistry';
+import { GameEventBus, getGameEvents } from './GameEvents';
+import { RandomStream, getRandomStream } from './RandomSystem';
+
+/**
+ * HagglingSystem - Offer and counter-offer bargaining with vendors
+ *
+ * Historical context: prices in the Goa bazaar were rarely fixed. Linschoten
+ * describes buyers and sellers striking hands under a cloth to agree a price
+ * in secret, and a merchant's patience was as much a part of the deal as
+ * the goods themselves.
+ *
+ * Each haggle is over one unit of one good. The vendor opens at the market
+ * price and has a hidden limit it will not go past. How far that limit
+ * sits from the opening price depends on the vendor's personality, its
+ * faction's view of the player, its own attitude to the player and the
+ * player's negotiation skill. Every offer costs patience - insulting ones
+ * cost more - and a vendor who runs out walks away, souring the
+ * relationship. The player's appraisal skill sharpens their read of where
+ * the limit lies.
+ *
+ * A price agreed is only a bargain once the goods change hands: the caller
+ * makes the trade, then settles the deal with completeDeal(), or drops it
+ * with cancelDeal() if the trade could not go through.
+ */
+
+// How a personality bargains
+interface HaggleProfile {
+  patience: number;        // Offers the vendor will hear
+  maxDiscount: number;     // Furthest the vendor's limit moves from the opening price
+  concession: [number, number]; // Share of the gap closed each round (min, max)
+  insultMargin: number;    // Offers this far past the limit are an insult
+}
+
+export type HaggleOutcome = 'accepted' | 'countered' | 'walked_away';
+
+export interface HaggleSession {
+  npcId: string;
+  npcName: string;
+  goodId: string;
+  isBuying: boolean;       // True when the player is buying from the vendor
+  personality: TraderPersonality;
+  askingPrice: number;     // The vendor's opening price
+  counterPrice: number;    // The vendor's current price
+  patience: number;
+  maxPatience: number;
+  rounds: number;
+  appraisalHint: string;
+  lastMessage: string;
+}
+
+export interface HaggleResult {
+  outcome: HaggleOutcome;
+  price: number;
+  message: string;
+}
+
+export interface HaggleCompletedEvent {
+  npcId: string;
+  goodId: string;
+  isBuying: boolean;
+  askingPrice: number;
+  price: number;
+  rounds: number;
+}
+
+export class HagglingSystem {
+  private scene: Phaser.Scene;
+  private events: GameEventBus;
+  private random: RandomStream;
+  private session: HaggleSession | null = null;
+  // A price agreed, waiting on the trade to go through
+  private agreedDeal: { session: HaggleSession; price: number } | null = null;
+  // The vendor's limit - the lowest it will sell at or the most it will pay
+  private limitPrice = 0;
+
+  private readonly profiles: Record<TraderPersonality, HaggleProfile> = {
+    aggressive: { patience: 3, maxDiscount: 0.12, concession: [0.25, 0.35], insultMargin: 0.15 },
+    cautious: { patience: 5, maxDiscount: 0.18, concession: [0.4, 0.55], insultMargin: 0.25 },
+    speculator: { patience: 4, maxDiscount: 0.28, concession: [0.15, 0.8], insultMargin: 0.3 },
+  };
+
+  private readonly lines: Record<TraderPersonality, { counter: string[]; accept: string[]; insulted: string[]; leave: string[] }> = {
+    aggressive: {
+      counter: ['That is robbery! {price} reis, and not a bazaruco less.', '{price}. Take it or leave my stall.'],
+      accept: ['Done. Now move along, others are waiting.', 'Fine, fine. Yours.'],
+      insulted: ['You insult me and my family!', 'Do I look like a fool fresh off the carrack?'],
+      leave: ['Enough! Go and waste someone else\'s morning.'],
+    },
+    cautious: {
+      counter: ['I could perhaps manage {price} reis.', 'Let us meet nearer the middle - {price}?'],
+      accept: ['Agreed. A fair price for fair goods.', 'Very well, we have a bargain.'],
+      insulted: ['Surely you jest, friend.', 'That would not even pay the customs duty.'],
+      leave: ['I am sorry, we cannot come to terms today.'],
+    },
+    speculator: {
+      counter: ['Hmm... {price} reis, and I am being generous.', 'The monsoon is coming, prices will rise. {price}.'],
+      accept: ['Ha! You drive a hard bargain. Agreed.', 'Very well - the ledger will forgive me.'],
+      insulted: ['Is this a joke? I have buyers from Hormuz waiting.', 'Now you are wasting my time.'],
+      leave: ['No, no. My price was my price. Good day.'],
+    },
+  };
+
+  // Attitude lost when the vendor gives up, or is insulted into it
+  private readonly walkAwayPenalty = 4;
+  private readonly insultedWalkAwayPenalty = 7;
+  // Attitude lost when the player abandons a haggle already under way
+  private readonly playerWalkAwayPenalty = 2;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+    this.events = getGameEvents(scene);
+    this.random = getRandomStream(scene, 'haggling');
+  }
+
+  /**
+   * Open a haggle with a vendor over one unit of a good
+   * @param askingPrice The vendor's opening price (its price if buying,
+   * its offer if the player is selling)
+   */
+  public startHaggle(npcId: string, npcName: string, goodId: string, isBuying: boolean, askingPrice: number): HaggleSession {
+    const personality = loadNPCRegistry().getPersonality(npcId);
+    const profile = this.profiles[personality];
+
+    // How far past the opening price this vendor can be pushed
+    const goodwill = Phaser.Math.Clamp(
+      0.5 + this.getSkill('negotiation') / 200 + this.getFactionStanding(npcId) / 400 + this.getAttitude(npcId) / 400,
+      0.2,
+      1.2
+    );
+    const flexibility = profile.maxDiscount * goodwill;
+    this.limitPrice = isBuying
+      ? Math.max(1, Math.ceil(askingPrice * (1 - flexibility)))
+      : Math.floor(askingPrice * (1 + flexibility));
+
+    this.session = {
+      npcId,
+      npcName,
+      goodId,
+      isBuying,
+      personality,
+      askingPrice,
+      counterPrice: askingPrice,
+      patience: profile.patience,
+      maxPatience: profile.patience,
+      rounds: 0,
+      appraisalHint: this.buildAppraisalHint(),
+      lastMessage: isBuying ? `${askingPrice} reis. What do you offer?` : `I will give you ${askingPrice} reis.`,
+    };
+
+    return { ...this.session };
+  }
+
+  public getSession(): HaggleSession | null {
+    return this.session ? { ...this.session } : null;
+  }
+
+  public isHaggling(): boolean {
+    return this.session !== null;
+  }
+
+  /**
+   * Make an offer - the price the player will pay, or wants to be paid
+   */
+  public makeOffer(offer: number): HaggleResult {
+    const session = this.session;
+    if (!session) {
+      return { outcome: 'walked_away', price: 0, message: 'There is no one to haggle with.' };
+    }
+
+    const profile = this.profiles[session.personality];
+    offer = Math.max(1, Math.round(offer));
+    session.rounds++;
+
+    // Meeting or beating the vendor's own price closes the deal at that price
+    if (session.isBuying ? offer >= session.counterPrice : offer <= session.counterPrice) {
+      return this.accept(session.counterPrice);
+    }
+
+    const insultLimit = session.isBuying
+      ? this.limitPrice * (1 - profile.insultMargin)
+      : this.limitPrice * (1 + profile.insultMargin);
+    const insulting = session.isBuying ? offer < insultLimit : offer > insultLimit;
+    session.patience -= insulting ? 2 : 1;
+
+    // The vendor gives ground, but never past its limit
+    const [minConcession, maxConcession] = profile.concession;
+    const concession = this.random.range(minConcession, maxConcession);
+    const gap = offer - session.counterPrice;
+    const moved = Math.round(session.counterPrice + gap * concession);
+    const newCounter = session.isBuying ? Math.max(this.limitPrice, moved) : Math.min(this.limitPrice, moved);
+
+    // An offer inside the limit that the counter has nearly reached is taken
+    const withinLimit = session.isBuying ? offer >= this.limitPrice : offer <= this.limitPrice;
+    const closeEnough = Math.abs(newCounter - offer) <= Math.max(1, session.askingPrice * 0.03);
+    if (!insulting && withinLimit && closeEnough) {
+      return this.accept(offer);
+    }
+
+    if (session.patience <= 0) {
+      return this.vendorWalksAway(insulting);
+    }
+
+    session.counterPrice = newCounter;
+    session.lastMessage = insulting
+      ? `${this.pick(this.lines[session.personality].insulted)} ${newCounter} reis.`
+      : this.pick(this.lines[session.personality].counter).replace('{price}', `${newCounter}`);
+
+    return { outcome: 'countered', price: newCounter, message: session.lastMessage };
+  }
+
+  /**
+   * Take the vendor's current price
+   */
+  public acceptCounter(): HaggleResult {
+    if (!this.session) {
+      return { outcome: 'walked_away', price: 0, message: 'There is no one to haggle with.' };
+    }
+    return this.accept(this.session.counterPrice);
+  }
+
+  /**
+   * The player abandons the haggle; vendors remember being left mid-bargain
+   */
+  public walkAway(): void {
+    const session = this.session;
+    if (!session) return;
+
+    if (session.rounds > 0) {
+      this.adjustAttitude(session.npcId, -this.playerWalkAwayPenalty);
+    }
+    this.session = null;
+    this.events.emit('haggleEnded', { npcId: session.npcId, goodId: session.goodId, by: 'player' });
+  }
+
+  /**
+   * Settle an agreed price once the goods have changed hands
+   */
+  public completeDeal(): void {
+    const deal = this.agreedDeal;
+    if (!deal) return;
+    const { session, price } = deal;
+    this.agreedDeal = null;
+
+    // Beating the opening price is how a trader learns to negotiate
+    const saved = session.isBuying ? session.askingPrice - price : price - session.askingPrice;
+    if (saved > 0) {
+      const improvement = Math.min(1.5, 0.3 + (saved / session.askingPrice) * 5);
+      this.getPlayer()?.improveSkill('negotiation', improvement);
+    }
+
+    const event: HaggleCompletedEvent = {
+      npcId: session.npcId,
+      goodId: session.goodId,
+      isBuying: session.isBuying,
+      askingPrice: session.askingPrice,
+      price,
+      rounds: session.rounds,
+    };
+    this.events.emit('haggleCompleted', event);
+  }
+
+  /**
+   * Drop an agreed price whose trade could not go through
+   */
+  public cancelDeal(): void {
+    const deal = this.agreedDeal;
+    if (!deal) return;
+    this.agreedDeal = null;
+    this.events.emit('haggleEnded', { npcId: deal.session.npcId, goodId: deal.session.goodId, by: 'player' });
+  }
+
+  private accept(price: number): HaggleResult {
+    const session = this.session!;
+    this.session = null;
+    this.agreedDeal = { session, price };
+    return { outcome: 'accepted', price, message: this.pick(this.lines[session.personality].accept) };
+  }
+
+  private vendorWalksAway(insulted: boolean): HaggleResult {
+    const session = this.session!;
+    this.session = null;
+
+    this.adjustAttitude(session.npcId, -(insulted ? this.insultedWalkAwayPenalty : this.walkAwayPenalty));
+    this.events.emit('haggleEnded', { npcId: session.npcId, goodId: session.goodId, by: 'vendor' });
+
+    return { outcome: 'walked_away', price: 0, message: this.pick(this.lines[session.personality].leave) };
+  }
+
+  /**
+   * A rough read of the vendor's limit - closer the better the appraisal
+   */
+  private buildAppraisalHint(): string {
+    const accuracy = this.getPlayer()?.getAppraisalAccuracy() ?? 0;
+    if (accuracy < 0.1) {
+      return 'You cannot read this merchant yet.';
+    }
+
+    const error = (1 - accuracy) * 0.3;
+    const estimate = Math.round(this.limitPrice * (1 + this.random.range(-error, error)));
+    return `You judge they might settle near ${estimate} reis.`;
+  }
+
+  private pick(lines: string[]): string {
+    return lines[Math.floor(Math.random() * lines.length)];
+  }
+
+  private getPlayer(): { getSkill(skill: 'negotiation'): number; getAppraisalAccuracy(): number; improveSkill(skill: 'negotiation', amount: number): void } | null {
+    const marketScene = this.scene as any;
+    return marketScene.getPlayer?.() ?? null;
+  }
+
+  private getSkill(skill: 'negotiation'): number {
+    return this.getPlayer()?.getSkill(skill) ?? 0;
+  }
+
+  private getFactionStanding(npcId: string): number {
+    const faction = loadNPCRegistry().getNPC(npcId)?.faction;
+    const factionSystem = this.scene.registry.get('factionSystem');
+    if (!faction || !factionSystem) return 0;
+    return factionSystem.getReputation?.(faction) ?? 0;
+  }
+
+  private getAttitude(npcId: string): number {
+    const npcMemory = this.scene.registry.get('npcMemorySystem');
+    return npcMemory?.getAttitude?.(npcId) ?? 0;
+  }
+
+  private adjustAttitude(npcId: string, amount: number): void {
+    const npcMemory = this.scene.registry.get('npcMemorySystem');
+    npcMemory?.adjustAttitude?.(npcId, amount);
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.session = null;
+    this.agreedDeal = null;
+  }
+}
@@ -0,0 +1,360 @@
+import Phaser from 'phaser';
+import { loadGoodsCatalog } from './GoodsCatalog';
+import { TiledMapLoader, MapObject } from './TiledMapLoader';
+import type { ShipArrivalData, ShipDepartureData } from './EventSystem';
+import { RandomStream, getRandomStream } from './RandomSystem';
+import { GameEventBus, getGameEvents } from './GameEvents';
+
+/**
+ * HarborSystem - Ships moored at the docks, and their captains
+ *
+ * Historical context: a ship arriving at Goa anchored in the Mandovi and
+ * its captain came ashore to sell. Merchants with ready money met him on
+ * the quay and took the best of the hold wholesale before anything reached
+ * the Ribeira; the same captain then bought what he could for the voyage
+ * home, paying well for spices when the season's fleet was short.
+ *
+ * EventSystem hands every arriving ship here. A ship that finds a free
+ * berth at the docks stays alongside until its ship_departure event, with
+ * its captain standing on the pier: for the first day the player has first
+ * pick of the hold at a wholesale price, after which whatever is left is
+ * landed on the market. The captain also buys the goods the ship wants for
+ * export, up to the quantity it has room for. Ships with no berth free ride
+ * at anchor and their cargo goes straight to market, as before.
+ *
+ * Moored ships are saved with what is left in their holds. EventSystem's
+ * schedule is not, so a ship restored from a save casts off by itself the
+ * morning after its day of departure.
+ */
+
+export interface ShipCargo {
+  goodId: string;
+  quantity: number;
+}
+
+// A good the captain will buy for the voyage home
+export interface ShipExport {
+  goodId: string;
+  demandPrice: number; // Multiplier on the market price
+  wanted: number;
+}
+
+// A berth from the docks map, where a ship can tie up
+export interface Berth {
+  id: string;
+  kind: string; // carrack, dhow or junk
+  tileX: number;
+  tileY: number;
+  tileWidth: number;
+  tileHeight: number;
+}
+
+export interface MooredShip {
+  shipId: string;
+  shipTypeId: string;
+  shipName: string;
+  origin: string;
+  captainId: string;
+  captainName: string;
+  berth: Berth;
+  cargo: ShipCargo[];
+  exports: ShipExport[];
+  arrivedDay: number;
+  departsDay: number;
+  cargoLanded: boolean;
+}
+
+export interface HarborSaveData {
+  ships: MooredShip[];
+}
+
+export class HarborSystem {
+  private scene: Phaser.Scene;
+  private events: GameEventBus;
+  private random: RandomStream;
+  private ships: MooredShip[] = [];
+  private berths: Berth[] | null = null;
+
+  public static readonly LOCATION_ID = 'docks';
+
+  // Berth kinds each ship type can use, best fit first
+  private readonly berthKinds: Record<string, string[]> = {
+    portuguese_carrack: ['carrack'],
+    chinese_junk: ['junk'],
+    arab_dhow: ['dhow', 'junk'],
+    local_coaster: ['junk', 'dhow'],
+  };
+
+  // First pick of the hold comes cheaper than the market
+  private readonly wholesaleDiscount = 0.8;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+    this.events = getGameEvents(scene);
+    this.random = getRandomStream(scene, 'harbor');
+    this.events.on('newDay', this.onNewDay, this);
+    this.events.on('ship_departure', this.onShipDeparture, this);
+  }
+
+  /**
+   * Tie up an arriving ship at a free berth
+   * @returns false when every suitable berth is taken and the ship rides
+   * at anchor instead
+   */
+  public moorShip(arrival: ShipArrivalData): boolean {
+    const berth = this.findFreeBerth(arrival.shipType.id);
+    if (!berth) return false;
+
+    const arrivedDay = this.getCurrentDay();
+    const ship: MooredShip = {
+      shipId: arrival.shipId,
+      shipTypeId: arrival.shipType.id,
+      shipName: arrival.shipType.name,
+      origin: arrival.shipType.origin,
+      captainId: `captain_${arrival.shipId}`,
+      captainName: `${arrival.captainName}, ${arrival.shipType.name} Captain`,
+      berth,
+      cargo: arrival.cargo.map(cargo => ({ ...cargo })),
+      exports: arrival.exportOpportunity.map(opportunity => ({
+        ...opportunity,
+        wanted: 5 + Math.floor(this.random.next() * 10), // 5-14 units
+      })),
+      arrivedDay,
+      departsDay: arrivedDay + arrival.stayDuration,
+      cargoLanded: arrival.cargo.length === 0,
+    };
+
+    this.ships.push(ship);
+    this.events.emit('shipMoored', this.copyShip(ship));
+    return true;
+  }
+
+  public getShips(): MooredShip[] {
+    return this.ships.map(ship => this.copyShip(ship));
+  }
+
+  public getShip(shipId: string): MooredShip | undefined {
+    const ship = this.ships.find(s => s.shipId === shipId);
+    return ship ? this.copyShip(ship) : undefined;
+  }
+
+  public getShipByCaptain(captainId: string): MooredShip | undefined {
+    const ship = this.ships.find(s => s.captainId === captainId);
+    return ship ? this.copyShip(ship) : undefined;
+  }
+
+  /**
+   * Price per unit the captain asks for goods from the hold
+   */
+  public getWholesalePrice(goodId: string): number {
+    return Math.max(1, Math.floor(this.getMarketPrice(goodId) * this.wholesaleDiscount));
+  }
+
+  /**
+   * Price per unit the captain pays for a good he wants for export
+   */
+  public getExportPrice(shipId: string, goodId: string): number {
+    const wanted = this.ships.find(s => s.shipId === shipId)?.exports.find(e => e.goodId === goodId);
+    if (!wanted) return 0;
+    return Math.ceil(this.getMarketPrice(goodId) * wanted.demandPrice);
+  }
+
+  /**
+   * Buy goods out of a ship's hold before they reach the market
+   */
+  public buyCargo(shipId: string, goodId: string, quantity: number): { success: boolean; message: string } {
+    const ship = this.ships.find(s => s.shipId === shipId);
+    if (!ship) return { success: false, message: 'That ship has sailed.' };
+
+    const cargo = ship.cargo.find(c => c.goodId === goodId);
+    if (ship.cargoLanded || !cargo || cargo.quantity <= 0) {
+      return { success: false, message: 'The hold has been cleared - try the market.' };
+    }
+    quantity = Math.min(quantity, cargo.quantity);
+
+    const player = this.getPlayer();
+    const price = this.getWholesalePrice(goodId) * quantity;
+    if (!player || player.getGold() < price) {
+      return { success: false, message: `${quantity} ${this.getName(goodId)} costs ${price} reis.` };
+    }
+    if (!player.addToInventory(goodId, quantity)) {
+      return { success: false, message: 'You cannot carry that much.' };
+    }
+    player.removeGold(price);
+    cargo.quantity -= quantity;
+
+    this.events.emit('playerBuy', { good: goodId, price, quantity, npcId: ship.captainId });
+    this.scene.registry.get('questSystem')?.handleItemAcquired?.(goodId, quantity);
+    this.emitChange(ship);
+    return { success: true, message: `Bought ${quantity} ${this.getName(goodId)} for ${price} reis.` };
+  }
+
+  /**
+   * Sell the captain goods he wants to carry home
+   */
+  public sellExport(shipId: string, goodId: string, quantity: number): { success: boolean; message: string } {
+    const ship = this.ships.find(s => s.shipId === shipId);
+    if (!ship) return { success: false, message: 'That ship has sailed.' };
+
+    const wanted = ship.exports.find(e => e.goodId === goodId);
+    if (!wanted || wanted.wanted <= 0) {
+      return { success: false, message: `The captain wants no more ${this.getName(goodId)}.` };
+    }
+    quantity = Math.min(quantity, wanted.wanted);
+    if (quantity <= 0) {
+      return { success: false, message: `You have no ${this.getName(goodId)} to sell.` };
+    }
+
+    const player = this.getPlayer();
+    if (!player?.removeFromInventory(goodId, quantity)) {
+      return { success: false, message: `You are not carrying ${quantity} ${this.getName(goodId)}.` };
+    }
+
+    const price = this.getExportPrice(shipId, goodId) * quantity;
+    player.addGold(price);
+    wanted.wanted -= quantity;
+
+    this.events.emit('playerSell', { good: goodId, price, quantity, npcId: ship.captainId });
+    this.emitChange(ship);
+    return { success: true, message: `Sold ${quantity} ${this.getName(goodId)} for ${price} reis.` };
+  }
+
+  private onNewDay(): void {
+    // The player's first pick lasts until the morning after arrival
+    const today = this.getCurrentDay();
+    for (const ship of this.ships) {
+      if (!ship.cargoLanded && today > ship.arrivedDay) {
+        this.landCargo(ship);
+      }
+    }
+
+    // Ships whose departure EventSystem no longer has scheduled
+    for (const ship of this.ships.filter(s => today > s.departsDay)) {
+      this.castOff(ship);
+    }
+  }
+
+  private onShipDeparture(departure: ShipDepartureData): void {
+    const ship = this.ships.find(s => s.shipId === departure.shipId);
+    if (ship) {
+      this.castOff(ship);
+    }
+  }
+
+  private castOff(ship: MooredShip): void {
+    if (!ship.cargoLanded) {
+      this.landCargo(ship);
+    }
+    this.ships = this.ships.filter(s => s !== ship);
+    this.events.emit('shipCastOff', this.copyShip(ship));
+  }
+
+  /**
+   * Put what is left in the hold on the market
+   */
+  private landCargo(ship: MooredShip): void {
+    ship.cargoLanded = true;
+    const goods = ship.cargo.filter(c => c.quantity > 0).map(c => ({ ...c }));
+    if (goods.length > 0) {
+      this.scene.registry.get('eventSystem')?.triggerEvent('cargo_unloaded', { goods });
+    }
+    this.emitChange(ship);
+  }
+
+  private findFreeBerth(shipTypeId: string): Berth | null {
+    const taken = new Set(this.ships.map(ship => ship.berth.id));
+    const free = this.getBerths().filter(berth => !taken.has(berth.id));
+    for (const kind of this.berthKinds[shipTypeId] ?? []) {
+      const berth = free.find(b => b.kind === kind);
+      if (berth) return berth;
+    }
+    return null;
+  }
+
+  /**
+   * Berths are the ship objects authored in the docks map
+   */
+  private getBerths(): Berth[] {
+    if (this.berths) return this.berths;
+
+    const location = this.scene.registry.get('worldSystem')?.getLocation?.(HarborSystem.LOCATION_ID);
+    const map = location ? new TiledMapLoader().load(location.mapFile) : null;
+    if (!map) {
+      console.warn('HarborSystem: No docks map, ships will ride at anchor');
+      return [];
+    }
+
+    this.berths = map.objects
+      .filter((obj: MapObject) => obj.type === 'ship')
+      .map((obj: MapObject) => ({
+        id: obj.name,
+        kind: String(obj.properties.shipType ?? ''),
+        tileX: obj.tileX,
+        tileY: obj.tileY,
+        tileWidth: obj.tileWidth,
+        tileHeight: obj.tileHeight,
+      }));
+    return this.berths;
+  }
+
+  private emitChange(ship: MooredShip): void {
+    this.events.emit('shipCargoChange', this.copyShip(ship));
+  }
+
+  private copyShip(ship: MooredShip): MooredShip {
+    return {
+      ...ship,
+      berth: { ...ship.berth },
+      cargo: ship.cargo.map(c => ({ ...c })),
+      exports: ship.exports.map(e => ({ ...e })),
+    };
+  }
+
+  public getSaveData(): HarborSaveData {
+    return { ships: this.getShips() };
+  }
+
+  public loadSaveData(data: HarborSaveData): void {
+    // The ships of the game being left cast off, so the docks are redrawn
+    for (const ship of this.ships) {
+      this.events.emit('shipCastOff', this.copyShip(ship));
+    }
+    this.ships = (data.ships ?? []).map(ship => this.copyShip(ship));
+    for (const ship of this.ships) {
+      this.events.emit('shipMoored', this.copyShip(ship));
+    }
+  }
+
+  private getMarketPrice(goodId: string): number {
+    const tradeSystem = this.scene.registry.get('tradeSystem');
+    return tradeSystem?.getMarketState?.(goodId)?.currentPrice ?? loadGoodsCatalog().get(goodId)?.basePrice ?? 0;
+  }
+
+  private getName(goodId: string): string {
+    return loadGoodsCatalog().getName(goodId);
+  }
+
+  private getCurrentDay(): number {
+    return (this.scene as any).getTimeSystem?.()?.getTimeData().dayCount ?? 1;
+  }
+
+  private getPlayer(): {
+    getGold(): number;
+    addGold(amount: number): void;
+    removeGold(amount: number): boolean;
+    addToInventory(item: string, quantity: number): boolean;
+    removeFromInventory(item: string, quantity: number): boolean;
+  } | null {
+    const marketScene = this.scene as any;
+    return marketScene.getPlayer?.() ?? null;
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.events.off('newDay', this.onNewDay, this);
+    this.events.off('ship_departure', this.onShipDeparture, this);
+    this.ships = [];
+  }
+}
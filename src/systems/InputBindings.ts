@@ -0,0 +1,383 @@
+/**
+ * InputBindings - The keys and gamepad buttons behind each action the player can take
+ *
+ * Scenes ask which action a key press or button stands for rather than
+ * listening for particular keys, so a key the player rebinds on the
+ * controls screen changes every scene at once. Each action has a primary
+ * and an alternate key; the bindings are kept in localStorage apart from
+ * the saves, as they belong to the player rather than to a game.
+ *
+ * Gamepad buttons follow the standard mapping and are not rebindable.
+ * The number keys are left out of the bindable keys, as they choose
+ * responses in conversations.
+ */
+
+import { getLocalStorage } from './GameSettings';
+
+export type InputAction =
+  | 'moveUp'
+  | 'moveDown'
+  | 'moveLeft'
+  | 'moveRight'
+  | 'interact'
+  | 'inventory'
+  | 'journal'
+  | 'contracts'
+  | 'ledger'
+  | 'expeditions'
+  | 'map'
+  | 'skills'
+  | 'quickSave'
+  | 'quickLoad'
+  | 'menu';
+
+// In the order the controls screen lists them
+export const INPUT_ACTIONS: { id: InputAction; label: string }[] = [
+  { id: 'moveUp', label: 'Move up' },
+  { id: 'moveDown', label: 'Move down' },
+  { id: 'moveLeft', label: 'Move left' },
+  { id: 'moveRight', label: 'Move right' },
+  { id: 'interact', label: 'Interact' },
+  { id: 'inventory', label: 'Inventory' },
+  { id: 'journal', label: 'Journal' },
+  { id: 'contracts', label: 'Contracts' },
+  { id: 'ledger', label: 'Price ledger' },
+  { id: 'expeditions', label: 'Expeditions' },
+  { id: 'map', label: 'Map' },
+  { id: 'skills', label: 'Skills' },
+  { id: 'quickSave', label: 'Quick save' },
+  { id: 'quickLoad', label: 'Quick load' },
+  { id: 'menu', label: 'Close / back' },
+];
+
+/** Keys per action: a primary and an optional alternate */
+export const KEYS_PER_ACTION = 2;
+
+/** Key names as Phaser's KeyCodes know them */
+export const DEFAULT_KEY_BINDINGS: Record<InputAction, string[]> = {
+  moveUp: ['W', 'UP'],
+  moveDown: ['S', 'DOWN'],
+  moveLeft: ['A', 'LEFT'],
+  moveRight: ['D', 'RIGHT'],
+  interact: ['E', 'ENTER'],
+  inventory: ['I'],
+  journal: ['J'],
+  contracts: ['C'],
+  ledger: ['L'],
+  expeditions: ['X'],
+  map: ['M'],
+  skills: ['K'],
+  quickSave: ['F5'],
+  quickLoad: ['F9'],
+  menu: ['ESC'],
+};
+
+/** Standard-mapping gamepad buttons, by button index */
+export const GAMEPAD_BUTTONS: Record<number, InputAction> = {
+  0: 'interact', // A / Cross
+  1: 'menu', // B / Circle
+  2: 'contracts', // X / Square
+  3: 'inventory', // Y / Triangle
+  4: 'journal', // Left bumper
+  5: 'map', // Right bumper
+  9: 'menu', // Start
+  12: 'moveUp', // D-pad
+  13: 'moveDown',
+  14: 'moveLeft',
+  15: 'moveRight',
+};
+
+/** How far a stick must lean before it counts as a direction */
+export const STICK_DEADZONE = 0.3;
+
+/** localStorage key the bindings are kept under */
+const STORAGE_KEY = 'goa_trade_bindings';
+
+// Key codes of the keys that can be bound, by Phaser key name
+const KEY_CODES: Record<string, number> = {
+  BACKSPACE: 8,
+  TAB: 9,
+  ENTER: 13,
+  SHIFT: 16,
+  CTRL: 17,
+  ALT: 18,
+  ESC: 27,
+  SPACE: 32,
+  PAGE_UP: 33,
+  PAGE_DOWN: 34,
+  END: 35,
+  HOME: 36,
+  LEFT: 37,
+  UP: 38,
+  RIGHT: 39,
+  DOWN: 40,
+  INSERT: 45,
+  DELETE: 46,
+  SEMICOLON: 186,
+  PLUS: 187,
+  COMMA: 188,
+  MINUS: 189,
+  PERIOD: 190,
+  FORWARD_SLASH: 191,
+  OPEN_BRACKET: 219,
+  BACK_SLASH: 220,
+  CLOSED_BRACKET: 221,
+  QUOTES: 222,
+};
+for (let code = 65; code <= 90; code++) {
+  KEY_CODES[String.fromCharCode(code)] = code;
+}
+for (let n = 1; n <= 12; n++) {
+  KEY_CODES[`F${n}`] = 111 + n;
+}
+
+const KEY_NAMES: Map<number, string> = new Map(Object.entries(KEY_CODES).map(([name, code]) => [code, name]));
+
+// Friendlier names for keys whose Phaser names read badly in a hint
+const KEY_LABELS: Record<string, string> = {
+  ESC: 'Esc',
+  ENTER: 'Enter',
+  SPACE: 'Space',
+  BACKSPACE: 'Backspace',
+  TAB: 'Tab',
+  SHIFT: 'Shift',
+  CTRL: 'Ctrl',
+  ALT: 'Alt',
+  UP: 'Up',
+  DOWN: 'Down',
+  LEFT: 'Left',
+  RIGHT: 'Right',
+  PAGE_UP: 'Page Up',
+  PAGE_DOWN: 'Page Down',
+  END: 'End',
+  HOME: 'Home',
+  INSERT: 'Insert',
+  DELETE: 'Delete',
+  SEMICOLON: ';',
+  PLUS: '=',
+  COMMA: ',',
+  MINUS: '-',
+  PERIOD: '.',
+  FORWARD_SLASH: '/',
+  OPEN_BRACKET: '[',
+  BACK_SLASH: '\\',
+  CLOSED_BRACKET: ']',
+  QUOTES: "'",
+};
+
+// The parts of a Phaser gamepad movement is read from
+export interface GamepadDirections {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  leftStick: { x: number; y: number };
+}
+
+export class InputBindings {
+  private storage: Storage | null;
+  private bindings: Record<InputAction, string[]> = copyBindings(DEFAULT_KEY_BINDINGS);
+
+  constructor(storage: Storage | null = getLocalStorage()) {
+    this.storage = storage;
+    this.load();
+  }
+
+  /**
+   * The key names bound to an action, primary first
+   */
+  public getKeys(action: InputAction): string[] {
+    return [...this.bindings[action]];
+  }
+
+  public getKeyCodes(action: InputAction): number[] {
+    return this.bindings[action].map(key => KEY_CODES[key]);
+  }
+
+  /**
+   * The action a key press stands for, if any
+   */
+  public getAction(keyCode: number): InputAction | undefined {
+    const key = KEY_NAMES.get(keyCode);
+    if (!key) return undefined;
+    return INPUT_ACTIONS.find(action => this.bindings[action.id].includes(key))?.id;
+  }
+
+  /**
+   * The primary key of an action as a hint shows it, e.g. "E" or "Esc"
+   */
+  public getLabel(action: InputAction): string {
+    return getKeyLabel(this.bindings[action][0] ?? '');
+  }
+
+  /**
+   * Bind a key to one of an action's slots. A key already bound to another
+   * action is swapped for the key this slot held, so no key does two things.
+   */
+  public rebind(action: InputAction, slot: number, keyCode: number): { success: boolean; error?: string } {
+    const key = KEY_NAMES.get(keyCode);
+    if (!key) {
+      return { success: false, error: 'That key cannot be bound' };
+    }
+    if (slot < 0 || slot >= KEYS_PER_ACTION) {
+      return { success: false, error: 'No such key slot' };
+    }
+
+    const keys = this.bindings[action];
+    const previous = keys[slot];
+    if (previous === key) {
+      return { success: true };
+    }
+
+    // A key moved between an action's own slots swaps places with the other
+    const own = keys.indexOf(key);
+    if (own !== -1) {
+      if (previous !== undefined) {
+        keys[own] = previous;
+        keys[slot] = key;
+        this.save();
+      }
+      return { success: true };
+    }
+
+    const other = INPUT_ACTIONS.find(entry => entry.id !== action && this.bindings[entry.id].includes(key));
+    if (other) {
+      const otherKeys = this.bindings[other.id];
+      if (previous === undefined && otherKeys.length === 1) {
+        return { success: false, error: `${getKeyLabel(key)} is the only key for ${other.label}` };
+      }
+      const index = otherKeys.indexOf(key);
+      if (previous === undefined) {
+        otherKeys.splice(index, 1);
+      } else {
+        otherKeys[index] = previous;
+      }
+    }
+
+    // An action without an alternate gains one after its primary
+    if (slot < keys.length) {
+      keys[slot] = key;
+    } else {
+      keys.push(key);
+    }
+    this.save();
+    return { success: true };
+  }
+
+  /**
+   * Unbind an action's alternate key; the primary key cannot be cleared
+   */
+  public clearAlternate(action: InputAction): void {
+    if (this.bindings[action].length > 1) {
+      this.bindings[action] = this.bindings[action].slice(0, 1);
+      this.save();
+    }
+  }
+
+  public resetToDefaults(): void {
+    this.bindings = copyBindings(DEFAULT_KEY_BINDINGS);
+    this.save();
+  }
+
+  private load(): void {
+    let stored: unknown;
+    try {
+      const raw = this.storage?.getItem(STORAGE_KEY);
+      stored = raw ? JSON.parse(raw) : null;
+    } catch (e) {
+      console.warn('InputBindings: could not read saved bindings', e);
+      return;
+    }
+    if (!isRecord(stored)) return;
+
+    // Saved keys win over the defaults of any action added since they were saved
+    const bindings = copyBindings(DEFAULT_KEY_BINDINGS);
+    const saved = INPUT_ACTIONS.filter(({ id }) => isKeyList(stored[id]));
+    for (const { id } of saved) {
+      bindings[id] = (stored[id] as string[]).slice(0, KEYS_PER_ACTION);
+    }
+
+    const seen = new Set<string>();
+    for (const { id } of [...saved, ...INPUT_ACTIONS.filter(action => !saved.includes(action))]) {
+      bindings[id] = bindings[id].filter(key => !seen.has(key));
+      bindings[id].forEach(key => seen.add(key));
+      if (bindings[id].length === 0) {
+        console.warn('InputBindings: saved bindings leave an action unbound, using the defaults');
+        return;
+      }
+    }
+    this.bindings = bindings;
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch (e) {
+      console.warn('InputBindings: could not save bindings', e);
+    }
+  }
+}
+
+/**
+ * A key name as hints and the controls screen show it
+ */
+export function getKeyLabel(key: string): string {
+  return KEY_LABELS[key] ?? key;
+}
+
+/**
+ * The action a gamepad button stands for, if any
+ */
+export function getGamepadAction(buttonIndex: number): InputAction | undefined {
+  return GAMEPAD_BUTTONS[buttonIndex];
+}
+
+/**
+ * The directions a gamepad's d-pad and left stick are held in
+ */
+export function readGamepadDirections(pad: GamepadDirections | null | undefined): {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+} {
+  if (!pad) {
+    return { up: false, down: false, left: false, right: false };
+  }
+  return {
+    up: pad.up || pad.leftStick.y < -STICK_DEADZONE,
+    down: pad.down || pad.leftStick.y > STICK_DEADZONE,
+    left: pad.left || pad.leftStick.x < -STICK_DEADZONE,
+    right: pad.right || pad.leftStick.x > STICK_DEADZONE,
+  };
+}
+
+function copyBindings(bindings: Record<InputAction, string[]>): Record<InputAction, string[]> {
+  return Object.fromEntries(
+    Object.entries(bindings).map(([action, keys]) => [action, [...keys]])
+  ) as Record<InputAction, string[]>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isKeyList(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(key => typeof key === 'string' && KEY_CODES[key] !== undefined)
+  );
+}
+
+let sharedInputBindings: InputBindings | null = null;
+
+/**
+ * Get the player's bindings (loaded once and shared by every scene)
+ */
+export function getInputBindings(): InputBindings {
+  if (!sharedInputBindings) {
+    sharedInputBindings = new InputBindings();
+  }
+  return sharedInputBindings;
+}
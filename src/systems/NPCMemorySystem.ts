@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 /**
  * NPCMemorySystem - Tracks NPC relationships and memories of player
@@ -7,14 +8,14 @@ import Phaser from 'phaser';
  * This creates persistent relationships that affect dialogue and deals.
  */
 
-interface TradeHistory {
+export interface TradeHistory {
   profitable: number;  // Trades where NPC profited (player bought)
   total: number;       // Total trades
   lastTradeTime: number;
   averageValue: number;
 }
 
-interface NPCMemory {
+export interface NPCMemory {
   npcId: string;
   lastInteraction: number;     // Game time of last interaction
   interactionCount: number;    // Total times player talked to this NPC
@@ -25,12 +26,13 @@ interface NPCMemory {
   firstMet: number;            // Game time when first met
 }
 
-interface MemorySaveData {
+export interface NPCMemorySaveData {
   memories: NPCMemory[];
 }
 
 export class NPCMemorySystem {
   private scene: Phaser.Scene;
+  private events: GameEventBus;
   private memories: Map<string, NPCMemory> = new Map();
 
   // Attitude thresholds
@@ -44,40 +46,42 @@ export class NPCMemorySystem {
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.events = getGameEvents(scene);
     this.setupEventListeners();
   }
 
   private setupEventListeners(): void {
     // Track NPC interactions
-    this.scene.events.on('npcInteraction', (data: { npcId: string; npcName: string }) => {
+    this.events.on('npcInteraction', (data: { npcId: string; npcName: string }) => {
       this.recordInteraction(data.npcId);
     });
 
     // Track trades
-    this.scene.events.on('playerBuy', (data: { good: string; price: number; npcId?: string }) => {
+    this.events.on('playerBuy', (data: { good: string; price: number; npcId?: string }) => {
       if (data.npcId) {
         this.recordTrade(data.npcId, data.price, true);
       }
     });
 
-    this.scene.events.on('playerSell', (data: { good: string; price: number; npcId?: string }) => {
+    this.events.on('playerSell', (data: { good: string; price: number; npcId?: string }) => {
       if (data.npcId) {
         this.recordTrade(data.npcId, data.price, false);
       }
     });
 
     // Track quest decisions that affect NPCs
-    this.scene.events.on('questChoice', (data: { questId: string; choiceId: string; npcId?: string }) => {
+    this.events.on('questChoice', (data: { questId: string; choiceId: string; npcId?: string }) => {
       if (data.npcId) {
         this.recordQuestInvolvement(data.npcId, data.questId);
       }
     });
 
-    // Track quest completions
-    this.scene.events.on('questCompleted', (data: { questId: string; npcId?: string }) => {
-      if (data.npcId) {
-        this.recordQuestInvolvement(data.npcId, data.questId);
-        this.adjustAttitude(data.npcId, 5); // Completing a quest improves relationship
+    // Track quest completions with the NPC who gave the quest
+    this.events.on('questCompleted', data => {
+      const npcId = data.quest.giver;
+      if (npcId) {
+        this.recordQuestInvolvement(npcId, data.questId);
+        this.adjustAttitude(npcId, 5); // Completing a quest improves relationship
       }
     });
   }
@@ -131,7 +135,7 @@ export class NPCMemorySystem {
       this.adjustAttitude(npcId, 1);
     }
 
-    this.scene.events.emit('npcMemoryUpdated', { npcId, memory });
+    this.events.emit('npcMemoryUpdated', { npcId, memory });
   }
 
   public recordTrade(npcId: string, value: number, npcProfited: boolean): void {
@@ -154,7 +158,7 @@ export class NPCMemorySystem {
       this.adjustAttitude(npcId, 2); // Good customer
     }
 
-    this.scene.events.emit('npcMemoryUpdated', { npcId, memory });
+    this.events.emit('npcMemoryUpdated', { npcId, memory });
   }
 
   public recordQuestInvolvement(npcId: string, questId: string): void {
@@ -164,7 +168,7 @@ export class NPCMemorySystem {
       memory.questHistory.push(questId);
     }
 
-    this.scene.events.emit('npcMemoryUpdated', { npcId, memory });
+    this.events.emit('npcMemoryUpdated', { npcId, memory });
   }
 
   public adjustAttitude(npcId: string, amount: number): void {
@@ -178,7 +182,7 @@ export class NPCMemorySystem {
     const newLevel = this.getAttitudeLevel(memory.attitude);
 
     if (previousLevel !== newLevel) {
-      this.scene.events.emit('npcAttitudeChange', {
+      this.events.emit('npcAttitudeChange', {
         npcId,
         previousLevel,
         newLevel,
@@ -324,13 +328,13 @@ export class NPCMemorySystem {
     return summary.sort((a, b) => b.attitude - a.attitude);
   }
 
-  public getSaveData(): MemorySaveData {
+  public getSaveData(): NPCMemorySaveData {
     return {
       memories: Array.from(this.memories.values()),
     };
   }
 
-  public loadSaveData(data: MemorySaveData): void {
+  public loadSaveData(data: NPCMemorySaveData): void {
     this.memories.clear();
 
     if (data.memories) {
@@ -339,7 +343,7 @@ export class NPCMemorySystem {
       }
     }
 
-    this.scene.events.emit('npcMemoriesLoaded', this.getRelationshipSummary());
+    this.events.emit('npcMemoriesLoaded', this.getRelationshipSummary());
   }
 
   public reset(): void {
@@ -350,11 +354,11 @@ export class NPCMemorySystem {
    * Clean up event listeners and data to prevent memory leaks
    */
   public destroy(): void {
-    this.scene.events.off('npcInteraction');
-    this.scene.events.off('playerBuy');
-    this.scene.events.off('playerSell');
-    this.scene.events.off('questChoice');
-    this.scene.events.off('questCompleted');
+    this.events.off('npcInteraction');
+    this.events.off('playerBuy');
+    this.events.off('playerSell');
+    this.events.off('questChoice');
+    this.events.off('questCompleted');
     this.memories.clear();
   }
 }
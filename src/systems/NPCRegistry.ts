@@ -0,0 +1,355 @@
+/**
+ * NPCRegistry - Who lives where in Goa, and how they spend their day
+ *
+ * Loads the NPC roster and type definitions from src/data/npcs.json and
+ * the daily schedules from src/data/npc-schedules.json. Each NPC id gets a
+ * home location and stall tile, a schedule (its own assignment, else the
+ * schedule for its type, else the default) and optionally a faction.
+ * MarketScene spawns every location's NPCs from here, and faction members
+ * are registered with FactionSystem as key NPCs so reputation and
+ * dialogue can find them.
+ *
+ * Like GoodsCatalog, problems in either file are collected as errors for
+ * BootScene to report rather than thrown while parsing.
+ */
+
+import npcData from '../data/npcs.json';
+import scheduleData from '../data/npc-schedules.json';
+import type { FactionSystem } from './FactionSystem';
+import type { TraderPersonality } from './TradeSystem';
+
+export type NPCActivity = 'trading' | 'walking' | 'resting' | 'praying' | 'drinking';
+
+export const NPC_ACTIVITIES: NPCActivity[] = ['trading', 'walking', 'resting', 'praying', 'drinking'];
+const PERSONALITIES: TraderPersonality[] = ['aggressive', 'cautious', 'speculator'];
+
+// One hour of an NPC's day
+export interface NPCScheduleEntry {
+  hour: number;
+  location: string;
+  activity: NPCActivity;
+  position?: { x: number; y: number };
+}
+
+// Shared traits of a kind of NPC (merchant, official, sailor...)
+export interface NPCTypeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  defaultGoods: string[];
+  dialogueStyle: string;
+  personality: TraderPersonality; // How they haggle
+  greetings: string[];
+  farewells: string[];
+}
+
+// A named NPC on the roster
+export interface NPCDefinition {
+  id: string;
+  type: string;
+  name: string;
+  location: string; // Home location
+  x: number; // Stall tile
+  y: number;
+  goods: string[];
+  faction?: string;
+  role?: string;
+}
+
+// Where an NPC is and what it is doing at a given hour
+export interface ResolvedScheduleEntry {
+  location: string | null; // null when indoors for the night
+  activity: NPCActivity;
+  position?: { x: number; y: number };
+}
+
+/**
+ * Work out where a schedule puts an NPC at an hour
+ * Hours without an entry default to trading at home during market hours
+ * (7:00 to 19:00) and to being indoors, out of sight, otherwise.
+ */
+export function resolveSchedule(
+  schedule: NPCScheduleEntry[],
+  hour: number,
+  homeLocation: string
+): ResolvedScheduleEntry {
+  const entry = schedule.find(s => s.hour === hour);
+  if (entry) {
+    return { location: entry.location, activity: entry.activity, position: entry.position };
+  }
+  if (hour >= 7 && hour <= 19) {
+    return { location: homeLocation, activity: 'trading' };
+  }
+  return { location: null, activity: 'resting' };
+}
+
+export class NPCRegistry {
+  private types: Map<string, NPCTypeDefinition> = new Map();
+  private npcs: Map<string, NPCDefinition> = new Map();
+  private schedules: Map<string, NPCScheduleEntry[]> = new Map();
+  private assignments: Map<string, string> = new Map();
+  private typeSchedules: Map<string, string> = new Map();
+  private defaultSchedule = '';
+  private errors: string[] = [];
+
+  constructor(npcs: unknown, schedules: unknown) {
+    // Schedules first so roster entries can be checked against them
+    this.parseSchedules(schedules);
+    this.parseNPCs(npcs);
+  }
+
+  /**
+   * Schema errors found while loading; invalid entries are left out
+   */
+  public getErrors(): string[] {
+    return [...this.errors];
+  }
+
+  public isValid(): boolean {
+    return this.errors.length === 0;
+  }
+
+  public getNPC(npcId: string): NPCDefinition | undefined {
+    return this.npcs.get(npcId);
+  }
+
+  public getAll(): NPCDefinition[] {
+    return Array.from(this.npcs.values());
+  }
+
+  /**
+   * NPCs whose home is the given location
+   */
+  public getNPCsForLocation(locationId: string): NPCDefinition[] {
+    return this.getAll().filter(npc => npc.location === locationId);
+  }
+
+  public getType(typeId: string): NPCTypeDefinition | undefined {
+    return this.types.get(typeId);
+  }
+
+  /**
+   * How an NPC haggles, from its type; unknown NPCs are cautious
+   */
+  public getPersonality(npcId: string): TraderPersonality {
+    const npc = this.npcs.get(npcId);
+    return (npc && this.types.get(npc.type)?.personality) || 'cautious';
+  }
+
+  /**
+   * Schedule for an NPC id: its own assignment, else its type's schedule
+   */
+  public getSchedule(npcId: string): NPCScheduleEntry[] {
+    const assigned = this.assignments.get(npcId);
+    if (assigned) return this.getScheduleById(assigned);
+
+    const npc = this.npcs.get(npcId);
+    return this.getTypeSchedule(npc?.type ?? '');
+  }
+
+  /**
+   * Schedule shared by every NPC of a type, else the default schedule
+   */
+  public getTypeSchedule(typeId: string): NPCScheduleEntry[] {
+    return this.getScheduleById(this.typeSchedules.get(typeId) ?? this.defaultSchedule);
+  }
+
+  public getScheduleById(scheduleId: string): NPCScheduleEntry[] {
+    return (this.schedules.get(scheduleId) ?? []).map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Roster NPCs that belong to a faction
+   */
+  public getFactionMembers(factionId: string): NPCDefinition[] {
+    return this.getAll().filter(npc => npc.faction === factionId);
+  }
+
+  /**
+   * Add every roster NPC with a faction to that faction's key NPCs
+   */
+  public registerWithFactions(factionSystem: FactionSystem): void {
+    for (const npc of this.npcs.values()) {
+      if (!npc.faction) continue;
+      factionSystem.addKeyNPC(npc.faction, { id: npc.id, name: npc.name, role: npc.role });
+    }
+  }
+
+  private parseSchedules(data: unknown): void {
+    if (!isRecord(data)) {
+      this.errors.push('npc-schedules.json: root must be an object');
+      return;
+    }
+
+    if (!isRecord(data.schedules)) {
+      this.errors.push('npc-schedules.json: "schedules" must be an object');
+    } else {
+      for (const [id, entries] of Object.entries(data.schedules)) {
+        const schedule = this.parseSchedule(id, entries);
+        if (schedule) {
+          this.schedules.set(id, schedule);
+        }
+      }
+    }
+
+    const assignmentMaps: Array<[string, Map<string, string>]> = [
+      ['npcScheduleAssignments', this.assignments],
+      ['typeSchedules', this.typeSchedules],
+    ];
+    for (const [field, target] of assignmentMaps) {
+      const value = data[field];
+      if (!isRecord(value)) {
+        this.errors.push(`npc-schedules.json: "${field}" must be an object`);
+        continue;
+      }
+      for (const [key, scheduleId] of Object.entries(value)) {
+        if (typeof scheduleId !== 'string' || !this.schedules.has(scheduleId)) {
+          this.errors.push(`npc-schedules.json: ${field}.${key}: unknown schedule "${String(scheduleId)}"`);
+          continue;
+        }
+        target.set(key, scheduleId);
+      }
+    }
+
+    if (typeof data.defaultSchedule !== 'string' || !this.schedules.has(data.defaultSchedule)) {
+      this.errors.push('npc-schedules.json: "defaultSchedule" must name a schedule');
+    } else {
+      this.defaultSchedule = data.defaultSchedule;
+    }
+  }
+
+  private parseSchedule(id: string, entries: unknown): NPCScheduleEntry[] | null {
+    if (!Array.isArray(entries)) {
+      this.errors.push(`npc-schedules.json: schedule "${id}" must be an array`);
+      return null;
+    }
+
+    const schedule: NPCScheduleEntry[] = [];
+    entries.forEach((entry, index) => {
+      const label = `npc-schedules.json: ${id}[${index}]`;
+      if (!isRecord(entry)) {
+        this.errors.push(`${label} must be an object`);
+        return;
+      }
+      if (typeof entry.hour !== 'number' || !Number.isInteger(entry.hour) || entry.hour < 0 || entry.hour > 23) {
+        this.errors.push(`${label}: "hour" must be a whole number from 0 to 23`);
+        return;
+      }
+      if (typeof entry.location !== 'string' || !entry.location) {
+        this.errors.push(`${label}: "location" must be a non-empty string`);
+        return;
+      }
+      if (!NPC_ACTIVITIES.includes(entry.activity as NPCActivity)) {
+        this.errors.push(`${label}: "activity" must be one of: ${NPC_ACTIVITIES.join(', ')}`);
+        return;
+      }
+      schedule.push(entry as unknown as NPCScheduleEntry);
+    });
+
+    return schedule;
+  }
+
+  private parseNPCs(data: unknown): void {
+    if (!isRecord(data)) {
+      this.errors.push('npcs.json: root must be an object');
+      return;
+    }
+
+    if (!Array.isArray(data.npcTypes)) {
+      this.errors.push('npcs.json: "npcTypes" must be an array');
+    } else {
+      data.npcTypes.forEach((entry, index) => {
+        if (!isRecord(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string') {
+          this.errors.push(`npcs.json: npcTypes[${index}] needs an id and a name`);
+          return;
+        }
+        if (!PERSONALITIES.includes(entry.personality as TraderPersonality)) {
+          this.errors.push(`npcs.json: ${entry.id}: "personality" must be one of: ${PERSONALITIES.join(', ')}`);
+          return;
+        }
+        this.types.set(entry.id, entry as unknown as NPCTypeDefinition);
+      });
+    }
+
+    if (!Array.isArray(data.npcs)) {
+      this.errors.push('npcs.json: "npcs" must be an array');
+      return;
+    }
+
+    data.npcs.forEach((entry, index) => {
+      const npc = this.parseNPC(entry, index);
+      if (npc) {
+        this.npcs.set(npc.id, npc);
+      }
+    });
+
+    for (const npcId of this.assignments.keys()) {
+      if (!this.npcs.has(npcId)) {
+        this.errors.push(`npc-schedules.json: npcScheduleAssignments.${npcId}: no such NPC in npcs.json`);
+      }
+    }
+  }
+
+  private parseNPC(entry: unknown, index: number): NPCDefinition | null {
+    const label = isRecord(entry) && typeof entry.id === 'string' ? entry.id : `npcs[${index}]`;
+    const problems: string[] = [];
+
+    if (!isRecord(entry)) {
+      this.errors.push(`npcs.json: ${label} must be an object`);
+      return null;
+    }
+
+    if (typeof entry.id !== 'string' || !entry.id) {
+      problems.push('"id" must be a non-empty string');
+    } else if (this.npcs.has(entry.id)) {
+      problems.push('duplicate id');
+    }
+    for (const field of ['name', 'location']) {
+      if (typeof entry[field] !== 'string' || !entry[field]) {
+        problems.push(`"${field}" must be a non-empty string`);
+      }
+    }
+    if (typeof entry.type !== 'string' || !this.types.has(entry.type)) {
+      problems.push(`"type" must be one of: ${Array.from(this.types.keys()).join(', ')}`);
+    }
+    for (const field of ['x', 'y']) {
+      const value = entry[field];
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        problems.push(`"${field}" must be a tile coordinate`);
+      }
+    }
+    if (!Array.isArray(entry.goods) || !entry.goods.every(good => typeof good === 'string')) {
+      problems.push('"goods" must be an array of good ids');
+    }
+    for (const field of ['faction', 'role']) {
+      if (entry[field] !== undefined && typeof entry[field] !== 'string') {
+        problems.push(`"${field}" must be a string`);
+      }
+    }
+
+    if (problems.length > 0) {
+      for (const problem of problems) {
+        this.errors.push(`npcs.json: ${label}: ${problem}`);
+      }
+      return null;
+    }
+
+    return entry as unknown as NPCDefinition;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+let sharedRegistry: NPCRegistry | null = null;
+
+/**
+ * Get the registry built from npcs.json and npc-schedules.json (parsed once and shared)
+ */
+export function loadNPCRegistry(): NPCRegistry {
+  if (!sharedRegistry) {
+    sharedRegistry = new NPCRegistry(npcData, scheduleData);
+  }
+  return sharedRegistry;
+}
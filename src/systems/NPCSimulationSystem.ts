@@ -0,0 +1,198 @@
+import Phaser from 'phaser';
+import {
+  loadNPCRegistry,
+  resolveSchedule,
+  NPCActivity,
+  NPCDefinition,
+  NPCScheduleEntry,
+} from './NPCRegistry';
+import { RandomStream, getRandomStream } from './RandomSystem';
+import { loadCalendar } from './Calendar';
+import { GameEventBus, getGameEvents } from './GameEvents';
+
+/**
+ * NPCSimulationSystem - Keeps every NPC in Goa living while off-screen
+ *
+ * Only the player's current location has NPC sprites. This system is the
+ * cheap "abstract" tier behind them: each hour it moves every NPC on the
+ * roster to the location its schedule names, records what it is doing,
+ * and lets merchants trading out of sight sell into the market. When
+ * WorldSystem.setCurrentLocation loads a location, MarketScene asks this
+ * system who is there and materializes them at the right spot, already
+ * busy with the right activity.
+ *
+ * NPCs whose schedule brings them into the current location while the
+ * player is there are announced with an 'npcArrived' event so the scene
+ * can walk them in through the right exit.
+ *
+ * On a feast day the Calendar can call an NPC away from its schedule to
+ * the gathering its faith keeps - Mass at the Sé, or home for Diwali.
+ */
+
+// Abstract state of one NPC
+export interface SimulatedNPC {
+  definition: NPCDefinition;
+  schedule: NPCScheduleEntry[];
+  location: string | null; // null while indoors for the night
+  previousLocation: string | null;
+  activity: NPCActivity;
+  // Tile to stand on in the location; null means "by the way they came in"
+  position: { x: number; y: number } | null;
+  stock: Map<string, number>;
+}
+
+export interface NPCArrivalEvent {
+  npcId: string;
+  location: string;
+  from: string | null;
+}
+
+export class NPCSimulationSystem {
+  private scene: Phaser.Scene;
+  private events: GameEventBus;
+  private random: RandomStream;
+  private npcs: Map<string, SimulatedNPC> = new Map();
+  private currentLocation = 'ribeira_grande';
+
+  // Units of each of its goods a merchant brings to market each day
+  private readonly dailyStock = 3;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+    this.events = getGameEvents(scene);
+    this.random = getRandomStream(scene, 'npcSimulation');
+    this.initializeNPCs();
+    this.setupEventListeners();
+  }
+
+  private initializeNPCs(): void {
+    const registry = loadNPCRegistry();
+    for (const definition of registry.getAll()) {
+      this.npcs.set(definition.id, {
+        definition,
+        schedule: registry.getSchedule(definition.id),
+        location: null,
+        previousLocation: null,
+        activity: 'resting',
+        position: null,
+        stock: new Map(),
+      });
+    }
+    this.restock();
+  }
+
+  private setupEventListeners(): void {
+    this.events.on('hourChange', this.onHourChange, this);
+    this.events.on('newDay', this.restock, this);
+    // Fired by WorldSystem.setCurrentLocation before the scene loads the location
+    this.events.on('locationChange', this.onLocationChange, this);
+  }
+
+  /**
+   * Place every NPC where its schedule puts it at an hour, without
+   * announcing arrivals (used at start-up)
+   */
+  public syncToHour(hour: number, dayCount: number): void {
+    for (const npc of this.npcs.values()) {
+      this.applySchedule(npc, hour, dayCount);
+      npc.previousLocation = null;
+    }
+  }
+
+  /**
+   * NPCs currently in a location, for MarketScene to materialize
+   */
+  public getNPCsAt(locationId: string): SimulatedNPC[] {
+    return Array.from(this.npcs.values()).filter(npc => npc.location === locationId);
+  }
+
+  public getNPC(npcId: string): SimulatedNPC | undefined {
+    return this.npcs.get(npcId);
+  }
+
+  /**
+   * Where an NPC is right now (null while indoors for the night)
+   */
+  public getNPCLocation(npcId: string): string | null {
+    return this.npcs.get(npcId)?.location ?? null;
+  }
+
+  private onHourChange(timeData: { hour: number; dayCount: number }): void {
+    for (const npc of this.npcs.values()) {
+      const from = npc.location;
+      this.applySchedule(npc, timeData.hour, timeData.dayCount);
+
+      if (npc.location !== from && npc.location === this.currentLocation) {
+        const event: NPCArrivalEvent = { npcId: npc.definition.id, location: npc.location, from };
+        this.events.emit('npcArrived', event);
+      }
+
+      // The current location's NPCs trade with the player in person
+      if (npc.location && npc.location !== this.currentLocation && npc.activity === 'trading') {
+        this.simulateTrading(npc);
+      }
+    }
+  }
+
+  private onLocationChange(event: { newLocation?: { id: string } }): void {
+    if (event?.newLocation?.id) {
+      this.currentLocation = event.newLocation.id;
+    }
+  }
+
+  private applySchedule(npc: SimulatedNPC, hour: number, dayCount: number): void {
+    const gathering = loadCalendar().getGathering(dayCount, hour, npc.definition.type);
+    const entry = gathering
+      ? { location: gathering.location, activity: gathering.activity }
+      : resolveSchedule(npc.schedule, hour, npc.definition.location);
+    npc.activity = entry.activity;
+
+    if (entry.location !== npc.location) {
+      npc.previousLocation = npc.location;
+      npc.location = entry.location;
+    }
+
+    // At home they keep their stall; elsewhere they stand where told, or
+    // by the exit they came in through
+    if (entry.position) {
+      npc.position = { ...entry.position };
+    } else if (npc.location === npc.definition.location) {
+      npc.position = { x: npc.definition.x, y: npc.definition.y };
+    } else {
+      npc.position = null;
+    }
+  }
+
+  /**
+   * A merchant trading off-screen sells one unit of its stock an hour
+   */
+  private simulateTrading(npc: SimulatedNPC): void {
+    const available = Array.from(npc.stock.entries()).filter(([, quantity]) => quantity > 0);
+    if (available.length === 0) return;
+
+    const tradeSystem = this.scene.registry.get('tradeSystem');
+    if (!tradeSystem?.recordOffscreenSale) return;
+
+    const [goodId, quantity] = this.random.pick(available);
+    npc.stock.set(goodId, quantity - 1);
+    tradeSystem.recordOffscreenSale(goodId, 1, npc.definition.name);
+  }
+
+  private restock(): void {
+    for (const npc of this.npcs.values()) {
+      for (const goodId of npc.definition.goods) {
+        npc.stock.set(goodId, this.dailyStock);
+      }
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.events.off('hourChange', this.onHourChange, this);
+    this.events.off('newDay', this.restock, this);
+    this.events.off('locationChange', this.onLocationChange, this);
+    this.npcs.clear();
+  }
+}
@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 /**
  * ParticleSystem - Atmospheric particles for visual immersion
@@ -66,6 +67,7 @@ const DEFAULT_CONFIG: ParticleConfig = {
 
 export class ParticleSystem {
   private scene: Phaser.Scene;
+  private events: GameEventBus;
   private config: ParticleConfig;
 
   private dustParticles: DustParticle[] = [];
@@ -85,6 +87,7 @@ export class ParticleSystem {
 
   constructor(scene: Phaser.Scene, config?: Partial<ParticleConfig>) {
     this.scene = scene;
+    this.events = getGameEvents(scene);
     this.config = { ...DEFAULT_CONFIG, ...config };
 
     this.screenWidth = scene.cameras.main.width;
@@ -106,13 +109,13 @@ export class ParticleSystem {
 
   private setupEventListeners(): void {
     // Listen for time changes
-    this.scene.events.on('hourChange', (data: { hour: number }) => {
+    this.events.on('hourChange', (data: { hour: number }) => {
       this.currentHour = data.hour;
       this.onTimeChange();
     });
 
     // Listen for wind changes
-    this.scene.events.on('windUpdate', (data: { direction: number; speed: number }) => {
+    this.events.on('windUpdate', (data: { direction: number; speed: number }) => {
       // Convert wind direction to x/y components
       const radians = (data.direction * Math.PI) / 180;
       this.windX = Math.cos(radians) * data.speed * 0.1;
@@ -435,8 +438,8 @@ export class ParticleSystem {
     this.dustContainer.destroy();
     this.fireflyContainer.destroy();
 
-    this.scene.events.off('hourChange');
-    this.scene.events.off('windUpdate');
+    this.events.off('hourChange');
+    this.events.off('windUpdate');
   }
 }
 
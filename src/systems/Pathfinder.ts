@@ -0,0 +1,265 @@
+/**
+ * Pathfinder - A* routes across the current location's walkability grid
+ *
+ * One instance is built per map by MarketScene and shared through the
+ * registry as 'pathfinder'. NPCs ask it for a route whenever their
+ * schedule sends them somewhere - back to their stall, or out through an
+ * exit to another part of the city.
+ *
+ * Routes between the same two tiles are cached, so thirty merchants
+ * packing up at noon cost a handful of searches rather than thirty.
+ * Cached routes ignore other people; NPCs report the tile they stand on
+ * and, when someone is in their way, ask for a one-off route that steps
+ * around occupied tiles.
+ */
+
+import { WalkabilityGrid } from './WalkabilityGrid';
+
+export interface PathNode {
+  x: number;
+  y: number;
+}
+
+export interface PathOptions {
+  /** Route around tiles other NPCs are standing on (never cached) */
+  avoidOccupied?: boolean;
+  /** The NPC asking, so its own tile does not count as occupied */
+  occupant?: object;
+}
+
+// Neighbour offsets: the four tile edges, then the four corners
+const NEIGHBOURS: Array<[number, number, number]> = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2],
+];
+
+export class Pathfinder {
+  private grid: WalkabilityGrid;
+  private cache: Map<string, PathNode[] | null> = new Map();
+  private occupantTiles: Map<object, number> = new Map();
+  private occupiedCounts: Map<number, number> = new Map();
+
+  private readonly maxCachedPaths = 256;
+  // Give up on searches that explore more tiles than this
+  private readonly maxSearchNodes = 5000;
+  // Extra cost of stepping through a tile someone is standing on
+  private readonly occupiedCost = 8;
+
+  constructor(grid: WalkabilityGrid) {
+    this.grid = grid;
+  }
+
+  public getGrid(): WalkabilityGrid {
+    return this.grid;
+  }
+
+  /**
+   * Find a route between two tiles
+   * A blocked goal is moved to the nearest walkable tile first.
+   * @returns The tiles to walk through, excluding the start and ending at
+   * the goal; empty if already there, null if there is no route
+   */
+  public findPath(from: PathNode, to: PathNode, options: PathOptions = {}): PathNode[] | null {
+    const goal = this.grid.findNearestWalkable(to.x, to.y);
+    if (!goal) return null;
+    if (from.x === goal.x && from.y === goal.y) return [];
+
+    if (options.avoidOccupied) {
+      return this.search(from, goal, true, options.occupant);
+    }
+
+    const key = `${from.x},${from.y}>${goal.x},${goal.y}`;
+    if (this.cache.has(key)) {
+      const cached = this.cache.get(key)!;
+      // Refresh its place so the most used routes stay cached
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached ? [...cached] : null;
+    }
+
+    const path = this.search(from, goal, false);
+    this.cache.set(key, path);
+    if (this.cache.size > this.maxCachedPaths) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    return path ? [...path] : null;
+  }
+
+  /**
+   * Record which tile an NPC is standing on
+   */
+  public setOccupant(occupant: object, tileX: number, tileY: number): void {
+    const index = this.toIndex(tileX, tileY);
+    const previous = this.occupantTiles.get(occupant);
+    if (previous === index) return;
+
+    if (previous !== undefined) this.decrementTile(previous);
+    this.occupantTiles.set(occupant, index);
+    this.occupiedCounts.set(index, (this.occupiedCounts.get(index) ?? 0) + 1);
+  }
+
+  /**
+   * Forget an NPC that has left the location or been destroyed
+   */
+  public removeOccupant(occupant: object): void {
+    const previous = this.occupantTiles.get(occupant);
+    if (previous === undefined) return;
+
+    this.decrementTile(previous);
+    this.occupantTiles.delete(occupant);
+  }
+
+  /**
+   * Check whether anyone other than `self` stands on a tile
+   */
+  public isOccupied(tileX: number, tileY: number, self?: object): boolean {
+    const index = this.toIndex(tileX, tileY);
+    let count = this.occupiedCounts.get(index) ?? 0;
+    if (self && this.occupantTiles.get(self) === index) count--;
+    return count > 0;
+  }
+
+  public clearCache(): void {
+    this.cache.clear();
+  }
+
+  private search(start: PathNode, goal: PathNode, avoidOccupied: boolean, occupant?: object): PathNode[] | null {
+    const width = this.grid.getWidth();
+    const height = this.grid.getHeight();
+    const size = width * height;
+    if (start.x < 0 || start.y < 0 || start.x >= width || start.y >= height) return null;
+    const startIndex = this.toIndex(start.x, start.y);
+    const goalIndex = this.toIndex(goal.x, goal.y);
+
+    const gScore = new Float64Array(size).fill(Infinity);
+    const cameFrom = new Int32Array(size).fill(-1);
+    const closed = new Uint8Array(size);
+    const open = new MinHeap();
+
+    gScore[startIndex] = 0;
+    open.push(startIndex, this.heuristic(start.x, start.y, goal));
+
+    let explored = 0;
+    while (open.size() > 0) {
+      const current = open.pop();
+      if (current === goalIndex) {
+        return this.reconstruct(cameFrom, current, startIndex);
+      }
+      if (closed[current]) continue;
+      closed[current] = 1;
+
+      if (++explored > this.maxSearchNodes) break;
+
+      const cx = current % width;
+      const cy = Math.floor(current / width);
+
+      for (const [dx, dy, stepCost] of NEIGHBOURS) {
+        const nx = cx + dx;
+        const ny = cy + dy;
+        if (!this.grid.isWalkable(nx, ny)) continue;
+        // No cutting corners past a building or the waterline
+        if (dx !== 0 && dy !== 0 &&
+            (!this.grid.isWalkable(cx + dx, cy) || !this.grid.isWalkable(cx, cy + dy))) {
+          continue;
+        }
+
+        const next = ny * width + nx;
+        if (closed[next]) continue;
+
+        let cost = gScore[current] + stepCost;
+        if (avoidOccupied && next !== goalIndex && this.isOccupied(nx, ny, occupant)) {
+          cost += this.occupiedCost;
+        }
+
+        if (cost < gScore[next]) {
+          gScore[next] = cost;
+          cameFrom[next] = current;
+          open.push(next, cost + this.heuristic(nx, ny, goal));
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private reconstruct(cameFrom: Int32Array, end: number, start: number): PathNode[] {
+    const width = this.grid.getWidth();
+    const path: PathNode[] = [];
+    for (let index = end; index !== start && index !== -1; index = cameFrom[index]) {
+      path.push({ x: index % width, y: Math.floor(index / width) });
+    }
+    return path.reverse();
+  }
+
+  // Octile distance - admissible for 8-way movement
+  private heuristic(x: number, y: number, goal: PathNode): number {
+    const dx = Math.abs(x - goal.x);
+    const dy = Math.abs(y - goal.y);
+    return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+  }
+
+  private toIndex(tileX: number, tileY: number): number {
+    return tileY * this.grid.getWidth() + tileX;
+  }
+
+  private decrementTile(index: number): void {
+    const count = (this.occupiedCounts.get(index) ?? 1) - 1;
+    if (count > 0) {
+      this.occupiedCounts.set(index, count);
+    } else {
+      this.occupiedCounts.delete(index);
+    }
+  }
+}
+
+/**
+ * Binary heap of tile indices ordered by priority, for the A* open set
+ */
+class MinHeap {
+  private items: number[] = [];
+  private priorities: number[] = [];
+
+  public size(): number {
+    return this.items.length;
+  }
+
+  public push(item: number, priority: number): void {
+    this.items.push(item);
+    this.priorities.push(priority);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  public pop(): number {
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+        if (right < this.items.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
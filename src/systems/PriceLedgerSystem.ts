@@ -0,0 +1,150 @@
+import Phaser from 'phaser';
+import type { TradeSystem } from './TradeSystem';
+import { GameEventBus, getGameEvents } from './GameEvents';
+
+/**
+ * PriceLedgerSystem - The merchant's book of daily prices
+ *
+ * Historical context: Goa's merchant houses kept careful books of what
+ * pepper, cloves and silk fetched each day on the Ribeira, and letters home
+ * to Lisbon were full of them. A trader who knew last week's prices knew
+ * when a ship had just landed and when the market was bare.
+ *
+ * TradeSystem only remembers its last twenty price updates. This system
+ * samples it through the day and keeps an open/high/low/close record per
+ * good per game day, which is written into saves so the history survives
+ * between sessions. UIScene's ledger panel draws it.
+ */
+
+// One good's prices over one game day
+export interface PriceCandle {
+  day: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// goodId -> days, oldest first
+export type PriceLedgerSaveData = Record<string, PriceCandle[]>;
+
+export class PriceLedgerSystem {
+  private scene: Phaser.Scene;
+  private events: GameEventBus;
+  private tradeSystem: TradeSystem;
+  private ledger: Map<string, PriceCandle[]> = new Map();
+  private currentDay = 1;
+
+  // Days of history kept per good
+  private readonly maxDays = 90;
+
+  constructor(scene: Phaser.Scene, tradeSystem: TradeSystem) {
+    this.scene = scene;
+    this.events = getGameEvents(scene);
+    this.tradeSystem = tradeSystem;
+    this.currentDay = (scene as any).getTimeSystem?.()?.getTimeData().dayCount ?? 1;
+    this.setupEventListeners();
+    this.recordPrices();
+  }
+
+  private setupEventListeners(): void {
+    this.events.on('marketUpdate', this.recordPrices, this);
+    this.events.on('hourChange', this.recordPrices, this);
+    this.events.on('playerBuy', this.recordPrices, this);
+    this.events.on('playerSell', this.recordPrices, this);
+    this.events.on('newDay', this.onNewDay, this);
+  }
+
+  /**
+   * Sample every good's current price into today's entry
+   */
+  public recordPrices(): void {
+    for (const { goodId, price } of this.tradeSystem.getMarketSummary()) {
+      this.recordPrice(goodId, price);
+    }
+  }
+
+  private recordPrice(goodId: string, price: number): void {
+    let days = this.ledger.get(goodId);
+    if (!days) {
+      days = [];
+      this.ledger.set(goodId, days);
+    }
+
+    const today = days[days.length - 1];
+    if (today && today.day === this.currentDay) {
+      today.high = Math.max(today.high, price);
+      today.low = Math.min(today.low, price);
+      today.close = price;
+      return;
+    }
+
+    days.push({ day: this.currentDay, open: price, high: price, low: price, close: price });
+    if (days.length > this.maxDays) {
+      days.shift();
+    }
+  }
+
+  private onNewDay(data: { dayCount: number }): void {
+    // Close the old day at its last price, then open the new one
+    this.recordPrices();
+    this.currentDay = data.dayCount;
+    this.recordPrices();
+    this.events.emit('priceLedgerUpdate');
+  }
+
+  /**
+   * Daily entries for a good, oldest first
+   * @param days Only the most recent number of days
+   */
+  public getHistory(goodId: string, days?: number): PriceCandle[] {
+    const history = this.ledger.get(goodId) ?? [];
+    const recent = days !== undefined ? history.slice(-days) : history;
+    return recent.map(candle => ({ ...candle }));
+  }
+
+  /**
+   * Goods with at least one day in the ledger
+   */
+  public getRecordedGoods(): string[] {
+    return Array.from(this.ledger.keys());
+  }
+
+  public getSaveData(): PriceLedgerSaveData {
+    const data: PriceLedgerSaveData = {};
+    for (const [goodId, days] of this.ledger) {
+      data[goodId] = days.map(candle => ({ ...candle }));
+    }
+    return data;
+  }
+
+  /**
+   * Restore the ledger from a save, then record today's prices on top
+   */
+  public loadSaveData(data: PriceLedgerSaveData): void {
+    this.ledger.clear();
+    for (const [goodId, days] of Object.entries(data)) {
+      if (!Array.isArray(days)) continue;
+      const valid = days.filter(candle =>
+        candle && [candle.day, candle.open, candle.high, candle.low, candle.close].every(value => typeof value === 'number')
+      );
+      this.ledger.set(goodId, valid.slice(-this.maxDays).map(candle => ({ ...candle })));
+    }
+
+    this.currentDay = (this.scene as any).getTimeSystem?.()?.getTimeData().dayCount ?? this.currentDay;
+    this.recordPrices();
+    this.events.emit('priceLedgerUpdate');
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.events.off('marketUpdate', this.recordPrices, this);
+    this.events.off('hourChange', this.recordPrices, this);
+    this.events.off('playerBuy', this.recordPrices, this);
+    this.events.off('playerSell', this.recordPrices, this);
+    this.events.off('newDay', this.onNewDay, this);
+    this.ledger.clear();
+  }
+}
@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 /**
  * ProgressionSystem - Manages merchant rank progression and unlocks
@@ -15,7 +16,7 @@ export enum MerchantRank {
   MAGNATE = 4,    // 50000+ gold: Win condition
 }
 
-interface RankData {
+export interface RankData {
   name: string;
   title: string;
   description: string;
@@ -26,7 +27,7 @@ interface RankData {
   unlocks: string[];
 }
 
-interface ProgressionSaveData {
+export interface ProgressionSaveData {
   currentRank: MerchantRank;
   highestGoldReached: number;
   totalTradesCompleted: number;
@@ -34,7 +35,7 @@ interface ProgressionSaveData {
 }
 
 export class ProgressionSystem {
-  private scene: Phaser.Scene;
+  private events: GameEventBus;
   private currentRank: MerchantRank = MerchantRank.PEDDLER;
   private highestGoldReached = 100;
   private totalTradesCompleted = 0;
@@ -94,26 +95,26 @@ export class ProgressionSystem {
   ]);
 
   constructor(scene: Phaser.Scene) {
-    this.scene = scene;
+    this.events = getGameEvents(scene);
     this.setupEventListeners();
   }
 
   private setupEventListeners(): void {
-    // Listen for gold changes to check rank progression
-    this.scene.events.on('goldChange', (newGold: number) => {
+    // Listen for the player's gold to check rank progression
+    this.events.on('goldTotal', newGold => {
       this.checkRankProgression(newGold);
     });
 
     // Track trades
-    this.scene.events.on('playerBuy', () => {
+    this.events.on('playerBuy', () => {
       this.totalTradesCompleted++;
-      this.scene.events.emit('progressionUpdate', this.getProgressionData());
+      this.events.emit('progressionUpdate', this.getProgressionData());
     });
 
-    this.scene.events.on('playerSell', (data: { price: number }) => {
+    this.events.on('playerSell', (data: { price: number }) => {
       this.totalTradesCompleted++;
       this.totalGoldEarned += data.price;
-      this.scene.events.emit('progressionUpdate', this.getProgressionData());
+      this.events.emit('progressionUpdate', this.getProgressionData());
     });
   }
 
@@ -133,14 +134,14 @@ export class ProgressionSystem {
       const rankInfo = this.rankData.get(newRank);
       if (rankInfo) {
         // Emit rank up event
-        this.scene.events.emit('rankUp', {
+        this.events.emit('rankUp', {
           previousRank,
           newRank,
           rankInfo,
         });
 
         // Emit notification
-        this.scene.events.emit('notification', {
+        this.events.emit('notification', {
           title: 'Rank Achieved!',
           message: `You are now a ${rankInfo.title}!`,
           type: 'success',
@@ -148,7 +149,7 @@ export class ProgressionSystem {
 
         // Emit unlocks
         for (const unlock of rankInfo.unlocks) {
-          this.scene.events.emit('featureUnlocked', unlock);
+          this.events.emit('featureUnlocked', unlock);
         }
       }
     }
@@ -277,7 +278,7 @@ export class ProgressionSystem {
     this.totalTradesCompleted = data.totalTradesCompleted ?? 0;
     this.totalGoldEarned = data.totalGoldEarned ?? 0;
 
-    this.scene.events.emit('progressionLoaded', this.getProgressionData());
+    this.events.emit('progressionLoaded', this.getProgressionData());
   }
 
   public reset(): void {
@@ -291,8 +292,8 @@ export class ProgressionSystem {
    * Clean up event listeners to prevent memory leaks
    */
   public destroy(): void {
-    this.scene.events.off('goldChange');
-    this.scene.events.off('playerBuy');
-    this.scene.events.off('playerSell');
+    this.events.off('goldTotal');
+    this.events.off('playerBuy');
+    this.events.off('playerSell');
   }
 }
@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 /**
  * QuestSystem - Manages quests, objectives, and branching narratives
@@ -78,7 +79,7 @@ interface ActiveQuestState {
 // ============================================================================
 
 export class QuestSystem {
-  private scene: Phaser.Scene;
+  private events: GameEventBus;
   
   // Quest storage
   private availableQuests: Map<string, Quest> = new Map();
@@ -93,7 +94,7 @@ export class QuestSystem {
   private getFlag: (flagName: string) => boolean | string | number | undefined = () => undefined;
 
   constructor(scene: Phaser.Scene) {
-    this.scene = scene;
+    this.events = getGameEvents(scene);
     this.initializeSampleQuests();
   }
 
@@ -281,7 +282,7 @@ export class QuestSystem {
     this.activeQuests.set(questId, state);
 
     // Emit event
-    this.scene.events.emit('questStarted', {
+    this.events.emit('questStarted', {
       questId,
       quest,
       stage: quest.stages[0],
@@ -367,7 +368,7 @@ export class QuestSystem {
     state.progress = 0;
 
     // Emit event
-    this.scene.events.emit('questStageAdvanced', {
+    this.events.emit('questStageAdvanced', {
       questId,
       quest,
       previousStage: currentStage,
@@ -427,7 +428,7 @@ export class QuestSystem {
     this.completedQuests.add(questId);
 
     // Emit event
-    this.scene.events.emit('questCompleted', {
+    this.events.emit('questCompleted', {
       questId,
       quest,
       rewards: quest.rewards,
@@ -455,7 +456,7 @@ export class QuestSystem {
     this.failedQuests.add(questId);
 
     // Emit event
-    this.scene.events.emit('questFailed', {
+    this.events.emit('questFailed', {
       questId,
       quest,
     });
@@ -470,33 +471,36 @@ export class QuestSystem {
 
   private applyEffects(effects: QuestChoiceEffect[]): void {
     for (const effect of effects) {
-      this.scene.events.emit('questEffect', effect);
+      this.events.emit('questEffect', effect);
       
       switch (effect.type) {
         case 'gold':
-          this.scene.events.emit('goldChange', effect.value);
+          this.events.emit('goldDelta', Number(effect.value));
           break;
         case 'reputation':
-          this.scene.events.emit('reputationChange', {
+          if (!effect.target) break;
+          this.events.emit('reputationDelta', {
             target: effect.target,
-            value: effect.value,
+            value: Number(effect.value),
           });
           break;
         case 'item':
+          if (!effect.target) break;
           if (typeof effect.value === 'number' && effect.value > 0) {
-            this.scene.events.emit('itemGained', {
+            this.events.emit('itemGained', {
               item: effect.target,
               quantity: effect.value,
             });
           } else if (typeof effect.value === 'number' && effect.value < 0) {
-            this.scene.events.emit('itemLost', {
+            this.events.emit('itemLost', {
               item: effect.target,
               quantity: Math.abs(effect.value),
             });
           }
           break;
         case 'flag':
-          this.scene.events.emit('flagSet', {
+          if (!effect.target) break;
+          this.events.emit('flagSet', {
             flag: effect.target,
             value: effect.value,
           });
@@ -508,28 +512,32 @@ export class QuestSystem {
   private applyReward(reward: QuestReward): void {
     switch (reward.type) {
       case 'gold':
-        this.scene.events.emit('goldChange', reward.value);
+        this.events.emit('goldDelta', Number(reward.value));
         break;
       case 'item':
-        this.scene.events.emit('itemGained', {
+        if (!reward.target) break;
+        this.events.emit('itemGained', {
           item: reward.target,
           quantity: typeof reward.value === 'number' ? reward.value : 1,
         });
         break;
       case 'reputation':
-        this.scene.events.emit('reputationChange', {
+        if (!reward.target) break;
+        this.events.emit('reputationDelta', {
           target: reward.target,
-          value: reward.value,
+          value: Number(reward.value),
         });
         break;
       case 'flag':
-        this.scene.events.emit('flagSet', {
+        if (!reward.target) break;
+        this.events.emit('flagSet', {
           flag: reward.target,
           value: reward.value,
         });
         break;
       case 'unlock':
-        this.scene.events.emit('unlock', {
+        if (!reward.target) break;
+        this.events.emit('unlock', {
           type: reward.target,
           value: reward.value,
         });
@@ -649,8 +657,10 @@ export class QuestSystem {
       const currentStage = quest.stages.find(s => s.id === state.currentStageId);
       if (!currentStage) continue;
       
-      // Check if this is a talk objective targeting this NPC
-      if (currentStage.type === 'talk' && currentStage.target === npcId) {
+      // Check if this is a talk objective targeting this NPC; a stage with
+      // choices is left for the player to settle in conversation
+      const hasChoices = currentStage.choices !== undefined && currentStage.choices.length > 0;
+      if (currentStage.type === 'talk' && currentStage.target === npcId && !hasChoices) {
         console.log(`Quest progress: Talked to ${npcId} for quest ${quest.title}`);
         this.advanceStage(questId);
       }
@@ -800,7 +810,7 @@ export class QuestSystem {
       }
     }
 
-    this.scene.events.emit('questStateLoaded');
+    this.events.emit('questStateLoaded');
     console.log(`Loaded quest state: ${this.activeQuests.size} active, ${this.completedQuests.size} completed, ${this.failedQuests.size} failed`);
   }
 
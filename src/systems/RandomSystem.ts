@@ -0,0 +1,178 @@
+import Phaser from 'phaser';
+
+/**
+ * RandomSystem - Seeded randomness for the simulation
+ *
+ * Ship arrivals, trader behaviour, prices, weather, contracts and voyages
+ * draw from named streams of one seeded generator rather than from
+ * Math.random. Each system has a stream of its own, so an extra roll in
+ * one (an NPC idling on a slow frame, say) never shifts another's sequence.
+ * The seed and the state of every stream go into the save: a save reloaded
+ * and played the same way brings the same ships, prices and weather, which
+ * is what balance testing and bug reports need.
+ *
+ * Pass ?seed=1234 in the URL to start a new game from a known seed.
+ *
+ * Visual flourishes - particles, lighting flicker, generated art - and
+ * flavour lines in dialogue keep using Math.random; they are not part of
+ * the simulation.
+ */
+
+export interface RandomSaveData {
+  seed: number;
+  streams: Record<string, number>;
+}
+
+/**
+ * One named sequence of random numbers (mulberry32)
+ */
+export class RandomStream {
+  private state: number;
+
+  constructor(state: number) {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * A float in [0, 1), as Math.random
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * A float in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * An integer in [min, max], both ends included
+   */
+  public int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * A shuffled copy of items
+   */
+  public shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  public getState(): number {
+    return this.state;
+  }
+
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+export class RandomSystem {
+  private seed: number;
+  private streams: Map<string, RandomStream> = new Map();
+
+  public static readonly REGISTRY_KEY = 'randomSystem';
+
+  constructor(seed: number = RandomSystem.createSeed()) {
+    this.seed = seed >>> 0;
+  }
+
+  /**
+   * A fresh seed for a new game
+   */
+  public static createSeed(): number {
+    return (Date.now() ^ Math.floor(Math.random() * 0x100000000)) >>> 0;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * The stream with this name, started from the seed the first time it is
+   * asked for. Systems can keep the stream: loading a save and reseeding
+   * update it in place.
+   */
+  public stream(name: string): RandomStream {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new RandomStream(this.initialState(name));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * Start every stream again from a new seed
+   */
+  public reseed(seed: number): void {
+    this.seed = seed >>> 0;
+    for (const [name, stream] of this.streams) {
+      stream.setState(this.initialState(name));
+    }
+  }
+
+  public getSaveData(): RandomSaveData {
+    const streams: Record<string, number> = {};
+    for (const [name, stream] of this.streams) {
+      streams[name] = stream.getState();
+    }
+    return { seed: this.seed, streams };
+  }
+
+  public loadSaveData(data: RandomSaveData): void {
+    if (typeof data?.seed !== 'number') {
+      console.warn('RandomSystem: Save has no seed, keeping the current one');
+      return;
+    }
+
+    this.reseed(data.seed);
+    for (const [name, state] of Object.entries(data.streams ?? {})) {
+      this.stream(name).setState(state);
+    }
+  }
+
+  /**
+   * Each stream's starting state mixes the seed with a hash of its name
+   */
+  private initialState(name: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < name.length; i++) {
+      hash = Math.imul(hash ^ name.charCodeAt(i), 0x01000193);
+    }
+    return (this.seed ^ hash) >>> 0;
+  }
+}
+
+/**
+ * A system's named stream from the scene registry's RandomSystem, which is
+ * created unseeded if no scene has set one up
+ */
+export function getRandomStream(scene: Phaser.Scene, name: string): RandomStream {
+  let random = scene.registry.get(RandomSystem.REGISTRY_KEY) as RandomSystem | undefined;
+  if (!random) {
+    random = new RandomSystem();
+    scene.registry.set(RandomSystem.REGISTRY_KEY, random);
+  }
+  return random.stream(name);
+}
@@ -1,4 +1,20 @@
 import Phaser from 'phaser';
+import type { AchievementSaveData } from './AchievementSystem';
+import type { ContractSaveData } from './ContractSystem';
+import type { HarborSaveData } from './HarborSystem';
+import type { NPCMemorySaveData } from './NPCMemorySystem';
+import type { PriceLedgerSaveData } from './PriceLedgerSystem';
+import type { ProgressionSaveData } from './ProgressionSystem';
+import type { SkillSaveData } from './SkillSystem';
+import type { TradeRouteSaveData } from './TradeRouteSystem';
+import type { MarketSaveData } from './TradeSystem';
+import type { WarehouseSaveData } from './WarehouseSystem';
+import type { WeatherSaveData } from './WeatherSystem';
+import type { WindSaveData } from './WindSystem';
+import type { RandomSaveData } from './RandomSystem';
+import { GameEventBus, getGameEvents } from './GameEvents';
+
+export type { WeatherSaveData } from './WeatherSystem';
 
 /**
  * SaveSystem - Manages game saving and loading for the 16th century Goa trading game
@@ -30,11 +46,14 @@ export interface PlayerSaveData {
   position: PlayerPosition;
   inventory: InventoryItem[];
   gold: number;
+  skills?: Record<string, number>;
+  maxCarryCapacity?: number;
 }
 
 /** World time state */
 export interface WorldTimeData {
   hour: number;
+  minute?: number;
   day: number;
 }
 
@@ -59,16 +78,11 @@ export interface QuestSaveData {
 /** Individual active quest state */
 export interface ActiveQuestSaveData {
   questId: string;
-  currentStageIndex: number;
-  currentStageId: string;
+  stageIndex: number;
+  stageId: string;
   progress: number;
   startTime: number;
-}
-
-/** Weather state data */
-export interface WeatherSaveData {
-  current: string;
-  season: string;
+  flags?: Record<string, boolean | string | number>;
 }
 
 /**
@@ -92,6 +106,47 @@ export interface SaveData {
   flags: Record<string, boolean | string | number>;
   /** Current weather conditions */
   weather: WeatherSaveData;
+  /** Wind direction, speed and season */
+  wind?: WindSaveData;
+  /** Prices, supply and demand of every good, and the market traders' purses */
+  market?: MarketSaveData;
+  /** Daily open/high/low/close prices per good */
+  priceLedger?: PriceLedgerSaveData;
+  /** Merchant rank and lifetime trading totals */
+  progression?: ProgressionSaveData;
+  /** Accepted contracts and contract tallies */
+  contracts?: ContractSaveData;
+  /** Expeditions at sea and voyage tallies */
+  tradeRoutes?: TradeRouteSaveData;
+  /** Achievement progress and unlocks */
+  achievements?: AchievementSaveData;
+  /** What each NPC remembers of the player */
+  npcMemories?: NPCMemorySaveData;
+  /** Rented warehouse bays and what is stored in them */
+  warehouse?: WarehouseSaveData;
+  /** Ships moored at the docks and what is left in their holds */
+  harbor?: HarborSaveData;
+  /** Perks the player has learned */
+  perks?: SkillSaveData;
+  /** Seed and stream states of the simulation's random numbers */
+  random?: RandomSaveData;
+  /** Serializer version each section was written with; absent sections count as version 1 */
+  sectionVersions?: Partial<Record<SaveSectionKey, number>>;
+}
+
+/** A part of the save owned by one system */
+export type SaveSectionKey = Exclude<keyof SaveData, 'version' | 'timestamp' | 'sectionVersions'>;
+
+/**
+ * How a system writes and restores its section of the save. The version
+ * goes up whenever the section's shape changes; a section written by an
+ * older version is passed through migrate() before load() sees it.
+ */
+export interface SaveSerializer<K extends SaveSectionKey = SaveSectionKey> {
+  version: number;
+  save(): NonNullable<SaveData[K]>;
+  load(data: NonNullable<SaveData[K]>): void;
+  migrate?(data: unknown, fromVersion: number): NonNullable<SaveData[K]>;
 }
 
 /** Save slot metadata for UI display */
@@ -112,6 +167,21 @@ export interface SaveEventData {
   error?: string;
 }
 
+/** A slot exported to a file, as written to and read back from disk */
+export interface SaveFile {
+  format: typeof SAVE_FILE_FORMAT;
+  /** Checksum of the save, so a damaged or hand-edited file is caught on import */
+  checksum: string;
+  save: SaveData;
+}
+
+/** Outcome of importing a save file into a slot */
+export interface SaveImportResult {
+  success: boolean;
+  /** Why the file was refused, one reason per entry, for the player to read */
+  errors: string[];
+}
+
 /** Response data from systems when gathering save data */
 export interface SystemSaveDataResponse {
   system: string;
@@ -123,7 +193,13 @@ export interface SystemSaveDataResponse {
 // ============================================================================
 
 /** Current save data format version */
-const SAVE_VERSION = '1.0.0';
+const SAVE_VERSION = '1.1.0';
+
+/** Marks an exported file as a Goa 1590 save */
+const SAVE_FILE_FORMAT = 'goa1590-save';
+
+/** Extensions an exported save is written with and accepted back from */
+const SAVE_FILE_EXTENSIONS = ['.goa', '.json'];
 
 /** localStorage key prefix for saves */
 const STORAGE_PREFIX = 'goa_trade_';
@@ -137,6 +213,61 @@ const AUTOSAVE_SLOT = 'autosave';
 /** All valid save slot identifiers */
 const ALL_SLOTS = [...MANUAL_SAVE_SLOTS, AUTOSAVE_SLOT];
 
+/**
+ * The order sections are restored in. The clock and weather come first, as
+ * contracts and voyages read them. Progression and achievements come before
+ * the player, so the gold total the player announces on loading is measured
+ * against the saved rank and unlocks rather than earning them again. The
+ * random streams come last, so nothing restored after them draws from them.
+ */
+const RESTORE_ORDER: SaveSectionKey[] = [
+  'world',
+  'weather',
+  'wind',
+  'market',
+  'priceLedger',
+  'factions',
+  'progression',
+  'achievements',
+  'npcMemories',
+  'quests',
+  'flags',
+  'contracts',
+  'tradeRoutes',
+  'warehouse',
+  'harbor',
+  'perks',
+  'player',
+  'random',
+];
+
+/**
+ * The save format's history. Each entry is keyed by the version it upgrades
+ * from and brings a save one version forward; loading walks a save along
+ * the chain until it reaches SAVE_VERSION. A change to the save's shape
+ * bumps SAVE_VERSION and adds the step from the version before it.
+ */
+const SAVE_MIGRATIONS: Record<string, { to: string; migrate: (save: SaveData) => void }> = {
+  // 1.1.0 records each section's serializer version, and the player's
+  // position carries the location id rather than a copy of the location
+  '1.0.0': {
+    to: '1.1.0',
+    migrate: save => {
+      const sectionVersions: Partial<Record<SaveSectionKey, number>> = {};
+      for (const key of RESTORE_ORDER) {
+        if (save[key] !== undefined) sectionVersions[key] = 1;
+      }
+      save.sectionVersions = sectionVersions;
+
+      const player = save.player as PlayerSaveData & { location?: unknown };
+      if (player.position && typeof player.position.location !== 'string') {
+        player.position.location = save.world?.currentLocation ?? 'ribeira_grande';
+      }
+      delete player.location;
+    },
+  },
+};
+
 // ============================================================================
 // SaveSystem Class
 // ============================================================================
@@ -146,7 +277,8 @@ const ALL_SLOTS = [...MANUAL_SAVE_SLOTS, AUTOSAVE_SLOT];
  *
  * Features:
  * - 3 manual save slots + 1 auto-save slot
- * - Version-aware save format with migration support
+ * - Version-aware save format with a migration chain from older versions
+ * - Export to and import from save files, checked by checksum
  * - Event-driven data gathering from other systems
  * - Robust error handling for storage issues
  *
@@ -166,13 +298,18 @@ const ALL_SLOTS = [...MANUAL_SAVE_SLOTS, AUTOSAVE_SLOT];
  */
 export class SaveSystem {
   private scene: Phaser.Scene;
+  private events: GameEventBus;
   private isStorageAvailable: boolean = false;
 
   // Cached save data from systems for current save operation
   private pendingSaveData: Partial<SaveData> = {};
 
+  // Each system's serializer, by the section it owns
+  private serializers: Map<SaveSectionKey, SaveSerializer> = new Map();
+
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.events = getGameEvents(scene);
     this.isStorageAvailable = this.checkStorageAvailability();
     this.setupEventListeners();
   }
@@ -202,16 +339,69 @@ export class SaveSystem {
    */
   private setupEventListeners(): void {
     // Listen for location changes to trigger auto-save
-    this.scene.events.on('locationChange', () => {
+    this.events.on('locationChange', () => {
       this.autoSave();
     });
 
     // Listen for responses from other systems when gathering save data
-    this.scene.events.on('saveDataResponse', (response: SystemSaveDataResponse) => {
+    this.events.on('saveDataResponse', (response: SystemSaveDataResponse) => {
       this.handleSaveDataResponse(response);
     });
   }
 
+  // ============================================================================
+  // Serializers
+  // ============================================================================
+
+  /**
+   * Register the serializer for a section of the save, replacing any
+   * already registered for it
+   * @param key The section the serializer owns
+   * @param serializer How to save, restore and migrate the section
+   */
+  public registerSerializer<K extends SaveSectionKey>(key: K, serializer: SaveSerializer<K>): void {
+    if (this.serializers.has(key)) {
+      console.warn(`SaveSystem: Replacing the serializer for "${key}"`);
+    }
+    this.serializers.set(key, serializer as unknown as SaveSerializer);
+  }
+
+  /**
+   * Restore every registered system from a loaded save, in RESTORE_ORDER.
+   * A section that fails to restore is reported and skipped, so one bad
+   * section does not cost the player the rest of the save.
+   * @param saveData A save returned by load()
+   */
+  public restore(saveData: SaveData): void {
+    for (const key of RESTORE_ORDER) {
+      const serializer = this.serializers.get(key);
+      const section = saveData[key];
+      if (!serializer || section === undefined || section === null) continue;
+
+      const savedVersion = saveData.sectionVersions?.[key] ?? 1;
+
+      try {
+        if (savedVersion > serializer.version) {
+          console.warn(`SaveSystem: "${key}" was saved by a newer version (${savedVersion} > ${serializer.version}), skipping`);
+          continue;
+        }
+
+        let data = section as NonNullable<SaveData[SaveSectionKey]>;
+        if (savedVersion < serializer.version) {
+          if (!serializer.migrate) {
+            console.warn(`SaveSystem: No migration for "${key}" from version ${savedVersion}, skipping`);
+            continue;
+          }
+          data = serializer.migrate(section, savedVersion);
+        }
+
+        serializer.load(data);
+      } catch (e) {
+        console.error(`SaveSystem: Failed to restore "${key}"`, e);
+      }
+    }
+  }
+
   // ============================================================================
   // Save Operations
   // ============================================================================
@@ -277,7 +467,7 @@ export class SaveSystem {
     const success = this.save(AUTOSAVE_SLOT);
 
     if (success) {
-      this.scene.events.emit('autoSaveComplete', { timestamp: Date.now() });
+      this.events.emit('autoSaveComplete', { timestamp: Date.now() });
     }
   }
 
@@ -323,14 +513,14 @@ export class SaveSystem {
       const migratedData = this.migrateSaveData(saveData);
 
       // Emit load event and distribute data to systems
-      this.scene.events.emit('gameLoaded', {
+      this.events.emit('gameLoaded', {
         slotId,
         timestamp: migratedData.timestamp,
         success: true,
       });
 
       // Emit event for each system to restore their state
-      this.scene.events.emit('restoreSaveData', migratedData);
+      this.events.emit('restoreSaveData', migratedData);
 
       console.log(`SaveSystem: Game loaded from slot "${slotId}"`);
       return migratedData;
@@ -340,7 +530,7 @@ export class SaveSystem {
       // Handle corrupted data
       if (e instanceof SyntaxError) {
         console.error('SaveSystem: Save data is corrupted');
-        this.scene.events.emit('gameLoaded', {
+        this.events.emit('gameLoaded', {
           slotId,
           timestamp: 0,
           success: false,
@@ -375,7 +565,7 @@ export class SaveSystem {
       const storageKey = this.getStorageKey(slotId);
       localStorage.removeItem(storageKey);
 
-      this.scene.events.emit('saveDeleted', { slotId });
+      this.events.emit('saveDeleted', { slotId });
 
       console.log(`SaveSystem: Save deleted from slot "${slotId}"`);
     } catch (e) {
@@ -492,12 +682,21 @@ export class SaveSystem {
     this.pendingSaveData = {};
 
     // Emit request for save data from other systems
-    this.scene.events.emit('requestSaveData');
+    this.events.emit('requestSaveData');
 
     // Build save data from current game state
-    // Systems should respond synchronously or we use fallback data
+    // Registered serializers take precedence over event responses; anything
+    // still missing falls back to what can be read from the scene
     try {
+      const sectionVersions: Partial<Record<SaveSectionKey, number>> = {};
+      const pending = this.pendingSaveData as Record<string, unknown>;
+      for (const [key, serializer] of this.serializers) {
+        pending[key] = serializer.save();
+        sectionVersions[key] = serializer.version;
+      }
+
       const saveData: SaveData = {
+        ...this.pendingSaveData,
         version: SAVE_VERSION,
         timestamp: Date.now(),
         player: this.gatherPlayerData(),
@@ -506,6 +705,7 @@ export class SaveSystem {
         quests: this.gatherQuestData(),
         flags: this.gatherFlagData(),
         weather: this.gatherWeatherData(),
+        sectionVersions,
       };
 
       return saveData;
@@ -727,8 +927,8 @@ export class SaveSystem {
     try {
       const marketScene = this.scene.scene.get('MarketScene') as {
         getWeatherSystem?: () => {
-          getCurrentWeather: () => { type: string };
-          getCurrentSeason: () => string;
+          getCurrentWeather: () => WeatherSaveData['current'];
+          getCurrentSeason: () => WeatherSaveData['season'];
         };
       };
 
@@ -739,7 +939,7 @@ export class SaveSystem {
           const season = weatherSystem.getCurrentSeason();
 
           return {
-            current: weatherState?.type || 'clear',
+            current: weatherState || 'clear',
             season: season || 'dry',
           };
         }
@@ -765,48 +965,78 @@ export class SaveSystem {
    * @returns True if save data is valid
    */
   private validateSaveData(data: unknown): data is SaveData {
-    if (!data || typeof data !== 'object') {
-      return false;
+    const errors = this.getSaveErrors(data);
+    for (const error of errors) {
+      console.warn(`SaveSystem: ${error}`);
+    }
+    return errors.length === 0;
+  }
+
+  /**
+   * Describe everything wrong with the structure of some save data
+   * @param data The save data to check
+   * @returns One message per problem, empty if the save is sound
+   */
+  public getSaveErrors(data: unknown): string[] {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return ['The save is empty or not a save at all'];
     }
 
     const saveData = data as Partial<SaveData>;
+    const errors: string[] = [];
 
-    // Check required top-level properties
     if (typeof saveData.version !== 'string') {
-      console.warn('SaveSystem: Missing or invalid version');
-      return false;
+      errors.push('Missing or invalid version');
+    } else if (this.compareVersions(saveData.version, SAVE_VERSION) > 0) {
+      errors.push(`Made by a newer version of the game (save format ${saveData.version}, this one reads up to ${SAVE_VERSION})`);
     }
 
     if (typeof saveData.timestamp !== 'number') {
-      console.warn('SaveSystem: Missing or invalid timestamp');
-      return false;
+      errors.push('Missing or invalid timestamp');
     }
 
-    // Validate player data
     if (!saveData.player || typeof saveData.player !== 'object') {
-      console.warn('SaveSystem: Missing or invalid player data');
-      return false;
+      errors.push('Missing or invalid player data');
+    } else {
+      if (saveData.player.gold !== undefined && typeof saveData.player.gold !== 'number') {
+        errors.push('Player gold is not a number');
+      }
+      if (saveData.player.inventory !== undefined && !Array.isArray(saveData.player.inventory)) {
+        errors.push('Player inventory is not a list');
+      }
     }
 
-    // Validate world data
     if (!saveData.world || typeof saveData.world !== 'object') {
-      console.warn('SaveSystem: Missing or invalid world data');
-      return false;
+      errors.push('Missing or invalid world data');
     }
 
-    // Validate factions data
     if (!saveData.factions || typeof saveData.factions !== 'object') {
-      console.warn('SaveSystem: Missing or invalid factions data');
-      return false;
+      errors.push('Missing or invalid factions data');
     }
 
-    // Validate quests data
     if (!saveData.quests || typeof saveData.quests !== 'object') {
-      console.warn('SaveSystem: Missing or invalid quests data');
-      return false;
+      errors.push('Missing or invalid quests data');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Describe what is wrong with the save stored in a slot
+   * @param slotId The save slot to check
+   * @returns One message per problem; empty if the slot is sound or empty
+   */
+  public getSlotErrors(slotId: string): string[] {
+    if (!this.hasSave(slotId)) {
+      return [];
     }
 
-    return true;
+    try {
+      const serialized = localStorage.getItem(this.getStorageKey(slotId));
+      return this.getSaveErrors(JSON.parse(serialized ?? 'null'));
+    } catch (e) {
+      return ['Save data is corrupted'];
+    }
   }
 
   /**
@@ -823,7 +1053,8 @@ export class SaveSystem {
   // ============================================================================
 
   /**
-   * Migrate save data from older versions to current version
+   * Migrate save data from older versions to current version, one
+   * SAVE_MIGRATIONS step at a time
    * @param data The save data to migrate
    * @returns Migrated save data
    */
@@ -840,10 +1071,16 @@ export class SaveSystem {
     // Clone data to avoid mutations
     const migrated = JSON.parse(JSON.stringify(data)) as SaveData;
 
-    // Apply migrations based on version
-    // Future migrations will use compareVersions:
-    if (this.compareVersions(version, SAVE_VERSION) < 0) {
-      console.log(`Migrating save from ${version} to ${SAVE_VERSION}`);
+    let current = version;
+    while (current !== SAVE_VERSION) {
+      const step = SAVE_MIGRATIONS[current];
+      if (!step) {
+        // Older than the chain reaches; the defaults below are the best we can do
+        console.warn(`SaveSystem: No migration from version ${current}, filling in what is missing`);
+        break;
+      }
+      step.migrate(migrated);
+      current = step.to;
     }
 
     // Ensure all required fields exist with defaults
@@ -853,7 +1090,7 @@ export class SaveSystem {
 
     // Ensure player data structure
     if (!migrated.player.position) {
-      migrated.player.position = { location: 'ribeira-grande', x: 400, y: 300 };
+      migrated.player.position = { location: 'ribeira_grande', x: 400, y: 300 };
     }
     if (!migrated.player.inventory) {
       migrated.player.inventory = [];
@@ -867,7 +1104,7 @@ export class SaveSystem {
       migrated.world.currentTime = { hour: 7, day: 1 };
     }
     if (!migrated.world.currentLocation) {
-      migrated.world.currentLocation = 'ribeira-grande';
+      migrated.world.currentLocation = 'ribeira_grande';
     }
 
     // Ensure faction data structure
@@ -898,7 +1135,6 @@ export class SaveSystem {
   private compareVersions(v1: string, v2: string): number {
     const parts1 = v1.split('.').map(Number);
     const parts2 = v2.split('.').map(Number);
-    // Note: This function is reserved for future migration logic
 
     for (let i = 0; i < Math.max(parts1.length, parts2.length); i++) {
       const p1 = parts1[i] || 0;
@@ -938,7 +1174,103 @@ export class SaveSystem {
       error,
     };
 
-    this.scene.events.emit('gameSaved', eventData);
+    this.events.emit('gameSaved', eventData);
+  }
+
+  // ============================================================================
+  // Save Files
+  // ============================================================================
+
+  /**
+   * Export a slot as the contents of a save file the player can keep
+   * @param slotId The save slot to export
+   * @returns A file name and the file's contents, or null if the slot is empty or unreadable
+   */
+  public exportSlot(slotId: string): { filename: string; contents: string } | null {
+    if (!this.isStorageAvailable || !this.hasSave(slotId)) {
+      return null;
+    }
+
+    try {
+      const saveData = JSON.parse(localStorage.getItem(this.getStorageKey(slotId)) ?? 'null') as SaveData;
+      if (!this.validateSaveData(saveData)) {
+        return null;
+      }
+
+      const file: SaveFile = {
+        format: SAVE_FILE_FORMAT,
+        checksum: computeChecksum(JSON.stringify(saveData)),
+        save: saveData,
+      };
+      const day = saveData.world?.currentTime?.day ?? 1;
+
+      return {
+        filename: `goa1590_${slotId}_day${day}${SAVE_FILE_EXTENSIONS[0]}`,
+        contents: JSON.stringify(file, null, 2),
+      };
+    } catch (e) {
+      console.error(`SaveSystem: Failed to export slot "${slotId}"`, e);
+      return null;
+    }
+  }
+
+  /**
+   * Import a save file into a slot, replacing what is there. The file must
+   * pass its checksum and the save must be one this version can read;
+   * older saves are migrated before they are stored.
+   * @param slotId The save slot to import into
+   * @param contents The save file's contents
+   * @returns Whether the import succeeded, and if not, why
+   */
+  public importSlot(slotId: string, contents: string): SaveImportResult {
+    if (!this.isStorageAvailable) {
+      return { success: false, errors: ['Saving is not available in this browser'] };
+    }
+
+    if (!this.isValidSlot(slotId)) {
+      return { success: false, errors: [`Invalid save slot: ${slotId}`] };
+    }
+
+    let file: Partial<SaveFile>;
+    try {
+      file = JSON.parse(contents) as Partial<SaveFile>;
+    } catch (e) {
+      return { success: false, errors: ['The file is not a save file (it could not be read as JSON)'] };
+    }
+
+    if (!file || file.format !== SAVE_FILE_FORMAT) {
+      return { success: false, errors: ['The file is not a Goa 1590 save file'] };
+    }
+
+    if (file.checksum !== computeChecksum(JSON.stringify(file.save))) {
+      return { success: false, errors: ['The save file is damaged or has been edited (checksum does not match)'] };
+    }
+
+    const errors = this.getSaveErrors(file.save);
+    if (errors.length > 0) {
+      return { success: false, errors };
+    }
+
+    try {
+      const saveData = this.migrateSaveData(file.save as SaveData);
+      localStorage.setItem(this.getStorageKey(slotId), JSON.stringify(saveData));
+      console.log(`SaveSystem: Save file imported into slot "${slotId}"`);
+      return { success: true, errors: [] };
+    } catch (e) {
+      console.error('SaveSystem: Failed to import save file', e);
+      const error = e instanceof DOMException && e.name === 'QuotaExceededError'
+        ? 'Storage quota exceeded. Delete old saves to continue.'
+        : 'The save could not be stored';
+      return { success: false, errors: [error] };
+    }
+  }
+
+  /**
+   * File extensions a save file is accepted with
+   * @returns Extensions including the dot, e.g. ".goa"
+   */
+  public getSaveFileExtensions(): string[] {
+    return [...SAVE_FILE_EXTENSIONS];
   }
 
   // ============================================================================
@@ -1017,8 +1349,22 @@ export class SaveSystem {
    * Clean up event listeners and data to prevent memory leaks
    */
   public destroy(): void {
-    this.scene.events.off('locationChange');
-    this.scene.events.off('saveDataResponse');
+    this.events.off('locationChange');
+    this.events.off('saveDataResponse');
     this.pendingSaveData = {};
+    this.serializers.clear();
+  }
+}
+
+/**
+ * FNV-1a hash of a save's JSON, as eight hex digits. It catches damage and
+ * casual editing; it is not meant to stop a determined cheat.
+ */
+function computeChecksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
+  return (hash >>> 0).toString(16).padStart(8, '0');
 }
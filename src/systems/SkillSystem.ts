@@ -0,0 +1,256 @@
+import Phaser from 'phaser';
+import { GameEventBus, TradeAction, getGameEvents } from './GameEvents';
+import { Perk, PerkBonus, SKILL_IDS, SkillId, SkillTree, loadSkillTree } from './SkillTree';
+
+/**
+ * SkillSystem - The player's skills at work, and the perks learned with them
+ *
+ * Player holds the four skills; this system trains them from what the
+ * player does - trading trains negotiation (more for selling above what
+ * the goods cost), looking over a trader's goods trains appraisal, keeping
+ * clients happy trains reputation and voyages train navigation. Looking
+ * over goods and talking count once a day for each trader, so reopening a
+ * panel earns nothing. Each skill earns perk points as it rises (see
+ * SkillTree), which the player spends in the skills panel.
+ *
+ * Learned perks change other systems without them knowing about perks:
+ * TradeSystem asks for a price modifier, TradeRouteSystem for the risk
+ * taken off a voyage and the share added to its return, and ContractSystem
+ * for the reward and hours added to each contract it offers.
+ */
+
+export interface SkillSaveData {
+  perks: string[];
+  // What the goods carried cost, for telling a profitable sale
+  holdings?: Record<string, GoodsHeld>;
+}
+
+// Units of a good bought and still carried, with what they cost in all
+interface GoodsHeld {
+  quantity: number;
+  cost: number;
+}
+
+// A skill as the skills panel shows it
+export interface SkillProgress {
+  id: SkillId;
+  name: string;
+  description: string;
+  value: number; // 0-100
+  level: number; // Whole levels reached
+  progress: number; // Towards the next level, 0-1
+  pointsEarned: number;
+  pointsSpent: number;
+}
+
+// The parts of Player the skills are read from and trained on
+interface SkilledPlayer {
+  getSkills(): Record<SkillId, number>;
+  improveSkill(skill: SkillId, amount: number): void;
+  completeTrade(profitable: boolean): void;
+  examineGoods(): void;
+  positiveInteraction(): void;
+  completeTradeRoute(success: boolean): void;
+}
+
+export class SkillSystem {
+  private scene: Phaser.Scene;
+  private events: GameEventBus;
+  private tree: SkillTree = loadSkillTree();
+  private learned: Set<string> = new Set();
+  private holdings: Map<string, GoodsHeld> = new Map();
+
+  // Traders whose goods were looked over, and who were talked to, today
+  private examinedToday: Set<string> = new Set();
+  private talkedToToday: Set<string> = new Set();
+
+  // Reputation gained for each contract delivered in full
+  private readonly contractReputation = 2;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+    this.events = getGameEvents(scene);
+    this.events.on('playerBuy', this.onPlayerBuy, this);
+    this.events.on('playerSell', this.onPlayerSell, this);
+    this.events.on('openTrade', this.onOpenTrade, this);
+    this.events.on('dialogueEnd', this.onDialogueEnd, this);
+    this.events.on('contractCompleted', this.onContractCompleted, this);
+    this.events.on('expeditionCompleted', this.onExpeditionCompleted, this);
+    this.events.on('expeditionLost', this.onExpeditionLost, this);
+    this.events.on('newDay', this.onNewDay, this);
+  }
+
+  public getTree(): SkillTree {
+    return this.tree;
+  }
+
+  public getSkillProgress(): SkillProgress[] {
+    const values = this.getPlayer()?.getSkills();
+    return SKILL_IDS.map(id => {
+      const definition = this.tree.getSkill(id);
+      const value = values?.[id] ?? 0;
+      const level = Math.floor(value);
+      return {
+        id,
+        name: definition.name,
+        description: definition.description,
+        value,
+        level,
+        progress: level >= 100 ? 1 : value - level,
+        pointsEarned: Math.floor(level / this.tree.getLevelsPerPoint()),
+        pointsSpent: this.getLearnedPerks().filter(perk => perk.skill === id).length,
+      };
+    });
+  }
+
+  /**
+   * Perk points a skill has earned and not yet spent
+   */
+  public getUnspentPoints(skill: SkillId): number {
+    const progress = this.getSkillProgress().find(entry => entry.id === skill);
+    return progress ? Math.max(0, progress.pointsEarned - progress.pointsSpent) : 0;
+  }
+
+  public hasPerk(perkId: string): boolean {
+    return this.learned.has(perkId);
+  }
+
+  public getLearnedPerks(): Perk[] {
+    return this.tree.getPerks().filter(perk => this.learned.has(perk.id));
+  }
+
+  /**
+   * Why a perk cannot be learned yet, or null if it can
+   */
+  public getLockReason(perkId: string): string | null {
+    const perk = this.tree.getPerk(perkId);
+    if (!perk) return 'No such perk';
+    if (this.learned.has(perkId)) return 'Already learned';
+
+    const skill = this.tree.getSkill(perk.skill);
+    const level = Math.floor(this.getPlayer()?.getSkills()[perk.skill] ?? 0);
+    if (level < perk.requiredLevel) {
+      return `Requires ${skill.name} ${perk.requiredLevel}`;
+    }
+    if (perk.requires && !this.learned.has(perk.requires)) {
+      return `Requires ${this.tree.getPerk(perk.requires)?.name ?? perk.requires}`;
+    }
+    if (this.getUnspentPoints(perk.skill) <= 0) {
+      return `No ${skill.name} points to spend`;
+    }
+    return null;
+  }
+
+  public learnPerk(perkId: string): { success: boolean; error?: string } {
+    const lockReason = this.getLockReason(perkId);
+    if (lockReason) {
+      return { success: false, error: lockReason };
+    }
+
+    const perk = this.tree.getPerk(perkId)!;
+    this.learned.add(perkId);
+    this.events.emit('perkLearned', perk);
+    return { success: true };
+  }
+
+  /**
+   * One effect added up over every learned perk
+   */
+  public getBonus(effect: PerkBonus): number {
+    return this.getLearnedPerks().reduce((total, perk) => total + (perk.effects[effect] ?? 0), 0);
+  }
+
+  /**
+   * Whether the trade ledger shows each good's supply and demand
+   */
+  public canSeeSupply(): boolean {
+    return this.getLearnedPerks().some(perk => perk.effects.revealSupply);
+  }
+
+  /**
+   * Multiplier on market prices: below 1 for buying, above 1 for selling
+   */
+  public getPriceModifier(isBuying: boolean): number {
+    return isBuying ? Math.max(0.5, 1 - this.getBonus('buyPrice')) : 1 + this.getBonus('sellPrice');
+  }
+
+  private onPlayerBuy(trade: TradeAction): void {
+    const held = this.holdings.get(trade.good) ?? { quantity: 0, cost: 0 };
+    this.holdings.set(trade.good, { quantity: held.quantity + trade.quantity, cost: held.cost + trade.price });
+    this.getPlayer()?.completeTrade(false);
+  }
+
+  // Goods carried with no purchase on record, such as a voyage's return, cost nothing
+  private onPlayerSell(trade: TradeAction): void {
+    const held = this.holdings.get(trade.good);
+    const bought = Math.min(trade.quantity, held?.quantity ?? 0);
+    const paid = held && bought > 0 ? held.cost * bought / held.quantity : 0;
+    if (held && bought >= held.quantity) {
+      this.holdings.delete(trade.good);
+    } else if (held) {
+      this.holdings.set(trade.good, { quantity: held.quantity - bought, cost: held.cost - paid });
+    }
+    this.getPlayer()?.completeTrade(trade.price > paid);
+  }
+
+  private onOpenTrade(data: { npcId?: string; npcName: string }): void {
+    const trader = data.npcId ?? data.npcName;
+    if (this.examinedToday.has(trader)) return;
+    this.examinedToday.add(trader);
+    this.getPlayer()?.examineGoods();
+  }
+
+  private onDialogueEnd(data: { npcId?: string }): void {
+    const npcId = data.npcId ?? '';
+    if (this.talkedToToday.has(npcId)) return;
+    this.talkedToToday.add(npcId);
+    this.getPlayer()?.positiveInteraction();
+  }
+
+  private onNewDay(): void {
+    this.examinedToday.clear();
+    this.talkedToToday.clear();
+  }
+
+  private onContractCompleted(): void {
+    this.getPlayer()?.improveSkill('reputation', this.contractReputation);
+  }
+
+  private onExpeditionCompleted(): void {
+    this.getPlayer()?.completeTradeRoute(true);
+  }
+
+  private onExpeditionLost(): void {
+    this.getPlayer()?.completeTradeRoute(false);
+  }
+
+  private getPlayer(): SkilledPlayer | null {
+    const marketScene = this.scene.scene.get('MarketScene') as any;
+    return marketScene?.getPlayer?.() ?? null;
+  }
+
+  public getSaveData(): SkillSaveData {
+    return { perks: Array.from(this.learned), holdings: Object.fromEntries(this.holdings) };
+  }
+
+  // Perks no longer in perks.json are dropped
+  public loadSaveData(data: SkillSaveData): void {
+    this.learned = new Set((data.perks ?? []).filter(perkId => this.tree.getPerk(perkId)));
+    this.holdings = new Map(Object.entries(data.holdings ?? {}));
+  }
+
+  public destroy(): void {
+    this.events.off('playerBuy', this.onPlayerBuy, this);
+    this.events.off('playerSell', this.onPlayerSell, this);
+    this.events.off('openTrade', this.onOpenTrade, this);
+    this.events.off('dialogueEnd', this.onDialogueEnd, this);
+    this.events.off('contractCompleted', this.onContractCompleted, this);
+    this.events.off('expeditionCompleted', this.onExpeditionCompleted, this);
+    this.events.off('expeditionLost', this.onExpeditionLost, this);
+    this.events.off('newDay', this.onNewDay, this);
+    this.learned.clear();
+    this.holdings.clear();
+    this.examinedToday.clear();
+    this.talkedToToday.clear();
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * SkillTree - The perks each of the player's skills leads to, loaded from perks.json
+ *
+ * Player keeps the four skills on a 0-100 scale and raises them through
+ * use. Every few whole levels a skill earns a perk point, spent on that
+ * skill's perks. A perk needs the skill at a level and may need an earlier
+ * perk of the same skill, so each skill's perks form a small tree.
+ * SkillSystem keeps which perks the player has learned and adds their
+ * effects up for the systems they change.
+ *
+ * Like GoodsCatalog, problems are collected as errors for BootScene to
+ * report rather than thrown while parsing; a perk with errors is left out.
+ */
+
+import perksData from '../data/perks.json';
+
+export type SkillId = 'negotiation' | 'appraisal' | 'reputation' | 'navigation';
+
+export const SKILL_IDS: SkillId[] = ['negotiation', 'appraisal', 'reputation', 'navigation'];
+
+// What a perk changes, added up over every perk learned
+export interface PerkEffects {
+  buyPrice?: number; // Fraction off the price of goods bought
+  sellPrice?: number; // Fraction added to the price of goods sold
+  revealSupply?: boolean; // The trade ledger shows each good's supply and demand
+  routeRisk?: number; // Taken off an expedition's chance of loss
+  expeditionReturn?: number; // Fraction added to what a returning expedition brings back
+  contractReward?: number; // Fraction added to the reward of offered contracts
+  contractHours?: number; // Added to the deadline of offered contracts
+}
+
+// Effects that add up to a number
+export type PerkBonus = Exclude<keyof PerkEffects, 'revealSupply'>;
+
+const FRACTION_EFFECTS: PerkBonus[] = ['buyPrice', 'sellPrice', 'routeRisk', 'expeditionReturn', 'contractReward'];
+
+export interface SkillDefinition {
+  id: SkillId;
+  name: string;
+  description: string;
+}
+
+export interface Perk {
+  id: string;
+  skill: SkillId;
+  name: string;
+  description: string;
+  requiredLevel: number;
+  requires?: string; // A perk of the same skill to learn first
+  effects: PerkEffects;
+}
+
+export class SkillTree {
+  private levelsPerPoint = 10;
+  private skills: Map<SkillId, SkillDefinition> = new Map();
+  private perks: Map<string, Perk> = new Map();
+  private errors: string[] = [];
+
+  constructor(data: unknown) {
+    this.parse(data);
+  }
+
+  /**
+   * Schema errors found while loading; invalid perks are left out of the tree
+   */
+  public getErrors(): string[] {
+    return [...this.errors];
+  }
+
+  public isValid(): boolean {
+    return this.errors.length === 0;
+  }
+
+  /**
+   * Whole skill levels that earn one perk point
+   */
+  public getLevelsPerPoint(): number {
+    return this.levelsPerPoint;
+  }
+
+  public getSkill(skill: SkillId): SkillDefinition {
+    return this.skills.get(skill) ?? { id: skill, name: skill.charAt(0).toUpperCase() + skill.slice(1), description: '' };
+  }
+
+  public getPerk(perkId: string): Perk | undefined {
+    return this.perks.get(perkId);
+  }
+
+  /**
+   * Every perk, or one skill's, in the order perks.json lists them
+   */
+  public getPerks(skill?: SkillId): Perk[] {
+    const perks = Array.from(this.perks.values());
+    return skill ? perks.filter(perk => perk.skill === skill) : perks;
+  }
+
+  private parse(data: unknown): void {
+    if (!isRecord(data)) {
+      this.errors.push('perks.json: root must be an object');
+      return;
+    }
+
+    if (isWholeNumber(data.levelsPerPoint, 1, 100)) {
+      this.levelsPerPoint = data.levelsPerPoint as number;
+    } else {
+      this.errors.push('perks.json: "levelsPerPoint" must be a whole number from 1 to 100');
+    }
+
+    const skills = isRecord(data.skills) ? data.skills : {};
+    for (const id of SKILL_IDS) {
+      const skill = skills[id];
+      if (!isRecord(skill) || typeof skill.name !== 'string') {
+        this.errors.push(`perks.json: skill "${id}" needs a name`);
+        continue;
+      }
+      this.skills.set(id, {
+        id,
+        name: skill.name,
+        description: typeof skill.description === 'string' ? skill.description : '',
+      });
+    }
+
+    if (!Array.isArray(data.perks)) {
+      this.errors.push('perks.json: "perks" must be an array');
+      return;
+    }
+
+    data.perks.forEach((entry, index) => {
+      const perk = this.parsePerk(entry, index);
+      if (perk) {
+        this.perks.set(perk.id, perk);
+      }
+    });
+
+    // Prerequisites are checked once every perk is known, so the file can list them in any order
+    for (const perk of Array.from(this.perks.values())) {
+      if (perk.requires === undefined) continue;
+      const required = this.perks.get(perk.requires);
+      if (!required || required.skill !== perk.skill) {
+        this.errors.push(`perks.json: ${perk.id}: "requires" must name another ${perk.skill} perk`);
+        this.perks.delete(perk.id);
+      }
+    }
+  }
+
+  private parsePerk(entry: unknown, index: number): Perk | null {
+    const label = isRecord(entry) && typeof entry.id === 'string' ? entry.id : `perks[${index}]`;
+    if (!isRecord(entry)) {
+      this.errors.push(`perks.json: ${label} must be an object`);
+      return null;
+    }
+
+    const problems: string[] = [];
+    if (typeof entry.id !== 'string' || entry.id.length === 0) {
+      problems.push('"id" must be a non-empty string');
+    } else if (this.perks.has(entry.id)) {
+      problems.push('"id" is used by another perk');
+    }
+    if (!SKILL_IDS.includes(entry.skill as SkillId)) {
+      problems.push(`"skill" must be one of ${SKILL_IDS.join(', ')}`);
+    }
+    if (typeof entry.name !== 'string') problems.push('"name" must be a string');
+    if (typeof entry.description !== 'string') problems.push('"description" must be a string');
+    if (!isWholeNumber(entry.requiredLevel, 0, 100)) {
+      problems.push('"requiredLevel" must be a whole number from 0 to 100');
+    }
+    if (entry.requires !== undefined && typeof entry.requires !== 'string') {
+      problems.push('"requires" must be a perk id');
+    }
+
+    const effects: PerkEffects = {};
+    if (!isRecord(entry.effects) || Object.keys(entry.effects).length === 0) {
+      problems.push('"effects" must name at least one effect');
+    } else {
+      for (const [key, value] of Object.entries(entry.effects)) {
+        if (key === 'revealSupply') {
+          if (value === true) effects.revealSupply = true;
+          else problems.push('"revealSupply" can only be true');
+        } else if (key === 'contractHours') {
+          if (isWholeNumber(value, 1, 240)) effects.contractHours = value as number;
+          else problems.push('"contractHours" must be a whole number of hours from 1 to 240');
+        } else if (FRACTION_EFFECTS.includes(key as PerkBonus)) {
+          if (typeof value === 'number' && value > 0 && value < 1) effects[key as PerkBonus] = value;
+          else problems.push(`"${key}" must be a fraction between 0 and 1`);
+        } else {
+          problems.push(`unknown effect "${key}"`);
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      for (const problem of problems) {
+        this.errors.push(`perks.json: ${label}: ${problem}`);
+      }
+      return null;
+    }
+
+    return {
+      id: entry.id as string,
+      skill: entry.skill as SkillId,
+      name: entry.name as string,
+      description: entry.description as string,
+      requiredLevel: entry.requiredLevel as number,
+      requires: entry.requires as string | undefined,
+      effects,
+    };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWholeNumber(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+let sharedSkillTree: SkillTree | null = null;
+
+/**
+ * Get the skill tree built from src/data/perks.json (parsed once and shared)
+ */
+export function loadSkillTree(): SkillTree {
+  if (!sharedSkillTree) {
+    sharedSkillTree = new SkillTree(perksData);
+  }
+  return sharedSkillTree;
+}
@@ -0,0 +1,480 @@
+/**
+ * TiledMapLoader - Builds playable location maps from the authored Tiled files
+ *
+ * Every location in the game has an isometric Tiled map in src/data. This
+ * loader parses those files into a form MarketScene can render directly:
+ * the ground and overlay tile layers become a grid of texture keys from
+ * TileGenerator/BuildingGenerator, object layers become spawn points, NPC
+ * placements and transitions, and tile `walkable` flags plus collision
+ * objects become a per-tile walkability grid.
+ *
+ * Level designers edit the JSON files in Tiled; the only TypeScript that
+ * knows about a tile is the type → texture table below, keyed by the
+ * `type` each tileset assigns to its tiles.
+ *
+ * Historical context:
+ * The maps follow the street plans recorded by Linschoten and the Portuguese
+ * chroniclers - the Rua Direita, the Alfândega counters, the half-built nave
+ * of the Sé - so the texture table leans on laterite, calçada and the
+ * cobbles of the colonial city rather than generic terrain.
+ */
+
+import ribeiraGrandeMap from '../data/maps/ribeira-grande.json';
+import alfandegaMap from '../data/maps/alfandega.json';
+import docksMap from '../data/locations/docks.json';
+import oldQuarterMap from '../data/locations/old-quarter.json';
+import seCathedralMap from '../data/locations/se-cathedral.json';
+import tavernMap from '../data/locations/tavern.json';
+import warehouseDistrictMap from '../data/locations/warehouse-district.json';
+
+// ============================================================================
+// Tiled JSON format (the subset we read)
+// ============================================================================
+
+export interface TiledProperty {
+  name: string;
+  type?: string;
+  value: string | number | boolean;
+}
+
+export interface TiledTileDefinition {
+  id: number;
+  type?: string;
+  properties?: TiledProperty[];
+}
+
+export interface TiledTileset {
+  firstgid: number;
+  name: string;
+  tilecount?: number;
+  tiles?: TiledTileDefinition[];
+}
+
+export interface TiledObject {
+  id: number;
+  name: string;
+  type: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  properties?: TiledProperty[];
+}
+
+export interface TiledLayer {
+  name: string;
+  type: 'tilelayer' | 'objectgroup' | string;
+  width?: number;
+  height?: number;
+  data?: number[];
+  objects?: TiledObject[];
+  visible?: boolean;
+}
+
+export interface TiledMap {
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  orientation: string;
+  layers: TiledLayer[];
+  tilesets: TiledTileset[];
+  properties?: TiledProperty[];
+}
+
+// ============================================================================
+// Parsed location map
+// ============================================================================
+
+export type MapPropertyValue = string | number | boolean;
+
+/**
+ * A single resolved cell of a tile layer
+ */
+export interface MapTile {
+  /** Tiled global tile id (flip flags stripped) */
+  gid: number;
+  /** Tile type from the tileset (e.g. 'water', 'house_wall') */
+  type: string;
+  /** Whether the tile can be walked on */
+  walkable: boolean;
+  /** Texture key for the tile itself */
+  textureKey: string;
+  /** Animation to play on the tile sprite (water) */
+  animationKey?: string;
+  /** Decorative sprite standing on the tile (trees, wells, stalls) */
+  decorKey?: string;
+  /** Whether a roof should be drawn above the tile */
+  roofed: boolean;
+}
+
+/**
+ * An object from an object layer, converted to tile coordinates
+ */
+export interface MapObject {
+  id: number;
+  name: string;
+  type: string;
+  /** Layer the object came from */
+  layer: string;
+  tileX: number;
+  tileY: number;
+  tileWidth: number;
+  tileHeight: number;
+  properties: Record<string, MapPropertyValue>;
+}
+
+export interface MapTileLayer {
+  name: string;
+  /** tiles[y][x]; null where the layer is empty */
+  tiles: (MapTile | null)[][];
+}
+
+export interface LocationMap {
+  id: string;
+  mapName: string;
+  description: string;
+  locationType: string;
+  width: number;
+  height: number;
+  /** All custom map properties, including the ones above */
+  properties: Record<string, MapPropertyValue>;
+  /** Ground layer - every cell has a tile */
+  ground: MapTile[][];
+  /** Further tile layers drawn over the ground (piers, buildings) */
+  overlays: MapTileLayer[];
+  /** Every object from every object layer */
+  objects: MapObject[];
+  /** walkable[y][x], combining tile flags and collision objects */
+  walkable: boolean[][];
+}
+
+// ============================================================================
+// Tile type → texture table
+// ============================================================================
+
+interface TileTextureSpec {
+  /** Texture variants, picked per tile by a position hash */
+  textures: string[];
+  animation?: string;
+  /** Decorative sprite drawn on top of the tileset's floor tile */
+  decor?: string;
+  roofed?: boolean;
+}
+
+const COBBLE = ['tile_cobble_worn', 'tile_cobble_worn', 'tile_cobble_mossy', 'tile_cobble_new'];
+const LATERITE = ['tile_laterite_standard', 'tile_laterite_rocky', 'tile_laterite_dusty', 'tile_laterite_worn'];
+const CALCADA = ['tile_calcada_wave', 'tile_calcada_checkerboard', 'tile_calcada_border'];
+const BUILDING = ['tile_building', 'tile_building_1', 'tile_building_2'];
+
+const TILE_TEXTURES: Record<string, TileTextureSpec> = {
+  // Open ground
+  ground: { textures: COBBLE },
+  stone_ground: { textures: COBBLE },
+  stone_floor: { textures: CALCADA },
+  cart_path: { textures: ['tile_cobble_worn', 'tile_cobble_new'] },
+  dirt_path: { textures: LATERITE },
+  storage_yard: { textures: ['tile_dirt_packed', 'tile_laterite_dusty'] },
+  loading_bay: { textures: ['tile_laterite_worn'] },
+  weighing_station: { textures: ['tile_calcada_border'] },
+  warehouse_door: { textures: ['tile_laterite_worn'] },
+  entrance: { textures: ['tile_laterite_worn'] },
+  sand_beach: { textures: ['tile_sand_beach', 'tile_sand_dusty'] },
+  garden: { textures: ['tile_grass_lush', 'tile_small_plants'] },
+  market: { textures: ['tile_market', 'tile_market_1', 'tile_market_2', 'tile_market_3'] },
+
+  // Timber floors
+  dock: { textures: ['tile_dock'] },
+  pier: { textures: ['tile_dock'] },
+  wooden_floor: { textures: ['tile_dock'] },
+  table_seating: { textures: ['tile_dock'], decor: 'tile_barrel' },
+  scaffolding: { textures: ['tile_dock'] },
+
+  // Water
+  water: { textures: ['tile_soft_water_0'], animation: 'anim_soft_water' },
+  shallow_water: { textures: ['tile_harbor_water_0'], animation: 'anim_harbor_water' },
+
+  // Walls and roofs
+  building: { textures: BUILDING, roofed: true },
+  house_wall: { textures: BUILDING, roofed: true },
+  warehouse_wall: { textures: BUILDING, roofed: true },
+  office_building: { textures: BUILDING, roofed: true },
+  chapel_wall: { textures: ['tile_building_2'], roofed: true },
+  wall: { textures: BUILDING },
+  fireplace: { textures: ['tile_building_1'] },
+  column: { textures: ['tile_building_2'] },
+  altar: { textures: ['tile_calcada_border'], decor: 'tile_fountain' },
+  roof: { textures: ['tile_roof'] },
+  warehouse_roof: { textures: ['tile_roof'] },
+
+  // Fixtures standing on the floor
+  counter: { textures: ['tile_crates'] },
+  bar_counter: { textures: ['tile_crates'] },
+  pew: { textures: ['tile_crates'] },
+  tree: { textures: [], decor: 'tile_palm' },
+  well: { textures: [], decor: 'tile_well' },
+  cargo_stack: { textures: [], decor: 'tile_crates' },
+  crate_stack: { textures: [], decor: 'tile_crates' },
+  storage: { textures: [], decor: 'tile_crates' },
+  fishing_net: { textures: [], decor: 'tile_barrels' },
+  crane_base: { textures: [], decor: 'tile_crates' },
+  guard_post: { textures: [], decor: 'tile_barrel' },
+  market_stall: { textures: [], decor: 'bldg_marketStall_food_day_random' },
+  workshop: { textures: [], decor: 'bldg_localDwelling_default_day_random' },
+  shrine: { textures: [], decor: 'bldg_hinduShrine_default_day_random' },
+};
+
+const FALLBACK_TEXTURE = 'tile_ground';
+
+// Tiled stores flip/rotation flags in the top bits of each GID
+const GID_MASK = 0x1fffffff;
+
+/**
+ * Registered map files, keyed by the path WorldSystem stores in Location.mapFile
+ */
+const MAP_FILES: Record<string, TiledMap> = {
+  'data/maps/ribeira-grande.json': ribeiraGrandeMap as unknown as TiledMap,
+  'data/maps/alfandega.json': alfandegaMap as unknown as TiledMap,
+  'data/locations/docks.json': docksMap as unknown as TiledMap,
+  'data/locations/old-quarter.json': oldQuarterMap as unknown as TiledMap,
+  'data/locations/se-cathedral.json': seCathedralMap as unknown as TiledMap,
+  'data/locations/tavern.json': tavernMap as unknown as TiledMap,
+  'data/locations/warehouse-district.json': warehouseDistrictMap as unknown as TiledMap,
+};
+
+interface TileDefinition {
+  type: string;
+  walkable: boolean;
+}
+
+export class TiledMapLoader {
+  private cache: Map<string, LocationMap> = new Map();
+  private warnedTypes: Set<string> = new Set();
+
+  /**
+   * Load a registered map file
+   * @param mapFile Path as stored in Location.mapFile
+   * @returns The parsed map, or null if the file is unknown or malformed
+   */
+  public load(mapFile: string): LocationMap | null {
+    const cached = this.cache.get(mapFile);
+    if (cached) return cached;
+
+    const raw = MAP_FILES[mapFile];
+    if (!raw) {
+      console.warn(`TiledMapLoader: No map registered for ${mapFile}`);
+      return null;
+    }
+
+    const map = this.parse(raw, mapFile);
+    if (map) {
+      this.cache.set(mapFile, map);
+    }
+    return map;
+  }
+
+  /**
+   * Parse raw Tiled JSON into a location map
+   * @param raw The Tiled map data
+   * @param source Name used in warnings and as the id fallback
+   */
+  public parse(raw: TiledMap, source: string): LocationMap | null {
+    if (raw.orientation !== 'isometric') {
+      console.warn(`TiledMapLoader: ${source} is ${raw.orientation}, expected isometric`);
+    }
+
+    const tileLayers = raw.layers.filter(layer => layer.type === 'tilelayer' && layer.data);
+    if (tileLayers.length === 0 || !raw.tilesets.length) {
+      console.warn(`TiledMapLoader: ${source} has no tile layers or tilesets`);
+      return null;
+    }
+
+    const properties = this.readProperties(raw.properties);
+    // Some maps were exported with raw tileset ids rather than GIDs;
+    // they declare this with a `tileIdBase` property of 0. On those maps a
+    // ground value of 0 is the floor tile, which the fallback below covers.
+    const idOffset = typeof properties.tileIdBase === 'number'
+      ? raw.tilesets[0].firstgid - properties.tileIdBase
+      : 0;
+    const definitions = this.readTileDefinitions(raw.tilesets);
+    const floorGid = raw.tilesets[0].firstgid;
+
+    const buildLayer = (layer: TiledLayer, isGround: boolean): (MapTile | null)[][] => {
+      const rows: (MapTile | null)[][] = [];
+      for (let y = 0; y < raw.height; y++) {
+        const row: (MapTile | null)[] = [];
+        for (let x = 0; x < raw.width; x++) {
+          const value = layer.data![y * raw.width + x] ?? 0;
+          // 0 is an empty cell: overlays skip it, the ground falls back
+          // to the tileset's floor tile so every cell has something to stand on
+          if (value === 0 && !isGround) {
+            row.push(null);
+            continue;
+          }
+          const gid = value === 0 ? floorGid : (value & GID_MASK) + idOffset;
+          row.push(this.resolveTile(gid, x, y, definitions, floorGid));
+        }
+        rows.push(row);
+      }
+      return rows;
+    };
+
+    const [groundLayer, ...overlayLayers] = tileLayers;
+    const ground = buildLayer(groundLayer, true) as MapTile[][];
+    const overlays: MapTileLayer[] = overlayLayers.map(layer => ({
+      name: layer.name,
+      tiles: buildLayer(layer, false),
+    }));
+
+    const objects: MapObject[] = [];
+    for (const layer of raw.layers) {
+      if (layer.type !== 'objectgroup' || !layer.objects) continue;
+      for (const obj of layer.objects) {
+        objects.push({
+          id: obj.id,
+          name: obj.name,
+          type: obj.type,
+          layer: layer.name,
+          tileX: Math.floor(obj.x / raw.tilewidth),
+          tileY: Math.floor(obj.y / raw.tileheight),
+          tileWidth: Math.max(1, Math.ceil((obj.width ?? 0) / raw.tilewidth)),
+          tileHeight: Math.max(1, Math.ceil((obj.height ?? 0) / raw.tileheight)),
+          properties: this.readProperties(obj.properties),
+        });
+      }
+    }
+
+    const walkable = this.buildWalkability(raw.width, raw.height, ground, overlays, objects);
+
+    const fallbackId = source.replace(/^.*\//, '').replace(/\.json$/, '').replace(/-/g, '_');
+    return {
+      id: String(properties.id ?? fallbackId),
+      mapName: String(properties.mapName ?? fallbackId),
+      description: String(properties.description ?? ''),
+      locationType: String(properties.locationType ?? ''),
+      width: raw.width,
+      height: raw.height,
+      properties,
+      ground,
+      overlays,
+      objects,
+      walkable,
+    };
+  }
+
+  /**
+   * Get the player spawn position of a map, in tile coordinates
+   */
+  public getPlayerSpawn(map: LocationMap): { x: number; y: number } {
+    const spawn = map.objects.find(obj => obj.type === 'spawn' && obj.properties.entity === 'player');
+    if (spawn) {
+      return { x: spawn.tileX, y: spawn.tileY };
+    }
+    return { x: Math.floor(map.width / 2), y: Math.floor(map.height / 2) };
+  }
+
+  /**
+   * Get all objects of a given type (e.g. 'npc', 'transition', 'ship')
+   */
+  public getObjectsOfType(map: LocationMap, type: string): MapObject[] {
+    return map.objects.filter(obj => obj.type === type);
+  }
+
+  /**
+   * Check walkability of a tile; anything off the map is blocked
+   */
+  public isWalkable(map: LocationMap, x: number, y: number): boolean {
+    if (x < 0 || y < 0 || x >= map.width || y >= map.height) return false;
+    return map.walkable[y][x];
+  }
+
+  private readProperties(props?: TiledProperty[]): Record<string, MapPropertyValue> {
+    const result: Record<string, MapPropertyValue> = {};
+    for (const prop of props ?? []) {
+      result[prop.name] = prop.value;
+    }
+    return result;
+  }
+
+  private readTileDefinitions(tilesets: TiledTileset[]): Map<number, TileDefinition> {
+    const definitions = new Map<number, TileDefinition>();
+    for (const tileset of tilesets) {
+      for (const tile of tileset.tiles ?? []) {
+        const props = this.readProperties(tile.properties);
+        definitions.set(tileset.firstgid + tile.id, {
+          type: tile.type ?? 'ground',
+          walkable: props.walkable !== false,
+        });
+      }
+    }
+    return definitions;
+  }
+
+  private resolveTile(
+    gid: number,
+    x: number,
+    y: number,
+    definitions: Map<number, TileDefinition>,
+    floorGid: number
+  ): MapTile {
+    const definition = definitions.get(gid) ?? { type: 'ground', walkable: true };
+    const spec = TILE_TEXTURES[definition.type];
+    if (!spec && !this.warnedTypes.has(definition.type)) {
+      this.warnedTypes.add(definition.type);
+      console.warn(`TiledMapLoader: No textures for tile type '${definition.type}'`);
+    }
+
+    // Decor tiles stand on the floor tile of their tileset
+    let textures = spec?.textures ?? [];
+    if (textures.length === 0) {
+      const floor = definitions.get(floorGid);
+      textures = (floor && TILE_TEXTURES[floor.type]?.textures) || [FALLBACK_TEXTURE];
+    }
+
+    // Position-based hash for consistent variation
+    const hash = Math.abs((x * 73856093) ^ (y * 19349663));
+
+    return {
+      gid,
+      type: definition.type,
+      walkable: definition.walkable,
+      textureKey: textures[hash % textures.length],
+      animationKey: spec?.animation,
+      decorKey: spec?.decor,
+      roofed: spec?.roofed ?? false,
+    };
+  }
+
+  private buildWalkability(
+    width: number,
+    height: number,
+    ground: MapTile[][],
+    overlays: MapTileLayer[],
+    objects: MapObject[]
+  ): boolean[][] {
+    const walkable: boolean[][] = [];
+    for (let y = 0; y < height; y++) {
+      const row: boolean[] = [];
+      for (let x = 0; x < width; x++) {
+        // The topmost non-empty layer decides (a pier over water is walkable)
+        let tile: MapTile = ground[y][x];
+        for (const overlay of overlays) {
+          tile = overlay.tiles[y][x] ?? tile;
+        }
+        row.push(tile.walkable);
+      }
+      walkable.push(row);
+    }
+
+    for (const obj of objects) {
+      if (obj.type !== 'collision') continue;
+      for (let y = obj.tileY; y < Math.min(height, obj.tileY + obj.tileHeight); y++) {
+        for (let x = obj.tileX; x < Math.min(width, obj.tileX + obj.tileWidth); x++) {
+          if (x >= 0 && y >= 0) walkable[y][x] = false;
+        }
+      }
+    }
+
+    return walkable;
+  }
+}
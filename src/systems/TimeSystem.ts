@@ -1,4 +1,12 @@
 import Phaser from 'phaser';
+import { GameEventBus, getGameEvents } from './GameEvents';
+import { Calendar, CalendarDate, loadCalendar } from './Calendar';
+
+export interface TimeSaveData {
+  hour: number;
+  minute: number;
+  dayCount: number;
+}
 
 /**
  * TimeSystem - Manages the day/night cycle in 16th century Goa
@@ -6,15 +14,20 @@ import Phaser from 'phaser';
  * Historical note: According to Linschoten, the market operated only
  * from 7-9 AM due to the intense afternoon heat. This system reflects
  * that reality with gameplay implications.
+ *
+ * Days are numbered from 1 and dated by the Calendar, whose Sundays and
+ * feasts can close the market or change its hours for the day.
  */
 export class TimeSystem {
   private scene: Phaser.Scene;
+  private events: GameEventBus;
   private currentHour = 7; // Start at 7 AM (market opening)
   private currentMinute = 0;
   private dayCount = 1;
   private timeScale = 60; // 1 real second = 1 game minute
   private elapsedTime = 0;
   private isPaused = false;
+  private calendar: Calendar = loadCalendar();
 
   // Time periods with their characteristics
   private readonly periods = {
@@ -38,6 +51,7 @@ export class TimeSystem {
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.events = getGameEvents(scene);
   }
 
   public update(delta: number): void {
@@ -75,7 +89,7 @@ export class TimeSystem {
     
     // Emit events on period change
     if (previousPeriod !== newPeriod) {
-      this.scene.events.emit('periodChange', {
+      this.events.emit('periodChange', {
         previous: previousPeriod,
         current: newPeriod,
         isMarketOpen: this.isMarketOpen(),
@@ -86,12 +100,12 @@ export class TimeSystem {
     }
 
     // Emit hourly update
-    this.scene.events.emit('hourChange', this.getTimeData());
+    this.events.emit('hourChange', this.getTimeData());
   }
 
   private advanceDay(): void {
     this.dayCount++;
-    this.scene.events.emit('newDay', { dayCount: this.dayCount });
+    this.events.emit('newDay', { dayCount: this.dayCount, date: this.getDate() });
   }
 
   public getCurrentPeriod(): string {
@@ -113,7 +127,13 @@ export class TimeSystem {
 
   public isMarketOpen(): boolean {
     const hour = this.currentHour;
-    
+
+    // Sundays and feasts set their own hours
+    const feastHours = this.calendar.getMarketHours(this.dayCount);
+    if (feastHours) {
+      return feastHours.some(range => hour >= range.start && hour < range.end);
+    }
+
     // Market hours: 7-9 AM (peak) and reduced activity 9 AM - 12 PM, 5-8 PM
     if (hour >= 7 && hour < 9) return true; // Peak market hours
     if (hour >= 9 && hour < 12) return true; // Extended morning
@@ -123,6 +143,14 @@ export class TimeSystem {
   }
 
   public getMarketActivity(): number {
+    // A Sunday or feast that shuts the market all day leaves it as quiet as the siesta
+    if (this.calendar.getMarketHours(this.dayCount)?.length === 0) {
+      return Math.min(0.1, this.getUsualMarketActivity());
+    }
+    return this.getUsualMarketActivity();
+  }
+
+  private getUsualMarketActivity(): number {
     // Returns a multiplier for market activity (affects NPC spawns, prices, etc.)
     const hour = this.currentHour;
     
@@ -140,7 +168,7 @@ export class TimeSystem {
     const color = this.lightingColors[period as keyof typeof this.lightingColors] || 0xffffff;
     
     // Emit lighting change event for other systems to respond
-    this.scene.events.emit('lightingChange', { period, color });
+    this.events.emit('lightingChange', { period, color });
 
     // Apply camera tint effect
     // Note: Full implementation would use a lighting layer or shader
@@ -168,16 +196,34 @@ export class TimeSystem {
     }
   }
 
-  public getTimeData(): { hour: number; minute: number; period: string; dayCount: number; isMarketOpen: boolean } {
+  public getTimeData(): {
+    hour: number;
+    minute: number;
+    period: string;
+    dayCount: number;
+    date: CalendarDate;
+    isMarketOpen: boolean;
+  } {
     return {
       hour: this.currentHour,
       minute: this.currentMinute,
       period: this.getCurrentPeriod(),
       dayCount: this.dayCount,
+      date: this.getDate(),
       isMarketOpen: this.isMarketOpen(),
     };
   }
 
+  /**
+   * Pass several minutes at once, as on a journey, announcing every hour
+   * and day that goes by on the way
+   */
+  public advanceMinutes(minutes: number): void {
+    for (let i = 0; i < minutes; i++) {
+      this.advanceMinute();
+    }
+  }
+
   public setTime(hour: number, minute: number = 0): void {
     this.currentHour = hour % 24;
     this.currentMinute = minute % 60;
@@ -204,6 +250,17 @@ export class TimeSystem {
     return this.dayCount;
   }
 
+  public getDate(): CalendarDate {
+    return this.calendar.getDate(this.dayCount);
+  }
+
+  /**
+   * "Monday 1 January 1590"
+   */
+  public getFormattedDate(): string {
+    return this.calendar.formatDate(this.getDate());
+  }
+
   public getFormattedTime(): string {
     const minuteStr = this.currentMinute.toString().padStart(2, '0');
     const ampm = this.currentHour >= 12 ? 'PM' : 'AM';
@@ -212,6 +269,17 @@ export class TimeSystem {
     return `${displayHour}:${minuteStr} ${ampm}`;
   }
 
+  public getSaveData(): TimeSaveData {
+    return { hour: this.currentHour, minute: this.currentMinute, dayCount: this.dayCount };
+  }
+
+  // Sets the clock without announcing a new hour or day, so nothing treats the load as time passing
+  public loadSaveData(data: TimeSaveData): void {
+    this.dayCount = data.dayCount ?? 1;
+    this.elapsedTime = 0;
+    this.setTime(data.hour ?? 7, data.minute ?? 0);
+  }
+
   /**
    * Clean up resources
    */
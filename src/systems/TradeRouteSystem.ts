@@ -1,10 +1,19 @@
 import Phaser from 'phaser';
+import { RandomStream, getRandomStream } from './RandomSystem';
+import { GameEventBus, getGameEvents } from './GameEvents';
+import { loadGoodsCatalog } from './GoodsCatalog';
 
 /**
  * TradeRouteSystem - Manages long-distance trade expeditions
  *
  * Players can send goods on trade routes to distant markets.
  * Higher risk/reward than local trading, with time delays.
+ *
+ * Voyages are not quiet. Each leg may bring an incident - Malabar paraus,
+ * a monsoon gale, a dispute with the customs house at Hormuz, a glut at the
+ * destination. Some play out on their own; others hold the ship until the
+ * player sends orders, and each shifts the return, the chance of loss or
+ * the player's standing with a faction.
  */
 
 export interface TradeRoute {
@@ -19,9 +28,31 @@ export interface TradeRoute {
   goodsAffinity: string[]; // Goods that sell well on this route
   faction: string;        // Controlling faction
   unlockRequirement: string | null; // Progression unlock needed
+  heading: number;        // Bearing from Goa, in WindSystem degrees (0 = East, 90 = South)
+}
+
+// Where an expedition's chance of loss comes from
+export interface RouteRiskBreakdown {
+  base: number;
+  faction: number;        // Standing with the route's faction
+  wind: number;           // Head or tail winds on the route's heading today
+  season: number;         // Monsoon and the changes of season
+  skill: number;          // The player's navigation perks
+  total: number;
 }
 
-interface ActiveExpedition {
+// What sending a cargo down a route is expected to bring back
+export interface ExpeditionEstimate {
+  investment: number;
+  routeMultiplier: number;
+  affinityBonus: number;  // For goods the destination wants
+  factionBonus: number;
+  profitMultiplier: number;
+  expectedReturn: number;
+  risk: RouteRiskBreakdown;
+}
+
+export interface ActiveExpedition {
   id: string;
   routeId: string;
   goods: { goodId: string; quantity: number }[];
@@ -31,9 +62,51 @@ interface ActiveExpedition {
   investment: number;     // Total gold value of goods sent
   expectedReturn: number; // Expected gold return
   actualReturn: number;   // Actual return (after risk calculation)
+  risk?: number;          // Chance of loss, fixed at departure
+  incidents?: ExpeditionIncidentRecord[];
+  pendingIncident?: string; // Incident waiting on the player's orders
+  incidentLegs?: ('outbound' | 'returning')[]; // Legs that have had their incident
+  pendingSince?: number;  // Game time the ship started waiting for orders
+}
+
+// What an incident, or a choice made in one, does to a voyage
+export interface IncidentEffect {
+  returnMultiplier?: number; // Applied to the expected return
+  riskChange?: number;       // Added to the chance of loss
+  reputation?: number;       // With the route's faction
+  reputationFaction?: string; // Another faction, instead of the route's
+  tribute?: number;          // Share of the cargo's value paid now in gold
+  delayHours?: number;       // Negative for a quicker passage
+}
+
+export interface IncidentChoice {
+  id: string;
+  label: string;
+  description: string;
+  effects: IncidentEffect;
 }
 
-interface TradeRouteSaveData {
+export interface VoyageIncident {
+  id: string;
+  title: string;
+  description: string;    // {route} and {to} are filled in
+  legs: ('outbound' | 'returning')[];
+  routes?: string[];      // Only on these routes
+  seasons?: string[];     // Only in these WeatherSystem seasons
+  weight: number;
+  effects?: IncidentEffect;  // Resolves on its own
+  choices?: IncidentChoice[]; // Waits for the player's orders
+}
+
+export interface ExpeditionIncidentRecord {
+  incidentId: string;
+  title: string;
+  leg: 'outbound' | 'returning';
+  choiceId?: string;
+  summary: string;
+}
+
+export interface TradeRouteSaveData {
   activeExpeditions: ActiveExpedition[];
   completedExpeditions: number;
   lostExpeditions: number;
@@ -42,11 +115,14 @@ interface TradeRouteSaveData {
 
 export class TradeRouteSystem {
   private scene: Phaser.Scene;
+  private events: GameEventBus;
+  private random: RandomStream;
   private routes: Map<string, TradeRoute> = new Map();
   private activeExpeditions: Map<string, ActiveExpedition> = new Map();
   private completedExpeditions = 0;
   private lostExpeditions = 0;
   private totalProfit = 0;
+  private expeditionsLaunched = 0;  // Keeps ids unique when two sail in the same millisecond
 
   // Predefined trade routes
   private readonly defaultRoutes: TradeRoute[] = [
@@ -62,6 +138,7 @@ export class TradeRouteSystem {
       goodsAffinity: ['good_pepper', 'good_ginger', 'good_cinnamon'],
       faction: 'crown',
       unlockRequirement: 'trade_routes',
+      heading: 100,
     },
     {
       id: 'route_hormuz',
@@ -75,6 +152,7 @@ export class TradeRouteSystem {
       goodsAffinity: ['good_silk', 'good_porcelain', 'good_cloves'],
       faction: 'old_routes',
       unlockRequirement: 'trade_routes',
+      heading: 210,
     },
     {
       id: 'route_malacca',
@@ -88,6 +166,7 @@ export class TradeRouteSystem {
       goodsAffinity: ['good_cloves', 'good_nutmeg', 'good_silk'],
       faction: 'free_traders',
       unlockRequirement: 'trade_routes',
+      heading: 20,
     },
     {
       id: 'route_macau',
@@ -101,6 +180,7 @@ export class TradeRouteSystem {
       goodsAffinity: ['good_silk', 'good_porcelain', 'good_pepper'],
       faction: 'crown',
       unlockRequirement: 'bulk_trading',
+      heading: 350,
     },
     {
       id: 'route_africa',
@@ -114,11 +194,162 @@ export class TradeRouteSystem {
       goodsAffinity: ['good_indigo', 'good_cinnamon'],
       faction: 'crown',
       unlockRequirement: 'trade_routes',
+      heading: 135,
+    },
+  ];
+
+  // Chance of an incident on each leg of a voyage
+  private readonly incidentChancePerLeg = 0.5;
+
+  // A ship waits this long for orders before its captain decides
+  private readonly decisionTimeoutHours = 24;
+
+  private readonly incidents: VoyageIncident[] = [
+    {
+      id: 'malabar_pirates',
+      title: 'Paraus off the Coast',
+      description: 'Malabar paraus have been sighted shadowing the {route}. The captain asks for orders.',
+      legs: ['outbound', 'returning'],
+      routes: ['route_malabar', 'route_africa', 'route_hormuz'],
+      weight: 3,
+      choices: [
+        {
+          id: 'run',
+          label: 'Crowd on sail',
+          description: 'Run for the guns of Cannanore. Slower, and they may still catch us.',
+          effects: { delayHours: 6, riskChange: 0.05 },
+        },
+        {
+          id: 'pay',
+          label: 'Pay them off',
+          description: 'Pay a tenth of the cargo\'s worth in gold and sail on unmolested.',
+          effects: { tribute: 0.1 },
+        },
+        {
+          id: 'fight',
+          label: 'Stand and fight',
+          description: 'A victory would be told in the Viceroy\'s hall - if we survive it.',
+          effects: { riskChange: 0.12, returnMultiplier: 1.1, reputation: 5, reputationFaction: 'crown' },
+        },
+      ],
+    },
+    {
+      id: 'monsoon_storm',
+      title: 'A Monsoon Gale',
+      description: 'The {route} has run into a gale with the monsoon coming on. The sea is rising.',
+      legs: ['outbound', 'returning'],
+      seasons: ['preMonsoon', 'monsoon'],
+      weight: 4,
+      choices: [
+        {
+          id: 'jettison',
+          label: 'Jettison deck cargo',
+          description: 'Lighten the ship. We lose goods but she will ride easier.',
+          effects: { returnMultiplier: 0.8, riskChange: -0.08 },
+        },
+        {
+          id: 'shelter',
+          label: 'Run for shelter',
+          description: 'Put into the nearest roadstead and wait out the weather.',
+          effects: { delayHours: 24, riskChange: -0.04 },
+        },
+        {
+          id: 'ride',
+          label: 'Ride it out',
+          description: 'Hold course and trust the caulkers of Goa.',
+          effects: { riskChange: 0.1 },
+        },
+      ],
+    },
+    {
+      id: 'hormuz_customs',
+      title: 'Customs at Hormuz',
+      description: 'The customs house at Hormuz disputes the valuation of our cargo and holds it under seal.',
+      legs: ['outbound'],
+      routes: ['route_hormuz'],
+      weight: 5,
+      choices: [
+        {
+          id: 'pay_fee',
+          label: 'Pay the fee',
+          description: 'Settle with the shahbandar. Costly, but the old houses remember who pays.',
+          effects: { tribute: 0.12, reputation: 5 },
+        },
+        {
+          id: 'appeal',
+          label: 'Appeal to the fortress',
+          description: 'Ask the Portuguese captain of the fortress to intervene. Slow, and it will be resented.',
+          effects: { delayHours: 24, reputation: -5 },
+        },
+        {
+          id: 'sell_cheap',
+          label: 'Sell at their valuation',
+          description: 'Accept the customs price and be done with it.',
+          effects: { returnMultiplier: 0.8 },
+        },
+      ],
+    },
+    {
+      id: 'price_collapse',
+      title: 'A Glut at {to}',
+      description: 'Another fleet reached {to} first and prices there have collapsed.',
+      legs: ['outbound'],
+      weight: 3,
+      choices: [
+        {
+          id: 'sell_anyway',
+          label: 'Sell anyway',
+          description: 'Take the low price and come home on time.',
+          effects: { returnMultiplier: 0.7 },
+        },
+        {
+          id: 'wait',
+          label: 'Wait for prices to recover',
+          description: 'Lie in port until the glut clears. The season may turn against us.',
+          effects: { delayHours: 48, returnMultiplier: 0.95, riskChange: 0.04 },
+        },
+      ],
+    },
+    {
+      id: 'fair_winds',
+      title: 'Fair Winds',
+      description: 'The {route} has found a steady following wind and is making a fast passage.',
+      legs: ['outbound', 'returning'],
+      seasons: ['dry', 'postMonsoon'],
+      weight: 3,
+      effects: { delayHours: -8, riskChange: -0.03 },
+    },
+    {
+      id: 'eager_buyers',
+      title: 'Eager Buyers at {to}',
+      description: 'The spice fleet is late and the merchants of {to} are bidding high for our cargo.',
+      legs: ['outbound'],
+      weight: 2,
+      effects: { returnMultiplier: 1.2 },
+    },
+    {
+      id: 'fever_aboard',
+      title: 'Fever Aboard',
+      description: 'Fever has broken out among the crew of the {route}. Fewer hands are working the ship.',
+      legs: ['outbound', 'returning'],
+      routes: ['route_malacca', 'route_macau', 'route_africa'],
+      weight: 2,
+      effects: { riskChange: 0.05, delayHours: 12 },
+    },
+    {
+      id: 'armada_escort',
+      title: 'Under Escort',
+      description: 'A squadron of the Estado da India has taken the {route} under its guns for the passage.',
+      legs: ['outbound', 'returning'],
+      weight: 2,
+      effects: { riskChange: -0.06, reputation: 2, reputationFaction: 'crown' },
     },
   ];
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.events = getGameEvents(scene);
+    this.random = getRandomStream(scene, 'expeditions');
     this.initializeRoutes();
     this.setupEventListeners();
   }
@@ -131,7 +362,7 @@ export class TradeRouteSystem {
 
   private setupEventListeners(): void {
     // Check for returning expeditions
-    this.scene.events.on('hourChange', (timeData: { hour: number; dayCount: number }) => {
+    this.events.on('hourChange', (timeData: { hour: number; dayCount: number }) => {
       const currentTime = this.calculateGameTime(timeData.hour, timeData.dayCount);
       this.checkExpeditionReturns(currentTime);
     });
@@ -155,29 +386,117 @@ export class TradeRouteSystem {
   }
 
   public getAvailableRoutes(): TradeRoute[] {
+    return this.defaultRoutes.filter(route => this.getLockReason(route.id) === null);
+  }
+
+  public getAllRoutes(): TradeRoute[] {
+    return [...this.defaultRoutes];
+  }
+
+  public getRoute(routeId: string): TradeRoute | undefined {
+    return this.routes.get(routeId);
+  }
+
+  /**
+   * Why a route cannot be sailed yet, or null if it can
+   */
+  public getLockReason(routeId: string): string | null {
+    const route = this.routes.get(routeId);
+    if (!route) return 'Route not found';
+
+    // Check unlock requirement
     const progressionSystem = this.scene.registry.get('progressionSystem');
+    if (route.unlockRequirement && progressionSystem) {
+      if (!progressionSystem.hasUnlock(route.unlockRequirement)) {
+        return 'Opens at a higher merchant rank';
+      }
+    }
+
+    // Check faction standing - need at least neutral
     const factionSystem = this.scene.registry.get('factionSystem');
+    if (factionSystem) {
+      const rep = factionSystem.getReputation(route.faction);
+      if (rep < -20) return `Your standing with the ${route.faction.replace(/_/g, ' ')} is too low`;
+    }
 
-    return this.defaultRoutes.filter(route => {
-      // Check unlock requirement
-      if (route.unlockRequirement && progressionSystem) {
-        if (!progressionSystem.hasUnlock(route.unlockRequirement)) {
-          return false;
-        }
-      }
+    return null;
+  }
 
-      // Check faction standing - need at least neutral
-      if (factionSystem) {
-        const rep = factionSystem.getReputation(route.faction);
-        if (rep < -20) return false;
-      }
+  /**
+   * Chance of losing an expedition on a route if it sailed now
+   */
+  public getRiskBreakdown(routeId: string): RouteRiskBreakdown | null {
+    const route = this.routes.get(routeId);
+    if (!route) return null;
 
-      return true;
-    });
+    // Faction standing buys safe harbours and escorts
+    let faction = 0;
+    const factionSystem = this.scene.registry.get('factionSystem');
+    if (factionSystem) {
+      const rep = factionSystem.getReputation(route.faction);
+      if (rep >= 50) faction -= 0.05;
+      if (rep >= 80) faction -= 0.05;
+      if (rep < 0) faction += 0.10;
+    }
+
+    // Beating into a headwind is slow and dangerous; a following wind helps
+    const weatherSystem = this.getWeatherSystem();
+    const difficulty = weatherSystem?.getWindSystem?.()?.getTradeRouteDifficulty(route.heading) ?? 1;
+    const wind = (difficulty - 1) * 0.1;
+
+    // The monsoon closes the sea lanes
+    let season = 0;
+    const currentSeason = weatherSystem?.getCurrentSeason?.() ?? 'dry';
+    if (currentSeason === 'monsoon') season = 0.15;
+    if (currentSeason === 'preMonsoon' || currentSeason === 'postMonsoon') season = 0.05;
+
+    // Pilots who know the route
+    const skill = 0 - (this.scene.registry.get('skillSystem')?.getBonus?.('routeRisk') ?? 0);
+
+    const total = Math.max(0.01, Math.min(0.5, route.baseRisk + faction + wind + season + skill));
+    return { base: route.baseRisk, faction, wind, season, skill, total };
   }
 
-  public getRoute(routeId: string): TradeRoute | undefined {
-    return this.routes.get(routeId);
+  /**
+   * Expected return and risk for sending goods down a route
+   */
+  public estimateExpedition(
+    routeId: string,
+    goods: { goodId: string; quantity: number }[]
+  ): ExpeditionEstimate | null {
+    const route = this.routes.get(routeId);
+    const risk = this.getRiskBreakdown(routeId);
+    if (!route || !risk) return null;
+
+    // Goods valued at their base price in goods.json
+    const catalog = loadGoodsCatalog();
+    const investment = goods.reduce(
+      (total, item) => total + (catalog.get(item.goodId)?.basePrice ?? 0) * item.quantity,
+      0
+    );
+
+    // Calculate expected return based on goods affinity
+    const affinityBonus = this.calculateAffinityBonus(route, goods);
+
+    // Faction reputation affects profit
+    let factionBonus = 0;
+    const factionSystem = this.scene.registry.get('factionSystem');
+    if (factionSystem) {
+      const rep = factionSystem.getReputation(route.faction);
+      if (rep >= 50) factionBonus += 0.1;
+      if (rep >= 80) factionBonus += 0.1;
+    }
+
+    const profitMultiplier = route.profitMultiplier + affinityBonus + factionBonus;
+    return {
+      investment,
+      routeMultiplier: route.profitMultiplier,
+      affinityBonus,
+      factionBonus,
+      profitMultiplier,
+      expectedReturn: Math.floor(investment * profitMultiplier),
+      risk,
+    };
   }
 
   public startExpedition(
@@ -189,6 +508,17 @@ export class TradeRouteSystem {
       return { success: false, error: 'Route not found' };
     }
 
+    const lockReason = this.getLockReason(routeId);
+    if (lockReason) {
+      return { success: false, error: lockReason };
+    }
+    if (!this.canStartExpedition()) {
+      return { success: false, error: 'All your ships are already at sea' };
+    }
+    if (goods.length === 0 || goods.some(item => item.quantity <= 0)) {
+      return { success: false, error: 'Choose some cargo to send' };
+    }
+
     // Check if player has the goods
     const marketScene = this.scene.scene.get('MarketScene') as any;
     const player = marketScene?.getPlayer?.();
@@ -199,14 +529,13 @@ export class TradeRouteSystem {
     const inventory = player.getInventory();
 
     // Validate goods
-    let totalInvestment = 0;
     for (const item of goods) {
       const invItem = inventory.find((i: { item: string; quantity: number }) => i.item === item.goodId);
       if (!invItem || invItem.quantity < item.quantity) {
         return { success: false, error: `Not enough ${item.goodId}` };
       }
-      totalInvestment += this.getGoodBasePrice(item.goodId) * item.quantity;
     }
+    const estimate = this.estimateExpedition(routeId, goods)!;
 
     // Remove goods from inventory
     for (const item of goods) {
@@ -214,22 +543,9 @@ export class TradeRouteSystem {
     }
 
     const currentTime = this.getCurrentGameTime();
-    const expeditionId = `exp_${Date.now()}_${routeId}`;
-
-    // Calculate expected return based on goods affinity
-    let profitMultiplier = route.profitMultiplier;
-    const affinityBonus = this.calculateAffinityBonus(route, goods);
-    profitMultiplier += affinityBonus;
+    const expeditionId = `exp_${Date.now()}_${routeId}_${this.expeditionsLaunched++}`;
 
-    // Faction reputation affects profit
-    const factionSystem = this.scene.registry.get('factionSystem');
-    if (factionSystem) {
-      const rep = factionSystem.getReputation(route.faction);
-      if (rep >= 50) profitMultiplier += 0.1;
-      if (rep >= 80) profitMultiplier += 0.1;
-    }
-
-    const expectedReturn = Math.floor(totalInvestment * profitMultiplier);
+    const expectedReturn = estimate.expectedReturn;
 
     const expedition: ActiveExpedition = {
       id: expeditionId,
@@ -238,14 +554,15 @@ export class TradeRouteSystem {
       departureTime: currentTime,
       returnTime: currentTime + (route.travelTime * 2), // Round trip
       status: 'outbound',
-      investment: totalInvestment,
+      investment: estimate.investment,
       expectedReturn,
       actualReturn: 0,
+      risk: estimate.risk.total,
     };
 
     this.activeExpeditions.set(expeditionId, expedition);
 
-    this.scene.events.emit('expeditionStarted', {
+    this.events.emit('expeditionStarted', {
       expeditionId,
       route,
       goods,
@@ -253,7 +570,7 @@ export class TradeRouteSystem {
       expectedReturn,
     });
 
-    this.scene.events.emit('notification', {
+    this.events.emit('notification', {
       title: 'Expedition Launched',
       message: `Goods sent via ${route.name}. Returns in ${route.travelTime * 2} hours.`,
       type: 'info',
@@ -282,28 +599,30 @@ export class TradeRouteSystem {
     return bonus;
   }
 
-  private getGoodBasePrice(goodId: string): number {
-    const prices: { [key: string]: number } = {
-      'good_pepper': 15,
-      'good_cinnamon': 25,
-      'good_cloves': 40,
-      'good_silk': 50,
-      'good_porcelain': 35,
-      'good_ginger': 12,
-      'good_nutmeg': 45,
-      'good_indigo': 30,
-    };
-    return prices[goodId] || 10;
+  private getWeatherSystem(): any {
+    const marketScene = this.scene.scene.get('MarketScene') as any;
+    return marketScene?.getWeatherSystem?.();
   }
 
   private checkExpeditionReturns(currentTime: number): void {
     for (const [id, expedition] of this.activeExpeditions) {
+      // A ship waiting for orders makes no way
+      if (expedition.pendingIncident) {
+        this.holdForOrders(expedition, currentTime);
+        continue;
+      }
+
+      if (expedition.status === 'outbound' || expedition.status === 'returning') {
+        this.rollIncident(expedition);
+        if (expedition.pendingIncident) continue;
+      }
+
       if (expedition.status === 'outbound') {
         // Check if reached halfway point (at destination)
         const halfwayTime = expedition.departureTime + (expedition.returnTime - expedition.departureTime) / 2;
         if (currentTime >= halfwayTime) {
           expedition.status = 'returning';
-          this.scene.events.emit('expeditionReturning', { expeditionId: id });
+          this.events.emit('expeditionReturning', { expeditionId: id });
         }
       }
 
@@ -313,6 +632,173 @@ export class TradeRouteSystem {
     }
   }
 
+  /**
+   * Expeditions whose captains are waiting for orders
+   */
+  public getPendingDecisions(): Array<{
+    expedition: ActiveExpedition;
+    route: TradeRoute;
+    incident: VoyageIncident;
+  }> {
+    const result = [];
+    for (const expedition of this.activeExpeditions.values()) {
+      const incident = this.incidents.find(i => i.id === expedition.pendingIncident);
+      const route = this.routes.get(expedition.routeId);
+      if (incident && route) {
+        result.push({ expedition, route, incident: this.describeIncident(incident, route) });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Send orders to a ship waiting on an incident
+   */
+  public resolveIncidentChoice(expeditionId: string, choiceId: string): { success: boolean; error?: string } {
+    const expedition = this.activeExpeditions.get(expeditionId);
+    const incident = this.incidents.find(i => i.id === expedition?.pendingIncident);
+    const choice = incident?.choices?.find(c => c.id === choiceId);
+    if (!expedition || !incident || !choice) {
+      return { success: false, error: 'No orders are needed' };
+    }
+
+    // Tribute is paid from the player's purse, not the hold
+    if (choice.effects.tribute) {
+      const cost = Math.ceil(expedition.investment * choice.effects.tribute);
+      const player = (this.scene.scene.get('MarketScene') as any)?.getPlayer?.();
+      if (!player?.removeGold?.(cost)) {
+        return { success: false, error: `You need ${cost} gold for that` };
+      }
+    }
+
+    this.applyIncident(expedition, incident, choice);
+    return { success: true };
+  }
+
+  private rollIncident(expedition: ActiveExpedition): void {
+    const route = this.routes.get(expedition.routeId);
+    const leg = expedition.status as 'outbound' | 'returning';
+    if (!route || expedition.incidentLegs?.includes(leg)) return;
+
+    // Spread the leg's chance over its hours, so that the chance of no
+    // incident in any hour of the leg comes to 1 - incidentChancePerLeg
+    const hourlyChance = 1 - Math.pow(1 - this.incidentChancePerLeg, 1 / Math.max(1, route.travelTime));
+    if (this.random.next() >= hourlyChance) return;
+
+    const season = this.getWeatherSystem()?.getCurrentSeason?.() ?? 'dry';
+    const candidates = this.incidents.filter(incident =>
+      incident.legs.includes(leg) &&
+      (!incident.routes || incident.routes.includes(route.id)) &&
+      (!incident.seasons || incident.seasons.includes(season))
+    );
+    if (candidates.length === 0) return;
+
+    let roll = this.random.next() * candidates.reduce((total, incident) => total + incident.weight, 0);
+    const incident = candidates.find(candidate => (roll -= candidate.weight) < 0) ?? candidates[0];
+    expedition.incidentLegs = [...(expedition.incidentLegs ?? []), leg];
+
+    if (!incident.choices) {
+      this.applyIncident(expedition, incident);
+      return;
+    }
+
+    const described = this.describeIncident(incident, route);
+    expedition.pendingIncident = incident.id;
+    expedition.pendingSince = this.getCurrentGameTime();
+
+    this.events.emit('voyageDecision', { expeditionId: expedition.id, route, incident: described });
+    this.events.emit('notification', {
+      title: described.title,
+      message: described.description,
+      type: 'warning',
+      expeditionId: expedition.id,
+      choices: described.choices!.map(choice => ({ id: choice.id, label: choice.label })),
+    });
+  }
+
+  /**
+   * Keep a waiting ship where it is, and let the captain decide if the
+   * player never sends orders
+   */
+  private holdForOrders(expedition: ActiveExpedition, currentTime: number): void {
+    const waited = currentTime - (expedition.pendingSince ?? currentTime);
+    if (waited >= this.decisionTimeoutHours) {
+      const incident = this.incidents.find(i => i.id === expedition.pendingIncident);
+      const choice = incident?.choices?.find(c => !c.effects.tribute);
+      if (incident && choice) {
+        this.applyIncident(expedition, incident, choice, true);
+        return;
+      }
+      expedition.pendingIncident = undefined;
+      return;
+    }
+
+    expedition.departureTime += 1;
+    expedition.returnTime += 1;
+  }
+
+  private applyIncident(
+    expedition: ActiveExpedition,
+    incident: VoyageIncident,
+    choice?: IncidentChoice,
+    captainsChoice = false
+  ): void {
+    const route = this.routes.get(expedition.routeId)!;
+    const effects = choice?.effects ?? incident.effects ?? {};
+    const leg = expedition.status as 'outbound' | 'returning';
+
+    if (effects.returnMultiplier !== undefined) {
+      expedition.expectedReturn = Math.floor(expedition.expectedReturn * effects.returnMultiplier);
+    }
+    if (effects.riskChange !== undefined) {
+      const risk = expedition.risk ?? this.getRiskBreakdown(route.id)?.total ?? route.baseRisk;
+      expedition.risk = Math.max(0.01, Math.min(0.9, risk + effects.riskChange));
+    }
+    if (effects.delayHours !== undefined) {
+      // Stretch or shorten the voyage from here on, never into the past.
+      // On the way out the arrival at the far port moves with the return,
+      // as it does while a ship waits for orders.
+      const currentTime = this.getCurrentGameTime();
+      const returnTime = Math.max(currentTime + 1, expedition.returnTime + effects.delayHours);
+      if (leg === 'outbound') {
+        expedition.departureTime += returnTime - expedition.returnTime;
+      }
+      expedition.returnTime = returnTime;
+    }
+    if (effects.reputation) {
+      this.scene.registry.get('factionSystem')?.adjustReputation(effects.reputationFaction ?? route.faction, effects.reputation);
+    }
+
+    const described = this.describeIncident(incident, route);
+    const summary = choice
+      ? `${captainsChoice ? 'With no orders, the captain chose to' : 'You ordered:'} ${choice.label.toLowerCase()}.`
+      : described.description;
+    expedition.pendingIncident = undefined;
+    expedition.pendingSince = undefined;
+    expedition.incidents = [
+      ...(expedition.incidents ?? []),
+      { incidentId: incident.id, title: described.title, leg, choiceId: choice?.id, summary },
+    ];
+
+    this.events.emit('voyageIncident', {
+      expeditionId: expedition.id,
+      route,
+      incident: described,
+      choiceId: choice?.id,
+      summary,
+    });
+    this.events.emit('notification', {
+      title: described.title,
+      message: choice ? `${route.name}: ${summary}` : described.description,
+      type: 'info',
+    });
+  }
+
+  private describeIncident(incident: VoyageIncident, route: TradeRoute): VoyageIncident {
+    const fill = (text: string) => text.replace(/\{route\}/g, route.name).replace(/\{to\}/g, route.to);
+    return { ...incident, title: fill(incident.title), description: fill(incident.description) };
+  }
+
   private resolveExpedition(expeditionId: string): void {
     const expedition = this.activeExpeditions.get(expeditionId);
     if (!expedition) return;
@@ -320,19 +806,11 @@ export class TradeRouteSystem {
     const route = this.routes.get(expedition.routeId);
     if (!route) return;
 
-    // Calculate risk based on faction standing
-    let risk = route.baseRisk;
-    const factionSystem = this.scene.registry.get('factionSystem');
-    if (factionSystem) {
-      const rep = factionSystem.getReputation(route.faction);
-      if (rep >= 50) risk -= 0.05;
-      if (rep >= 80) risk -= 0.05;
-      if (rep < 0) risk += 0.10;
-      risk = Math.max(0.01, Math.min(0.5, risk));
-    }
+    // Risk was set when the expedition sailed; older saves work it out now
+    const risk = expedition.risk ?? this.getRiskBreakdown(route.id)?.total ?? route.baseRisk;
 
     // Roll for success
-    const roll = Math.random();
+    const roll = this.random.next();
 
     if (roll < risk) {
       // Cargo lost
@@ -340,21 +818,23 @@ export class TradeRouteSystem {
       expedition.actualReturn = 0;
       this.lostExpeditions++;
 
-      this.scene.events.emit('expeditionLost', {
+      this.events.emit('expeditionLost', {
         expeditionId,
         route,
         investment: expedition.investment,
       });
 
-      this.scene.events.emit('notification', {
+      this.events.emit('notification', {
         title: 'Expedition Lost!',
         message: `The ${route.name} expedition was lost at sea. ${expedition.investment} gold worth of goods gone.`,
         type: 'error',
       });
     } else {
       // Success - calculate actual return with some variance
-      const variance = 0.8 + (Math.random() * 0.4); // 80-120% of expected
-      expedition.actualReturn = Math.floor(expedition.expectedReturn * variance);
+      const variance = 0.8 + (this.random.next() * 0.4); // 80-120% of expected
+      // Perks that bring more home are counted on return, whenever they were learned
+      const perkBonus = this.scene.registry.get('skillSystem')?.getBonus?.('expeditionReturn') ?? 0;
+      expedition.actualReturn = Math.floor(expedition.expectedReturn * variance * (1 + perkBonus));
       expedition.status = 'completed';
       this.completedExpeditions++;
 
@@ -362,9 +842,9 @@ export class TradeRouteSystem {
       this.totalProfit += profit;
 
       // Add gold to player
-      this.scene.events.emit('goldChange', expedition.actualReturn);
+      this.events.emit('goldDelta', expedition.actualReturn);
 
-      this.scene.events.emit('expeditionCompleted', {
+      this.events.emit('expeditionCompleted', {
         expeditionId,
         route,
         investment: expedition.investment,
@@ -372,7 +852,7 @@ export class TradeRouteSystem {
         profit,
       });
 
-      this.scene.events.emit('notification', {
+      this.events.emit('notification', {
         title: 'Expedition Returned!',
         message: `The ${route.name} expedition returned! Earned ${expedition.actualReturn} gold (${profit > 0 ? '+' : ''}${profit} profit).`,
         type: 'success',
@@ -469,7 +949,7 @@ export class TradeRouteSystem {
     this.lostExpeditions = data.lostExpeditions ?? 0;
     this.totalProfit = data.totalProfit ?? 0;
 
-    this.scene.events.emit('tradeRoutesLoaded', {
+    this.events.emit('tradeRoutesLoaded', {
       active: this.getActiveExpeditions(),
       stats: this.getStats(),
     });
@@ -479,7 +959,7 @@ export class TradeRouteSystem {
    * Clean up event listeners and data to prevent memory leaks
    */
   public destroy(): void {
-    this.scene.events.off('hourChange');
+    this.events.off('hourChange');
     this.activeExpeditions.clear();
   }
 }
@@ -1,4 +1,10 @@
 import Phaser from 'phaser';
+import { TradeGood, loadGoodsCatalog } from './GoodsCatalog';
+import { RandomStream, getRandomStream } from './RandomSystem';
+import { GameEventBus, getGameEvents } from './GameEvents';
+import { loadCalendar } from './Calendar';
+
+export type { TradeGood } from './GoodsCatalog';
 
 /**
  * TradeSystem - Manages the economy and trade mechanics
@@ -8,26 +14,27 @@ import Phaser from 'phaser';
  * seasons, and European demand.
  */
 
-// Trade good definition with historical context
-export interface TradeGood {
-  id: string;
-  name: string;
-  basePrice: number;
-  category: 'spice' | 'fabric' | 'luxury' | 'commodity';
-  origin: string;
-  description: string;
-  weight: number; // Affects carry capacity
-  rarity: number; // 1-10, affects price volatility
-}
-
 // Market state for a specific good
-interface MarketState {
+export interface MarketState {
   currentPrice: number;
   supply: number;
   demand: number;
   trend: 'rising' | 'falling' | 'stable';
 }
 
+// Priced multi-unit order; each unit moves supply and demand for the next
+export interface OrderQuote {
+  goodId: string;
+  isBuying: boolean;
+  quantity: number;       // Units the market can fill (buys stop when supply runs out)
+  unitPrices: number[];
+  total: number;
+  averagePrice: number;
+}
+
+// How a trader deals - also how a vendor haggles (see HagglingSystem)
+export type TraderPersonality = 'aggressive' | 'cautious' | 'speculator';
+
 // NPC Trader that affects market dynamics
 interface MarketTrader {
   id: string;
@@ -37,12 +44,21 @@ interface MarketTrader {
   preferences: string[];    // Goods they prefer to buy
   avoidGoods: string[];     // Goods they don't buy
   schedule: number[];       // Hours when active (e.g., [7, 8, 9, 10])
-  personality: 'aggressive' | 'cautious' | 'speculator';
+  personality: TraderPersonality;
   lastAction: number;       // Game time of last action
 }
 
+// What a save keeps of the market: each good's state and price history, and each trader's purse
+export interface MarketSaveData {
+  markets: Record<string, MarketState>;
+  priceHistory: Record<string, number[]>;
+  traders: Record<string, { gold: number; lastAction: number }>;
+}
+
 export class TradeSystem {
   private scene: Phaser.Scene;
+  private events: GameEventBus;
+  private random: RandomStream;
   private goods: Map<string, TradeGood> = new Map();
   private marketState: Map<string, MarketState> = new Map();
   private priceHistory: Map<string, number[]> = new Map();
@@ -54,78 +70,32 @@ export class TradeSystem {
   private lastNPCTradeTime = 0;
   private npcTradeInterval = 15000; // NPCs trade every 15 seconds
 
-  // Historical trade goods with approximate relative values
-  private readonly defaultGoods: TradeGood[] = [
-    {
-      id: 'good_pepper',
-      name: 'Pepper',
-      basePrice: 15,
-      category: 'spice',
-      origin: 'Malabar Coast',
-      description: 'Black gold of the East. The most traded spice.',
-      weight: 1,
-      rarity: 3,
-    },
-    {
-      id: 'good_cinnamon',
-      name: 'Cinnamon',
-      basePrice: 25,
-      category: 'spice',
-      origin: 'Ceylon',
-      description: 'Aromatic bark from Ceylon. Portuguese monopoly.',
-      weight: 1,
-      rarity: 5,
-    },
-    {
-      id: 'good_cloves',
-      name: 'Cloves',
-      basePrice: 40,
-      category: 'spice',
-      origin: 'Moluccas',
-      description: 'Precious spice from the Spice Islands.',
-      weight: 1,
-      rarity: 8,
-    },
-    {
-      id: 'good_silk',
-      name: 'Silk',
-      basePrice: 50,
-      category: 'fabric',
-      origin: 'China via Macau',
-      description: 'Luxurious fabric from the Middle Kingdom.',
-      weight: 2,
-      rarity: 6,
-    },
-    {
-      id: 'good_porcelain',
-      name: 'Porcelain',
-      basePrice: 35,
-      category: 'luxury',
-      origin: 'China',
-      description: 'Fine ceramics. Fragile but valuable.',
-      weight: 3,
-      rarity: 5,
-    },
-  ];
+  // Most units of one good per order; larger orders need 'bulk_trading'
+  private readonly smallOrderLimit = 5;
+  private readonly bulkOrderLimit = 50;
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.events = getGameEvents(scene);
+    this.random = getRandomStream(scene, 'trade');
     this.initializeGoods();
     this.initializeMarket();
     this.initializeNPCTraders();
+    this.events.on('newDay', this.onNewDay, this);
   }
 
   private initializeGoods(): void {
-    for (const good of this.defaultGoods) {
+    // The catalogue comes from goods.json; BootScene has already reported any schema errors
+    for (const good of loadGoodsCatalog().getAll()) {
       this.goods.set(good.id, good);
     }
   }
 
   private initializeMarket(): void {
-    for (const good of this.defaultGoods) {
+    for (const good of this.goods.values()) {
       // Initialize market state with some randomness
-      const supplyVariance = 0.5 + Math.random();
-      const demandVariance = 0.5 + Math.random();
+      const supplyVariance = 0.5 + this.random.next();
+      const demandVariance = 0.5 + this.random.next();
 
       const supply = Math.floor(10 * supplyVariance);
       const demand = Math.floor(10 * demandVariance);
@@ -259,7 +229,7 @@ export class TradeSystem {
 
   private determineTraderAction(trader: MarketTrader): { type: 'buy' | 'sell'; goodId: string; quantity: number } | null {
     // Random chance to act (don't trade every cycle)
-    if (Math.random() > 0.4) return null;
+    if (this.random.next() > 0.4) return null;
 
     // Find a preferred good with reasonable supply
     const availableGoods = trader.preferences.filter(goodId => {
@@ -269,7 +239,7 @@ export class TradeSystem {
 
     if (availableGoods.length === 0) return null;
 
-    const goodId = availableGoods[Math.floor(Math.random() * availableGoods.length)];
+    const goodId = this.random.pick(availableGoods);
     const state = this.marketState.get(goodId);
     const good = this.goods.get(goodId);
     if (!state || !good) return null;
@@ -295,7 +265,7 @@ export class TradeSystem {
           return { type: 'buy', goodId, quantity: 2 };
         }
         // Sells when trend is falling
-        if (state.trend === 'falling' && Math.random() > 0.5) {
+        if (state.trend === 'falling' && this.random.next() > 0.5) {
           return { type: 'sell', goodId, quantity: 1 };
         }
         break;
@@ -316,7 +286,7 @@ export class TradeSystem {
     state.demand = Math.min(20, state.demand + quantity);
 
     // Emit event for UI feedback (optional)
-    this.scene.events.emit('npcTrade', {
+    this.events.emit('npcTrade', {
       trader: trader.name,
       action: 'bought',
       goodId,
@@ -334,7 +304,7 @@ export class TradeSystem {
     state.supply += quantity;
     state.demand = Math.max(1, state.demand - quantity);
 
-    this.scene.events.emit('npcTrade', {
+    this.events.emit('npcTrade', {
       trader: trader.name,
       action: 'sold',
       goodId,
@@ -343,14 +313,26 @@ export class TradeSystem {
     });
   }
 
+  /**
+   * Feasts raise demand for the goods they call for on each day they are kept
+   */
+  private onNewDay(data: { dayCount: number }): void {
+    for (const [goodId, amount] of loadCalendar().getDemand(data.dayCount)) {
+      const state = this.marketState.get(goodId);
+      if (state) {
+        state.demand = Math.max(1, Math.min(20, state.demand + amount));
+      }
+    }
+  }
+
   private updateMarket(): void {
     for (const [goodId, state] of this.marketState) {
       const good = this.goods.get(goodId);
       if (!good) continue;
 
       // Random market fluctuations
-      const supplyChange = Math.floor((Math.random() - 0.5) * 4);
-      const demandChange = Math.floor((Math.random() - 0.5) * 4);
+      const supplyChange = Math.floor((this.random.next() - 0.5) * 4);
+      const demandChange = Math.floor((this.random.next() - 0.5) * 4);
 
       state.supply = Math.max(0, state.supply + supplyChange);
       state.demand = Math.max(1, state.demand + demandChange);
@@ -360,7 +342,7 @@ export class TradeSystem {
       const priceFactor = this.calculatePriceFactor(state.supply, state.demand);
       
       // Add volatility based on rarity
-      const volatility = 1 + (good.rarity / 100) * (Math.random() - 0.5);
+      const volatility = 1 + (good.rarity / 100) * (this.random.next() - 0.5);
       state.currentPrice = Math.floor(good.basePrice * priceFactor * volatility);
       
       // Ensure minimum price
@@ -382,14 +364,18 @@ export class TradeSystem {
     }
 
     // Emit market update event
-    this.scene.events.emit('marketUpdate', this.getMarketSummary());
+    this.events.emit('marketUpdate', this.getMarketSummary());
   }
 
   public getPrice(goodId: string, isBuying: boolean, vendorFaction?: string, vendorNpcId?: string): number {
     const state = this.marketState.get(goodId);
     if (!state) return 0;
 
-    let price = state.currentPrice;
+    return this.applyPriceModifiers(state.currentPrice, isBuying, vendorFaction, vendorNpcId);
+  }
+
+  private applyPriceModifiers(basePrice: number, isBuying: boolean, vendorFaction?: string, vendorNpcId?: string): number {
+    let price = basePrice;
 
     // Apply faction reputation modifier
     if (vendorFaction) {
@@ -407,6 +393,10 @@ export class TradeSystem {
     const progressionModifier = this.getProgressionModifier(isBuying);
     price = Math.floor(price * progressionModifier);
 
+    // Apply the player's learned perks
+    const skillModifier = this.getSkillModifier(isBuying);
+    price = Math.floor(price * skillModifier);
+
     if (!isBuying) {
       // Selling gets you less (merchant markup)
       price = Math.floor(price * 0.75);
@@ -479,6 +469,14 @@ export class TradeSystem {
     }
   }
 
+  /**
+   * Get price modifier from the perks the player has learned
+   */
+  private getSkillModifier(isBuying: boolean): number {
+    const skillSystem = this.scene.registry.get('skillSystem');
+    return skillSystem?.getPriceModifier?.(isBuying) ?? 1.0;
+  }
+
   /**
    * Get the base price without modifiers (for display purposes)
    */
@@ -494,41 +492,130 @@ export class TradeSystem {
   }
 
   public buyGood(goodId: string): { success: boolean; price: number; message: string } {
-    const state = this.marketState.get(goodId);
-    const good = this.goods.get(goodId);
+    const result = this.executeOrder(goodId, 1, true);
+    return { success: result.success, price: result.quote?.total ?? 0, message: result.message };
+  }
 
-    if (!state || !good) {
-      return { success: false, price: 0, message: 'Unknown good.' };
-    }
+  public sellGood(goodId: string): { success: boolean; price: number; message: string } {
+    const result = this.executeOrder(goodId, 1, false);
+    return { success: result.success, price: result.quote?.total ?? 0, message: result.message };
+  }
 
-    if (state.supply <= 0) {
-      return { success: false, price: 0, message: `No ${good.name} available.` };
-    }
+  /**
+   * Most units of one good the player may trade in a single order
+   */
+  public getMaxOrderSize(): number {
+    const progressionSystem = this.scene.registry.get('progressionSystem');
+    return progressionSystem?.hasUnlock?.('bulk_trading') ? this.bulkOrderLimit : this.smallOrderLimit;
+  }
 
-    const price = this.getPrice(goodId, true);
-    state.supply--;
-    
-    // Buying increases demand
-    state.demand = Math.min(20, state.demand + 1);
+  /**
+   * Price a multi-unit order without trading
+   * Every unit bought takes one from supply and adds to demand (and the
+   * reverse for selling), so each unit is priced a little worse than the
+   * last - dumping twenty bales of pepper on the market depresses it.
+   */
+  public quoteOrder(
+    goodId: string,
+    quantity: number,
+    isBuying: boolean,
+    vendorFaction?: string,
+    vendorNpcId?: string
+  ): OrderQuote | null {
+    const state = this.marketState.get(goodId);
+    if (!state || quantity <= 0) return null;
+
+    const unitPrices = this.simulateOrder(state, quantity, isBuying).basePrices
+      .map(price => this.applyPriceModifiers(price, isBuying, vendorFaction, vendorNpcId));
+    const total = unitPrices.reduce((sum, price) => sum + price, 0);
 
-    return { success: true, price, message: `Purchased ${good.name} for ${price} gold.` };
+    return {
+      goodId,
+      isBuying,
+      quantity: unitPrices.length,
+      unitPrices,
+      total,
+      averagePrice: unitPrices.length > 0 ? Math.round(total / unitPrices.length) : 0,
+    };
   }
 
-  public sellGood(goodId: string): { success: boolean; price: number; message: string } {
+  /**
+   * Trade a multi-unit order against the market, moving supply, demand
+   * and the current price as quoted
+   */
+  public executeOrder(
+    goodId: string,
+    quantity: number,
+    isBuying: boolean,
+    vendorFaction?: string,
+    vendorNpcId?: string
+  ): { success: boolean; quote: OrderQuote | null; message: string } {
     const state = this.marketState.get(goodId);
     const good = this.goods.get(goodId);
 
     if (!state || !good) {
-      return { success: false, price: 0, message: 'Unknown good.' };
+      return { success: false, quote: null, message: 'Unknown good.' };
     }
 
-    const price = this.getPrice(goodId, false);
-    state.supply++;
-    
-    // Selling decreases demand
-    state.demand = Math.max(1, state.demand - 1);
+    const maxOrder = this.getMaxOrderSize();
+    if (quantity > maxOrder) {
+      return {
+        success: false,
+        quote: null,
+        message: `Orders over ${maxOrder} ${good.name} need bulk trading rights.`,
+      };
+    }
+
+    const quote = this.quoteOrder(goodId, quantity, isBuying, vendorFaction, vendorNpcId);
+    if (!quote || quote.quantity === 0) {
+      return { success: false, quote: null, message: `No ${good.name} available.` };
+    }
+
+    const outcome = this.simulateOrder(state, quote.quantity, isBuying);
+    state.supply = outcome.supply;
+    state.demand = outcome.demand;
+    state.currentPrice = outcome.nextPrice;
+
+    const message = isBuying
+      ? `Purchased ${quote.quantity} ${good.name} for ${quote.total} gold.`
+      : `Sold ${quote.quantity} ${good.name} for ${quote.total} gold.`;
+    return { success: true, quote, message };
+  }
+
+  /**
+   * Walk an order through the market unit by unit
+   * Each unit's price is the current price scaled by how far that unit's
+   * supply and demand have moved the price factor.
+   */
+  private simulateOrder(
+    state: MarketState,
+    quantity: number,
+    isBuying: boolean
+  ): { basePrices: number[]; supply: number; demand: number; nextPrice: number } {
+    const startFactor = this.calculatePriceFactor(state.supply, state.demand);
+    const priceAt = (supply: number, demand: number) =>
+      Math.max(1, Math.floor(state.currentPrice * this.calculatePriceFactor(supply, demand) / startFactor));
+
+    const basePrices: number[] = [];
+    let supply = state.supply;
+    let demand = state.demand;
+
+    for (let unit = 0; unit < quantity; unit++) {
+      if (isBuying && supply <= 0) break;
+      basePrices.push(priceAt(supply, demand));
+
+      if (isBuying) {
+        // Buying increases demand
+        supply--;
+        demand = Math.min(20, demand + 1);
+      } else {
+        // Selling decreases demand
+        supply++;
+        demand = Math.max(1, demand - 1);
+      }
+    }
 
-    return { success: true, price, message: `Sold ${good.name} for ${price} gold.` };
+    return { basePrices, supply, demand, nextPrice: priceAt(supply, demand) };
   }
 
   public getGoodInfo(goodId: string): TradeGood | undefined {
@@ -586,7 +673,27 @@ export class TradeSystem {
       }
     }
 
-    this.scene.events.emit('shipArrival', goods);
+    this.events.emit('shipArrival', goods);
+  }
+
+  /**
+   * Goods sold into the market by an NPC trading out of the player's sight
+   * (see NPCSimulationSystem)
+   */
+  public recordOffscreenSale(goodId: string, quantity: number, traderName: string): void {
+    const state = this.marketState.get(goodId);
+    if (!state) return;
+
+    state.supply += quantity;
+    state.demand = Math.max(1, state.demand - quantity);
+
+    this.events.emit('npcTrade', {
+      trader: traderName,
+      action: 'sold',
+      goodId,
+      quantity,
+      price: state.currentPrice * quantity,
+    });
   }
 
   // Time of day affects prices
@@ -598,10 +705,44 @@ export class TradeSystem {
     }
   }
 
+  public getSaveData(): MarketSaveData {
+    const data: MarketSaveData = { markets: {}, priceHistory: {}, traders: {} };
+
+    for (const [goodId, state] of this.marketState) {
+      data.markets[goodId] = { ...state };
+      data.priceHistory[goodId] = [...(this.priceHistory.get(goodId) ?? [])];
+    }
+    for (const trader of this.npcTraders) {
+      data.traders[trader.id] = { gold: trader.gold, lastAction: trader.lastAction };
+    }
+
+    return data;
+  }
+
+  public loadSaveData(data: MarketSaveData): void {
+    // Goods dropped from the catalogue since the save are left behind
+    for (const [goodId, state] of Object.entries(data.markets ?? {})) {
+      if (!this.goods.has(goodId)) continue;
+      this.marketState.set(goodId, { ...state });
+      this.priceHistory.set(goodId, [...(data.priceHistory?.[goodId] ?? [state.currentPrice])]);
+    }
+
+    for (const trader of this.npcTraders) {
+      const saved = data.traders?.[trader.id];
+      if (saved) {
+        trader.gold = saved.gold;
+        trader.lastAction = saved.lastAction;
+      }
+    }
+
+    this.events.emit('marketUpdate', this.getMarketSummary());
+  }
+
   /**
    * Clean up resources
    */
   public destroy(): void {
+    this.events.off('newDay', this.onNewDay, this);
     this.marketState.clear();
     this.priceHistory.clear();
     this.npcTraders = [];
@@ -0,0 +1,152 @@
+/**
+ * WalkabilityGrid - Which tiles of the current location can be walked on
+ *
+ * Built by MarketScene from the location's Tiled map (tile `walkable`
+ * flags plus collision objects) and shared through the registry as
+ * 'walkabilityGrid'. The player and NPCs ask it before every step, so the
+ * harbor, building blocks and the map edge bound their movement.
+ *
+ * Movement that runs into a blocked tile slides along the blocked edge:
+ * the step is split into its two isometric axes and whichever one is
+ * still open is kept, so walking diagonally into a wall glides along it.
+ */
+
+export class WalkabilityGrid {
+  private walkable: boolean[][];
+  private width: number;
+  private height: number;
+  private halfTileWidth: number;
+  private halfTileHeight: number;
+  private originX: number;
+  private originY: number;
+
+  // How far ahead of a moving entity's feet to probe, in pixels
+  private readonly probeDistance = 4;
+
+  /**
+   * @param walkable walkable[y][x] for every tile of the map
+   * @param tileWidth Screen width of a tile
+   * @param tileHeight Screen height of a tile
+   * @param originX Screen x of tile (0, 0)'s centre
+   * @param originY Screen y of tile (0, 0)'s centre
+   */
+  constructor(walkable: boolean[][], tileWidth: number, tileHeight: number, originX: number, originY: number) {
+    this.walkable = walkable;
+    this.height = walkable.length;
+    this.width = walkable[0]?.length ?? 0;
+    this.halfTileWidth = tileWidth / 2;
+    this.halfTileHeight = tileHeight / 2;
+    this.originX = originX;
+    this.originY = originY;
+  }
+
+  public getWidth(): number {
+    return this.width;
+  }
+
+  public getHeight(): number {
+    return this.height;
+  }
+
+  /**
+   * Check a tile; anything off the map is blocked
+   */
+  public isWalkable(tileX: number, tileY: number): boolean {
+    if (tileX < 0 || tileY < 0 || tileX >= this.width || tileY >= this.height) return false;
+    return this.walkable[tileY][tileX];
+  }
+
+  /**
+   * Convert a screen position to the tile whose diamond contains it
+   */
+  public screenToTile(screenX: number, screenY: number): { x: number; y: number } {
+    const isoX = (screenX - this.originX) / this.halfTileWidth;
+    const isoY = (screenY - this.originY) / this.halfTileHeight;
+    return {
+      x: Math.round((isoX + isoY) / 2),
+      y: Math.round((isoY - isoX) / 2),
+    };
+  }
+
+  /**
+   * Convert a tile to the screen position of its centre
+   */
+  public tileToScreen(tileX: number, tileY: number): { x: number; y: number } {
+    return {
+      x: (tileX - tileY) * this.halfTileWidth + this.originX,
+      y: (tileX + tileY) * this.halfTileHeight + this.originY,
+    };
+  }
+
+  public isPointWalkable(screenX: number, screenY: number): boolean {
+    const tile = this.screenToTile(screenX, screenY);
+    return this.isWalkable(tile.x, tile.y);
+  }
+
+  /**
+   * Resolve a movement step against the grid
+   * @param x Screen x of the entity's feet
+   * @param y Screen y of the entity's feet
+   * @param dx Intended screen movement this frame
+   * @param dy Intended screen movement this frame
+   * @returns The movement that is allowed, slid along blocked edges
+   */
+  public resolveMove(x: number, y: number, dx: number, dy: number): { dx: number; dy: number } {
+    if (dx === 0 && dy === 0) return { dx, dy };
+
+    // Never trap something that is already standing on a blocked tile
+    if (!this.isPointWalkable(x, y)) return { dx, dy };
+
+    if (this.canStep(x, y, dx, dy)) return { dx, dy };
+
+    // Split the step into its isometric axes and keep whichever is open,
+    // trying the larger component first
+    const isoX = (dx / this.halfTileWidth + dy / this.halfTileHeight) / 2;
+    const isoY = (dy / this.halfTileHeight - dx / this.halfTileWidth) / 2;
+    const alongX = { dx: isoX * this.halfTileWidth, dy: isoX * this.halfTileHeight };
+    const alongY = { dx: -isoY * this.halfTileWidth, dy: isoY * this.halfTileHeight };
+    const candidates = Math.abs(isoX) >= Math.abs(isoY) ? [alongX, alongY] : [alongY, alongX];
+
+    for (const step of candidates) {
+      if ((step.dx !== 0 || step.dy !== 0) && this.canStep(x, y, step.dx, step.dy)) {
+        return step;
+      }
+    }
+
+    return { dx: 0, dy: 0 };
+  }
+
+  /**
+   * Find the walkable tile closest to a tile, searching outward in rings
+   * @returns The tile itself if walkable, null if nothing is in range
+   */
+  public findNearestWalkable(tileX: number, tileY: number, maxRadius = 6): { x: number; y: number } | null {
+    if (this.isWalkable(tileX, tileY)) return { x: tileX, y: tileY };
+
+    for (let radius = 1; radius <= maxRadius; radius++) {
+      let best: { x: number; y: number } | null = null;
+      let bestDistance = Infinity;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          if (Math.max(Math.abs(dx), Math.abs(dy)) !== radius) continue;
+          if (!this.isWalkable(tileX + dx, tileY + dy)) continue;
+          const distance = dx * dx + dy * dy;
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            best = { x: tileX + dx, y: tileY + dy };
+          }
+        }
+      }
+      if (best) return best;
+    }
+
+    return null;
+  }
+
+  private canStep(x: number, y: number, dx: number, dy: number): boolean {
+    const length = Math.sqrt(dx * dx + dy * dy);
+    const probeX = x + dx + (dx / length) * this.probeDistance;
+    const probeY = y + dy + (dy / length) * this.probeDistance;
+    return this.isPointWalkable(probeX, probeY);
+  }
+}
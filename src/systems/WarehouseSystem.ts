@@ -0,0 +1,330 @@
+import Phaser from 'phaser';
+import { loadGoodsCatalog } from './GoodsCatalog';
+import { RandomStream, getRandomStream } from './RandomSystem';
+import { GameEventBus, getGameEvents } from './GameEvents';
+
+/**
+ * WarehouseSystem - Rented storage in the Warehouse District
+ *
+ * Historical context: goods waiting for the next carrack or the end of the
+ * monsoon sat in the godowns behind the Ribeira, rented by the month from
+ * the Crown's warehouse master. Pepper sweated and rotted in the damp,
+ * and what the damp spared, porters and night thieves often did not.
+ *
+ * Once the player reaches Trader rank ('warehouse_access'), they can rent
+ * bays from the Warehouse Master and deposit goods beyond what they can
+ * carry. Rent is charged each morning; a tenant who falls too far behind
+ * has their goods seized. Every night each stored unit risks spoiling or
+ * being stolen, at the rate its category sets in goods.json.
+ */
+
+export interface StoredGood {
+  item: string;
+  quantity: number;
+}
+
+export interface WarehouseSaveData {
+  bays: number;
+  contents: StoredGood[];
+  unpaidDays: number;
+}
+
+// What a night in the warehouse cost the player
+export interface WarehouseLossEvent {
+  spoiled: StoredGood[];
+  stolen: StoredGood[];
+}
+
+export interface WarehouseState {
+  bays: number;
+  maxBays: number;
+  capacity: number;
+  used: number;
+  dailyRent: number;
+  unpaidDays: number;
+  contents: StoredGood[];
+}
+
+export class WarehouseSystem {
+  private scene: Phaser.Scene;
+  private events: GameEventBus;
+  private random: RandomStream;
+  private bays = 0;
+  private contents: Map<string, number> = new Map();
+  private unpaidDays = 0;
+
+  public static readonly LOCATION_ID = 'warehouse_district';
+  public static readonly KEEPER_NPC_ID = 'warehouse_master';
+
+  private readonly maxBays = 4;
+  private readonly unitsPerBay = 25;
+  private readonly rentPerBay = 5;
+  // Days of unpaid rent before the warehouse master seizes the goods
+  private readonly seizureAfterDays = 3;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+    this.events = getGameEvents(scene);
+    this.random = getRandomStream(scene, 'warehouse');
+    this.events.on('newDay', this.onNewDay, this);
+  }
+
+  public getState(): WarehouseState {
+    return {
+      bays: this.bays,
+      maxBays: this.maxBays,
+      capacity: this.getCapacity(),
+      used: this.getUsed(),
+      dailyRent: this.bays * this.rentPerBay,
+      unpaidDays: this.unpaidDays,
+      contents: this.getContents(),
+    };
+  }
+
+  public getContents(): StoredGood[] {
+    return Array.from(this.contents.entries()).map(([item, quantity]) => ({ item, quantity }));
+  }
+
+  public getCapacity(): number {
+    return this.bays * this.unitsPerBay;
+  }
+
+  public getUsed(): number {
+    let used = 0;
+    for (const quantity of this.contents.values()) used += quantity;
+    return used;
+  }
+
+  /**
+   * Whether the player may rent here: Trader rank and standing in the district
+   */
+  public canAccess(): { allowed: boolean; reason?: string } {
+    const progressionSystem = this.scene.registry.get('progressionSystem');
+    if (!progressionSystem?.hasUnlock?.('warehouse_access')) {
+      return { allowed: false, reason: 'The warehouse master rents only to established traders.' };
+    }
+    if (this.getCurrentLocationId() !== WarehouseSystem.LOCATION_ID) {
+      return { allowed: false, reason: 'You must be in the Warehouse District.' };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Rent one more bay, paying its first day's rent up front
+   */
+  public rentBay(): { success: boolean; message: string } {
+    const access = this.canAccess();
+    if (!access.allowed) return { success: false, message: access.reason! };
+    if (this.bays >= this.maxBays) {
+      return { success: false, message: 'There are no more bays to let.' };
+    }
+
+    const player = this.getPlayer();
+    if (!player?.removeGold(this.rentPerBay)) {
+      return { success: false, message: `A bay costs ${this.rentPerBay} reis a day, paid in advance.` };
+    }
+
+    this.bays++;
+    this.emitChange();
+    return { success: true, message: `Rented a bay for ${this.rentPerBay} reis a day.` };
+  }
+
+  /**
+   * Give up a bay; what is stored must still fit in the rest
+   */
+  public releaseBay(): { success: boolean; message: string } {
+    if (this.bays === 0) return { success: false, message: 'You rent no bays.' };
+    if (this.getUsed() > (this.bays - 1) * this.unitsPerBay) {
+      return { success: false, message: 'Clear out enough goods to empty a bay first.' };
+    }
+
+    this.bays--;
+    this.emitChange();
+    return { success: true, message: 'Released a bay.' };
+  }
+
+  /**
+   * Move goods from the player's pack into storage
+   */
+  public deposit(goodId: string, quantity: number): { success: boolean; message: string } {
+    const access = this.canAccess();
+    if (!access.allowed) return { success: false, message: access.reason! };
+    if (quantity <= 0) return { success: false, message: 'Nothing to store.' };
+    if (this.getUsed() + quantity > this.getCapacity()) {
+      return { success: false, message: 'Your bays are full.' };
+    }
+
+    const player = this.getPlayer();
+    if (!player?.removeFromInventory(goodId, quantity)) {
+      return { success: false, message: `You are not carrying ${quantity} ${this.getName(goodId)}.` };
+    }
+
+    this.contents.set(goodId, (this.contents.get(goodId) ?? 0) + quantity);
+    this.emitChange();
+    return { success: true, message: `Stored ${quantity} ${this.getName(goodId)}.` };
+  }
+
+  /**
+   * Move goods from storage back into the player's pack
+   */
+  public withdraw(goodId: string, quantity: number): { success: boolean; message: string } {
+    const access = this.canAccess();
+    if (!access.allowed) return { success: false, message: access.reason! };
+
+    const stored = this.contents.get(goodId) ?? 0;
+    if (quantity <= 0 || stored < quantity) {
+      return { success: false, message: `You have only ${stored} ${this.getName(goodId)} stored.` };
+    }
+
+    const player = this.getPlayer();
+    if (!player?.addToInventory(goodId, quantity)) {
+      return { success: false, message: 'You cannot carry that much.' };
+    }
+
+    this.setStored(goodId, stored - quantity);
+    this.emitChange();
+    return { success: true, message: `Took ${quantity} ${this.getName(goodId)} from storage.` };
+  }
+
+  private onNewDay(): void {
+    if (this.bays === 0) return;
+
+    this.chargeRent();
+    if (this.bays > 0) {
+      this.applyLosses();
+    }
+    this.emitChange();
+  }
+
+  private chargeRent(): void {
+    const rent = this.bays * this.rentPerBay;
+    const player = this.getPlayer();
+
+    if (player?.removeGold(rent)) {
+      this.unpaidDays = 0;
+      return;
+    }
+
+    this.unpaidDays++;
+    if (this.unpaidDays >= this.seizureAfterDays) {
+      const seized = this.getContents();
+      this.contents.clear();
+      this.bays = 0;
+      this.unpaidDays = 0;
+      this.events.emit('warehouseSeized', { seized });
+      this.events.emit('notification', {
+        title: 'Goods Seized',
+        message: 'The warehouse master has seized your stored goods for unpaid rent.',
+        type: 'warning',
+      });
+    } else {
+      this.events.emit('notification', {
+        title: 'Rent Unpaid',
+        message: `You owe ${rent} reis for your warehouse bays. ` +
+          `Goods will be seized after ${this.seizureAfterDays - this.unpaidDays} more day(s).`,
+        type: 'warning',
+      });
+    }
+  }
+
+  /**
+   * Each stored unit may spoil or be stolen overnight
+   */
+  private applyLosses(): void {
+    const catalog = loadGoodsCatalog();
+    const spoiled: StoredGood[] = [];
+    const stolen: StoredGood[] = [];
+
+    for (const [goodId, quantity] of this.contents) {
+      const category = catalog.getCategory(catalog.get(goodId)?.category ?? '');
+      if (!category) continue;
+
+      let spoiledUnits = 0;
+      let stolenUnits = 0;
+      for (let unit = 0; unit < quantity; unit++) {
+        const roll = this.random.next();
+        if (roll < category.storage.spoilage) {
+          spoiledUnits++;
+        } else if (roll < category.storage.spoilage + category.storage.theft) {
+          stolenUnits++;
+        }
+      }
+
+      if (spoiledUnits > 0) spoiled.push({ item: goodId, quantity: spoiledUnits });
+      if (stolenUnits > 0) stolen.push({ item: goodId, quantity: stolenUnits });
+      this.setStored(goodId, quantity - spoiledUnits - stolenUnits);
+    }
+
+    if (spoiled.length > 0 || stolen.length > 0) {
+      const event: WarehouseLossEvent = { spoiled, stolen };
+      this.events.emit('warehouseLoss', event);
+
+      const describe = (goods: StoredGood[]) => goods.map(g => `${g.quantity} ${this.getName(g.item)}`).join(', ');
+      const parts: string[] = [];
+      if (spoiled.length > 0) parts.push(`Spoiled: ${describe(spoiled)}.`);
+      if (stolen.length > 0) parts.push(`Stolen: ${describe(stolen)}.`);
+      this.events.emit('notification', {
+        title: 'Warehouse Losses',
+        message: parts.join(' '),
+        type: 'warning',
+      });
+    }
+  }
+
+  private setStored(goodId: string, quantity: number): void {
+    if (quantity > 0) {
+      this.contents.set(goodId, quantity);
+    } else {
+      this.contents.delete(goodId);
+    }
+  }
+
+  private emitChange(): void {
+    this.events.emit('warehouseChange', this.getState());
+  }
+
+  private getName(goodId: string): string {
+    return loadGoodsCatalog().getName(goodId);
+  }
+
+  private getPlayer(): {
+    removeGold(amount: number): boolean;
+    addToInventory(item: string, quantity: number): boolean;
+    removeFromInventory(item: string, quantity: number): boolean;
+  } | null {
+    const marketScene = this.scene as any;
+    return marketScene.getPlayer?.() ?? null;
+  }
+
+  private getCurrentLocationId(): string | undefined {
+    return this.scene.registry.get('worldSystem')?.getCurrentLocation?.()?.id;
+  }
+
+  public getSaveData(): WarehouseSaveData {
+    return {
+      bays: this.bays,
+      contents: this.getContents(),
+      unpaidDays: this.unpaidDays,
+    };
+  }
+
+  public loadSaveData(data: WarehouseSaveData): void {
+    this.bays = Math.max(0, Math.min(this.maxBays, Math.floor(data.bays ?? 0)));
+    this.unpaidDays = Math.max(0, Math.floor(data.unpaidDays ?? 0));
+    this.contents.clear();
+    for (const stored of data.contents ?? []) {
+      if (typeof stored?.item === 'string' && typeof stored.quantity === 'number' && stored.quantity > 0) {
+        this.contents.set(stored.item, (this.contents.get(stored.item) ?? 0) + Math.floor(stored.quantity));
+      }
+    }
+    this.emitChange();
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.events.off('newDay', this.onNewDay, this);
+    this.contents.clear();
+  }
+}
@@ -1,5 +1,9 @@
 import Phaser from 'phaser';
-import { WindSystem, Season as WindSeason } from './WindSystem';
+import { WindSystem } from './WindSystem';
+import { RandomStream, getRandomStream } from './RandomSystem';
+import { GameEventBus, getGameEvents } from './GameEvents';
+import { loadCalendar } from './Calendar';
+import { getGameSettings } from './GameSettings';
 
 /**
  * WeatherSystem - Manages weather conditions and seasonal effects in 16th century Goa
@@ -18,6 +22,16 @@ import { WindSystem, Season as WindSeason } from './WindSystem';
 export type WeatherState = 'clear' | 'overcast' | 'rain' | 'heavyRain' | 'heatHaze' | 'fog';
 export type Season = 'dry' | 'preMonsoon' | 'monsoon' | 'postMonsoon';
 
+// The weather a save restores; the spell's length and progress are absent from older saves
+export interface WeatherSaveData {
+  current: WeatherState;
+  season: Season;
+  intensity?: number;
+  duration?: number;
+  elapsed?: number;
+  groundWetness?: number;
+}
+
 interface WeatherConfig {
   state: WeatherState;
   intensity: number; // 0-1
@@ -46,6 +60,8 @@ interface SeasonConfig {
 
 export class WeatherSystem {
   private scene: Phaser.Scene;
+  private events: GameEventBus;
+  private random: RandomStream;
   private currentWeather: WeatherState = 'clear';
   private currentSeason: Season = 'dry';
   private weatherIntensity = 0;
@@ -130,6 +146,8 @@ export class WeatherSystem {
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.events = getGameEvents(scene);
+    this.random = getRandomStream(scene, 'weather');
     this.setupEventListeners();
     this.createWeatherAssets();
     this.initializeWeather();
@@ -147,20 +165,20 @@ export class WeatherSystem {
 
   private setupEventListeners(): void {
     // Listen for time changes to potentially change weather
-    this.scene.events.on('hourChange', () => {
+    this.events.on('hourChange', () => {
       this.checkWeatherChange();
     });
 
     // Listen for new day to update season
-    this.scene.events.on('newDay', (data: { dayCount: number }) => {
-      this.updateSeason(data.dayCount);
+    this.events.on('newDay', data => {
+      this.updateSeason(data.date.month);
     });
 
     // Listen for period changes to apply heat haze during afternoon
-    this.scene.events.on('periodChange', (data: { current: string }) => {
+    this.events.on('periodChange', (data: { current: string }) => {
       if (data.current === 'Afternoon' && this.currentWeather === 'clear') {
         // Chance of heat haze during hot afternoons in dry season
-        if (this.currentSeason === 'dry' && Math.random() < 0.3) {
+        if (this.currentSeason === 'dry' && this.random.next() < 0.3) {
           this.setWeather('heatHaze', 0.6, 3);
         }
       }
@@ -209,6 +227,10 @@ export class WeatherSystem {
   }
 
   private initializeWeather(): void {
+    // Begin in the season of the calendar's first day
+    const startMonth = loadCalendar().getDate(1).month;
+    this.currentSeason = this.seasons.find(season => season.months.includes(startMonth))?.name ?? 'dry';
+
     // Start with clear weather
     this.setWeather('clear', 0, 24);
   }
@@ -272,6 +294,10 @@ export class WeatherSystem {
     const width = this.scene.cameras.main.width;
     const height = this.scene.cameras.main.height;
 
+    // Reduced flashing swaps the sharp white flash for a faint, slow glow
+    const reduced = getGameSettings().get().reducedFlashing;
+    const flashAlpha = reduced ? 0.2 : 0.8;
+
     // Draw full-screen flash
     this.lightningOverlay.clear();
     this.lightningOverlay.fillStyle(0xFFFFFF, 0.8);
@@ -280,9 +306,9 @@ export class WeatherSystem {
     // Fade out the flash
     this.scene.tweens.add({
       targets: this.lightningOverlay,
-      alpha: { from: 0.8, to: 0 },
-      duration: 150,
-      ease: 'Expo.easeOut',
+      alpha: { from: flashAlpha, to: 0 },
+      duration: reduced ? 600 : 150,
+      ease: reduced ? 'Sine.easeOut' : 'Expo.easeOut',
       onComplete: () => {
         this.lightningActive = false;
       }
@@ -292,14 +318,14 @@ export class WeatherSystem {
     this.thunderDelay = 500 + Math.random() * 2500;
 
     // Emit lightning event for sound system
-    this.scene.events.emit('lightning', {
+    this.events.emit('lightning', {
       intensity: 0.8 + Math.random() * 0.2,
       thunderDelay: this.thunderDelay
     });
 
     // Schedule thunder sound event
     this.scene.time.delayedCall(this.thunderDelay, () => {
-      this.scene.events.emit('thunder', {
+      this.events.emit('thunder', {
         volume: 0.5 + Math.random() * 0.5,
         distance: this.thunderDelay / 1000 // Rough distance in km
       });
@@ -328,7 +354,7 @@ export class WeatherSystem {
 
     // Emit wetness change for tile rendering
     if (this.groundWetness > 0.01) {
-      this.scene.events.emit('groundWetnessChange', {
+      this.events.emit('groundWetnessChange', {
         wetness: this.groundWetness,
         darkening: this.groundWetness * 0.2 // 20% max darkening
       });
@@ -596,7 +622,7 @@ export class WeatherSystem {
    * Emit weather change event
    */
   private emitWeatherChange(previous: WeatherState, current: WeatherState, intensity: number): void {
-    this.scene.events.emit('weatherChange', {
+    this.events.emit('weatherChange', {
       previous,
       current,
       intensity,
@@ -668,7 +694,7 @@ export class WeatherSystem {
 
   private checkWeatherChange(): void {
     // Random chance to change weather each hour
-    if (Math.random() < 0.1) {
+    if (this.random.next() < 0.1) {
       this.transitionToRandomWeather();
     }
   }
@@ -678,14 +704,14 @@ export class WeatherSystem {
     if (!seasonConfig) return;
 
     // Pick weather based on season probabilities
-    const roll = Math.random();
+    const roll = this.random.next();
     let cumulative = 0;
     
     for (const [weather, probability] of Object.entries(seasonConfig.weatherProbabilities)) {
       cumulative += probability;
       if (roll <= cumulative) {
-        const duration = 2 + Math.random() * 6; // 2-8 hours
-        const intensity = 0.3 + Math.random() * 0.7;
+        const duration = 2 + this.random.next() * 6; // 2-8 hours
+        const intensity = 0.3 + this.random.next() * 0.7;
         this.setWeather(weather as WeatherState, intensity, duration);
         return;
       }
@@ -695,17 +721,14 @@ export class WeatherSystem {
     this.setWeather('clear', 0, 4);
   }
 
-  private updateSeason(dayCount: number): void {
-    // Simple month calculation (30 days per month for simplicity)
-    const month = ((Math.floor(dayCount / 30) % 12) + 1);
-    
+  private updateSeason(month: number): void {
     for (const season of this.seasons) {
       if (season.months.includes(month)) {
         if (this.currentSeason !== season.name) {
           const previousSeason = this.currentSeason;
           this.currentSeason = season.name;
           
-          this.scene.events.emit('seasonChange', {
+          this.events.emit('seasonChange', {
             previous: previousSeason,
             current: season.name,
             description: season.description,
@@ -785,52 +808,38 @@ export class WeatherSystem {
   }
 
   /**
-   * Get save data
+   * Get save data. Wind is saved on its own, from getWindSystem().
    */
-  public getSaveData(): object {
+  public getSaveData(): WeatherSaveData {
     return {
-      currentWeather: this.currentWeather,
-      currentSeason: this.currentSeason,
-      weatherIntensity: this.weatherIntensity,
-      weatherDuration: this.weatherDuration,
-      elapsedWeatherTime: this.elapsedWeatherTime,
+      current: this.currentWeather,
+      season: this.currentSeason,
+      intensity: this.weatherIntensity,
+      duration: this.weatherDuration,
+      elapsed: this.elapsedWeatherTime,
       groundWetness: this.groundWetness,
-      windData: this.windSystem?.getSaveData()
     };
   }
 
   /**
    * Load save data
    */
-  public loadSaveData(data: {
-    currentWeather: WeatherState;
-    currentSeason: Season;
-    weatherIntensity: number;
-    weatherDuration: number;
-    elapsedWeatherTime: number;
-    groundWetness: number;
-    windData?: object;
-  }): void {
-    this.currentSeason = data.currentSeason;
-    this.weatherDuration = data.weatherDuration;
-    this.elapsedWeatherTime = data.elapsedWeatherTime;
-    this.groundWetness = data.groundWetness;
+  public loadSaveData(data: WeatherSaveData): void {
+    this.currentSeason = data.season;
+    this.weatherDuration = data.duration ?? this.weatherDuration;
+    this.elapsedWeatherTime = data.elapsed ?? 0;
+    this.groundWetness = data.groundWetness ?? this.groundWetness;
 
     // Set weather instantly (no transition when loading)
-    this.setWeatherInstant(data.currentWeather, data.weatherIntensity);
-
-    // Load wind data if present
-    if (data.windData && this.windSystem) {
-      this.windSystem.loadSaveData(data.windData as { currentSeason: WindSeason; currentWind: { direction: number; speed: number; gustiness: number }; noiseTime: number });
-    }
+    this.setWeatherInstant(data.current, data.intensity ?? 0.5);
   }
 
   // Cleanup
   public destroy(): void {
     // Remove event listeners
-    this.scene.events.off('hourChange');
-    this.scene.events.off('newDay');
-    this.scene.events.off('periodChange');
+    this.events.off('hourChange');
+    this.events.off('newDay');
+    this.events.off('periodChange');
 
     if (this.transitionTween) {
       this.transitionTween.stop();
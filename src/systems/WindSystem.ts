@@ -11,6 +11,7 @@
  */
 
 import Phaser from 'phaser';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 export interface WindState {
     direction: number;    // Degrees: 0 = East, 90 = South, 180 = West, 270 = North
@@ -20,7 +21,13 @@ export interface WindState {
 
 export type Season = 'dry' | 'preMonsoon' | 'monsoon' | 'postMonsoon';
 
-interface SeasonalWindPattern {
+export interface WindSaveData {
+    currentSeason: Season;
+    currentWind: WindState;
+    noiseTime: number;
+}
+
+export interface SeasonalWindPattern {
     baseDirection: number;
     directionVariance: number;
     baseSpeed: number;
@@ -29,7 +36,7 @@ interface SeasonalWindPattern {
 }
 
 export class WindSystem {
-    private scene: Phaser.Scene;
+    private events: GameEventBus;
     private currentWind: WindState;
     private currentSeason: Season = 'dry';
 
@@ -86,7 +93,7 @@ export class WindSystem {
     private currentWeather: string = 'clear';
 
     constructor(scene: Phaser.Scene) {
-        this.scene = scene;
+        this.events = getGameEvents(scene);
 
         // Initialize with default wind
         this.currentWind = { direction: 45, speed: 0.3, gustiness: 0.2 };
@@ -116,12 +123,12 @@ export class WindSystem {
 
     private setupEventListeners(): void {
         // Listen for season changes
-        this.scene.events.on('seasonChange', (data: { season: Season }) => {
-            this.setSeason(data.season);
+        this.events.on('seasonChange', data => {
+            this.setSeason(data.current);
         });
 
         // Listen for weather changes
-        this.scene.events.on('weatherChange', (data: { current: string }) => {
+        this.events.on('weatherChange', (data: { current: string }) => {
             this.setWeather(data.current);
         });
     }
@@ -141,7 +148,7 @@ export class WindSystem {
         };
 
         // Emit event for other systems
-        this.scene.events.emit('windSeasonChange', { season, pattern });
+        this.events.emit('windSeasonChange', { season, pattern });
     }
 
     /**
@@ -177,7 +184,7 @@ export class WindSystem {
         this.currentWind.gustiness = Phaser.Math.Linear(this.currentWind.gustiness, pattern.gustiness * weatherMod.gustMult, lerpFactor);
 
         // Emit wind update event for other systems
-        this.scene.events.emit('windUpdate', this.getWindState());
+        this.events.emit('windUpdate', this.getWindState());
     }
 
     /**
@@ -319,14 +326,14 @@ export class WindSystem {
      * Cleanup
      */
     public destroy(): void {
-        this.scene.events.off('seasonChange');
-        this.scene.events.off('weatherChange');
+        this.events.off('seasonChange');
+        this.events.off('weatherChange');
     }
 
     /**
      * Get save data
      */
-    public getSaveData(): object {
+    public getSaveData(): WindSaveData {
         return {
             currentSeason: this.currentSeason,
             currentWind: this.currentWind,
@@ -337,7 +344,7 @@ export class WindSystem {
     /**
      * Load save data
      */
-    public loadSaveData(data: { currentSeason: Season; currentWind: WindState; noiseTime: number }): void {
+    public loadSaveData(data: WindSaveData): void {
         this.currentSeason = data.currentSeason;
         this.currentWind = data.currentWind;
         this.noiseTime = data.noiseTime;
@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { GameEventBus, getGameEvents } from './GameEvents';
 
 /**
  * WorldSystem - Manages game locations and transitions in 16th century Goa
@@ -49,6 +50,8 @@ export interface LocationConnection {
   targetSpawnPoint?: { x: number; y: number };
   /** Display name for this exit (e.g., "To the Docks") */
   displayName?: string;
+  /** Game minutes the walk takes when travelling by the map (default DEFAULT_TRAVEL_MINUTES) */
+  travelMinutes?: number;
 }
 
 /**
@@ -104,7 +107,11 @@ export interface RequirementCheckResult {
  * handles transitions, and enforces access requirements.
  */
 export class WorldSystem {
+  /** Game minutes for a walk whose connection does not say how long it takes */
+  public static readonly DEFAULT_TRAVEL_MINUTES = 30;
+
   private scene: Phaser.Scene;
+  private events: GameEventBus;
   private locations: Map<string, Location> = new Map();
   private currentLocation: Location | null = null;
   private transitionInProgress = false;
@@ -120,6 +127,7 @@ export class WorldSystem {
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.events = getGameEvents(scene);
     this.initializeLocations();
   }
 
@@ -140,18 +148,21 @@ export class WorldSystem {
           targetLocationId: 'alfandega',
           transitionZone: { x: 0, y: 10, width: 2, height: 4 },
           displayName: 'To Customs House',
+          travelMinutes: 15,
           targetSpawnPoint: { x: 28, y: 15 },
         },
         {
           targetLocationId: 'se_cathedral',
           transitionZone: { x: 28, y: 5, width: 2, height: 3 },
           displayName: 'To Sé Cathedral',
+          travelMinutes: 20,
           targetSpawnPoint: { x: 2, y: 10 },
         },
         {
           targetLocationId: 'tavern',
           transitionZone: { x: 20, y: 28, width: 3, height: 2 },
           displayName: 'To the Tavern',
+          travelMinutes: 10,
           targetSpawnPoint: { x: 5, y: 2 },
           requirements: {
             time: { startHour: 17, endHour: 24 }, // Evening only
@@ -161,6 +172,7 @@ export class WorldSystem {
           targetLocationId: 'docks',
           transitionZone: { x: 5, y: 0, width: 5, height: 2 },
           displayName: 'To the Docks',
+          travelMinutes: 15,
           targetSpawnPoint: { x: 15, y: 28 },
         },
       ],
@@ -179,12 +191,14 @@ export class WorldSystem {
           targetLocationId: 'ribeira_grande',
           transitionZone: { x: 28, y: 10, width: 2, height: 4 },
           displayName: 'To Market',
+          travelMinutes: 15,
           targetSpawnPoint: { x: 2, y: 12 },
         },
         {
           targetLocationId: 'warehouse_district',
           transitionZone: { x: 0, y: 15, width: 2, height: 3 },
           displayName: 'To Warehouses',
+          travelMinutes: 20,
           targetSpawnPoint: { x: 28, y: 10 },
           requirements: {
             reputation: { faction: 'portuguese', minLevel: 10 },
@@ -197,7 +211,7 @@ export class WorldSystem {
     this.addLocation({
       id: 'se_cathedral',
       name: 'Sé Cathedral',
-      mapFile: 'data/maps/se-cathedral.json',
+      mapFile: 'data/locations/se-cathedral.json',
       description: 'The grand Sé Cathedral, seat of the Archbishop and symbol of Portuguese religious authority.',
       factionTerritory: 'portuguese',
       defaultSpawnPoint: { x: 15, y: 20 },
@@ -206,12 +220,14 @@ export class WorldSystem {
           targetLocationId: 'ribeira_grande',
           transitionZone: { x: 0, y: 8, width: 2, height: 4 },
           displayName: 'To Market',
+          travelMinutes: 20,
           targetSpawnPoint: { x: 26, y: 6 },
         },
         {
           targetLocationId: 'old_quarter',
           transitionZone: { x: 28, y: 10, width: 2, height: 3 },
           displayName: 'To Old Quarter',
+          travelMinutes: 25,
           targetSpawnPoint: { x: 2, y: 15 },
         },
       ],
@@ -221,7 +237,7 @@ export class WorldSystem {
     this.addLocation({
       id: 'tavern',
       name: 'The Sailor\'s Rest Tavern',
-      mapFile: 'data/maps/tavern.json',
+      mapFile: 'data/locations/tavern.json',
       description: 'A dimly lit tavern where sailors, merchants, and rogues share tales and trade secrets.',
       defaultSpawnPoint: { x: 5, y: 5 },
       ambientSound: 'tavern_ambience',
@@ -230,12 +246,14 @@ export class WorldSystem {
           targetLocationId: 'ribeira_grande',
           transitionZone: { x: 4, y: 0, width: 3, height: 2 },
           displayName: 'Exit to Market',
+          travelMinutes: 10,
           targetSpawnPoint: { x: 21, y: 26 },
         },
         {
           targetLocationId: 'docks',
           transitionZone: { x: 0, y: 5, width: 2, height: 2 },
           displayName: 'Back Alley to Docks',
+          travelMinutes: 10,
           targetSpawnPoint: { x: 25, y: 20 },
         },
       ],
@@ -245,7 +263,7 @@ export class WorldSystem {
     this.addLocation({
       id: 'old_quarter',
       name: 'Old Quarter',
-      mapFile: 'data/maps/old-quarter.json',
+      mapFile: 'data/locations/old-quarter.json',
       description: 'The ancient Hindu quarter, where traditional ways persist despite Portuguese rule.',
       factionTerritory: 'hindu',
       defaultSpawnPoint: { x: 15, y: 15 },
@@ -254,12 +272,14 @@ export class WorldSystem {
           targetLocationId: 'se_cathedral',
           transitionZone: { x: 0, y: 13, width: 2, height: 4 },
           displayName: 'To Cathedral',
+          travelMinutes: 25,
           targetSpawnPoint: { x: 26, y: 11 },
         },
         {
           targetLocationId: 'warehouse_district',
           transitionZone: { x: 28, y: 15, width: 2, height: 3 },
           displayName: 'To Warehouses',
+          travelMinutes: 30,
           targetSpawnPoint: { x: 2, y: 15 },
         },
       ],
@@ -269,7 +289,7 @@ export class WorldSystem {
     this.addLocation({
       id: 'warehouse_district',
       name: 'Warehouse District',
-      mapFile: 'data/maps/warehouse-district.json',
+      mapFile: 'data/locations/warehouse-district.json',
       description: 'Massive warehouses storing goods from across the Portuguese trading empire.',
       defaultSpawnPoint: { x: 15, y: 15 },
       connections: [
@@ -277,18 +297,21 @@ export class WorldSystem {
           targetLocationId: 'alfandega',
           transitionZone: { x: 28, y: 8, width: 2, height: 4 },
           displayName: 'To Customs House',
+          travelMinutes: 20,
           targetSpawnPoint: { x: 2, y: 16 },
         },
         {
           targetLocationId: 'old_quarter',
           transitionZone: { x: 0, y: 13, width: 2, height: 4 },
           displayName: 'To Old Quarter',
+          travelMinutes: 30,
           targetSpawnPoint: { x: 26, y: 16 },
         },
         {
           targetLocationId: 'docks',
           transitionZone: { x: 15, y: 0, width: 4, height: 2 },
           displayName: 'To Docks',
+          travelMinutes: 15,
           targetSpawnPoint: { x: 15, y: 26 },
         },
       ],
@@ -298,7 +321,7 @@ export class WorldSystem {
     this.addLocation({
       id: 'docks',
       name: 'The Docks',
-      mapFile: 'data/maps/docks.json',
+      mapFile: 'data/locations/docks.json',
       description: 'The busy waterfront where carracks and dhows unload exotic goods from distant lands.',
       defaultSpawnPoint: { x: 15, y: 15 },
       ambientSound: 'harbor_ambience',
@@ -307,18 +330,21 @@ export class WorldSystem {
           targetLocationId: 'ribeira_grande',
           transitionZone: { x: 13, y: 28, width: 5, height: 2 },
           displayName: 'To Market',
+          travelMinutes: 15,
           targetSpawnPoint: { x: 7, y: 2 },
         },
         {
           targetLocationId: 'warehouse_district',
           transitionZone: { x: 13, y: 0, width: 4, height: 2 },
           displayName: 'To Warehouses',
+          travelMinutes: 15,
           targetSpawnPoint: { x: 16, y: 2 },
         },
         {
           targetLocationId: 'tavern',
           transitionZone: { x: 25, y: 18, width: 2, height: 3 },
           displayName: 'To Tavern',
+          travelMinutes: 10,
           targetSpawnPoint: { x: 2, y: 6 },
         },
       ],
@@ -383,7 +409,7 @@ export class WorldSystem {
       spawnPoint,
     };
 
-    this.scene.events.emit('locationChange', event);
+    this.events.emit('locationChange', event);
     return true;
   }
 
@@ -519,7 +545,7 @@ export class WorldSystem {
     const requirementCheck = this.checkRequirements(connection.requirements);
     if (!requirementCheck.allowed) {
       // Emit blocked transition event
-      this.scene.events.emit('transitionBlocked', {
+      this.events.emit('transitionBlocked', {
         connection,
         reason: requirementCheck.reason,
       });
@@ -551,7 +577,7 @@ export class WorldSystem {
       spawnPoint,
     };
 
-    this.scene.events.emit('locationChange', event);
+    this.events.emit('locationChange', event);
 
     // Reset transition lock after a brief delay (allows for transition animations)
     this.scene.time.delayedCall(500, () => {
@@ -587,6 +613,26 @@ export class WorldSystem {
       .filter((c) => includeBlocked || c.accessible);
   }
 
+  /**
+   * Find the connection leading from the current location to another
+   * @param targetLocationId The neighbouring location
+   * @returns The connection, or undefined if the two are not adjacent
+   */
+  public getConnectionTo(targetLocationId: string): LocationConnection | undefined {
+    return this.currentLocation?.connections.find(
+      (connection) => connection.targetLocationId === targetLocationId
+    );
+  }
+
+  /**
+   * Get how many game minutes it takes to walk a connection
+   * @param connection The connection to travel
+   * @returns The travel time in game minutes
+   */
+  public getTravelMinutes(connection: LocationConnection): number {
+    return connection.travelMinutes ?? WorldSystem.DEFAULT_TRAVEL_MINUTES;
+  }
+
   /**
    * Get the faction that controls the current location
    * @returns The faction ID or undefined if neutral territory
@@ -625,7 +671,7 @@ export class WorldSystem {
     const connection = this.checkTransitionZone(playerTileX, playerTileY);
     if (connection) {
       // Emit event that player entered a transition zone
-      this.scene.events.emit('transitionZoneEntered', {
+      this.events.emit('transitionZoneEntered', {
         connection,
         displayName: connection.displayName || `To ${this.locations.get(connection.targetLocationId)?.name || 'Unknown'}`,
       });
@@ -0,0 +1,58 @@
+import Phaser from 'phaser';
+import { HeadlessScene } from '../src/simulation/HeadlessScene';
+import { RandomSystem } from '../src/systems/RandomSystem';
+import { GameEventName, GameEvents } from '../src/systems/GameEvents';
+
+/**
+ * Shared fixtures for the system tests
+ */
+
+/**
+ * A Phaser-free scene with a seeded RandomSystem, so systems that draw
+ * random numbers behave the same on every run
+ */
+export function createScene(seed = 1590): { headless: HeadlessScene; scene: Phaser.Scene } {
+  const headless = new HeadlessScene();
+  headless.registry.set(RandomSystem.REGISTRY_KEY, new RandomSystem(seed));
+  return { headless, scene: headless.asScene() };
+}
+
+/**
+ * Records every payload a scene emits for an event
+ */
+export function recordEvents<K extends GameEventName>(headless: HeadlessScene, event: K): GameEvents[K][] {
+  const received: GameEvents[K][] = [];
+  headless.events.on(event, (data: GameEvents[K]) => received.push(data));
+  return received;
+}
+
+/**
+ * In-memory stand-in for window.localStorage
+ */
+export class MemoryStorage implements Storage {
+  private items: Map<string, string> = new Map();
+
+  public get length(): number {
+    return this.items.size;
+  }
+
+  public clear(): void {
+    this.items.clear();
+  }
+
+  public getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  public key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  public setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+}
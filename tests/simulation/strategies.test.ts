@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationRunner } from '../../src/simulation/SimulationRunner';
+import { createStrategy } from '../../src/simulation/strategies';
+
+describe('trader strategy', () => {
+  it('does not trade itself broke over a short run', () => {
+    const result = new SimulationRunner({ days: 10, seed: 1, strategy: createStrategy('trader') }).run();
+
+    expect(result.daily.every(day => day.gold >= 40)).toBe(true);
+    expect(result.finalNetWorth).toBeGreaterThan(result.daily[0].netWorth);
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Calendar, loadCalendar } from '../../src/systems/Calendar';
+import { TimeSystem } from '../../src/systems/TimeSystem';
+import { createScene } from '../helpers';
+
+// Day numbers in the shipped calendar, which starts on Monday 1 January 1590
+const SUNDAY = 7;
+const RAMADAN = 185; // Wednesday 4 July 1590
+const CHRISTMAS = 359; // Tuesday 25 December 1590
+
+function createTimeSystem(dayCount: number, hour: number) {
+  const time = new TimeSystem(createScene().scene);
+  time.loadSaveData({ hour, minute: 0, dayCount });
+  return time;
+}
+
+// The smallest calendar that passes validation, plus one feast
+function calendarWith(feast: Record<string, unknown>) {
+  return new Calendar({
+    startDate: '1590-01-01',
+    faiths: { catholic: ['npc_portuguese'] },
+    feasts: [{ id: 'test_feast', name: 'Test Feast', faith: 'catholic', description: 'A test.', ...feast }],
+  });
+}
+
+describe('Calendar', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('loads the shipped calendar without errors', () => {
+    expect(loadCalendar().getErrors()).toEqual([]);
+  });
+
+  it('dates each day from the start date with real month lengths', () => {
+    const calendar = loadCalendar();
+    expect(calendar.formatDate(calendar.getDate(1))).toBe('Monday 1 January 1590');
+    expect(calendar.formatDate(calendar.getDate(32))).toBe('Thursday 1 February 1590');
+    expect(calendar.formatDate(calendar.getDate(60))).toBe('Thursday 1 March 1590');
+    expect(calendar.formatDate(calendar.getDate(366))).toBe('Tuesday 1 January 1591');
+  });
+
+  it('names the feasts kept on a day, dated feasts before Sundays', () => {
+    const calendar = loadCalendar();
+    expect(calendar.getFeasts(CHRISTMAS).map(feast => feast.id)).toEqual(['christmas']);
+    expect(calendar.getFeasts(329).map(feast => feast.id)).toEqual(['st_catherine', 'sunday']);
+    expect(calendar.getFeasts(RAMADAN + 29).map(feast => feast.id)).toEqual(['ramadan']);
+    expect(calendar.getFeasts(RAMADAN + 30).map(feast => feast.id)).toEqual(['eid_al_fitr']);
+  });
+
+  it('sends only the faithful to a feast day gathering', () => {
+    const calendar = loadCalendar();
+    expect(calendar.getGathering(CHRISTMAS, 1, 'npc_portuguese')?.location).toBe('se_cathedral');
+    expect(calendar.getGathering(CHRISTMAS, 9, 'npc_portuguese')).toBeNull();
+    expect(calendar.getGathering(CHRISTMAS, 1, 'npc_hindu')).toBeNull();
+    expect(calendar.getGathering(RAMADAN, 13, 'npc_arab')).toEqual(
+      { location: null, startHour: 12, endHour: 17, activity: 'resting' }
+    );
+  });
+
+  it('adds up the demand of every feast kept on a day', () => {
+    expect(Object.fromEntries(loadCalendar().getDemand(CHRISTMAS))).toEqual({
+      good_cinnamon: 2, good_nutmeg: 2, good_cloves: 2, good_silk: 3,
+    });
+    expect(loadCalendar().getDemand(2).size).toBe(0);
+  });
+
+  it('opens the market only in hours every feast of the day allows', () => {
+    const calendar = calendarWith({ weekday: 0, marketHours: [{ start: 7, end: 12 }, { start: 17, end: 22 }] });
+    expect(calendar.getMarketHours(1)).toBeNull();
+    expect(calendar.getMarketHours(SUNDAY)).toEqual([{ start: 7, end: 12 }, { start: 17, end: 22 }]);
+  });
+
+  it('keeps a feast with a date running into the new year', () => {
+    const calendar = calendarWith({ date: '12-31', days: 2 });
+    expect(calendar.getFeasts(365)).toHaveLength(1);
+    expect(calendar.getFeasts(366)).toHaveLength(1);
+    expect(calendar.getFeasts(367)).toHaveLength(0);
+  });
+
+  it('lists the moving feasts for every year up to the last one', () => {
+    const calendar = loadCalendar();
+    expect(calendar.getLastListedYear()).toBe(1609);
+    const lastDay = (Date.UTC(1610, 0, 1) - Date.UTC(1590, 0, 1)) / (24 * 60 * 60 * 1000); // 31 December 1609
+    const easterDays = Array.from({ length: lastDay }, (_, index) => index + 1)
+      .filter(day => calendar.getFeasts(day).some(feast => feast.id === 'easter'));
+    expect(easterDays.map(day => calendar.getDate(day).year)).toEqual(Array.from({ length: 20 }, (_, index) => 1590 + index));
+    expect(easterDays.every(day => calendar.getDate(day).weekday === 0)).toBe(true);
+  });
+
+  it('reports once when the game runs past the last year listed', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const calendar = calendarWith({ dates: ['1590-04-22', '1591-04-14'] });
+
+    calendar.getFeasts(366);
+    expect(error).not.toHaveBeenCalled();
+
+    calendar.getFeasts(731); // 1 January 1592
+    calendar.getFeasts(732);
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error.mock.calls[0][0]).toContain('only up to 1591; Test Feast will not be kept in 1592');
+  });
+
+  it('reports feasts it cannot schedule', () => {
+    expect(calendarWith({ date: '02-30' }).getErrors()).toEqual(['calendar.json: test_feast: "date" must be written MM-DD']);
+    expect(calendarWith({ weekday: 0, date: '12-25' }).getErrors()).toEqual([
+      'calendar.json: test_feast: needs exactly one of "weekday", "date" or "dates"',
+    ]);
+    expect(calendarWith({ weekday: 0, faith: 'jain', gathering: { location: 'docks', startHour: 9, endHour: 8, activity: 'praying' } })
+      .getErrors()).toHaveLength(2);
+  });
+});
+
+describe('TimeSystem market hours', () => {
+  it('keeps the market shut on Sundays', () => {
+    expect(createTimeSystem(SUNDAY - 1, 8).isMarketOpen()).toBe(true);
+    expect(createTimeSystem(SUNDAY, 8).isMarketOpen()).toBe(false);
+    expect(createTimeSystem(SUNDAY, 8).getMarketActivity()).toBe(0.1);
+  });
+
+  it('opens late into the evening during Ramadan', () => {
+    expect(createTimeSystem(RAMADAN - 1, 21).isMarketOpen()).toBe(false);
+    expect(createTimeSystem(RAMADAN, 21).isMarketOpen()).toBe(true);
+  });
+
+  it('reports the date with the time', () => {
+    const time = createTimeSystem(CHRISTMAS, 10);
+    expect(time.getFormattedDate()).toBe('Tuesday 25 December 1590');
+    expect(time.getTimeData().date.feasts.map(feast => feast.name)).toEqual(['Christmas']);
+    expect(time.isMarketOpen()).toBe(false);
+  });
+});
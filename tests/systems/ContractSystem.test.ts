@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { ContractSystem } from '../../src/systems/ContractSystem';
+import { createScene, recordEvents } from '../helpers';
+
+// Contracts read the clock from MarketScene's TimeSystem
+function createContractSystem() {
+  const { headless, scene } = createScene();
+  const clock = { hour: 8, dayCount: 1 };
+  headless.addScene('MarketScene', {
+    getTimeSystem: () => ({ getTimeData: () => ({ ...clock }) }),
+  });
+  const contracts = new ContractSystem(scene);
+
+  // Move the clock on, announcing the hour as TimeSystem does
+  const setTime = (hour: number, dayCount: number) => {
+    clock.hour = hour;
+    clock.dayCount = dayCount;
+    headless.events.emit('hourChange', { hour, dayCount });
+  };
+
+  return { headless, contracts, setTime };
+}
+
+describe('ContractSystem', () => {
+  it('offers contracts as soon as it starts', () => {
+    const { contracts } = createContractSystem();
+    expect(contracts.getAvailableContracts().length).toBeGreaterThan(0);
+  });
+
+  it('gives each offered contract its own id', () => {
+    const { contracts, setTime } = createContractSystem();
+    const ids = new Set(contracts.getAvailableContracts().map(contract => contract.id));
+    setTime(17, 1);
+    for (const contract of contracts.getAvailableContracts()) {
+      expect(ids.has(contract.id)).toBe(false);
+    }
+  });
+
+  it('counts the deadline in game hours from acceptance', () => {
+    const { contracts, setTime } = createContractSystem();
+    const offer = contracts.getAvailableContracts()[0];
+
+    expect(contracts.acceptContract(offer.id)).toBe(true);
+    expect(contracts.getContractTimeRemaining(offer.id)).toBe(offer.deadline);
+
+    setTime(9, 1);
+    expect(contracts.getContractTimeRemaining(offer.id)).toBe(offer.deadline - 1);
+  });
+
+  it('fails a contract when its deadline passes, with its penalties', () => {
+    const { headless, contracts, setTime } = createContractSystem();
+    const failed = recordEvents(headless, 'contractFailed');
+    const goldChanges = recordEvents(headless, 'goldDelta');
+    const reputationChanges = recordEvents(headless, 'reputationDelta');
+    const offer = contracts.getAvailableContracts()[0];
+    contracts.acceptContract(offer.id);
+
+    // One hour short of the deadline the contract still stands
+    const expiresAt = 8 + 24 + offer.deadline;
+    setTime((expiresAt - 1) % 24, Math.floor((expiresAt - 1) / 24));
+    expect(failed).toHaveLength(0);
+
+    setTime(expiresAt % 24, Math.floor(expiresAt / 24));
+    expect(failed.map(contract => contract.id)).toEqual([offer.id]);
+    expect(contracts.getActiveContracts()).toHaveLength(0);
+    expect(contracts.getStats().failed).toBe(1);
+    expect(goldChanges).toEqual(offer.penalty > 0 ? [-offer.penalty] : []);
+    expect(reputationChanges).toEqual(
+      offer.reputationPenalty !== 0 ? [{ target: offer.faction, value: offer.reputationPenalty }] : []
+    );
+  });
+
+  it('completes a contract delivered in time and pays the reward', () => {
+    const { headless, contracts, setTime } = createContractSystem();
+    const goldChanges = recordEvents(headless, 'goldDelta');
+    const offer = contracts.getAvailableContracts()[0];
+    contracts.acceptContract(offer.id);
+
+    headless.events.emit('playerSell', { good: offer.goods, price: 10, quantity: offer.quantity - 1 });
+    expect(contracts.getContractProgress(offer.id)?.delivered).toBe(offer.quantity - 1);
+
+    headless.events.emit('playerSell', { good: offer.goods, price: 10, quantity: 1 });
+    expect(contracts.getStats().completed).toBe(1);
+    expect(goldChanges).toEqual([offer.reward]);
+
+    // A completed contract cannot fail afterwards
+    setTime(23, 30);
+    expect(contracts.getStats().failed).toBe(0);
+  });
+
+  it('limits the player to three active contracts', () => {
+    const { headless, contracts, setTime } = createContractSystem();
+
+    // Five offers at the next refresh, without the rank that allows five at once
+    headless.registry.set('progressionSystem', { hasUnlock: (unlock: string) => unlock === 'exclusive_contracts' });
+    setTime(17, 1);
+    const offers = contracts.getAvailableContracts();
+    expect(offers.length).toBeGreaterThan(3);
+
+    const accepted = offers.filter(offer => contracts.acceptContract(offer.id));
+    expect(accepted).toHaveLength(3);
+    expect(contracts.getActiveContracts()).toHaveLength(3);
+  });
+});
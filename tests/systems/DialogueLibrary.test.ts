@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DialogueLibrary,
+  evaluateCondition,
+  loadDialogueLibrary,
+  type DialogueCondition,
+  type DialogueEffect,
+  type DialogueState,
+} from '../../src/systems/DialogueLibrary';
+import pepperContract from '../../src/data/quests/the-pepper-contract.json';
+import breakingMonopoly from '../../src/data/quests/breaking-the-monopoly.json';
+import forgottenPassage from '../../src/data/quests/the-forgotten-passage.json';
+
+// A two-node tree that passes validation, for breaking one piece at a time
+function tree(overrides: Record<string, unknown> = {}, response: Record<string, unknown> = {}) {
+  return {
+    id: 'test_tree',
+    npcTypes: ['npc_test'],
+    startNode: 'start',
+    nodes: [
+      { id: 'start', speaker: 'Tester', text: 'Hello.', responses: [{ text: 'Goodbye.', nextNode: 'end', ...response }] },
+      { id: 'end', speaker: 'Tester', text: 'Farewell.' },
+    ],
+    ...overrides,
+  };
+}
+
+// Every quest, stage and choice a condition or effect names, as "quest", "quest/stage" or "quest#choice"
+function questReferences(condition: DialogueCondition | undefined, effects: DialogueEffect[] = []): string[] {
+  const references: string[] = [];
+  const visit = (c: DialogueCondition): void => {
+    if (c.type === 'quest') references.push(c.quest + (c.stage ? `/${c.stage}` : '') + (c.choice ? `#${c.choice}` : ''));
+    if (c.type === 'all' || c.type === 'any') c.conditions.forEach(visit);
+    if (c.type === 'not') visit(c.condition);
+  };
+  if (condition) visit(condition);
+  for (const effect of effects) {
+    if (effect.type === 'startQuest') references.push(effect.target);
+    if (effect.type === 'advanceStage') references.push(effect.target + (effect.choice ? `#${effect.choice}` : ''));
+  }
+  return references;
+}
+
+function createState(overrides: Partial<DialogueState> = {}): DialogueState {
+  return {
+    getReputationLevel: () => 'neutral',
+    getAttitudeLevel: () => 'neutral',
+    getFlag: () => undefined,
+    getNPCFlag: () => undefined,
+    getHour: () => 12,
+    getPeriod: () => 'Morning',
+    getQuestStatus: () => 'notStarted',
+    getQuestStage: () => undefined,
+    getQuestChoices: () => [],
+    getItemCount: () => 0,
+    getNPCId: () => 'npc_1',
+    ...overrides,
+  };
+}
+
+describe('DialogueLibrary', () => {
+  it('loads every shipped dialogue without errors', () => {
+    const library = loadDialogueLibrary();
+    expect(library.getErrors()).toEqual([]);
+    expect(library.getTreeForNPCType('npc_portuguese')?.id).toBe('portuguese_merchant');
+    expect(library.getTreeForNPCType('npc_captain')?.id).toBe('ship_captain');
+  });
+
+  it('names only quests, stages and choices that exist', () => {
+    const known = new Set<string>();
+    for (const quest of [pepperContract, breakingMonopoly, forgottenPassage]) {
+      known.add(quest.id);
+      for (const stage of quest.stages) {
+        known.add(`${quest.id}/${stage.id}`);
+        const choices: { id: string }[] = ('choices' in stage && stage.choices) || [];
+        for (const choice of choices) known.add(`${quest.id}#${choice.id}`);
+      }
+    }
+
+    const named = loadDialogueLibrary().getAll().flatMap(tree => [...tree.nodes.values()].flatMap(node => [
+      ...questReferences(undefined, node.effects),
+      ...(node.responses ?? []).flatMap(response => questReferences(response.condition, response.effects)),
+    ]));
+    expect(named.length).toBeGreaterThan(0);
+    expect(named.filter(reference => !known.has(reference))).toEqual([]);
+  });
+
+  it('accepts a well-formed tree', () => {
+    const library = new DialogueLibrary([tree()]);
+    expect(library.isValid()).toBe(true);
+    expect(library.getTree('test_tree')?.nodes.get('start')?.responses).toHaveLength(1);
+  });
+
+  it('rejects links to nodes that do not exist', () => {
+    const library = new DialogueLibrary([tree({}, { nextNode: 'nowhere' })]);
+    expect(library.getErrors()).toEqual(['test_tree: node "start" leads to missing node "nowhere"']);
+    expect(library.getTree('test_tree')).toBeUndefined();
+  });
+
+  it('rejects a missing start node and duplicate node ids', () => {
+    const library = new DialogueLibrary([
+      tree({
+        startNode: 'missing',
+        nodes: [
+          { id: 'start', speaker: 'Tester', text: 'Hello.' },
+          { id: 'start', speaker: 'Tester', text: 'Again.' },
+        ],
+      }),
+    ]);
+    expect(library.getErrors()).toEqual([
+      'test_tree: duplicate node "start"',
+      'test_tree: "startNode" must name one of its nodes',
+    ]);
+  });
+
+  it('lets only one tree speak for each NPC type', () => {
+    const library = new DialogueLibrary([tree(), tree({ id: 'other_tree' })]);
+    expect(library.getErrors()).toEqual(['other_tree: NPC type "npc_test" already speaks "test_tree"']);
+    expect(library.getTreeForNPCType('npc_test')?.id).toBe('test_tree');
+  });
+
+  it('rejects unknown conditions and levels', () => {
+    const library = new DialogueLibrary([
+      tree({}, {
+        condition: {
+          type: 'all',
+          conditions: [
+            { type: 'faction', faction: 'crown', atLeast: 'adored' },
+            { type: 'weather', is: 'rain' },
+            { type: 'time', startHour: 9 },
+          ],
+        },
+      }),
+    ]);
+    expect(library.getErrors()).toEqual([
+      'test_tree: node "start": responses[0]: condition.conditions[0]: levels must be one of: hostile, unfriendly, neutral, friendly, honored, champion',
+      'test_tree: node "start": responses[0]: condition.conditions[1]: unknown condition type "weather"',
+      'test_tree: node "start": responses[0]: condition.conditions[2]: "startHour" and "endHour" must both be hours from 0 to 23',
+    ]);
+  });
+
+  it('rejects effects of an unknown type or missing their target', () => {
+    const library = new DialogueLibrary([
+      tree({}, { effects: [{ type: 'teleport' }, { type: 'startQuest' }, { type: 'gold', value: '10' }] }),
+    ]);
+    expect(library.getErrors()).toHaveLength(3);
+    expect(library.getErrors()[1]).toBe('test_tree: node "start": responses[0]: effects[1]: startQuest needs a "target"');
+  });
+
+  describe('evaluateCondition', () => {
+    const check = (condition: DialogueCondition, state: Partial<DialogueState> = {}) =>
+      evaluateCondition(condition, createState(state));
+
+    it('compares faction standing and NPC attitude by rank', () => {
+      const condition: DialogueCondition = { type: 'faction', faction: 'crown', atLeast: 'friendly', atMost: 'honored' };
+      expect(check(condition, { getReputationLevel: () => 'neutral' })).toBe(false);
+      expect(check(condition, { getReputationLevel: () => 'friendly' })).toBe(true);
+      expect(check(condition, { getReputationLevel: () => 'champion' })).toBe(false);
+
+      expect(check({ type: 'attitude', atMost: 'unfriendly' }, { getAttitudeLevel: () => 'hostile' })).toBe(true);
+      expect(check({ type: 'attitude', atLeast: 'trusted' }, { getAttitudeLevel: () => 'friendly' })).toBe(false);
+    });
+
+    it('treats an unset flag as false', () => {
+      expect(check({ type: 'flag', flag: 'met_viceroy' })).toBe(false);
+      expect(check({ type: 'flag', flag: 'met_viceroy', value: false })).toBe(true);
+      expect(check({ type: 'npcFlag', flag: 'owed', value: 3 }, { getNPCFlag: () => 3 })).toBe(true);
+    });
+
+    it('matches hours across midnight and named times of day', () => {
+      const night: DialogueCondition = { type: 'time', startHour: 20, endHour: 6 };
+      expect(check(night, { getHour: () => 23 })).toBe(true);
+      expect(check(night, { getHour: () => 6 })).toBe(false);
+      expect(check({ type: 'time', periods: ['Evening', 'Night'] }, { getPeriod: () => 'Evening' })).toBe(true);
+    });
+
+    it('checks quest status, stage, open choices and carried items', () => {
+      const state = { getQuestStatus: () => 'active' as const, getQuestStage: () => 'fork', getItemCount: () => 2 };
+      expect(check({ type: 'quest', quest: 'quest_test' }, state)).toBe(true);
+      expect(check({ type: 'quest', quest: 'quest_test', stage: 'start' }, state)).toBe(false);
+      expect(check({ type: 'quest', quest: 'quest_test', status: 'completed' }, state)).toBe(false);
+      expect(check({ type: 'quest', quest: 'quest_test', choice: 'choice_left' }, { getQuestChoices: () => ['choice_left'] })).toBe(true);
+      expect(check({ type: 'quest', quest: 'quest_test', choice: 'choice_right' }, { getQuestChoices: () => ['choice_left'] })).toBe(false);
+      expect(check({ type: 'item', item: 'good_pepper', quantity: 2 }, state)).toBe(true);
+      expect(check({ type: 'item', item: 'good_pepper', quantity: 3 }, state)).toBe(false);
+    });
+
+    it('combines conditions with all, any and not', () => {
+      const isNPC: DialogueCondition = { type: 'npc', npc: 'npc_1' };
+      const hasFlag: DialogueCondition = { type: 'flag', flag: 'met_viceroy' };
+      expect(check({ type: 'all', conditions: [isNPC, hasFlag] })).toBe(false);
+      expect(check({ type: 'any', conditions: [isNPC, hasFlag] })).toBe(true);
+      expect(check({ type: 'not', condition: hasFlag })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { FactionSystem, type ReputationLevel } from '../../src/systems/FactionSystem';
+import { createScene, recordEvents } from '../helpers';
+
+describe('FactionSystem', () => {
+  it('starts neutral with every faction', () => {
+    const { scene } = createScene();
+    const factions = new FactionSystem(scene);
+
+    for (const faction of factions.getAllFactions()) {
+      expect(factions.getReputation(faction.id)).toBe(0);
+      expect(factions.getReputationLevel(faction.id)).toBe('neutral');
+    }
+  });
+
+  it.each<[number, ReputationLevel]>([
+    [-100, 'hostile'],
+    [-51, 'hostile'],
+    [-50, 'unfriendly'],
+    [-11, 'unfriendly'],
+    [-10, 'neutral'],
+    [9, 'neutral'],
+    [10, 'friendly'],
+    [49, 'friendly'],
+    [50, 'honored'],
+    [79, 'honored'],
+    [80, 'champion'],
+    [100, 'champion'],
+  ])('places %i reputation at %s', (value, level) => {
+    const { scene } = createScene();
+    const factions = new FactionSystem(scene);
+
+    factions.setReputation('crown', value);
+    expect(factions.getReputationLevel('crown')).toBe(level);
+  });
+
+  it('clamps reputation to -100..100', () => {
+    const { scene } = createScene();
+    const factions = new FactionSystem(scene);
+
+    expect(factions.adjustReputation('crown', 150)).toBe(100);
+    expect(factions.adjustReputation('crown', -500)).toBe(-100);
+
+    factions.setReputation('old_routes', 999);
+    expect(factions.getReputation('old_routes')).toBe(100);
+  });
+
+  it('announces a level change only when a threshold is crossed', () => {
+    const { headless, scene } = createScene();
+    const factions = new FactionSystem(scene);
+    const levelChanges = recordEvents(headless, 'reputationLevelChange');
+
+    factions.adjustReputation('free_traders', 9);
+    expect(levelChanges).toHaveLength(0);
+
+    factions.adjustReputation('free_traders', 1);
+    expect(levelChanges).toEqual([expect.objectContaining({ previousLevel: 'neutral', newLevel: 'friendly' })]);
+  });
+
+  it('ignores unknown factions', () => {
+    const { scene } = createScene();
+    const factions = new FactionSystem(scene);
+
+    expect(factions.adjustReputation('portuguese', 20)).toBe(0);
+    expect(factions.getReputation('portuguese')).toBe(0);
+  });
+
+  it('checks requirements by value and by level', () => {
+    const { scene } = createScene();
+    const factions = new FactionSystem(scene);
+    factions.setReputation('crown', 50);
+
+    expect(factions.meetsReputationRequirements([{ factionId: 'crown', minimumReputation: 50 }])).toBe(true);
+    expect(factions.meetsReputationRequirements([{ factionId: 'crown', minimumReputation: 51 }])).toBe(false);
+    expect(factions.meetsReputationRequirements([{ factionId: 'crown', minimumLevel: 'honored' }])).toBe(true);
+    expect(factions.meetsReputationRequirements([{ factionId: 'crown', minimumLevel: 'champion' }])).toBe(false);
+    expect(factions.meetsReputationRequirements([
+      { factionId: 'crown', minimumLevel: 'friendly' },
+      { factionId: 'old_routes', minimumLevel: 'friendly' },
+    ])).toBe(false);
+  });
+
+  it('round-trips reputation through save data', () => {
+    const { scene } = createScene();
+    const factions = new FactionSystem(scene);
+    factions.setReputation('crown', 35);
+    factions.setReputation('old_routes', -60);
+
+    const restored = new FactionSystem(createScene().scene);
+    restored.loadSaveData({ ...factions.getSaveData(), unknown_faction: 40 });
+
+    expect(restored.getSaveData()).toEqual({ crown: 35, free_traders: 0, old_routes: -60 });
+  });
+});
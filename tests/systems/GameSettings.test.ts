@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, GameSettings } from '../../src/systems/GameSettings';
+import { MemoryStorage } from '../helpers';
+
+describe('GameSettings', () => {
+  it('starts from the defaults', () => {
+    const settings = new GameSettings(new MemoryStorage());
+
+    expect(settings.get()).toEqual(DEFAULT_SETTINGS);
+    expect(settings.getTextScale()).toBe(1);
+  });
+
+  it('refuses values an option cannot take', () => {
+    const settings = new GameSettings(new MemoryStorage());
+
+    expect(settings.set('musicVolume', 1.5)).toBe(false);
+    expect(settings.set('timeScale', 45)).toBe(false);
+    expect(settings.set('textSize', 'toString' as never)).toBe(false);
+    expect(settings.get()).toEqual(DEFAULT_SETTINGS);
+
+    expect(settings.set('textSize', 'larger')).toBe(true);
+    expect(settings.getTextScale()).toBe(1.5);
+  });
+
+  it('keeps changes in storage for the next session', () => {
+    const storage = new MemoryStorage();
+    const settings = new GameSettings(storage);
+    settings.set('quality', 'low');
+    settings.set('reducedFlashing', true);
+
+    const reloaded = new GameSettings(storage);
+    expect(reloaded.get()).toMatchObject({ quality: 'low', reducedFlashing: true });
+
+    reloaded.resetToDefaults();
+    expect(new GameSettings(storage).get()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('keeps the default of any stored option it cannot use', () => {
+    const storage = new MemoryStorage();
+    storage.setItem('goa_trade_settings', JSON.stringify({ sfxVolume: 0.2, scanlines: 'no', timeScale: 120 }));
+
+    expect(new GameSettings(storage).get()).toEqual({ ...DEFAULT_SETTINGS, sfxVolume: 0.2, timeScale: 120 });
+
+    storage.setItem('goa_trade_settings', '{not json');
+    expect(new GameSettings(storage).get()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('sets each volume on the audio system', () => {
+    const settings = new GameSettings(new MemoryStorage());
+    settings.set('ambientVolume', 0);
+    const calls: string[] = [];
+    settings.applyVolumes({
+      setMasterVolume: volume => calls.push(`master ${volume}`),
+      setMusicVolume: volume => calls.push(`music ${volume}`),
+      setSfxVolume: volume => calls.push(`sfx ${volume}`),
+      setAmbientVolume: volume => calls.push(`ambient ${volume}`),
+    });
+
+    expect(calls).toEqual(['master 0.7', 'music 0.5', 'sfx 0.8', 'ambient 0']);
+  });
+});
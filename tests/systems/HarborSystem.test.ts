@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { HarborSystem, MooredShip } from '../../src/systems/HarborSystem';
+import { createScene, recordEvents } from '../helpers';
+
+function mooredShip(overrides: Partial<MooredShip> = {}): MooredShip {
+  return {
+    shipId: 'ship_1',
+    shipTypeId: 'arab_dhow',
+    shipName: 'Arab Dhow',
+    origin: 'Hormuz',
+    captainId: 'captain_ship_1',
+    captainName: 'Rashid, Arab Dhow Captain',
+    berth: { id: 'berth_dhow_1', kind: 'dhow', tileX: 10, tileY: 4, tileWidth: 3, tileHeight: 2 },
+    cargo: [{ goodId: 'good_pepper', quantity: 12 }],
+    exports: [{ goodId: 'good_cloth', demandPrice: 1.3, wanted: 8 }],
+    arrivedDay: 1,
+    departsDay: 3,
+    cargoLanded: false,
+    ...overrides,
+  };
+}
+
+describe('HarborSystem', () => {
+  it('restores moored ships and their holds from a save', () => {
+    const { headless, scene } = createScene();
+    const harbor = new HarborSystem(scene);
+    const moored = recordEvents(headless, 'shipMoored');
+
+    harbor.loadSaveData({ ships: [mooredShip()] });
+
+    expect(harbor.getShip('ship_1')?.cargo).toEqual([{ goodId: 'good_pepper', quantity: 12 }]);
+    expect(moored.map(ship => ship.shipId)).toEqual(['ship_1']);
+    expect(new HarborSystem(createScene().scene).getSaveData()).toEqual({ ships: [] });
+    expect(harbor.getSaveData()).toEqual({ ships: [mooredShip()] });
+  });
+
+  it('casts off the ships of the game being left when a save is loaded', () => {
+    const { headless, scene } = createScene();
+    const harbor = new HarborSystem(scene);
+    harbor.loadSaveData({ ships: [mooredShip()] });
+    const castOff = recordEvents(headless, 'shipCastOff');
+
+    harbor.loadSaveData({ ships: [mooredShip({ shipId: 'ship_2', captainId: 'captain_ship_2' })] });
+
+    expect(castOff.map(ship => ship.shipId)).toEqual(['ship_1']);
+    expect(harbor.getShips().map(ship => ship.shipId)).toEqual(['ship_2']);
+  });
+
+  it('sends a restored ship on its way once its day of departure has passed', () => {
+    const { headless, scene } = createScene();
+    const harbor = new HarborSystem(scene);
+    // The headless scene has no clock, so it is always day 1
+    harbor.loadSaveData({
+      ships: [
+        mooredShip({ arrivedDay: 0, departsDay: 0, cargoLanded: true }),
+        mooredShip({ shipId: 'ship_2', captainId: 'captain_ship_2', arrivedDay: 1, departsDay: 1 }),
+      ],
+    });
+    const castOff = recordEvents(headless, 'shipCastOff');
+
+    headless.events.emit('newDay', {} as never);
+
+    expect(castOff.map(ship => ship.shipId)).toEqual(['ship_1']);
+    expect(harbor.getShips().map(ship => ship.shipId)).toEqual(['ship_2']);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { InputBindings, getGamepadAction, readGamepadDirections } from '../../src/systems/InputBindings';
+import { MemoryStorage } from '../helpers';
+
+const KEY = { ENTER: 13, ESC: 27, UP: 38, E: 69, I: 73, M: 77, Q: 81, W: 87, ONE: 49 };
+
+describe('InputBindings', () => {
+  it('reads key presses as the actions bound to them', () => {
+    const bindings = new InputBindings(new MemoryStorage());
+
+    expect(bindings.getAction(KEY.W)).toBe('moveUp');
+    expect(bindings.getAction(KEY.UP)).toBe('moveUp');
+    expect(bindings.getAction(KEY.ENTER)).toBe('interact');
+    expect(bindings.getAction(KEY.Q)).toBeUndefined();
+    expect(bindings.getLabel('menu')).toBe('Esc');
+  });
+
+  it('swaps a key taken from another action for the one it replaces', () => {
+    const bindings = new InputBindings(new MemoryStorage());
+
+    expect(bindings.rebind('inventory', 0, KEY.M)).toEqual({ success: true });
+    expect(bindings.getKeys('inventory')).toEqual(['M']);
+    expect(bindings.getKeys('map')).toEqual(['I']);
+    expect(bindings.getAction(KEY.I)).toBe('map');
+  });
+
+  it('moves a key between an action\'s own slots', () => {
+    const bindings = new InputBindings(new MemoryStorage());
+
+    bindings.rebind('moveUp', 0, KEY.UP);
+    expect(bindings.getKeys('moveUp')).toEqual(['UP', 'W']);
+  });
+
+  it('refuses a key that would leave another action with none', () => {
+    const bindings = new InputBindings(new MemoryStorage());
+
+    expect(bindings.rebind('inventory', 1, KEY.ESC)).toEqual({
+      success: false,
+      error: 'Esc is the only key for Close / back',
+    });
+    expect(bindings.rebind('journal', 0, KEY.ONE).success).toBe(false);
+    expect(bindings.getKeys('menu')).toEqual(['ESC']);
+  });
+
+  it('keeps rebound keys in storage for the next session', () => {
+    const storage = new MemoryStorage();
+    const bindings = new InputBindings(storage);
+    bindings.rebind('interact', 1, KEY.Q);
+    bindings.clearAlternate('moveUp');
+
+    const reloaded = new InputBindings(storage);
+    expect(reloaded.getKeys('interact')).toEqual(['E', 'Q']);
+    expect(reloaded.getKeys('moveUp')).toEqual(['W']);
+
+    reloaded.resetToDefaults();
+    expect(new InputBindings(storage).getKeys('interact')).toEqual(['E', 'ENTER']);
+  });
+
+  it('falls back to the defaults when stored bindings cannot be used', () => {
+    const storage = new MemoryStorage();
+    storage.setItem('goa_trade_bindings', '{not json');
+    expect(new InputBindings(storage).getKeys('inventory')).toEqual(['I']);
+
+    // Both actions claim E, so skills is left with no key
+    storage.setItem('goa_trade_bindings', JSON.stringify({ interact: ['E'], skills: ['E'] }));
+    expect(new InputBindings(storage).getKeys('skills')).toEqual(['K']);
+  });
+});
+
+describe('gamepad input', () => {
+  it('maps standard buttons to actions', () => {
+    expect(getGamepadAction(0)).toBe('interact');
+    expect(getGamepadAction(1)).toBe('menu');
+    expect(getGamepadAction(13)).toBe('moveDown');
+    expect(getGamepadAction(7)).toBeUndefined();
+  });
+
+  it('reads directions from the d-pad and the left stick past its deadzone', () => {
+    const pad = { up: false, down: false, left: true, right: false, leftStick: { x: 0.1, y: 0.8 } };
+
+    expect(readGamepadDirections(pad)).toEqual({ up: false, down: true, left: true, right: false });
+    expect(readGamepadDirections(null)).toEqual({ up: false, down: false, left: false, right: false });
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, expect, it } from 'vitest';
+import { QuestSystem, type Quest } from '../../src/systems/QuestSystem';
+import { createScene, recordEvents } from '../helpers';
+
+// A small branching quest: a fork, a gated choice and a route to failure
+const testQuest: Quest = {
+  id: 'quest_test_fork',
+  title: 'The Fork in the Road',
+  description: 'Test quest',
+  giver: 'npc_giver',
+  requirements: [
+    { type: 'gold', value: 200, comparison: 'gte' },
+    { type: 'reputation', target: 'crown', value: 10 },
+  ],
+  stages: [
+    {
+      id: 'start',
+      objective: 'Talk to the giver',
+      type: 'talk',
+      target: 'npc_giver',
+      onComplete: [{ type: 'flag', target: 'met_giver', value: true }],
+    },
+    {
+      id: 'fork',
+      objective: 'Choose a road',
+      type: 'talk',
+      target: 'npc_giver',
+      choices: [
+        {
+          id: 'choice_left',
+          text: 'Go left',
+          nextStageId: 'left',
+          effects: [{ type: 'gold', value: -50 }],
+        },
+        {
+          id: 'choice_right',
+          text: 'Go right',
+          nextStageId: 'collect',
+          condition: { type: 'flag', target: 'has_map', value: true },
+        },
+        {
+          id: 'choice_give_up',
+          text: 'Turn back',
+          nextStageId: 'fail',
+        },
+      ],
+    },
+    {
+      id: 'collect',
+      objective: 'Collect pepper',
+      type: 'collect',
+      target: 'good_pepper',
+      quantity: 3,
+    },
+    {
+      id: 'left',
+      objective: 'Finish on the left',
+      type: 'talk',
+      target: 'npc_left',
+      choices: [{ id: 'choice_done', text: 'Done', nextStageId: 'complete' }],
+    },
+  ],
+  rewards: [{ type: 'gold', value: 300 }],
+};
+
+function createQuestSystem(state: { gold?: number; crown?: number; flags?: Record<string, boolean> } = {}) {
+  const { headless, scene } = createScene();
+  const quests = new QuestSystem(scene);
+  quests.setStateAccessors({
+    getPlayerGold: () => state.gold ?? 500,
+    getPlayerReputation: faction => (faction === 'crown' ? state.crown ?? 20 : 0),
+    getFlag: flag => state.flags?.[flag],
+  });
+  quests.registerQuest(testQuest);
+  return { headless, quests };
+}
+
+describe('QuestSystem', () => {
+  describe('requirements', () => {
+    it('lets a player who meets every requirement start', () => {
+      const { quests } = createQuestSystem();
+      expect(quests.canStartQuest(testQuest.id)).toEqual({ canStart: true, failedRequirements: [] });
+      expect(quests.startQuest(testQuest.id)).toBe(true);
+      expect(quests.getCurrentStage(testQuest.id)?.id).toBe('start');
+    });
+
+    it('lists each requirement that is not met', () => {
+      const { quests } = createQuestSystem({ gold: 100, crown: 0 });
+      const check = quests.canStartQuest(testQuest.id);
+
+      expect(check.canStart).toBe(false);
+      expect(check.failedRequirements).toEqual(['Requires 200 gold', 'Requires 10 reputation with crown']);
+      expect(quests.startQuest(testQuest.id)).toBe(false);
+    });
+
+    it('treats requirements as inclusive by default', () => {
+      const { quests } = createQuestSystem({ gold: 200, crown: 10 });
+      expect(quests.canStartQuest(testQuest.id).canStart).toBe(true);
+    });
+
+    it('honours lte, eq and neq comparisons', () => {
+      const { quests } = createQuestSystem({ gold: 50 });
+      const withGold = (value: number, comparison: 'gte' | 'lte' | 'eq' | 'neq') => {
+        quests.registerQuest({ ...testQuest, id: `quest_${comparison}_${value}`, requirements: [{ type: 'gold', value, comparison }] });
+        return quests.canStartQuest(`quest_${comparison}_${value}`).canStart;
+      };
+
+      expect(withGold(50, 'lte')).toBe(true);
+      expect(withGold(49, 'lte')).toBe(false);
+      expect(withGold(50, 'eq')).toBe(true);
+      expect(withGold(51, 'eq')).toBe(false);
+      expect(withGold(51, 'neq')).toBe(true);
+      expect(withGold(50, 'neq')).toBe(false);
+    });
+
+    it('requires earlier quests to be complete', () => {
+      const { quests } = createQuestSystem();
+      quests.registerQuest({
+        ...testQuest,
+        id: 'quest_sequel',
+        requirements: [{ type: 'quest', target: testQuest.id, value: true }],
+      });
+
+      expect(quests.canStartQuest('quest_sequel').canStart).toBe(false);
+      quests.startQuest(testQuest.id);
+      quests.completeQuest(testQuest.id);
+      expect(quests.canStartQuest('quest_sequel').canStart).toBe(true);
+    });
+
+    it('will not start a quest twice or repeat a finished one', () => {
+      const { quests } = createQuestSystem();
+      quests.startQuest(testQuest.id);
+      expect(quests.canStartQuest(testQuest.id).failedRequirements).toEqual(['Quest already active']);
+
+      quests.completeQuest(testQuest.id);
+      expect(quests.canStartQuest(testQuest.id).failedRequirements).toEqual(['Quest already completed']);
+    });
+  });
+
+  describe('advanceStage', () => {
+    it('moves to the next stage in order and applies onComplete effects', () => {
+      const { headless, quests } = createQuestSystem();
+      const flags = recordEvents(headless, 'flagSet');
+      quests.startQuest(testQuest.id);
+
+      expect(quests.advanceStage(testQuest.id)).toBe(true);
+      expect(quests.getCurrentStage(testQuest.id)?.id).toBe('fork');
+      expect(flags).toEqual([{ flag: 'met_giver', value: true }]);
+    });
+
+    it('follows the chosen branch and applies its effects', () => {
+      const { headless, quests } = createQuestSystem();
+      const goldChanges = recordEvents(headless, 'goldDelta');
+      quests.startQuest(testQuest.id);
+      quests.advanceStage(testQuest.id);
+
+      expect(quests.advanceStage(testQuest.id, 'choice_left')).toBe(true);
+      expect(quests.getCurrentStage(testQuest.id)?.id).toBe('left');
+      expect(goldChanges).toEqual([-50]);
+    });
+
+    it('refuses a choice whose condition is not met', () => {
+      const { quests } = createQuestSystem();
+      quests.startQuest(testQuest.id);
+      quests.advanceStage(testQuest.id);
+
+      expect(quests.getAvailableChoices(testQuest.id).map(choice => choice.id)).toEqual(['choice_left', 'choice_give_up']);
+      expect(quests.advanceStage(testQuest.id, 'choice_right')).toBe(false);
+      expect(quests.getCurrentStage(testQuest.id)?.id).toBe('fork');
+    });
+
+    it('offers a gated choice once its condition is met', () => {
+      const { quests } = createQuestSystem({ flags: { has_map: true } });
+      quests.startQuest(testQuest.id);
+      quests.advanceStage(testQuest.id);
+
+      expect(quests.advanceStage(testQuest.id, 'choice_right')).toBe(true);
+      expect(quests.getCurrentStage(testQuest.id)?.id).toBe('collect');
+    });
+
+    it('completes the quest and pays its rewards at a complete branch', () => {
+      const { headless, quests } = createQuestSystem();
+      const goldChanges = recordEvents(headless, 'goldDelta');
+      const completed = recordEvents(headless, 'questCompleted');
+      quests.startQuest(testQuest.id);
+      quests.advanceStage(testQuest.id);
+      quests.advanceStage(testQuest.id, 'choice_left');
+      quests.advanceStage(testQuest.id, 'choice_done');
+
+      expect(quests.isQuestComplete(testQuest.id)).toBe(true);
+      expect(quests.isQuestActive(testQuest.id)).toBe(false);
+      expect(completed.map(event => event.questId)).toEqual([testQuest.id]);
+      expect(goldChanges).toEqual([-50, 300]);
+    });
+
+    it('fails the quest at a fail branch', () => {
+      const { quests } = createQuestSystem();
+      quests.startQuest(testQuest.id);
+      quests.advanceStage(testQuest.id);
+
+      expect(quests.advanceStage(testQuest.id, 'choice_give_up')).toBe(true);
+      expect(quests.isQuestFailed(testQuest.id)).toBe(true);
+      expect(quests.getFailedQuests()).toEqual([testQuest.id]);
+    });
+
+    it('does nothing for a quest that is not active', () => {
+      const { quests } = createQuestSystem();
+      expect(quests.advanceStage(testQuest.id)).toBe(false);
+    });
+  });
+
+  describe('objectives', () => {
+    it('advances a collect stage once enough has been collected', () => {
+      const { quests } = createQuestSystem({ flags: { has_map: true } });
+      quests.startQuest(testQuest.id);
+      quests.advanceStage(testQuest.id);
+      quests.advanceStage(testQuest.id, 'choice_right');
+
+      quests.handleItemAcquired('good_pepper', 2);
+      expect(quests.getCurrentStage(testQuest.id)?.id).toBe('collect');
+
+      quests.handleItemAcquired('good_cloves', 5);
+      expect(quests.getCurrentStage(testQuest.id)?.id).toBe('collect');
+
+      quests.handleItemAcquired('good_pepper', 1);
+      expect(quests.getCurrentStage(testQuest.id)?.id).toBe('left');
+    });
+
+    it('advances a talk stage when its NPC is spoken to', () => {
+      const { quests } = createQuestSystem();
+      quests.startQuest(testQuest.id);
+
+      quests.handleNPCInteraction('npc_stranger');
+      expect(quests.getCurrentStage(testQuest.id)?.id).toBe('start');
+
+      quests.handleNPCInteraction('npc_giver');
+      expect(quests.getCurrentStage(testQuest.id)?.id).toBe('fork');
+    });
+  });
+
+  it('round-trips quest progress through save data', () => {
+    const { quests } = createQuestSystem();
+    quests.startQuest(testQuest.id);
+    quests.advanceStage(testQuest.id);
+
+    const { quests: restored } = createQuestSystem();
+    restored.loadSaveData(quests.getSaveData());
+
+    expect(restored.isQuestActive(testQuest.id)).toBe(true);
+    expect(restored.getCurrentStage(testQuest.id)?.id).toBe('fork');
+  });
+});
@@ -0,0 +1,347 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SaveSystem, type SaveData, type SaveSectionKey } from '../../src/systems/SaveSystem';
+import { MemoryStorage, createScene, recordEvents } from '../helpers';
+
+function validSave(overrides: Partial<SaveData> = {}): SaveData {
+  return {
+    version: '1.1.0',
+    timestamp: 1_700_000_000_000,
+    player: { position: { location: 'ribeira_grande', x: 10, y: 20 }, inventory: [{ item: 'good_pepper', quantity: 4 }], gold: 750 },
+    world: { currentTime: { hour: 9, day: 12 }, currentLocation: 'ribeira_grande' },
+    factions: { reputation: { crown: 20, free_traders: -5, old_routes: 0 } },
+    quests: { active: [], completed: ['quest_pepper_contract'], failed: [] },
+    flags: { met_governor: true },
+    weather: { current: 'clear', season: 'dry' },
+    ...overrides,
+  };
+}
+
+describe('SaveSystem', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    vi.stubGlobal('localStorage', storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('validateSaveData', () => {
+    const saves = new SaveSystem(createScene().scene);
+    const validate = (data: unknown) => saves['validateSaveData'](data);
+
+    it('accepts a complete save', () => {
+      expect(validate(validSave())).toBe(true);
+    });
+
+    it.each(['version', 'timestamp', 'player', 'world', 'factions', 'quests'] as const)('rejects a save without %s', field => {
+      const save: Partial<SaveData> = validSave();
+      delete save[field];
+      expect(validate(save)).toBe(false);
+    });
+
+    it('rejects a save whose version is not a string', () => {
+      expect(validate({ ...validSave(), version: 1 })).toBe(false);
+    });
+
+    it('rejects things that are not saves', () => {
+      expect(validate(null)).toBe(false);
+      expect(validate('save')).toBe(false);
+      expect(validate([])).toBe(false);
+    });
+
+    it('rejects a save from a newer version of the game', () => {
+      expect(saves.getSaveErrors(validSave({ version: '9.0.0' }))).toEqual([
+        `Made by a newer version of the game (save format 9.0.0, this one reads up to ${saves.getVersion()})`,
+      ]);
+    });
+
+    it('names every problem with a save', () => {
+      const save: Record<string, unknown> = { ...validSave(), timestamp: 'yesterday', player: { gold: '750', inventory: {} } };
+      delete save.quests;
+
+      expect(saves.getSaveErrors(save)).toEqual([
+        'Missing or invalid timestamp',
+        'Player gold is not a number',
+        'Player inventory is not a list',
+        'Missing or invalid quests data',
+      ]);
+    });
+  });
+
+  describe('migrateSaveData', () => {
+    const saves = new SaveSystem(createScene().scene);
+    const migrate = (data: SaveData) => saves['migrateSaveData'](data);
+
+    it('leaves a current save untouched', () => {
+      const save = validSave();
+      expect(migrate(save)).toBe(save);
+    });
+
+    it('brings an older save up to date, filling in missing parts', () => {
+      const old = validSave({ version: '0.9.0' }) as Partial<SaveData> & SaveData;
+      delete (old as Partial<SaveData>).flags;
+      delete (old as Partial<SaveData>).weather;
+      old.player = { gold: 300 } as SaveData['player'];
+      old.quests = {} as SaveData['quests'];
+
+      const migrated = migrate(old);
+
+      expect(migrated.version).toBe(saves.getVersion());
+      expect(migrated.flags).toEqual({});
+      expect(migrated.weather).toEqual({ current: 'clear', season: 'dry' });
+      expect(migrated.player.gold).toBe(300);
+      expect(migrated.player.inventory).toEqual([]);
+      expect(migrated.quests).toEqual({ active: [], completed: [], failed: [] });
+    });
+
+    it('walks a 1.0.0 save along the migration chain', () => {
+      const old = validSave({ version: '1.0.0', warehouse: { bays: 1, contents: [], unpaidDays: 0 } });
+      (old.player as unknown as Record<string, unknown>).location = { id: 'ribeira_grande' };
+      old.player.position = { x: 10, y: 20 } as SaveData['player']['position'];
+      old.world.currentLocation = 'tavern';
+
+      const migrated = migrate(old);
+
+      expect(migrated.version).toBe(saves.getVersion());
+      expect(migrated.player.position).toEqual({ location: 'tavern', x: 10, y: 20 });
+      expect(migrated.player).not.toHaveProperty('location');
+      expect(migrated.sectionVersions).toEqual({
+        world: 1, weather: 1, factions: 1, quests: 1, flags: 1, warehouse: 1, player: 1,
+      });
+    });
+
+    it('does not change the save it was given', () => {
+      const old = validSave({ version: '0.9.0' });
+      migrate(old);
+      expect(old.version).toBe('0.9.0');
+    });
+  });
+
+  describe('slots', () => {
+    it('saves to and loads from a manual slot', () => {
+      const { headless, scene } = createScene();
+      const saves = new SaveSystem(scene);
+      headless.events.on('requestSaveData', () => {
+        headless.events.emit('saveDataResponse', { system: 'flags', data: { met_governor: true } });
+      });
+
+      expect(saves.save('save_1')).toBe(true);
+      expect(storage.getItem('goa_trade_save_1')).not.toBeNull();
+      expect(saves.hasSave('save_1')).toBe(true);
+
+      const loaded = saves.load('save_1');
+      expect(loaded?.flags).toEqual({ met_governor: true });
+      expect(loaded?.version).toBe(saves.getVersion());
+    });
+
+    it('hands a loaded save to the other systems', () => {
+      const { headless, scene } = createScene();
+      const saves = new SaveSystem(scene);
+      const restored = recordEvents(headless, 'restoreSaveData');
+      storage.setItem('goa_trade_save_2', JSON.stringify(validSave()));
+
+      saves.load('save_2');
+      expect(restored).toEqual([validSave()]);
+    });
+
+    it('refuses slots that do not exist', () => {
+      const { headless, scene } = createScene();
+      const saves = new SaveSystem(scene);
+      const results = recordEvents(headless, 'gameSaved');
+
+      expect(saves.save('save_9')).toBe(false);
+      expect(results).toEqual([expect.objectContaining({ success: false, error: 'Invalid save slot: save_9' })]);
+      expect(saves.load('save_9')).toBeNull();
+      expect(storage.length).toBe(0);
+    });
+
+    it('reports an empty slot as missing', () => {
+      const saves = new SaveSystem(createScene().scene);
+      expect(saves.hasSave('save_3')).toBe(false);
+      expect(saves.load('save_3')).toBeNull();
+    });
+
+    it('will not load a corrupted or invalid save', () => {
+      const { headless, scene } = createScene();
+      const saves = new SaveSystem(scene);
+      const loads = recordEvents(headless, 'gameLoaded');
+      storage.setItem('goa_trade_save_1', '{not json');
+      storage.setItem('goa_trade_save_2', JSON.stringify({ version: '1.0.0' }));
+
+      expect(saves.load('save_1')).toBeNull();
+      expect(saves.load('save_2')).toBeNull();
+      expect(loads).toEqual([expect.objectContaining({ success: false, error: 'Save data is corrupted' })]);
+    });
+
+    it('describes every slot for the save menu', () => {
+      const saves = new SaveSystem(createScene().scene);
+      storage.setItem('goa_trade_save_2', JSON.stringify(validSave()));
+
+      const slots = saves.getSaveSlots();
+      expect(slots.map(slot => slot.slotId)).toEqual([...saves.getManualSlots(), saves.getAutoSaveSlot()]);
+      expect(slots.find(slot => slot.slotId === 'save_2')).toEqual({
+        slotId: 'save_2',
+        timestamp: validSave().timestamp,
+        playerGold: 750,
+        dayCount: 12,
+        location: 'ribeira_grande',
+        exists: true,
+      });
+      expect(slots.filter(slot => slot.exists)).toHaveLength(1);
+    });
+
+    it('deletes a save', () => {
+      const { headless, scene } = createScene();
+      const saves = new SaveSystem(scene);
+      const deleted = recordEvents(headless, 'saveDeleted');
+      storage.setItem('goa_trade_autosave', JSON.stringify(validSave()));
+
+      saves.deleteSave('autosave');
+      expect(saves.hasSave('autosave')).toBe(false);
+      expect(deleted).toEqual([{ slotId: 'autosave' }]);
+    });
+
+    it('auto-saves when the player changes location', () => {
+      const { headless, scene } = createScene();
+      new SaveSystem(scene);
+
+      headless.events.emit('locationChange');
+      expect(storage.getItem('goa_trade_autosave')).not.toBeNull();
+    });
+
+    it('does not save when localStorage is unavailable', () => {
+      vi.stubGlobal('localStorage', {
+        setItem: () => { throw new Error('denied'); },
+        getItem: () => null,
+        removeItem: () => undefined,
+      });
+      const saves = new SaveSystem(createScene().scene);
+
+      expect(saves.save('save_1')).toBe(false);
+      expect(saves.hasSave('save_1')).toBe(false);
+    });
+  });
+
+  describe('save files', () => {
+    it('exports a slot and imports it into another', () => {
+      const saves = new SaveSystem(createScene().scene);
+      storage.setItem('goa_trade_autosave', JSON.stringify(validSave()));
+
+      const file = saves.exportSlot('autosave');
+      expect(file?.filename).toBe('goa1590_autosave_day12.goa');
+
+      expect(saves.importSlot('save_3', file!.contents)).toEqual({ success: true, errors: [] });
+      expect(saves.load('save_3')).toEqual(validSave());
+    });
+
+    it('has nothing to export from an empty slot', () => {
+      expect(new SaveSystem(createScene().scene).exportSlot('save_1')).toBeNull();
+    });
+
+    it('refuses a file that has been edited since it was exported', () => {
+      const saves = new SaveSystem(createScene().scene);
+      storage.setItem('goa_trade_save_1', JSON.stringify(validSave()));
+      const edited = saves.exportSlot('save_1')!.contents.replace('"gold": 750', '"gold": 75000');
+
+      const result = saves.importSlot('save_2', edited);
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['The save file is damaged or has been edited (checksum does not match)']);
+      expect(saves.hasSave('save_2')).toBe(false);
+    });
+
+    it('refuses files that are not saves', () => {
+      const saves = new SaveSystem(createScene().scene);
+      expect(saves.importSlot('save_1', 'not json').errors).toEqual(['The file is not a save file (it could not be read as JSON)']);
+      expect(saves.importSlot('save_1', JSON.stringify(validSave())).errors).toEqual(['The file is not a Goa 1590 save file']);
+    });
+
+    it('lists what is wrong with a save that fails validation', () => {
+      const saves = new SaveSystem(createScene().scene);
+      const broken = { ...validSave(), version: '2.0.0', world: undefined };
+      storage.setItem('goa_trade_save_1', JSON.stringify(broken));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(saves.getSlotErrors('save_1')).toEqual([
+        `Made by a newer version of the game (save format 2.0.0, this one reads up to ${saves.getVersion()})`,
+        'Missing or invalid world data',
+      ]);
+      expect(saves.exportSlot('save_1')).toBeNull();
+    });
+
+    it('migrates an older save as it is imported', () => {
+      const saves = new SaveSystem(createScene().scene);
+      storage.setItem('goa_trade_save_1', JSON.stringify(validSave({ version: '1.0.0' })));
+
+      saves.importSlot('save_2', saves.exportSlot('save_1')!.contents);
+      const imported = JSON.parse(storage.getItem('goa_trade_save_2')!) as SaveData;
+      expect(imported.version).toBe(saves.getVersion());
+      expect(imported.sectionVersions).toBeDefined();
+    });
+  });
+
+  describe('serializers', () => {
+    it('saves each registered section with its serializer version', () => {
+      const saves = new SaveSystem(createScene().scene);
+      saves.registerSerializer('factions', { version: 2, save: () => ({ reputation: { crown: 15 } }), load: () => {} });
+      saves.registerSerializer('warehouse', { version: 1, save: () => ({ bays: 1, contents: [], unpaidDays: 0 }), load: () => {} });
+
+      saves.save('save_1');
+      const saved = JSON.parse(storage.getItem('goa_trade_save_1')!) as SaveData;
+
+      expect(saved.factions).toEqual({ reputation: { crown: 15 } });
+      expect(saved.warehouse).toEqual({ bays: 1, contents: [], unpaidDays: 0 });
+      expect(saved.sectionVersions).toEqual({ factions: 2, warehouse: 1 });
+    });
+
+    it('restores sections in a fixed order, whatever order they were registered in', () => {
+      const saves = new SaveSystem(createScene().scene);
+      const restored: SaveSectionKey[] = [];
+      const record = (key: SaveSectionKey) => ({ version: 1, save: () => ({}) as never, load: () => { restored.push(key); } });
+      for (const key of ['random', 'player', 'quests', 'factions', 'world'] as const) {
+        saves.registerSerializer(key, record(key));
+      }
+
+      saves.restore(validSave({ random: { seed: 1, streams: {} } }));
+      expect(restored).toEqual(['world', 'factions', 'quests', 'player', 'random']);
+    });
+
+    it('migrates a section written by an older serializer', () => {
+      const saves = new SaveSystem(createScene().scene);
+      const loaded: SaveData['factions'][] = [];
+      saves.registerSerializer('factions', {
+        version: 2,
+        save: () => ({ reputation: {} }),
+        load: data => { loaded.push(data); },
+        migrate: data => ({ reputation: data as Record<string, number> }),
+      });
+
+      saves.restore(validSave({ factions: { crown: 20 } as unknown as SaveData['factions'] }));
+      expect(loaded).toEqual([{ reputation: { crown: 20 } }]);
+    });
+
+    it('skips a section written by a newer serializer', () => {
+      const saves = new SaveSystem(createScene().scene);
+      let loads = 0;
+      saves.registerSerializer('quests', { version: 1, save: () => validSave().quests, load: () => { loads++; } });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      saves.restore(validSave({ sectionVersions: { quests: 2 } }));
+      expect(loads).toBe(0);
+    });
+
+    it('carries on restoring after a section fails', () => {
+      const saves = new SaveSystem(createScene().scene);
+      const restored: string[] = [];
+      saves.registerSerializer('world', { version: 1, save: () => validSave().world, load: () => { throw new Error('bad clock'); } });
+      saves.registerSerializer('player', { version: 1, save: () => validSave().player, load: data => { restored.push(`gold ${data.gold}`); } });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      saves.restore(validSave());
+      expect(restored).toEqual(['gold 750']);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { ContractSystem } from '../../src/systems/ContractSystem';
+import { SkillSystem } from '../../src/systems/SkillSystem';
+import { SKILL_IDS, SkillId, SkillTree, loadSkillTree } from '../../src/systems/SkillTree';
+import { TradeRouteSystem } from '../../src/systems/TradeRouteSystem';
+import { TradeSystem } from '../../src/systems/TradeSystem';
+import { createScene, recordEvents } from '../helpers';
+
+// Skills are read from, and trained on, MarketScene's player
+function createSkillSystem(skills: Partial<Record<SkillId, number>> = {}) {
+  const { headless, scene } = createScene();
+  const values: Record<SkillId, number> = { negotiation: 0, appraisal: 0, reputation: 0, navigation: 0, ...skills };
+  const training: string[] = [];
+  const player = {
+    getSkills: () => ({ ...values }),
+    improveSkill: (skill: SkillId, amount: number) => {
+      values[skill] += amount;
+      training.push(`${skill} +${amount}`);
+    },
+    completeTrade: (profitable: boolean) => training.push(`completeTrade ${profitable}`),
+    examineGoods: () => training.push('examineGoods'),
+    positiveInteraction: () => training.push('positiveInteraction'),
+    completeTradeRoute: (success: boolean) => training.push(`completeTradeRoute ${success}`),
+  };
+  headless.addScene('MarketScene', { getPlayer: () => player });
+  const skillSystem = new SkillSystem(scene);
+  headless.registry.set('skillSystem', skillSystem);
+  return { headless, scene, skillSystem, training };
+}
+
+describe('SkillTree', () => {
+  it('loads the shipped perks without errors, with a root perk for every skill', () => {
+    const tree = loadSkillTree();
+    expect(tree.getErrors()).toEqual([]);
+    for (const skill of SKILL_IDS) {
+      expect(tree.getPerks(skill).some(perk => perk.requires === undefined)).toBe(true);
+    }
+  });
+
+  it('leaves out perks it cannot use', () => {
+    const skills = Object.fromEntries(SKILL_IDS.map(id => [id, { name: id }]));
+    const perk = { skill: 'navigation', name: 'Test', description: 'A test.', requiredLevel: 10 };
+    const tree = new SkillTree({
+      levelsPerPoint: 10,
+      skills,
+      perks: [
+        { ...perk, id: 'perk_root', effects: { routeRisk: 0.02 } },
+        { ...perk, id: 'perk_orphan', requires: 'perk_missing', effects: { routeRisk: 0.02 } },
+        { ...perk, id: 'perk_greedy', effects: { routeRisk: 2, luck: 1 } },
+      ],
+    });
+
+    expect(tree.getPerks().map(entry => entry.id)).toEqual(['perk_root']);
+    expect(tree.getErrors()).toEqual([
+      'perks.json: perk_greedy: "routeRisk" must be a fraction between 0 and 1',
+      'perks.json: perk_greedy: unknown effect "luck"',
+      'perks.json: perk_orphan: "requires" must name another navigation perk',
+    ]);
+  });
+});
+
+describe('SkillSystem', () => {
+  it('earns a perk point every ten levels of a skill', () => {
+    const { skillSystem } = createSkillSystem({ negotiation: 27.5 });
+    const negotiation = skillSystem.getSkillProgress().find(skill => skill.id === 'negotiation')!;
+
+    expect(negotiation).toMatchObject({ level: 27, pointsEarned: 2, pointsSpent: 0 });
+    expect(negotiation.progress).toBeCloseTo(0.5);
+    expect(skillSystem.getUnspentPoints('appraisal')).toBe(0);
+  });
+
+  it('learns perks down the tree while points last', () => {
+    const { headless, skillSystem } = createSkillSystem({ negotiation: 27 });
+    const learned = recordEvents(headless, 'perkLearned');
+
+    expect(skillSystem.getLockReason('perk_wholesale_terms')).toBe('Requires Patient Haggler');
+    expect(skillSystem.learnPerk('perk_patient_haggler')).toEqual({ success: true });
+    expect(skillSystem.getLockReason('perk_name_on_rua_direita')).toBe('Requires Negotiation 50');
+    expect(skillSystem.learnPerk('perk_wholesale_terms').success).toBe(true);
+    expect(skillSystem.learnPerk('perk_silver_tongue')).toEqual({ success: false, error: 'No Negotiation points to spend' });
+
+    expect(learned.map(perk => perk.id)).toEqual(['perk_patient_haggler', 'perk_wholesale_terms']);
+    expect(skillSystem.getBonus('buyPrice')).toBeCloseTo(0.07);
+  });
+
+  it('takes negotiation perks off the price of goods', () => {
+    const { scene, skillSystem } = createSkillSystem({ negotiation: 10 });
+    const trade = new TradeSystem(scene);
+    const price = trade.getPrice('good_pepper', true);
+
+    skillSystem.learnPerk('perk_patient_haggler');
+    expect(trade.getPrice('good_pepper', true)).toBe(Math.floor(price * 0.97));
+  });
+
+  it('takes navigation perks off the chance of losing an expedition', () => {
+    const { scene, skillSystem } = createSkillSystem({ navigation: 10 });
+    const routes = new TradeRouteSystem(scene);
+    const before = routes.getRiskBreakdown('route_malabar')!;
+
+    skillSystem.learnPerk('perk_pilots_rutter');
+    const after = routes.getRiskBreakdown('route_malabar')!;
+    expect(after.skill).toBe(-0.02);
+    expect(after.total).toBeCloseTo(before.total - 0.02);
+  });
+
+  it('adds reputation perks to the contracts offered', () => {
+    const plain = new ContractSystem(createScene().scene).getAvailableContracts()[0];
+
+    const { scene, skillSystem } = createSkillSystem({ reputation: 25 });
+    skillSystem.learnPerk('perk_trusted_name');
+    skillSystem.learnPerk('perk_patient_clients');
+    const contracts = new ContractSystem(scene);
+    const offer = contracts.getAvailableContracts()[0];
+
+    expect(offer.clientId).toBe(plain.clientId);
+    expect(offer.reward).toBe(Math.floor(plain.reward * 1.1));
+    expect(offer.deadline).toBe(plain.deadline + 6);
+  });
+
+  it('trains skills from what the player does', () => {
+    const { headless, training } = createSkillSystem();
+    headless.events.emit('playerSell', { good: 'good_pepper', price: 10, quantity: 1 });
+    headless.events.emit('openTrade', { npcName: 'Vendor', goods: [] });
+    headless.events.emit('contractCompleted', {} as never);
+    headless.events.emit('expeditionLost', {} as never);
+
+    expect(training).toEqual(['completeTrade true', 'examineGoods', 'reputation +2', 'completeTradeRoute false']);
+  });
+
+  it('counts a sale as profitable only above what the goods cost', () => {
+    const { headless, skillSystem, training } = createSkillSystem();
+    headless.events.emit('playerBuy', { good: 'good_pepper', price: 40, quantity: 4 });
+    headless.events.emit('playerSell', { good: 'good_pepper', price: 18, quantity: 2 });
+    headless.events.emit('playerSell', { good: 'good_pepper', price: 25, quantity: 2 });
+
+    expect(training).toEqual(['completeTrade false', 'completeTrade false', 'completeTrade true']);
+    expect(skillSystem.getSaveData().holdings).toEqual({});
+  });
+
+  it('trains appraisal and reputation once a day for each trader', () => {
+    const { headless, training } = createSkillSystem();
+    for (let i = 0; i < 3; i++) {
+      headless.events.emit('openTrade', { npcId: 'npc_vendor', npcName: 'Vendor', goods: [] });
+      headless.events.emit('dialogueEnd', { npcId: 'npc_vendor' });
+    }
+    headless.events.emit('openTrade', { npcId: 'npc_other', npcName: 'Other', goods: [] });
+    expect(training).toEqual(['examineGoods', 'positiveInteraction', 'examineGoods']);
+
+    headless.events.emit('newDay', { dayCount: 2 } as never);
+    headless.events.emit('dialogueEnd', { npcId: 'npc_vendor' });
+    expect(training).toHaveLength(4);
+  });
+
+  it('restores learned perks from a save, dropping any no longer defined', () => {
+    const { skillSystem } = createSkillSystem();
+    skillSystem.loadSaveData({ perks: ['perk_trusted_name', 'perk_retired'] });
+
+    expect(skillSystem.hasPerk('perk_trusted_name')).toBe(true);
+    expect(skillSystem.getSaveData()).toEqual({ perks: ['perk_trusted_name'], holdings: {} });
+  });
+});
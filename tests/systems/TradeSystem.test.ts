@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { TradeSystem } from '../../src/systems/TradeSystem';
+import { createScene } from '../helpers';
+
+describe('TradeSystem', () => {
+  describe('calculatePriceFactor', () => {
+    const trade = new TradeSystem(createScene().scene);
+    const priceFactor = (supply: number, demand: number) => trade['calculatePriceFactor'](supply, demand);
+
+    it('is the ratio of demand to supply', () => {
+      expect(priceFactor(10, 10)).toBe(1);
+      expect(priceFactor(10, 15)).toBe(1.5);
+      expect(priceFactor(10, 7)).toBeCloseTo(0.7);
+    });
+
+    it('is clamped between half and double', () => {
+      expect(priceFactor(10, 1)).toBe(0.5);
+      expect(priceFactor(1, 10)).toBe(2);
+    });
+
+    it('doubles the price when the market is sold out', () => {
+      expect(priceFactor(0, 0)).toBe(2);
+      expect(priceFactor(0, 10)).toBe(2);
+    });
+  });
+
+  it('sets the same opening prices for the same seed', () => {
+    const first = new TradeSystem(createScene(42).scene);
+    const second = new TradeSystem(createScene(42).scene);
+
+    expect(first.getMarketSummary()).toEqual(second.getMarketSummary());
+  });
+
+  it('never prices a unit of a bulk buy below the one before', () => {
+    const trade = new TradeSystem(createScene().scene);
+    const quote = trade.quoteOrder('good_pepper', 3, true);
+
+    expect(quote).not.toBeNull();
+    expect(quote!.unitPrices).toHaveLength(quote!.quantity);
+    for (let i = 1; i < quote!.unitPrices.length; i++) {
+      expect(quote!.unitPrices[i]).toBeGreaterThanOrEqual(quote!.unitPrices[i - 1]);
+    }
+    expect(quote!.total).toBe(quote!.unitPrices.reduce((sum, price) => sum + price, 0));
+  });
+
+  it('quotes nothing for an unknown good', () => {
+    const trade = new TradeSystem(createScene().scene);
+    expect(trade.quoteOrder('good_unobtainium', 1, true)).toBeNull();
+  });
+
+  it('round-trips market state through save data', () => {
+    const trade = new TradeSystem(createScene(1).scene);
+    trade.shipArrival([{ goodId: 'good_pepper', quantity: 20 }]);
+
+    const restored = new TradeSystem(createScene(2).scene);
+    restored.loadSaveData(trade.getSaveData());
+
+    expect(restored.getMarketSummary()).toEqual(trade.getMarketSummary());
+    expect(restored.getPriceHistory('good_pepper')).toEqual(trade.getPriceHistory('good_pepper'));
+  });
+});
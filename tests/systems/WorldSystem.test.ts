@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { TimeSystem } from '../../src/systems/TimeSystem';
+import { WorldSystem } from '../../src/systems/WorldSystem';
+import { createScene, recordEvents } from '../helpers';
+
+function createWorldSystem(state: { reputation?: number; items?: string[]; gold?: number; hour?: number } = {}) {
+  const { headless, scene } = createScene();
+  const world = new WorldSystem(scene);
+  world.setStateCheckers({
+    reputation: () => state.reputation ?? 0,
+    inventory: item => state.items?.includes(item) ?? false,
+    gold: () => state.gold ?? 0,
+    time: () => state.hour ?? 12,
+  });
+  return { headless, world };
+}
+
+describe('WorldSystem', () => {
+  describe('checkRequirements', () => {
+    it('allows anything without requirements', () => {
+      const { world } = createWorldSystem();
+      expect(world.checkRequirements()).toEqual({ allowed: true });
+      expect(world.checkRequirements({})).toEqual({ allowed: true });
+    });
+
+    it('needs at least the minimum reputation', () => {
+      const requirement = { reputation: { faction: 'crown', minLevel: 10 } };
+
+      expect(createWorldSystem({ reputation: 10 }).world.checkRequirements(requirement).allowed).toBe(true);
+      expect(createWorldSystem({ reputation: 9 }).world.checkRequirements(requirement)).toEqual({
+        allowed: false,
+        reason: 'Requires 10 reputation with crown',
+      });
+    });
+
+    it('needs the item to be carried', () => {
+      const requirement = { item: 'item_customs_pass' };
+
+      expect(createWorldSystem({ items: ['item_customs_pass'] }).world.checkRequirements(requirement).allowed).toBe(true);
+      expect(createWorldSystem().world.checkRequirements(requirement)).toEqual({
+        allowed: false,
+        reason: 'Requires item: item_customs_pass',
+      });
+    });
+
+    it('needs enough gold', () => {
+      expect(createWorldSystem({ gold: 50 }).world.checkRequirements({ gold: 50 }).allowed).toBe(true);
+      expect(createWorldSystem({ gold: 49 }).world.checkRequirements({ gold: 50 }).reason).toBe('Requires 50 gold');
+    });
+
+    it('opens a daytime window from its start hour until its end hour', () => {
+      const requirement = { time: { startHour: 9, endHour: 17 } };
+      const allowedAt = (hour: number) => createWorldSystem({ hour }).world.checkRequirements(requirement).allowed;
+
+      expect(allowedAt(8)).toBe(false);
+      expect(allowedAt(9)).toBe(true);
+      expect(allowedAt(16)).toBe(true);
+      expect(allowedAt(17)).toBe(false);
+    });
+
+    it('opens an overnight window across midnight', () => {
+      const requirement = { time: { startHour: 20, endHour: 6 } };
+      const allowedAt = (hour: number) => createWorldSystem({ hour }).world.checkRequirements(requirement).allowed;
+
+      expect(allowedAt(19)).toBe(false);
+      expect(allowedAt(20)).toBe(true);
+      expect(allowedAt(0)).toBe(true);
+      expect(allowedAt(5)).toBe(true);
+      expect(allowedAt(6)).toBe(false);
+      expect(createWorldSystem({ hour: 12 }).world.checkRequirements(requirement).reason)
+        .toBe('Only accessible from 20:00 to 6:00');
+    });
+
+    it('honours a custom condition', () => {
+      const { world } = createWorldSystem();
+      expect(world.checkRequirements({ customCondition: () => true }).allowed).toBe(true);
+      expect(world.checkRequirements({ customCondition: () => false }).reason).toBe('Access requirements not met');
+    });
+
+    it('reports the first unmet requirement', () => {
+      const { world } = createWorldSystem({ reputation: 50, gold: 0, hour: 3 });
+      const check = world.checkRequirements({
+        reputation: { faction: 'crown', minLevel: 10 },
+        gold: 100,
+        time: { startHour: 9, endHour: 17 },
+      });
+      expect(check.reason).toBe('Requires 100 gold');
+    });
+
+    it('denies requirements it has no way to check', () => {
+      const { scene } = createScene();
+      const world = new WorldSystem(scene);
+      expect(world.checkRequirements({ item: 'item_customs_pass' }).allowed).toBe(false);
+      expect(world.checkRequirements({ gold: 1 }).allowed).toBe(false);
+    });
+  });
+
+  it('blocks a transition whose requirements are not met', () => {
+    const { headless, world } = createWorldSystem({ hour: 10 });
+    const blocked = recordEvents(headless, 'transitionBlocked');
+    world.setCurrentLocation('ribeira_grande');
+
+    const tavern = world.getAvailableConnections(true).find(c => c.connection.targetLocationId === 'tavern')!;
+    expect(tavern.accessible).toBe(false);
+    expect(world.attemptTransition(tavern.connection)).toBe(false);
+    expect(blocked).toHaveLength(1);
+    expect(world.getCurrentLocation()?.id).toBe('ribeira_grande');
+  });
+
+  it('moves the player when a transition is allowed, then briefly locks transitions', () => {
+    const { headless, world } = createWorldSystem({ hour: 18 });
+    world.setCurrentLocation('ribeira_grande');
+
+    const tavern = world.getAvailableConnections().find(c => c.connection.targetLocationId === 'tavern')!;
+    expect(world.attemptTransition(tavern.connection)).toBe(true);
+    expect(world.getCurrentLocation()?.id).toBe('tavern');
+    expect(world.isTransitioning()).toBe(true);
+
+    headless.time.advance(500);
+    expect(world.isTransitioning()).toBe(false);
+  });
+
+  it('times the walk along each road, in both directions', () => {
+    const { world } = createWorldSystem();
+    world.setCurrentLocation('ribeira_grande');
+    expect(world.getTravelMinutes(world.getConnectionTo('docks')!)).toBe(15);
+    expect(world.getConnectionTo('old_quarter')).toBeUndefined();
+
+    for (const location of world.getAllLocations()) {
+      for (const connection of location.connections) {
+        const back = world.getLocation(connection.targetLocationId)!.connections
+          .find(c => c.targetLocationId === location.id)!;
+        expect(world.getTravelMinutes(back)).toBe(world.getTravelMinutes(connection));
+      }
+    }
+    expect(world.getTravelMinutes({ targetLocationId: 'docks', transitionZone: { x: 0, y: 0, width: 1, height: 1 } }))
+      .toBe(WorldSystem.DEFAULT_TRAVEL_MINUTES);
+  });
+});
+
+describe('TimeSystem.advanceMinutes', () => {
+  it('announces every hour and day passed on the way', () => {
+    const { headless, scene } = createScene();
+    const time = new TimeSystem(scene);
+    time.loadSaveData({ hour: 23, minute: 30, dayCount: 1 });
+    const hours = recordEvents(headless, 'hourChange');
+    const days = recordEvents(headless, 'newDay');
+
+    time.advanceMinutes(95);
+    expect(time.getTimeData()).toMatchObject({ hour: 1, minute: 5, dayCount: 2 });
+    expect(hours).toHaveLength(2);
+    expect(days).toHaveLength(1);
+  });
+});
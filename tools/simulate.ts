@@ -0,0 +1,181 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { SimulationRunner, type SimulationResult, type SimulationStrategy } from '../src/simulation/SimulationRunner';
+import { createScriptedStrategy, createStrategy, STRATEGY_NAMES, type ScriptStep, type StrategyName } from '../src/simulation/strategies';
+import { dailyCsv, pricesCsv, rankUpsCsv, summarizeRuns } from '../src/simulation/reports';
+import { MerchantRank, ProgressionSystem } from '../src/systems/ProgressionSystem';
+import { RandomSystem } from '../src/systems/RandomSystem';
+
+/**
+ * Headless balancing simulation
+ *
+ *   npm run simulate -- --days 90 --runs 20 --strategy contractor
+ *
+ * Plays the economy forward for each run without a browser and writes
+ * daily gold, prices and rank-up times as CSV and/or JSON, plus a summary
+ * of how quickly the batch reached each merchant rank.
+ */
+
+interface CliOptions {
+  days: number;
+  runs: number;
+  seed: number;
+  strategy: StrategyName;
+  gold: number;
+  script?: string;
+  out: string;
+  format: 'csv' | 'json' | 'both';
+  verbose: boolean;
+}
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --days <n>          Game days per run (default 90)
+  --runs <n>          Number of runs, seeded seed, seed+1, ... (default 1)
+  --seed <n>          Seed of the first run (default: random)
+  --strategy <name>   ${STRATEGY_NAMES.join(' | ')} (default trader)
+  --gold <n>          Starting gold (default 100)
+  --script <file>     Replay a JSON list of steps instead of a strategy
+  --out <dir>         Output directory (default simulation-output)
+  --format <fmt>      csv | json | both (default both)
+  --verbose           Show the systems' console logging
+  --help              Show this message
+`;
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    days: 90,
+    runs: 1,
+    seed: RandomSystem.createSeed(),
+    strategy: 'trader',
+    gold: 100,
+    out: 'simulation-output',
+    format: 'both',
+    verbose: false,
+  };
+
+  const positiveInt = (flag: string, value: string | undefined): number => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      fail(`${flag} needs a positive whole number, got "${value ?? ''}"`);
+    }
+    return parsed;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    switch (flag) {
+      case '--days': options.days = positiveInt(flag, value); i++; break;
+      case '--runs': options.runs = positiveInt(flag, value); i++; break;
+      case '--seed': {
+        const seed = Number(value);
+        if (!Number.isInteger(seed)) fail(`--seed needs a whole number, got "${value ?? ''}"`);
+        options.seed = seed >>> 0;
+        i++;
+        break;
+      }
+      case '--strategy':
+        if (!STRATEGY_NAMES.includes(value as StrategyName)) {
+          fail(`Unknown strategy "${value ?? ''}", expected one of ${STRATEGY_NAMES.join(', ')}`);
+        }
+        options.strategy = value as StrategyName;
+        i++;
+        break;
+      case '--gold': options.gold = positiveInt(flag, value); i++; break;
+      case '--script': options.script = value; i++; break;
+      case '--out': options.out = value; i++; break;
+      case '--format':
+        if (value !== 'csv' && value !== 'json' && value !== 'both') {
+          fail(`--format must be csv, json or both, got "${value ?? ''}"`);
+        }
+        options.format = value;
+        i++;
+        break;
+      case '--verbose': options.verbose = true; break;
+      case '--help':
+        process.stdout.write(USAGE);
+        process.exit(0);
+      default:
+        fail(`Unknown option "${flag}"`);
+    }
+  }
+  return options;
+}
+
+function fail(message: string): never {
+  process.stderr.write(`simulate: ${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function loadScript(path: string): ScriptStep[] {
+  let steps: unknown;
+  try {
+    steps = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    fail(`Could not read script ${path}: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(steps) || steps.some(step => typeof step?.day !== 'number' || typeof step?.hour !== 'number')) {
+    fail(`Script ${path} must be a JSON array of steps with a day and an hour`);
+  }
+  return steps as ScriptStep[];
+}
+
+// Ranks above the starting one, in order
+function rankNames(progression: ProgressionSystem): string[] {
+  return Object.values(MerchantRank)
+    .filter((rank): rank is MerchantRank => typeof rank === 'number' && rank > MerchantRank.PEDDLER)
+    .map(rank => progression.getRankData(rank)?.name ?? String(rank));
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const script = options.script ? loadScript(options.script) : undefined;
+
+  // The systems log every trade and ship; keep the report readable
+  const log = console.log;
+  if (!options.verbose) {
+    console.log = () => undefined;
+  }
+
+  const results: SimulationResult[] = [];
+  let ranks: string[] = [];
+  for (let run = 0; run < options.runs; run++) {
+    const seed = (options.seed + run) >>> 0;
+    const strategy: SimulationStrategy = script ? createScriptedStrategy(script) : createStrategy(options.strategy);
+    const started = Date.now();
+    const runner = new SimulationRunner({ days: options.days, seed, strategy, startingGold: options.gold });
+    ranks = rankNames(runner.getProgressionSystem());
+    const result = runner.run();
+    results.push(result);
+    log(`Run ${run + 1}/${options.runs} seed ${seed}: ${result.finalGold} gold, ` +
+      `${result.finalRank}, ${Date.now() - started}ms`);
+  }
+
+  const summary = summarizeRuns(results, ranks);
+
+  mkdirSync(options.out, { recursive: true });
+  if (options.format !== 'json') {
+    writeFileSync(join(options.out, 'daily.csv'), dailyCsv(results));
+    writeFileSync(join(options.out, 'prices.csv'), pricesCsv(results));
+    writeFileSync(join(options.out, 'rank-ups.csv'), rankUpsCsv(results));
+  }
+  if (options.format !== 'csv') {
+    writeFileSync(join(options.out, 'results.json'), JSON.stringify(results, null, 2));
+  }
+  writeFileSync(join(options.out, 'summary.json'), JSON.stringify(summary, null, 2));
+
+  log('');
+  log(`${summary.strategy}, ${summary.runs} run(s) of ${summary.days} days`);
+  log(`Final gold: mean ${summary.finalGold.mean}, median ${summary.finalGold.median}, ` +
+    `range ${summary.finalGold.min}-${summary.finalGold.max}`);
+  for (const timing of summary.rankTimings) {
+    const when = timing.meanDay === null
+      ? 'never reached'
+      : `day ${timing.meanDay} on average (${timing.minDay}-${timing.maxDay}), ${Math.round(timing.share * 100)}% of runs`;
+    log(`  ${timing.rank.padEnd(10)} ${when}`);
+  }
+  log(`Reports written to ${options.out}/`);
+}
+
+main();